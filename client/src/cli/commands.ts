@@ -0,0 +1,286 @@
+/**
+ * CLI command parsing.
+ *
+ * Grammar (case-insensitive command words):
+ *   buy <symbol> <qty>@<price> [clientOrderId]
+ *   sell <symbol> <qty>@<price> [clientOrderId]
+ *   cancel <orderId|clientOrderId>
+ *   amend <orderId|clientOrderId> <qty>@<price>
+ *   flush
+ *   orders [all]
+ *   positions
+ *   trades
+ *   book <symbol> [levels]
+ *   codec csv|binary
+ *   status
+ *   help
+ *   quit
+ *
+ * An all-digit order reference is an order ID; anything else is looked up
+ * as a client order ID.
+ *
+ * @module cli/commands
+ */
+
+import { Side, Codec, getPriceScale } from '../protocol/index.js';
+import { parsePrice, parseQuantity, parseSymbol } from '../ui/utils/format.js';
+import { isValidClientOrderId } from '../store/index.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MAX_TOKENS = 8;
+const DEFAULT_BOOK_LEVELS = 10;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const CommandType = {
+  ORDER: 'ORDER',
+  CANCEL: 'CANCEL',
+  AMEND: 'AMEND',
+  FLUSH: 'FLUSH',
+  ORDERS: 'ORDERS',
+  POSITIONS: 'POSITIONS',
+  TRADES: 'TRADES',
+  BOOK: 'BOOK',
+  CODEC: 'CODEC',
+  STATUS: 'STATUS',
+  HELP: 'HELP',
+  QUIT: 'QUIT',
+} as const;
+
+export type CommandType = (typeof CommandType)[keyof typeof CommandType];
+
+export interface OrderCommand {
+  readonly type: typeof CommandType.ORDER;
+  readonly side: Side;
+  readonly symbol: string;
+  readonly quantity: number;
+  readonly price: number;
+  readonly clientOrderId: string | null;
+}
+
+/** An order named by its order ID or its client order ID (one is set). */
+export interface OrderRef {
+  readonly userOrderId: number | null;
+  readonly clientOrderId: string | null;
+}
+
+export interface CancelCommand extends OrderRef {
+  readonly type: typeof CommandType.CANCEL;
+}
+
+export interface AmendCommand extends OrderRef {
+  readonly type: typeof CommandType.AMEND;
+  readonly quantity: number;
+  readonly price: number;
+}
+
+export interface OrdersCommand {
+  readonly type: typeof CommandType.ORDERS;
+  // Include finished orders, not just working ones
+  readonly all: boolean;
+}
+
+export interface BookCommand {
+  readonly type: typeof CommandType.BOOK;
+  readonly symbol: string;
+  readonly levels: number;
+}
+
+export interface CodecCommand {
+  readonly type: typeof CommandType.CODEC;
+  readonly codec: Codec;
+}
+
+export interface SimpleCommand {
+  readonly type:
+    | typeof CommandType.FLUSH
+    | typeof CommandType.POSITIONS
+    | typeof CommandType.TRADES
+    | typeof CommandType.STATUS
+    | typeof CommandType.HELP
+    | typeof CommandType.QUIT;
+}
+
+export type Command =
+  | OrderCommand
+  | CancelCommand
+  | AmendCommand
+  | OrdersCommand
+  | BookCommand
+  | CodecCommand
+  | SimpleCommand;
+
+export interface ParseResult {
+  readonly success: boolean;
+  // null with success = blank line
+  readonly command: Command | null;
+  readonly error: string | null;
+}
+
+export const HELP_TEXT = [
+  'Commands:',
+  '  buy <symbol> <qty>@<price> [clientId]    Submit a buy order',
+  '  sell <symbol> <qty>@<price> [clientId]   Submit a sell order',
+  '  cancel <id|clientId>                     Cancel an order',
+  '  amend <id|clientId> <qty>@<price>        Cancel/replace an order',
+  '  flush                                    Cancel all working orders',
+  '  orders [all]                             Working orders (all: include finished)',
+  '  positions                                Positions and P&L',
+  '  trades                                   Recent fills',
+  '  book <symbol> [levels]                   Depth of book',
+  '  codec csv|binary                         Outbound codec',
+  '  status                                   Connection status',
+  '  help                                     This text',
+  '  quit                                     Exit',
+].join('\n');
+
+// ============================================================================
+// Parsing Helpers
+// ============================================================================
+
+function ok(command: Command | null): ParseResult {
+  return { success: true, command, error: null };
+}
+
+function fail(error: string): ParseResult {
+  return { success: false, command: null, error };
+}
+
+function parseOrderId(token: string | undefined): number | null {
+  if (token === undefined || !/^\d+$/.test(token)) {
+    return null;
+  }
+  const value = parseInt(token, 10);
+  return value > 0 ? value : null;
+}
+
+function parseOrderRef(token: string | undefined): OrderRef | null {
+  if (token === undefined) {
+    return null;
+  }
+  if (/^\d+$/.test(token)) {
+    const userOrderId = parseOrderId(token);
+    return userOrderId !== null ? { userOrderId, clientOrderId: null } : null;
+  }
+  return isValidClientOrderId(token) ? { userOrderId: null, clientOrderId: token } : null;
+}
+
+/**
+ * Parse `<qty>@<price>`, e.g. `100@150.25`. Without a `scale` (amend, where
+ * the symbol is not on the line) any price precision is accepted.
+ */
+function parseQuantityAtPrice(
+  token: string | undefined,
+  scale?: number
+): { quantity: number; price: number } | null {
+  if (token === undefined) {
+    return null;
+  }
+
+  const at = token.indexOf('@');
+  if (at <= 0) {
+    return null;
+  }
+
+  const quantity = parseQuantity(token.slice(0, at));
+  const price = parsePrice(token.slice(at + 1), scale);
+  if (quantity === null || price === null) {
+    return null;
+  }
+
+  return { quantity, price };
+}
+
+// ============================================================================
+// Command Parsing
+// ============================================================================
+
+export function parseCommand(line: string): ParseResult {
+  const tokens = line.trim().split(/\s+/).filter((t) => t !== '');
+  if (tokens.length === 0) {
+    return ok(null);
+  }
+  if (tokens.length > MAX_TOKENS) {
+    return fail('Too many arguments');
+  }
+
+  const word = tokens[0].toLowerCase();
+
+  if (word === 'buy' || word === 'sell') {
+    const symbol = tokens[1] !== undefined ? parseSymbol(tokens[1]) : null;
+    const spec = parseQuantityAtPrice(tokens[2], symbol !== null ? getPriceScale(symbol) : undefined);
+    const clientOrderId = tokens[3] ?? null;
+    if (symbol === null || spec === null ||
+        (clientOrderId !== null && !isValidClientOrderId(clientOrderId))) {
+      return fail(`Usage: ${word} <symbol> <qty>@<price> [clientId]`);
+    }
+    return ok({
+      type: CommandType.ORDER,
+      side: word === 'buy' ? Side.BUY : Side.SELL,
+      symbol,
+      quantity: spec.quantity,
+      price: spec.price,
+      clientOrderId,
+    });
+  }
+
+  if (word === 'cancel') {
+    const ref = parseOrderRef(tokens[1]);
+    if (ref === null) {
+      return fail('Usage: cancel <id|clientId>');
+    }
+    return ok({ type: CommandType.CANCEL, ...ref });
+  }
+
+  if (word === 'amend') {
+    const ref = parseOrderRef(tokens[1]);
+    const spec = parseQuantityAtPrice(tokens[2]);
+    if (ref === null || spec === null) {
+      return fail('Usage: amend <id|clientId> <qty>@<price>');
+    }
+    return ok({
+      type: CommandType.AMEND,
+      ...ref,
+      quantity: spec.quantity,
+      price: spec.price,
+    });
+  }
+
+  if (word === 'orders') {
+    return ok({ type: CommandType.ORDERS, all: tokens[1]?.toLowerCase() === 'all' });
+  }
+
+  if (word === 'book') {
+    const symbol = tokens[1] !== undefined ? parseSymbol(tokens[1]) : null;
+    const levels = tokens[2] !== undefined ? parseOrderId(tokens[2]) : DEFAULT_BOOK_LEVELS;
+    if (symbol === null || levels === null) {
+      return fail('Usage: book <symbol> [levels]');
+    }
+    return ok({ type: CommandType.BOOK, symbol, levels });
+  }
+
+  if (word === 'codec') {
+    const name = tokens[1]?.toLowerCase();
+    if (name === 'csv') {
+      return ok({ type: CommandType.CODEC, codec: Codec.CSV });
+    }
+    if (name === 'binary') {
+      return ok({ type: CommandType.CODEC, codec: Codec.BINARY });
+    }
+    return fail('Usage: codec csv|binary');
+  }
+
+  if (word === 'flush') return ok({ type: CommandType.FLUSH });
+  if (word === 'positions') return ok({ type: CommandType.POSITIONS });
+  if (word === 'trades') return ok({ type: CommandType.TRADES });
+  if (word === 'status') return ok({ type: CommandType.STATUS });
+  if (word === 'help' || word === '?') return ok({ type: CommandType.HELP });
+  if (word === 'quit' || word === 'exit') return ok({ type: CommandType.QUIT });
+
+  return fail(`Unknown command: ${tokens[0]} (try "help")`);
+}
@@ -0,0 +1,259 @@
+#!/usr/bin/env node
+/**
+ * Command-line trading client.
+ *
+ * Interactive REPL by default; with a command after the options it runs
+ * that one command, prints the result and exits:
+ *
+ *   npm run cli                                   # REPL
+ *   npm run cli -- buy AAPL 100@150.25            # one-shot
+ *   npm run cli -- --host relay1 --user 7 book AAPL
+ *
+ * Options:
+ *   --host <host>          Relay host (default localhost)
+ *   --orders-port <port>   Orders WebSocket port (default 9080)
+ *   --md-port <port>       Market data WebSocket port (default 9082, 0 = off)
+ *   --user <id>            User ID
+ *   --codec csv|binary     Outbound codec (default binary)
+ *
+ * State lives in the process: a one-shot command only sees what arrives
+ * while it runs. It exits with 1 when the command fails (order not acked,
+ * cancel not sent, and so on).
+ *
+ * @module cli
+ */
+
+import { createInterface } from 'node:readline';
+
+import { Codec, getPriceScale } from '../protocol/index.js';
+import { createStore, type Store, type ConnectionStatus } from '../store/index.js';
+import { type OrderEvent, OrderEventType } from '../client/index.js';
+import { ConnectionState } from '../transport/index.js';
+import { createOrderManager } from '../node.js';
+import { formatPrice, formatQuantity } from '../ui/utils/format.js';
+import { parseCommand, CommandType } from './commands.js';
+import { createCliSession } from './session.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const CONNECT_TIMEOUT_MS = 5000;
+const CONNECT_POLL_MS = 50;
+// Time a one-shot `book` waits for market data to arrive
+const MARKET_DATA_WAIT_MS = 1000;
+// Time a one-shot order command stays connected for the answers that follow
+// it (fills after an ack, a cancel-ack)
+const ORDER_SETTLE_MS = 500;
+const PROMPT = 'me> ';
+
+// ============================================================================
+// Options
+// ============================================================================
+
+interface CliOptions {
+  readonly host: string;
+  readonly ordersPort: number;
+  readonly marketDataPort: number | null;
+  readonly userId: number | null;
+  readonly codec: Codec;
+  // Remaining arguments: a one-shot command, empty for the REPL
+  readonly command: string;
+}
+
+function parseOptions(argv: readonly string[]): CliOptions | string {
+  let host = 'localhost';
+  let ordersPort = 9080;
+  let marketDataPort: number | null = 9082;
+  let userId: number | null = null;
+  let codec: Codec = Codec.BINARY;
+
+  let i = 0;
+  while (i < argv.length && argv[i].startsWith('--')) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+    if (value === undefined) {
+      return `Missing value for ${flag}`;
+    }
+
+    if (flag === '--host') {
+      host = value;
+    } else if (flag === '--orders-port') {
+      ordersPort = parseInt(value, 10);
+    } else if (flag === '--md-port') {
+      const port = parseInt(value, 10);
+      marketDataPort = port === 0 ? null : port;
+    } else if (flag === '--user') {
+      userId = parseInt(value, 10);
+    } else if (flag === '--codec') {
+      codec = value.toLowerCase() === 'csv' ? Codec.CSV : Codec.BINARY;
+    } else {
+      return `Unknown option ${flag}`;
+    }
+    i += 2;
+  }
+
+  if (!Number.isFinite(ordersPort) || (userId !== null && !Number.isFinite(userId))) {
+    return 'Invalid numeric option';
+  }
+
+  return { host, ordersPort, marketDataPort, userId, codec, command: argv.slice(i).join(' ') };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function waitForConnection(store: Store): Promise<boolean> {
+  return new Promise((resolve) => {
+    const startedAt = Date.now();
+    const intervalId = setInterval(() => {
+      const state = store.getConnection().ordersState;
+      if (state === ConnectionState.CONNECTED) {
+        clearInterval(intervalId);
+        resolve(true);
+      } else if (state === ConnectionState.FAILED || Date.now() - startedAt > CONNECT_TIMEOUT_MS) {
+        clearInterval(intervalId);
+        resolve(false);
+      }
+    }, CONNECT_POLL_MS);
+  });
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Asynchronous notifications printed while a command or the REPL runs. */
+function describeEvent(event: OrderEvent): string | null {
+  const id = `#${event.userOrderId}`;
+  if (event.type === OrderEventType.PARTIAL_FILL || event.type === OrderEventType.FILL) {
+    const kind = event.type === OrderEventType.FILL ? 'filled' : 'partially filled';
+    return `${id} ${kind}: ${formatQuantity(event.fillQuantity ?? 0)}@${formatPrice(event.fillPrice ?? 0, getPriceScale(event.symbol))}`;
+  }
+  if (event.type === OrderEventType.CANCEL_ACK) {
+    return `${id} cancelled`;
+  }
+  if (event.type === OrderEventType.ACK_TIMEOUT) {
+    return `${id} no ack received (timed out)`;
+  }
+  if (event.type === OrderEventType.DROPPED) {
+    return `${id} dropped from the outbound queue (not sent)`;
+  }
+  return null;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main(): Promise<number> {
+  const options = parseOptions(process.argv.slice(2));
+  if (typeof options === 'string') {
+    console.error(options);
+    return 2;
+  }
+
+  const store = createStore();
+  if (options.userId !== null) {
+    store.setUserId(options.userId);
+  }
+
+  const orderManager = createOrderManager(store, {
+    host: options.host,
+    ordersPort: options.ordersPort,
+    marketDataPort: options.marketDataPort,
+    codec: options.codec,
+  });
+
+  const session = createCliSession(store, orderManager, (text) => console.log(text));
+
+  orderManager.connect();
+  if (!(await waitForConnection(store))) {
+    const connection: ConnectionStatus = store.getConnection();
+    console.error(
+      `Could not connect to ${options.host}:${options.ordersPort}` +
+      (connection.lastError !== null ? ` (${connection.lastError})` : '')
+    );
+    orderManager.destroy();
+    return 1;
+  }
+
+  // One-shot
+  if (options.command !== '') {
+    const parsed = parseCommand(options.command);
+    let exitCode = 0;
+
+    if (!parsed.success || parsed.command === null) {
+      console.error(parsed.error ?? 'No command');
+      exitCode = 2;
+    } else {
+      const type = parsed.command.type;
+      if (type === CommandType.BOOK) {
+        await delay(MARKET_DATA_WAIT_MS);
+      }
+
+      const unsubscribe = orderManager.onOrderEvent((event: OrderEvent) => {
+        const text = describeEvent(event);
+        if (text !== null) {
+          console.log(text);
+        }
+      });
+      const result = await session.execute(parsed.command);
+      if (type === CommandType.ORDER || type === CommandType.CANCEL || type === CommandType.AMEND) {
+        await delay(ORDER_SETTLE_MS);
+      }
+      unsubscribe();
+
+      exitCode = result.success ? 0 : 1;
+    }
+
+    orderManager.destroy();
+    return exitCode;
+  }
+
+  // REPL
+  const rl = createInterface({ input: process.stdin, output: process.stdout, prompt: PROMPT });
+
+  const unsubscribe = orderManager.onOrderEvent((event: OrderEvent) => {
+    const text = describeEvent(event);
+    if (text !== null) {
+      console.log(`\n${text}`);
+      rl.prompt(true);
+    }
+  });
+
+  console.log(`Connected to ${options.host}:${options.ordersPort} as user ${store.getUserId()}`);
+  console.log('Type "help" for commands.');
+  rl.prompt();
+
+  for await (const line of rl) {
+    const parsed = parseCommand(line);
+
+    if (!parsed.success) {
+      console.log(parsed.error);
+    } else if (parsed.command !== null) {
+      const result = await session.execute(parsed.command);
+      if (result.quit) {
+        break;
+      }
+    }
+
+    rl.prompt();
+  }
+
+  unsubscribe();
+  rl.close();
+  orderManager.destroy();
+  return 0;
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err: unknown) => {
+    console.error(err);
+    process.exitCode = 1;
+  }
+);
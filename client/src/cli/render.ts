@@ -0,0 +1,213 @@
+/**
+ * Plain-text rendering of store state for the CLI.
+ *
+ * Uses the same format helpers as the browser UI so numbers look the
+ * same in both.
+ *
+ * @module cli/render
+ */
+
+import { getPriceScale } from '../protocol/index.js';
+import {
+  type Store,
+  type Order,
+  type Position,
+  type Trade,
+  OrderStatus,
+} from '../store/index.js';
+import {
+  formatPrice,
+  formatQuantity,
+  formatPnl,
+  formatSide,
+  formatOrderStatus,
+  formatConnectionStatus,
+  formatCodec,
+  formatTime,
+  formatFeedHealth,
+} from '../ui/utils/format.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MAX_ROWS = 100;
+const COLUMN_GAP = '  ';
+
+// ============================================================================
+// Table Layout
+// ============================================================================
+
+/**
+ * Lay out rows as aligned columns. Columns listed in `rightAligned`
+ * (numbers) are padded on the left.
+ */
+export function renderTable(
+  headers: readonly string[],
+  rows: readonly (readonly string[])[],
+  rightAligned: readonly number[]
+): string {
+  const widths = headers.map((h) => h.length);
+  const rowCount = Math.min(rows.length, MAX_ROWS);
+
+  for (let r = 0; r < rowCount; r += 1) {
+    for (let c = 0; c < headers.length; c += 1) {
+      widths[c] = Math.max(widths[c], (rows[r][c] ?? '').length);
+    }
+  }
+
+  function formatRow(cells: readonly string[]): string {
+    const parts: string[] = [];
+    for (let c = 0; c < headers.length; c += 1) {
+      const cell = cells[c] ?? '';
+      parts.push(rightAligned.includes(c) ? cell.padStart(widths[c]) : cell.padEnd(widths[c]));
+    }
+    return parts.join(COLUMN_GAP).trimEnd();
+  }
+
+  const lines: string[] = [formatRow(headers)];
+  lines.push(widths.map((w) => '-'.repeat(w)).join(COLUMN_GAP));
+  for (let r = 0; r < rowCount; r += 1) {
+    lines.push(formatRow(rows[r]));
+  }
+  if (rows.length > rowCount) {
+    lines.push(`... ${rows.length - rowCount} more`);
+  }
+  return lines.join('\n');
+}
+
+// ============================================================================
+// State Views
+// ============================================================================
+
+function isWorking(order: Order): boolean {
+  return (
+    order.status === OrderStatus.QUEUED ||
+    order.status === OrderStatus.PENDING ||
+    order.status === OrderStatus.ACKED ||
+    order.status === OrderStatus.PARTIAL ||
+    order.status === OrderStatus.TIMED_OUT
+  );
+}
+
+export function renderOrders(store: Store, all: boolean): string {
+  const userId = store.getUserId();
+  const orders: Order[] = [];
+
+  store.getOrders().forEach((order: Order) => {
+    if (order.userId === userId && (all || isWorking(order))) {
+      orders.push(order);
+    }
+  });
+
+  if (orders.length === 0) {
+    return all ? 'No orders' : 'No working orders';
+  }
+
+  orders.sort((a, b) => a.userOrderId - b.userOrderId);
+
+  const rows = orders.map((o) => [
+    o.userOrderId.toString(),
+    o.clientOrderId ?? '',
+    o.symbol,
+    formatSide(o.side),
+    formatPrice(o.price, getPriceScale(o.symbol)),
+    formatQuantity(o.quantity),
+    formatQuantity(o.filledQuantity),
+    formatOrderStatus(o.status),
+  ]);
+
+  return renderTable(
+    ['ID', 'Client ID', 'Symbol', 'Side', 'Price', 'Qty', 'Filled', 'Status'], rows, [0, 4, 5, 6]
+  );
+}
+
+export function renderPositions(store: Store): string {
+  const positions: Position[] = [];
+  store.getPositions().forEach((p: Position) => positions.push(p));
+
+  if (positions.length === 0) {
+    return 'No positions';
+  }
+
+  const rows = positions.map((p) => [
+    p.symbol,
+    formatQuantity(p.netQuantity),
+    formatPrice(p.avgBuyPrice, getPriceScale(p.symbol)),
+    formatPrice(p.avgSellPrice, getPriceScale(p.symbol)),
+    formatPnl(p.realizedPnl),
+    formatPnl(p.unrealizedPnl),
+  ]);
+
+  return renderTable(
+    ['Symbol', 'Net', 'Avg Buy', 'Avg Sell', 'Realized', 'Unrealized'],
+    rows,
+    [1, 2, 3, 4, 5]
+  );
+}
+
+export function renderTrades(store: Store): string {
+  const trades = store.getTrades();
+
+  if (trades.length === 0) {
+    return 'No trades';
+  }
+
+  const rows = trades.map((t: Trade) => [
+    formatTime(t.timestamp),
+    t.symbol,
+    t.selfTrade ? `${formatSide(t.side)} (self)` : formatSide(t.side),
+    formatPrice(t.price, getPriceScale(t.symbol)),
+    formatQuantity(t.quantity),
+    t.userOrderId.toString(),
+  ]);
+
+  return renderTable(['Time', 'Symbol', 'Side', 'Price', 'Qty', 'Order'], rows, [3, 4, 5]);
+}
+
+export function renderBook(store: Store, symbol: string, levels: number): string {
+  const book = store.getOrderBook(symbol);
+
+  if (book === null || (book.bids.length === 0 && book.asks.length === 0)) {
+    return `No market data for ${symbol}`;
+  }
+
+  // Asks above bids, best prices meeting in the middle
+  const scale = getPriceScale(symbol);
+  const rows: string[][] = [];
+  const askCount = Math.min(book.asks.length, levels);
+  for (let i = askCount - 1; i >= 0; i -= 1) {
+    const level = book.asks[i];
+    rows.push(['', formatPrice(level.price, scale), formatQuantity(level.quantity)]);
+  }
+
+  const bidCount = Math.min(book.bids.length, levels);
+  for (let i = 0; i < bidCount; i += 1) {
+    const level = book.bids[i];
+    rows.push([formatQuantity(level.quantity), formatPrice(level.price, scale), '']);
+  }
+
+  return `${symbol}\n` + renderTable(['Bid Qty', 'Price', 'Ask Qty'], rows, [0, 1, 2]);
+}
+
+export function renderStatus(store: Store): string {
+  const connection = store.getConnection();
+  const lines = [
+    `User:        ${store.getUserId()}`,
+    `Orders:      ${formatConnectionStatus(connection.ordersState)}`,
+    `Market data: ${
+      connection.marketDataState === null
+        ? 'Disabled'
+        : formatConnectionStatus(connection.marketDataState)
+    }`,
+    `Codec:       ${formatCodec(connection.outboundCodec)}`,
+    `Sent/Recv:   ${connection.messagesSent}/${connection.messagesReceived}`,
+  ];
+  if (connection.marketDataFeed !== null) {
+    lines.push(`Feed:        ${formatFeedHealth(connection.marketDataFeed)}`);
+  }
+  if (connection.lastError !== null) {
+    lines.push(`Last error:  ${connection.lastError}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,171 @@
+/**
+ * CLI session: executes parsed commands against an order manager and
+ * writes the outcome as text.
+ *
+ * Order commands wait for the engine's answer (ack, reject or timeout)
+ * before returning, so one-shot invocations can exit with a result.
+ *
+ * @module cli/session
+ */
+
+import { getPriceScale } from '../protocol/index.js';
+import { type Store } from '../store/index.js';
+import { type OrderManager, AckOutcome } from '../client/index.js';
+import { formatPrice, formatQuantity, formatSide } from '../ui/utils/format.js';
+import { type Command, type OrderRef, CommandType, HELP_TEXT } from './commands.js';
+import {
+  renderOrders,
+  renderPositions,
+  renderTrades,
+  renderBook,
+  renderStatus,
+} from './render.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type OutputWriter = (text: string) => void;
+
+export interface CommandResult {
+  // The command did what it asked: order acked, cancel sent, and so on
+  readonly success: boolean;
+  // The session should end
+  readonly quit: boolean;
+}
+
+export interface CliSession {
+  /** Run one command and report how it went. */
+  execute(command: Command): Promise<CommandResult>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DONE: CommandResult = { success: true, quit: false };
+const FAILED: CommandResult = { success: false, quit: false };
+
+// ============================================================================
+// CLI Session
+// ============================================================================
+
+export function createCliSession(
+  store: Store,
+  orderManager: OrderManager,
+  write: OutputWriter
+): CliSession {
+  function resolveOrderId(ref: OrderRef): number | null {
+    if (ref.userOrderId !== null) {
+      return ref.userOrderId;
+    }
+    return ref.clientOrderId !== null
+      ? orderManager.getOrderIdByClientOrderId(ref.clientOrderId)
+      : null;
+  }
+
+  function describeRef(ref: OrderRef): string {
+    return ref.userOrderId !== null ? `#${ref.userOrderId}` : `'${ref.clientOrderId ?? ''}'`;
+  }
+
+  async function execute(command: Command): Promise<CommandResult> {
+    if (command.type === CommandType.ORDER) {
+      const label =
+        `${formatSide(command.side)} ${command.symbol} ` +
+        `${formatQuantity(command.quantity)}@${formatPrice(command.price, getPriceScale(command.symbol))}`;
+      const handle = orderManager.placeOrder(
+        command.symbol, command.side, command.price, command.quantity,
+        store.getUserId(), command.clientOrderId
+      );
+      const result = await handle.acknowledged;
+
+      if (result.outcome === AckOutcome.ACKED) {
+        write(`#${result.userOrderId} ${label}: acked`);
+      } else if (result.outcome === AckOutcome.REJECTED) {
+        write(`#${result.userOrderId} ${label}: rejected (${result.reason ?? 'unknown'})`);
+      } else {
+        write(`#${result.userOrderId} ${label}: ${result.outcome} ${result.error ?? ''}`.trimEnd());
+      }
+      return result.outcome === AckOutcome.ACKED ? DONE : FAILED;
+    }
+
+    if (command.type === CommandType.CANCEL) {
+      const userOrderId = resolveOrderId(command);
+      const order = userOrderId !== null ? store.getOrder(store.getUserId(), userOrderId) : null;
+      if (order === null) {
+        write(`Unknown order ${describeRef(command)}`);
+        return FAILED;
+      }
+      const sent = orderManager.cancelOrder(order.symbol, order.userOrderId);
+      write(sent.success
+        ? `Cancel sent for #${order.userOrderId}`
+        : `Cancel failed: ${sent.error ?? 'unknown error'}`);
+      return sent.success ? DONE : FAILED;
+    }
+
+    if (command.type === CommandType.AMEND) {
+      const userOrderId = resolveOrderId(command);
+      if (userOrderId === null) {
+        write(`Unknown order ${describeRef(command)}`);
+        return FAILED;
+      }
+      const result = await orderManager.amendOrder(userOrderId, command.price, command.quantity);
+      if (result.replacement === null) {
+        write(`Amend #${userOrderId}: ${result.outcome} ${result.error ?? ''}`.trimEnd());
+        return FAILED;
+      }
+      const ack = await result.replacement.acknowledged;
+      write(`#${userOrderId} replaced by #${result.replacement.userOrderId}: ${ack.outcome}`);
+      return ack.outcome === AckOutcome.ACKED ? DONE : FAILED;
+    }
+
+    if (command.type === CommandType.FLUSH) {
+      const result = await orderManager.flushAllOrders();
+      write(
+        `Flush: ${result.cancelled} cancelled, ${result.fallbackCancels} individual cancels, ` +
+        `${result.remaining} remaining`
+      );
+      return result.success ? DONE : FAILED;
+    }
+
+    if (command.type === CommandType.ORDERS) {
+      write(renderOrders(store, command.all));
+      return DONE;
+    }
+
+    if (command.type === CommandType.POSITIONS) {
+      write(renderPositions(store));
+      return DONE;
+    }
+
+    if (command.type === CommandType.TRADES) {
+      write(renderTrades(store));
+      return DONE;
+    }
+
+    if (command.type === CommandType.BOOK) {
+      write(renderBook(store, command.symbol, command.levels));
+      return DONE;
+    }
+
+    if (command.type === CommandType.CODEC) {
+      orderManager.setCodec(command.codec);
+      write(`Codec set to ${command.codec}`);
+      return DONE;
+    }
+
+    if (command.type === CommandType.STATUS) {
+      write(renderStatus(store));
+      return DONE;
+    }
+
+    if (command.type === CommandType.HELP) {
+      write(HELP_TEXT);
+      return DONE;
+    }
+
+    return { success: true, quit: true }; // QUIT
+  }
+
+  return { execute };
+}
@@ -10,4 +10,50 @@ export {
   type OrderManagerConfig,
   type OrderResult,
   type CancelResult,
+  type FlushResult,
 } from './order-manager.js';
+
+export {
+  createOrderEventHub,
+  OrderEventType,
+  AckOutcome,
+  CancelOutcome,
+  AmendOutcome,
+  type OrderEvent,
+  type OrderEventHandler,
+  type OrderEventHub,
+  type OrderAckResult,
+  type OrderCancelResult,
+  type OrderAmendResult,
+  type OrderHandle,
+} from './order-events.js';
+
+export {
+  createRiskChecker,
+  RiskRejectReason,
+  DEFAULT_RISK_LIMITS,
+  type RiskChecker,
+  type RiskLimits,
+  type RiskCheckResult,
+  type PendingExposure,
+} from './risk-checks.js';
+
+export {
+  SelfTradePolicy,
+  checkSelfTrade,
+  findCrossingOrders,
+  type SelfTradeDecision,
+} from './self-trade.js';
+
+export {
+  createOrderLatencyTracker,
+  createLatencyHistogram,
+  LatencyMetric,
+  DEFAULT_LATENCY_WINDOW_MS,
+  type OrderLatencyTracker,
+  type OrderLatencyTrackerOptions,
+  type OrderLatencyStats,
+  type LatencySeries,
+  type LatencyHistogram,
+  type HistogramSnapshot,
+} from './order-latency.js';
@@ -0,0 +1,506 @@
+/**
+ * Order lifecycle events and awaitable order handles.
+ *
+ * The order manager emits an event for every engine response that
+ * concerns one of our orders. The hub fans those events out to global
+ * listeners and to per-order handles, and settles the promises that
+ * scripts and UI components await (ack/reject, cancel-ack). Ack timeouts
+ * are detected by the order manager and arrive here as ACK_TIMEOUT events;
+ * cancel waits have their own timeout.
+ *
+ * Promises never reject: like the rest of the client they resolve with a
+ * result object describing the outcome.
+ *
+ * @module client/order-events
+ */
+
+import { type RejectReason } from '../protocol/index.js';
+import { type Order, OrderStatus } from '../store/index.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MAX_TRACKED_ORDERS = 256;
+const MAX_HANDLERS_PER_ORDER = 8;
+const MAX_GLOBAL_HANDLERS = 32;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const OrderEventType = {
+  ACK: 'ACK',
+  REJECT: 'REJECT',
+  PARTIAL_FILL: 'PARTIAL_FILL',
+  FILL: 'FILL',
+  CANCEL_ACK: 'CANCEL_ACK',
+  // No Ack/Reject within the ack timeout; a late response may still follow
+  ACK_TIMEOUT: 'ACK_TIMEOUT',
+  // The order left the outbound queue unsent
+  DROPPED: 'DROPPED',
+  // A cancel left the outbound queue unsent; the order is unchanged
+  CANCEL_DROPPED: 'CANCEL_DROPPED',
+} as const;
+
+export type OrderEventType = (typeof OrderEventType)[keyof typeof OrderEventType];
+
+export interface OrderEvent {
+  readonly type: OrderEventType;
+  readonly symbol: string;
+  readonly userId: number;
+  readonly userOrderId: number;
+  // Store snapshot of the order after the event was applied
+  readonly order: Order | null;
+  readonly fillPrice: number | null;
+  readonly fillQuantity: number | null;
+  readonly reason: RejectReason | null;
+  readonly timestamp: number;
+}
+
+export type OrderEventHandler = (event: OrderEvent) => void;
+
+export const AckOutcome = {
+  ACKED: 'ACKED',
+  REJECTED: 'REJECTED',
+  TIMED_OUT: 'TIMED_OUT',
+  // Queued while disconnected and dropped before it was sent
+  DROPPED: 'DROPPED',
+  FAILED: 'FAILED',
+} as const;
+
+export type AckOutcome = (typeof AckOutcome)[keyof typeof AckOutcome];
+
+export interface OrderAckResult {
+  readonly outcome: AckOutcome;
+  readonly userOrderId: number;
+  readonly order: Order | null;
+  readonly reason: RejectReason | null;
+  readonly error: string | null;
+}
+
+export const CancelOutcome = {
+  CANCELLED: 'CANCELLED',
+  REJECTED: 'REJECTED',
+  TIMED_OUT: 'TIMED_OUT',
+  FAILED: 'FAILED',
+} as const;
+
+export type CancelOutcome = (typeof CancelOutcome)[keyof typeof CancelOutcome];
+
+export interface OrderCancelResult {
+  readonly outcome: CancelOutcome;
+  readonly userOrderId: number;
+  readonly reason: RejectReason | null;
+  readonly error: string | null;
+}
+
+export const AmendOutcome = {
+  // Original cancelled and replacement sent; see `replacement`
+  REPLACED: 'REPLACED',
+  // Fills raced the cancel and left nothing to replace
+  FILLED: 'FILLED',
+  // Engine refused the cancel; the original order is unchanged
+  REJECTED: 'REJECTED',
+  TIMED_OUT: 'TIMED_OUT',
+  // The cancel, or the replacement after it, could not be sent; see `error`
+  FAILED: 'FAILED',
+} as const;
+
+export type AmendOutcome = (typeof AmendOutcome)[keyof typeof AmendOutcome];
+
+export interface OrderAmendResult {
+  readonly outcome: AmendOutcome;
+  readonly originalOrderId: number;
+  readonly replacement: OrderHandle | null;
+  readonly error: string | null;
+}
+
+/**
+ * Handle returned by `OrderManager.placeOrder`.
+ *
+ * `acknowledged` resolves once on Ack, Reject, timeout or send failure.
+ * Fill and cancel-ack events keep arriving through `onEvent` until the
+ * order reaches a terminal state.
+ */
+export interface OrderHandle {
+  readonly userOrderId: number;
+  readonly clientOrderId: string | null;
+  readonly acknowledged: Promise<OrderAckResult>;
+  onEvent(handler: OrderEventHandler): () => void;
+  cancel(timeoutMs?: number): Promise<OrderCancelResult>;
+}
+
+interface TrackedOrder {
+  readonly userId: number;
+  readonly userOrderId: number;
+  readonly handlers: (OrderEventHandler | null)[];
+  resolveAck: ((result: OrderAckResult) => void) | null;
+  resolveCancel: ((result: OrderCancelResult) => void) | null;
+  cancelTimeoutId: ReturnType<typeof setTimeout> | null;
+}
+
+// ============================================================================
+// Order Event Hub
+// ============================================================================
+
+export interface OrderEventHub {
+  emit(event: OrderEvent): void;
+  onEvent(handler: OrderEventHandler): () => void;
+  track(userId: number, userOrderId: number): Promise<OrderAckResult> | null;
+  onOrderEvent(userId: number, userOrderId: number, handler: OrderEventHandler): () => void;
+  awaitCancel(userId: number, userOrderId: number, timeoutMs: number): Promise<OrderCancelResult>;
+  isTracked(userId: number, userOrderId: number): boolean;
+  /** A free slot for track(); check before sending an order that needs one. */
+  canTrack(): boolean;
+  destroy(): void;
+}
+
+export function createOrderEventHub(): OrderEventHub {
+  // --------------------------------------------------------------------------
+  // State
+  // --------------------------------------------------------------------------
+
+  const tracked: (TrackedOrder | null)[] = new Array(MAX_TRACKED_ORDERS).fill(null);
+
+  const globalHandlers: (OrderEventHandler | null)[] = new Array(
+    MAX_GLOBAL_HANDLERS
+  ).fill(null);
+
+  // --------------------------------------------------------------------------
+  // Tracking Slots
+  // --------------------------------------------------------------------------
+
+  function findIndex(userId: number, userOrderId: number): number {
+    // Bounded loop
+    for (let i = 0; i < MAX_TRACKED_ORDERS; i += 1) {
+      const entry = tracked[i];
+      if (entry !== null && entry.userId === userId && entry.userOrderId === userOrderId) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  function allocate(userId: number, userOrderId: number): TrackedOrder | null {
+    const existing = findIndex(userId, userOrderId);
+    if (existing !== -1) {
+      return tracked[existing];
+    }
+
+    for (let i = 0; i < MAX_TRACKED_ORDERS; i += 1) {
+      if (tracked[i] === null) {
+        const entry: TrackedOrder = {
+          userId,
+          userOrderId,
+          handlers: new Array(MAX_HANDLERS_PER_ORDER).fill(null),
+          resolveAck: null,
+          resolveCancel: null,
+          cancelTimeoutId: null,
+        };
+        tracked[i] = entry;
+        return entry;
+      }
+    }
+    return null;
+  }
+
+  function release(index: number): void {
+    const entry = tracked[index];
+    if (entry === null) {
+      return;
+    }
+    if (entry.cancelTimeoutId !== null) {
+      clearTimeout(entry.cancelTimeoutId);
+    }
+    tracked[index] = null;
+  }
+
+  function settleAck(entry: TrackedOrder, result: OrderAckResult): void {
+    const resolve = entry.resolveAck;
+    entry.resolveAck = null;
+    if (resolve !== null) {
+      resolve(result);
+    }
+  }
+
+  function settleCancel(entry: TrackedOrder, result: OrderCancelResult): void {
+    if (entry.cancelTimeoutId !== null) {
+      clearTimeout(entry.cancelTimeoutId);
+      entry.cancelTimeoutId = null;
+    }
+    const resolve = entry.resolveCancel;
+    entry.resolveCancel = null;
+    if (resolve !== null) {
+      resolve(result);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Dispatch
+  // --------------------------------------------------------------------------
+
+  function isTerminal(event: OrderEvent): boolean {
+    return (
+      event.type === OrderEventType.FILL ||
+      event.type === OrderEventType.CANCEL_ACK ||
+      (event.type === OrderEventType.REJECT && event.order?.status === OrderStatus.REJECTED) ||
+      (event.type === OrderEventType.DROPPED && event.order?.status === OrderStatus.DROPPED)
+    );
+  }
+
+  /** Nothing left to deliver: no listeners and no unsettled promises. */
+  function isIdle(entry: TrackedOrder): boolean {
+    if (entry.resolveAck !== null || entry.resolveCancel !== null) {
+      return false;
+    }
+    for (let i = 0; i < MAX_HANDLERS_PER_ORDER; i += 1) {
+      if (entry.handlers[i] !== null) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  function emit(event: OrderEvent): void {
+    // Global listeners (bounded loop)
+    for (let i = 0; i < MAX_GLOBAL_HANDLERS; i += 1) {
+      const handler = globalHandlers[i];
+      if (handler !== null) {
+        handler(event);
+      }
+    }
+
+    const index = findIndex(event.userId, event.userOrderId);
+    if (index === -1) {
+      return;
+    }
+    const entry = tracked[index]!;
+
+    // Per-order listeners (bounded loop)
+    for (let i = 0; i < MAX_HANDLERS_PER_ORDER; i += 1) {
+      const handler = entry.handlers[i];
+      if (handler !== null) {
+        handler(event);
+      }
+    }
+
+    if (event.type === OrderEventType.ACK) {
+      settleAck(entry, {
+        outcome: AckOutcome.ACKED,
+        userOrderId: event.userOrderId,
+        order: event.order,
+        reason: null,
+        error: null,
+      });
+    } else if (event.type === OrderEventType.REJECT) {
+      if (entry.resolveAck !== null) {
+        settleAck(entry, {
+          outcome: AckOutcome.REJECTED,
+          userOrderId: event.userOrderId,
+          order: event.order,
+          reason: event.reason,
+          error: null,
+        });
+      } else {
+        // A reject after the ack refers to our cancel request
+        settleCancel(entry, {
+          outcome: CancelOutcome.REJECTED,
+          userOrderId: event.userOrderId,
+          reason: event.reason,
+          error: null,
+        });
+      }
+    } else if (event.type === OrderEventType.ACK_TIMEOUT) {
+      settleAck(entry, {
+        outcome: AckOutcome.TIMED_OUT,
+        userOrderId: event.userOrderId,
+        order: event.order,
+        reason: null,
+        error: 'No ack before timeout',
+      });
+    } else if (event.type === OrderEventType.DROPPED) {
+      settleAck(entry, {
+        outcome: AckOutcome.DROPPED,
+        userOrderId: event.userOrderId,
+        order: event.order,
+        reason: null,
+        error: 'Dropped from the outbound queue',
+      });
+    } else if (event.type === OrderEventType.CANCEL_DROPPED) {
+      settleCancel(entry, {
+        outcome: CancelOutcome.FAILED,
+        userOrderId: event.userOrderId,
+        reason: null,
+        error: 'Cancel dropped from the outbound queue',
+      });
+    } else if (event.type === OrderEventType.CANCEL_ACK) {
+      settleCancel(entry, {
+        outcome: CancelOutcome.CANCELLED,
+        userOrderId: event.userOrderId,
+        reason: null,
+        error: null,
+      });
+    } else if (event.type === OrderEventType.FILL) {
+      // Filled before the cancel landed: nothing left to cancel
+      settleCancel(entry, {
+        outcome: CancelOutcome.REJECTED,
+        userOrderId: event.userOrderId,
+        reason: null,
+        error: 'Order filled',
+      });
+    }
+
+    if (isTerminal(event) || isIdle(entry)) {
+      release(index);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Public API
+  // --------------------------------------------------------------------------
+
+  function onEvent(handler: OrderEventHandler): () => void {
+    for (let i = 0; i < MAX_GLOBAL_HANDLERS; i += 1) {
+      if (globalHandlers[i] === null) {
+        globalHandlers[i] = handler;
+        const slot = i;
+        return () => {
+          globalHandlers[slot] = null;
+        };
+      }
+    }
+    console.warn('Max order event handlers reached');
+    return () => {};
+  }
+
+  function track(userId: number, userOrderId: number): Promise<OrderAckResult> | null {
+    const entry = allocate(userId, userOrderId);
+    if (entry === null) {
+      return null;
+    }
+
+    return new Promise<OrderAckResult>((resolve) => {
+      entry.resolveAck = resolve;
+    });
+  }
+
+  function onOrderEvent(
+    userId: number,
+    userOrderId: number,
+    handler: OrderEventHandler
+  ): () => void {
+    const entry = allocate(userId, userOrderId);
+    if (entry === null) {
+      console.warn('Max tracked orders reached');
+      return () => {};
+    }
+
+    for (let i = 0; i < MAX_HANDLERS_PER_ORDER; i += 1) {
+      if (entry.handlers[i] === null) {
+        entry.handlers[i] = handler;
+        const slot = i;
+        return () => {
+          entry.handlers[slot] = null;
+        };
+      }
+    }
+
+    console.warn(`Max handlers reached for order ${userOrderId}`);
+    return () => {};
+  }
+
+  function awaitCancel(
+    userId: number,
+    userOrderId: number,
+    timeoutMs: number
+  ): Promise<OrderCancelResult> {
+    const entry = allocate(userId, userOrderId);
+    if (entry === null) {
+      return Promise.resolve({
+        outcome: CancelOutcome.FAILED,
+        userOrderId,
+        reason: null,
+        error: 'Too many tracked orders',
+      });
+    }
+
+    // A second cancel supersedes the first
+    settleCancel(entry, {
+      outcome: CancelOutcome.FAILED,
+      userOrderId,
+      reason: null,
+      error: 'Superseded by a newer cancel',
+    });
+
+    return new Promise<OrderCancelResult>((resolve) => {
+      entry.resolveCancel = resolve;
+      entry.cancelTimeoutId = setTimeout(() => {
+        entry.cancelTimeoutId = null;
+        settleCancel(entry, {
+          outcome: CancelOutcome.TIMED_OUT,
+          userOrderId,
+          reason: null,
+          error: `No cancel ack within ${timeoutMs}ms`,
+        });
+      }, timeoutMs);
+    });
+  }
+
+  function isTracked(userId: number, userOrderId: number): boolean {
+    return findIndex(userId, userOrderId) !== -1;
+  }
+
+  function canTrack(): boolean {
+    // Bounded loop
+    for (let i = 0; i < MAX_TRACKED_ORDERS; i += 1) {
+      if (tracked[i] === null) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  function destroy(): void {
+    // Settle everything still outstanding (bounded loop)
+    for (let i = 0; i < MAX_TRACKED_ORDERS; i += 1) {
+      const entry = tracked[i];
+      if (entry === null) {
+        continue;
+      }
+      settleAck(entry, {
+        outcome: AckOutcome.FAILED,
+        userOrderId: entry.userOrderId,
+        order: null,
+        reason: null,
+        error: 'Order manager destroyed',
+      });
+      settleCancel(entry, {
+        outcome: CancelOutcome.FAILED,
+        userOrderId: entry.userOrderId,
+        reason: null,
+        error: 'Order manager destroyed',
+      });
+      release(i);
+    }
+
+    for (let i = 0; i < MAX_GLOBAL_HANDLERS; i += 1) {
+      globalHandlers[i] = null;
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Return interface
+  // --------------------------------------------------------------------------
+
+  return {
+    emit,
+    onEvent,
+    track,
+    onOrderEvent,
+    awaitCancel,
+    isTracked,
+    canTrack,
+    destroy,
+  };
+}
@@ -0,0 +1,435 @@
+/**
+ * Order latency: how long the engine takes to answer our orders.
+ *
+ * The order manager reports each order and cancel as it goes out and as
+ * the engine answers. Three latencies are measured:
+ * - ACK: new order sent -> Ack or Reject
+ * - FIRST_FILL: new order sent -> its first trade
+ * - CANCEL_ACK: cancel sent -> cancel-ack
+ *
+ * Each goes into a rolling histogram per symbol and per outbound codec,
+ * so CSV and BINARY can be compared and a slow engine shows up in the
+ * percentiles. Histograms are HDR-style: values are bucketed log-linearly
+ * in microseconds, so every bucket is within ~6% of the values in it, and
+ * memory is fixed regardless of how many orders are recorded.
+ *
+ * @module client/order-latency
+ */
+
+import { type Codec } from '../protocol/index.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Buckets below this are exact microseconds; above it each power of two
+// is split into SUB_BUCKETS linear buckets
+const EXACT_LIMIT_US = 32;
+const SUB_BUCKETS = 16;
+const SUB_BUCKET_BITS = 4;
+// Longest recordable latency (~67 s); longer values land in the top bucket
+const MAX_VALUE_US = 2 ** 26 - 1;
+const MAX_MAGNITUDE = 25;
+const BUCKET_COUNT = EXACT_LIMIT_US + (MAX_MAGNITUDE - 4) * SUB_BUCKETS;
+
+export const DEFAULT_LATENCY_WINDOW_MS = 60000;
+
+// Orders awaiting their ack or first fill, and cancels awaiting their ack
+const MAX_ORDERS_IN_FLIGHT = 1024;
+const MAX_CANCELS_IN_FLIGHT = 256;
+// Histograms per dimension, metric and key
+const MAX_SERIES = 512;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const LatencyMetric = {
+  ACK: 'ACK',
+  FIRST_FILL: 'FIRST_FILL',
+  CANCEL_ACK: 'CANCEL_ACK',
+} as const;
+
+export type LatencyMetric = (typeof LatencyMetric)[keyof typeof LatencyMetric];
+
+export interface HistogramSnapshot {
+  readonly count: number;
+  readonly minMs: number;
+  readonly meanMs: number;
+  readonly p50Ms: number;
+  readonly p90Ms: number;
+  readonly p99Ms: number;
+  readonly maxMs: number;
+}
+
+export interface LatencyHistogram {
+  record(valueMs: number, now: number): void;
+  /** Distribution over the last one to two windows, or null if empty. */
+  snapshot(now: number): HistogramSnapshot | null;
+  reset(): void;
+}
+
+export interface LatencySeries {
+  readonly metric: LatencyMetric;
+  // Symbol or codec, depending on the list the series is in
+  readonly key: string;
+  readonly stats: HistogramSnapshot;
+}
+
+export interface OrderLatencyStats {
+  readonly windowMs: number;
+  readonly bySymbol: readonly LatencySeries[];
+  readonly byCodec: readonly LatencySeries[];
+}
+
+export interface OrderLatencyTracker {
+  orderSent(userId: number, userOrderId: number, symbol: string, codec: Codec): void;
+  orderAcked(userId: number, userOrderId: number): void;
+  orderRejected(userId: number, userOrderId: number): void;
+  orderFilled(userId: number, userOrderId: number): void;
+  cancelSent(userId: number, userOrderId: number, symbol: string, codec: Codec): void;
+  cancelAcked(userId: number, userOrderId: number): void;
+  getStats(): OrderLatencyStats;
+  reset(): void;
+}
+
+export interface OrderLatencyTrackerOptions {
+  // Histograms cover the last one to two windows
+  readonly windowMs?: number;
+  // Monotonic clock in milliseconds (default: performance.now)
+  readonly now?: () => number;
+}
+
+interface InFlight {
+  readonly userId: number;
+  readonly userOrderId: number;
+  readonly symbol: string;
+  readonly codec: Codec;
+  readonly sentAt: number;
+  readonly acked: boolean;
+  readonly filled: boolean;
+}
+
+// ============================================================================
+// Histogram
+// ============================================================================
+
+function bucketIndex(valueUs: number): number {
+  if (valueUs < EXACT_LIMIT_US) {
+    return valueUs;
+  }
+  const magnitude = 31 - Math.clz32(valueUs);
+  const subBucket = valueUs >>> (magnitude - SUB_BUCKET_BITS);
+  return EXACT_LIMIT_US + (magnitude - 5) * SUB_BUCKETS + (subBucket - SUB_BUCKETS);
+}
+
+/** Midpoint of a bucket, in microseconds. */
+function bucketValue(index: number): number {
+  if (index < EXACT_LIMIT_US) {
+    return index;
+  }
+  const offset = index - EXACT_LIMIT_US;
+  const magnitude = Math.floor(offset / SUB_BUCKETS) + 5;
+  const shift = magnitude - SUB_BUCKET_BITS;
+  const lower = (SUB_BUCKETS + (offset % SUB_BUCKETS)) * 2 ** shift;
+  return lower + (2 ** shift - 1) / 2;
+}
+
+function createGeneration(): {
+  counts: number[];
+  count: number;
+  sumUs: number;
+  minUs: number;
+  maxUs: number;
+} {
+  return {
+    counts: new Array(BUCKET_COUNT).fill(0),
+    count: 0,
+    sumUs: 0,
+    minUs: Infinity,
+    maxUs: 0,
+  };
+}
+
+/**
+ * Rolling histogram made of two generations: values go into the current
+ * one, which becomes the previous one after `windowMs`. Snapshots merge
+ * both, so they always cover at least one full window.
+ */
+export function createLatencyHistogram(
+  windowMs: number = DEFAULT_LATENCY_WINDOW_MS
+): LatencyHistogram {
+  let current = createGeneration();
+  let previous = createGeneration();
+  let rotatedAt: number | null = null;
+
+  function rotate(now: number): void {
+    if (rotatedAt === null) {
+      rotatedAt = now;
+      return;
+    }
+    const elapsed = now - rotatedAt;
+    if (elapsed < windowMs) {
+      return;
+    }
+
+    // Two windows of silence leave nothing worth keeping
+    previous = elapsed < 2 * windowMs ? current : createGeneration();
+    current = createGeneration();
+    rotatedAt = now;
+  }
+
+  function record(valueMs: number, now: number): void {
+    if (!Number.isFinite(valueMs) || valueMs < 0) {
+      return;
+    }
+    rotate(now);
+
+    const valueUs = Math.min(Math.round(valueMs * 1000), MAX_VALUE_US);
+    current.counts[bucketIndex(valueUs)] += 1;
+    current.count += 1;
+    current.sumUs += valueUs;
+    current.minUs = Math.min(current.minUs, valueUs);
+    current.maxUs = Math.max(current.maxUs, valueUs);
+  }
+
+  function snapshot(now: number): HistogramSnapshot | null {
+    rotate(now);
+
+    const count = current.count + previous.count;
+    if (count === 0) {
+      return null;
+    }
+
+    const minUs = Math.min(current.minUs, previous.minUs);
+    const maxUs = Math.max(current.maxUs, previous.maxUs);
+
+    // One pass over the buckets finds every percentile
+    const fractions = [0.5, 0.9, 0.99];
+    const values = [maxUs, maxUs, maxUs];
+    let target = 0;
+    let seen = 0;
+    for (let i = 0; i < BUCKET_COUNT && target < fractions.length; i += 1) {
+      seen += current.counts[i] + previous.counts[i];
+      while (target < fractions.length && seen >= Math.ceil(fractions[target] * count)) {
+        // A bucket's midpoint can lie outside what was actually recorded
+        values[target] = Math.min(Math.max(bucketValue(i), minUs), maxUs);
+        target += 1;
+      }
+    }
+
+    return {
+      count,
+      minMs: minUs / 1000,
+      meanMs: (current.sumUs + previous.sumUs) / count / 1000,
+      p50Ms: values[0] / 1000,
+      p90Ms: values[1] / 1000,
+      p99Ms: values[2] / 1000,
+      maxMs: maxUs / 1000,
+    };
+  }
+
+  function reset(): void {
+    current = createGeneration();
+    previous = createGeneration();
+    rotatedAt = null;
+  }
+
+  return { record, snapshot, reset };
+}
+
+// ============================================================================
+// Tracker
+// ============================================================================
+
+function defaultNow(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+export function createOrderLatencyTracker(
+  options: OrderLatencyTrackerOptions = {}
+): OrderLatencyTracker {
+  const windowMs = options.windowMs ?? DEFAULT_LATENCY_WINDOW_MS;
+  const now = options.now ?? defaultNow;
+
+  // Ring buffers: when full, the oldest entry is given up on
+  const orders: (InFlight | null)[] = new Array(MAX_ORDERS_IN_FLIGHT).fill(null);
+  let nextOrderSlot = 0;
+  const cancels: (InFlight | null)[] = new Array(MAX_CANCELS_IN_FLIGHT).fill(null);
+  let nextCancelSlot = 0;
+
+  // Keyed `${dimension}:${metric}:${key}`
+  const histograms = new Map<string, LatencyHistogram>();
+
+  function findSlot(
+    entries: readonly (InFlight | null)[],
+    userId: number,
+    userOrderId: number
+  ): number {
+    // Bounded loop
+    for (let i = 0; i < entries.length; i += 1) {
+      const entry = entries[i];
+      if (entry !== null && entry.userId === userId && entry.userOrderId === userOrderId) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  function histogramFor(id: string): LatencyHistogram | null {
+    const existing = histograms.get(id);
+    if (existing !== undefined) {
+      return existing;
+    }
+    if (histograms.size >= MAX_SERIES) {
+      return null;
+    }
+    const histogram = createLatencyHistogram(windowMs);
+    histograms.set(id, histogram);
+    return histogram;
+  }
+
+  function record(metric: LatencyMetric, entry: InFlight, at: number): void {
+    const elapsed = at - entry.sentAt;
+    histogramFor(`symbol:${metric}:${entry.symbol}`)?.record(elapsed, at);
+    histogramFor(`codec:${metric}:${entry.codec}`)?.record(elapsed, at);
+  }
+
+  // --------------------------------------------------------------------------
+  // Orders
+  // --------------------------------------------------------------------------
+
+  function orderSent(userId: number, userOrderId: number, symbol: string, codec: Codec): void {
+    orders[nextOrderSlot] = {
+      userId, userOrderId, symbol, codec, sentAt: now(), acked: false, filled: false,
+    };
+    nextOrderSlot = (nextOrderSlot + 1) % MAX_ORDERS_IN_FLIGHT;
+  }
+
+  function orderAcked(userId: number, userOrderId: number): void {
+    const slot = findSlot(orders, userId, userOrderId);
+    const entry = slot === -1 ? null : orders[slot];
+    if (entry === null || entry.acked) {
+      return;
+    }
+
+    record(LatencyMetric.ACK, entry, now());
+    // Resting orders stay tracked until they first fill
+    orders[slot] = entry.filled ? null : { ...entry, acked: true };
+  }
+
+  function orderRejected(userId: number, userOrderId: number): void {
+    const slot = findSlot(orders, userId, userOrderId);
+    const entry = slot === -1 ? null : orders[slot];
+    if (entry === null) {
+      return;
+    }
+
+    // A reject is the engine's answer too; no fill will follow it
+    if (!entry.acked) {
+      record(LatencyMetric.ACK, entry, now());
+    }
+    orders[slot] = null;
+  }
+
+  function orderFilled(userId: number, userOrderId: number): void {
+    const slot = findSlot(orders, userId, userOrderId);
+    const entry = slot === -1 ? null : orders[slot];
+    if (entry === null || entry.filled) {
+      return;
+    }
+
+    record(LatencyMetric.FIRST_FILL, entry, now());
+    orders[slot] = entry.acked ? null : { ...entry, filled: true };
+  }
+
+  // --------------------------------------------------------------------------
+  // Cancels
+  // --------------------------------------------------------------------------
+
+  function cancelSent(userId: number, userOrderId: number, symbol: string, codec: Codec): void {
+    // A repeated cancel restarts the clock
+    const slot = findSlot(cancels, userId, userOrderId);
+    if (slot !== -1) {
+      cancels[slot] = null;
+    }
+
+    cancels[nextCancelSlot] = {
+      userId, userOrderId, symbol, codec, sentAt: now(), acked: false, filled: false,
+    };
+    nextCancelSlot = (nextCancelSlot + 1) % MAX_CANCELS_IN_FLIGHT;
+
+    // A cancelled order will not fill
+    const orderSlot = findSlot(orders, userId, userOrderId);
+    if (orderSlot !== -1 && orders[orderSlot]?.acked === true) {
+      orders[orderSlot] = null;
+    }
+  }
+
+  function cancelAcked(userId: number, userOrderId: number): void {
+    const slot = findSlot(cancels, userId, userOrderId);
+    const entry = slot === -1 ? null : cancels[slot];
+    if (entry === null) {
+      return;
+    }
+
+    record(LatencyMetric.CANCEL_ACK, entry, now());
+    cancels[slot] = null;
+  }
+
+  // --------------------------------------------------------------------------
+  // Stats
+  // --------------------------------------------------------------------------
+
+  function getStats(): OrderLatencyStats {
+    const at = now();
+    const bySymbol: LatencySeries[] = [];
+    const byCodec: LatencySeries[] = [];
+
+    histograms.forEach((histogram, id) => {
+      const stats = histogram.snapshot(at);
+      if (stats === null) {
+        return;
+      }
+      // Dimension and metric never contain ':'; the key might
+      const first = id.indexOf(':');
+      const second = id.indexOf(':', first + 1);
+      const dimension = id.slice(0, first);
+      const metric = id.slice(first + 1, second) as LatencyMetric;
+      const series: LatencySeries = { metric, key: id.slice(second + 1), stats };
+      if (dimension === 'symbol') {
+        bySymbol.push(series);
+      } else {
+        byCodec.push(series);
+      }
+    });
+
+    const byMetricThenKey = (a: LatencySeries, b: LatencySeries): number =>
+      a.metric.localeCompare(b.metric) || a.key.localeCompare(b.key);
+
+    return {
+      windowMs,
+      bySymbol: bySymbol.sort(byMetricThenKey),
+      byCodec: byCodec.sort(byMetricThenKey),
+    };
+  }
+
+  function reset(): void {
+    orders.fill(null);
+    cancels.fill(null);
+    nextOrderSlot = 0;
+    nextCancelSlot = 0;
+    histograms.clear();
+  }
+
+  return {
+    orderSent,
+    orderAcked,
+    orderRejected,
+    orderFilled,
+    cancelSent,
+    cancelAcked,
+    getStats,
+    reset,
+  };
+}
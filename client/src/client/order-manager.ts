@@ -6,6 +6,29 @@
  * - Processing incoming messages and updating store
  * - Mapping engine responses to order state changes
  *
+ * One session can trade for several accounts. Order methods take an
+ * optional user ID (the store's active account by default), and engine
+ * responses are routed by the user ID they carry.
+ *
+ * New orders can carry a client order ID, the caller's own string
+ * identifier. It stays on the client: the engine only sees the numeric
+ * order ID, and getOrderIdByClientOrderId() maps one to the other.
+ *
+ * Sent orders are in the store as PENDING until the engine answers, so a
+ * reloaded session still knows about them.
+ *
+ * While the orders connection is down, orders are refused or queued per
+ * the queue policy. Queued orders are in the store as QUEUED, start their
+ * ack timeout once they are actually sent, and become DROPPED if they
+ * expire or the queue is dropped (dropQueue()) before they go out.
+ *
+ * Engine response times (ack, first fill, cancel-ack) are tracked per
+ * symbol and per codec; see getLatencyStats() and client/order-latency.
+ *
+ * Market-data feed health is mirrored into the store: while the feed is
+ * stale (a sequence gap, or a lost connection, not yet recovered by a
+ * snapshot) every symbol's top of book is flagged stale.
+ *
  * @module client/order-manager
  */
 
@@ -14,15 +37,27 @@ import {
   type OutputMessageHandler,
   type ConnectionStateHandler,
   type ConnectionErrorHandler,
+  type ConnectionLatencyHandler,
+  type QueueEventHandler,
+  type QueuedMessage,
+  type FeedHealthHandler,
+  type FeedHealth,
+  type LatencyStats,
+  type WebSocketConstructor,
   createConnectionManager,
   ConnectionState,
+  FeedState,
+  QueuePolicy,
+  QueueEventType,
 } from '../transport/index.js';
 
 import {
-  type InputMessage,
   type OutputMessage,
+  type TradeOutput,
   type NewOrderInput,
   type CancelInput,
+  type FlushInput,
+  type RejectReason,
   MessageType,
   OutputMessageType,
   Side,
@@ -33,15 +68,43 @@ import {
 import {
   type Store,
   type Order,
+  type BookUpdate,
+  BookUpdateKind,
   OrderStatus,
-  createOrderKey,
+  isValidClientOrderId,
 } from '../store/index.js';
 
+import {
+  type OrderEvent,
+  type OrderEventHandler,
+  type OrderHandle,
+  type OrderAckResult,
+  type OrderCancelResult,
+  type OrderAmendResult,
+  OrderEventType,
+  AckOutcome,
+  AmendOutcome,
+  CancelOutcome,
+  createOrderEventHub,
+} from './order-events.js';
+
+import { type InstrumentRegistry, createInstrumentRegistry } from '../instruments/index.js';
+
+import { type RiskLimits, type PendingExposure, createRiskChecker } from './risk-checks.js';
+import { SelfTradePolicy, checkSelfTrade } from './self-trade.js';
+import { type OrderLatencyStats, createOrderLatencyTracker } from './order-latency.js';
+
 // ============================================================================
 // Constants
 // ============================================================================
 
 const MAX_PENDING_ACKS = 256;
+const DEFAULT_ACK_TIMEOUT_MS = 5000;
+const DEFAULT_CANCEL_TIMEOUT_MS = 5000;
+const ACK_SWEEP_INTERVAL_MS = 500;
+const MAX_RECONCILE_CANCELS = 256;
+const MAX_AMENDS_IN_FLIGHT = 32;
+const MAX_FLUSH_ORDERS = 256;
 
 // ============================================================================
 // Types
@@ -52,6 +115,27 @@ export interface OrderManagerConfig {
   readonly ordersPort?: number;
   readonly marketDataPort?: number | null;
   readonly codec?: Codec;
+  // How long an order waits for an Ack/Reject before it is marked TIMED_OUT
+  readonly ackTimeoutMs?: number;
+  // How long OrderHandle.cancel() waits for a cancel-ack
+  readonly cancelTimeoutMs?: number;
+  // Reference data orders are validated against (tick, lot, status)
+  readonly instruments?: InstrumentRegistry;
+  // Pre-trade risk limits (unset limits are not checked)
+  readonly risk?: Partial<RiskLimits>;
+  // What to do when a new order would trade against our own resting order
+  readonly selfTradePolicy?: SelfTradePolicy;
+  // WebSocket implementation outside the browser (e.g. the `ws` package)
+  readonly webSocketImpl?: WebSocketConstructor;
+  // Heartbeat interval and how long a silent connection lives before reconnecting
+  readonly heartbeatIntervalMs?: number;
+  readonly staleTimeoutMs?: number;
+  // Order latency histograms cover the last one to two of these windows
+  readonly latencyWindowMs?: number;
+  // Orders sent while disconnected: refuse, queue, or queue cancels only
+  readonly queuePolicy?: QueuePolicy;
+  // Queued orders older than this are dropped instead of sent on reconnect
+  readonly queueMaxAgeMs?: number;
 }
 
 export interface OrderResult {
@@ -65,13 +149,77 @@ export interface CancelResult {
   readonly error: string | null;
 }
 
+export interface FlushResult {
+  readonly success: boolean;
+  // FLUSH reached the engine (false: codec cannot encode it, send failed,
+  // or it is only queued)
+  readonly flushSent: boolean;
+  // FLUSH is in the outbound queue and goes out on reconnect
+  readonly flushQueued: boolean;
+  // Orders that were working when the flush started and are now cancelled
+  readonly cancelled: number;
+  // Individual cancels sent for orders the flush did not clear
+  readonly fallbackCancels: number;
+  // Orders still working afterwards
+  readonly remaining: number;
+  readonly error: string | null;
+}
+
+interface FlushTarget {
+  readonly symbol: string;
+  readonly userId: number;
+  readonly userOrderId: number;
+}
+
 interface PendingOrder {
+  readonly userId: number;
   readonly userOrderId: number;
   readonly symbol: string;
   readonly side: Side;
   readonly price: number;
   readonly quantity: number;
   readonly sentAt: number;
+  readonly replacesOrderId: number | null;
+  readonly clientOrderId: string | null;
+  // In the outbound queue; sentAt is set again when it goes out
+  readonly queued: boolean;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isWorkingStatus(status: OrderStatus): boolean {
+  return (
+    status === OrderStatus.PENDING ||
+    status === OrderStatus.ACKED ||
+    status === OrderStatus.PARTIAL ||
+    status === OrderStatus.TIMED_OUT
+  );
+}
+
+// Refused before sending: no handle could follow the order
+const UNTRACKABLE: OrderResult = {
+  success: false,
+  userOrderId: 0,
+  error: 'Too many tracked orders',
+};
+
+// Amend outcome when the cancel step did not succeed
+const AMEND_OUTCOME_BY_CANCEL: Record<CancelOutcome, AmendOutcome> = {
+  [CancelOutcome.CANCELLED]: AmendOutcome.REPLACED,
+  [CancelOutcome.REJECTED]: AmendOutcome.REJECTED,
+  [CancelOutcome.TIMED_OUT]: AmendOutcome.TIMED_OUT,
+  [CancelOutcome.FAILED]: AmendOutcome.FAILED,
+};
+
+function amendResult(
+  outcome: AmendOutcome,
+  originalOrderId: number,
+  replacement: OrderHandle | null,
+  error: string | null
+): OrderAmendResult {
+  return { outcome, originalOrderId, replacement, error };
 }
 
 // ============================================================================
@@ -81,11 +229,42 @@ interface PendingOrder {
 export interface OrderManager {
   connect(): void;
   disconnect(): void;
-  submitOrder(symbol: string, side: Side, price: number, quantity: number): OrderResult;
-  cancelOrder(symbol: string, userOrderId: number): CancelResult;
-  cancelAllOrders(symbol: string): void;
+  submitOrder(
+    symbol: string, side: Side, price: number, quantity: number,
+    userId?: number, clientOrderId?: string | null
+  ): OrderResult;
+  placeOrder(
+    symbol: string, side: Side, price: number, quantity: number,
+    userId?: number, clientOrderId?: string | null
+  ): OrderHandle;
+  /**
+   * Order ID of an account's latest order with this client order ID,
+   * including one still waiting for its ack.
+   */
+  getOrderIdByClientOrderId(clientOrderId: string, userId?: number): number | null;
+  cancelOrder(symbol: string, userOrderId: number, userId?: number): CancelResult;
+  amendOrder(
+    userOrderId: number, price: number, quantity: number, userId?: number
+  ): Promise<OrderAmendResult>;
+  onOrderEvent(handler: OrderEventHandler): () => void;
+  cancelAllOrders(symbol: string, userId?: number): void;
+  /** Kill switch for every account. */
+  flushAllOrders(): Promise<FlushResult>;
+  reconcileOrders(): number;
+  getInstruments(): InstrumentRegistry;
+  setRiskLimits(limits: Partial<RiskLimits>): void;
+  getRiskLimits(): RiskLimits;
+  setSelfTradePolicy(policy: SelfTradePolicy): void;
+  getSelfTradePolicy(): SelfTradePolicy;
   setCodec(codec: Codec): void;
   getCodec(): Codec;
+  /** Ack, first-fill and cancel-ack latencies per symbol and per codec. */
+  getLatencyStats(): OrderLatencyStats;
+  resetLatencyStats(): void;
+  setQueuePolicy(policy: QueuePolicy): void;
+  getQueuePolicy(): QueuePolicy;
+  /** Drop everything in the outbound queue before it replays; returns how many. */
+  dropQueue(): number;
   isConnected(): boolean;
   destroy(): void;
 }
@@ -107,12 +286,33 @@ export function createOrderManager(
         : null,
       outboundCodec: config.codec ?? Codec.CSV,
       reconnect: true,
+      webSocketImpl: config.webSocketImpl ?? null,
+      heartbeatIntervalMs: config.heartbeatIntervalMs ?? null,
+      staleTimeoutMs: config.staleTimeoutMs ?? null,
+      ...(config.queuePolicy !== undefined ? { queuePolicy: config.queuePolicy } : {}),
+      ...(config.queueMaxAgeMs !== undefined ? { queueMaxAgeMs: config.queueMaxAgeMs } : {}),
     }
   );
 
   // Track pending orders awaiting ack (fixed-size array)
   const pendingOrders: (PendingOrder | null)[] = new Array(MAX_PENDING_ACKS).fill(null);
 
+  const instruments = config.instruments ?? createInstrumentRegistry();
+  const riskChecker = createRiskChecker(store, config.risk);
+  let selfTradePolicy = config.selfTradePolicy ?? SelfTradePolicy.REJECT_NEW;
+
+  // Lifecycle events and awaitable handles
+  const orderEvents = createOrderEventHub();
+  const ackTimeoutMs = config.ackTimeoutMs ?? DEFAULT_ACK_TIMEOUT_MS;
+  const cancelTimeoutMs = config.cancelTimeoutMs ?? DEFAULT_CANCEL_TIMEOUT_MS;
+  const latency = createOrderLatencyTracker({ windowMs: config.latencyWindowMs });
+
+  // Orders with an amend between cancel and replacement (-1 = free slot)
+  const amendsInFlight: number[] = new Array(MAX_AMENDS_IN_FLIGHT).fill(-1);
+
+  let ackSweepIntervalId: ReturnType<typeof setInterval> | null = null;
+
+
   // --------------------------------------------------------------------------
   // Pending Order Tracking
   // --------------------------------------------------------------------------
@@ -128,11 +328,11 @@ export function createOrderManager(
     return false;
   }
 
-  function removePendingOrder(userOrderId: number): PendingOrder | null {
+  function removePendingOrder(userId: number, userOrderId: number): PendingOrder | null {
     // Find and remove (bounded loop)
     for (let i = 0; i < MAX_PENDING_ACKS; i += 1) {
       const pending = pendingOrders[i];
-      if (pending !== null && pending.userOrderId === userOrderId) {
+      if (pending !== null && pending.userId === userId && pending.userOrderId === userOrderId) {
         pendingOrders[i] = null;
         return pending;
       }
@@ -140,16 +340,154 @@ export function createOrderManager(
     return null;
   }
 
-  function getPendingOrder(userOrderId: number): PendingOrder | null {
+  /** An account's unacked orders, sent or queued, for the risk checks. */
+  function getPendingExposure(userId: number, symbol: string, side: Side): PendingExposure {
+    let count = 0;
+    let sameSideQuantity = 0;
+    for (let i = 0; i < MAX_PENDING_ACKS; i += 1) {
+      const pending = pendingOrders[i];
+      if (pending === null || pending.userId !== userId) {
+        continue;
+      }
+      count += 1;
+      if (pending.symbol === symbol && pending.side === side) {
+        sameSideQuantity += pending.quantity;
+      }
+    }
+    return { count, sameSideQuantity };
+  }
+
+  function replacePendingOrder(order: PendingOrder): void {
     for (let i = 0; i < MAX_PENDING_ACKS; i += 1) {
       const pending = pendingOrders[i];
-      if (pending !== null && pending.userOrderId === userOrderId) {
+      if (
+        pending !== null &&
+        pending.userId === order.userId &&
+        pending.userOrderId === order.userOrderId
+      ) {
+        pendingOrders[i] = order;
+        return;
+      }
+    }
+  }
+
+  function getPendingOrder(userId: number, userOrderId: number): PendingOrder | null {
+    for (let i = 0; i < MAX_PENDING_ACKS; i += 1) {
+      const pending = pendingOrders[i];
+      if (pending !== null && pending.userId === userId && pending.userOrderId === userOrderId) {
         return pending;
       }
     }
     return null;
   }
 
+  function orderFromPending(
+    pending: PendingOrder,
+    status: OrderStatus,
+    updatedAt: number
+  ): Order {
+    return {
+      symbol: pending.symbol,
+      userId: pending.userId,
+      userOrderId: pending.userOrderId,
+      side: pending.side,
+      price: pending.price,
+      quantity: pending.quantity,
+      filledQuantity: 0,
+      status,
+      createdAt: pending.sentAt,
+      updatedAt,
+      replacesOrderId: pending.replacesOrderId,
+      replacedByOrderId: null,
+      clientOrderId: pending.clientOrderId,
+    };
+  }
+
+  /** Record a pending order's outcome, keeping fills that raced ahead of it. */
+  function resolvePendingOrder(pending: PendingOrder, status: OrderStatus, now: number): void {
+    const order = store.getOrder(pending.userId, pending.userOrderId);
+    if (order === null) {
+      store.addOrder(orderFromPending(pending, status, now));
+    } else if (order.status === OrderStatus.PENDING) {
+      store.updateOrderStatus(pending.userId, pending.userOrderId, status);
+    }
+  }
+
+  /**
+   * Move orders that have waited longer than the ack timeout out of the
+   * pending table. They are recorded as TIMED_OUT so the user can see them,
+   * and their slots are freed. A late Ack/Reject/Trade still updates them.
+   */
+  function sweepPendingOrders(): void {
+    const now = Date.now();
+
+    // Queued orders past their expiry are dropped (see handleQueueEvent)
+    connectionManager.expireQueue();
+
+    // Bounded loop
+    for (let i = 0; i < MAX_PENDING_ACKS; i += 1) {
+      const pending = pendingOrders[i];
+      if (pending === null || pending.queued || now - pending.sentAt < ackTimeoutMs) {
+        continue;
+      }
+
+      pendingOrders[i] = null;
+
+      resolvePendingOrder(pending, OrderStatus.TIMED_OUT, now);
+
+      emitOrderEvent(
+        OrderEventType.ACK_TIMEOUT,
+        pending.symbol,
+        pending.userId,
+        pending.userOrderId,
+        null,
+        null,
+        null
+      );
+    }
+  }
+
+  function startAckSweep(): void {
+    if (ackSweepIntervalId !== null) {
+      return;
+    }
+    ackSweepIntervalId = setInterval(sweepPendingOrders, ACK_SWEEP_INTERVAL_MS);
+  }
+
+  function stopAckSweep(): void {
+    if (ackSweepIntervalId !== null) {
+      clearInterval(ackSweepIntervalId);
+      ackSweepIntervalId = null;
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Lifecycle Events
+  // --------------------------------------------------------------------------
+
+  function emitOrderEvent(
+    type: OrderEventType,
+    symbol: string,
+    userId: number,
+    userOrderId: number,
+    fillPrice: number | null,
+    fillQuantity: number | null,
+    reason: RejectReason | null
+  ): void {
+    const event: OrderEvent = {
+      type,
+      symbol,
+      userId,
+      userOrderId,
+      order: store.getOrder(userId, userOrderId),
+      fillPrice,
+      fillQuantity,
+      reason,
+      timestamp: Date.now(),
+    };
+    orderEvents.emit(event);
+  }
+
   // --------------------------------------------------------------------------
   // Message Handlers
   // --------------------------------------------------------------------------
@@ -159,38 +497,28 @@ export function createOrderManager(
       return;
     }
 
-    const userId = store.getUserId();
-    const pending = removePendingOrder(msg.userOrderId);
+    const userId = msg.userId;
+    latency.orderAcked(userId, msg.userOrderId);
+    const pending = removePendingOrder(userId, msg.userOrderId);
 
     if (pending !== null) {
-      // Create order from pending data
-      const order: Order = {
-        symbol: pending.symbol,
-        userId,
-        userOrderId: pending.userOrderId,
-        side: pending.side,
-        price: pending.price,
-        quantity: pending.quantity,
-        filledQuantity: 0,
-        status: OrderStatus.ACKED,
-        createdAt: pending.sentAt,
-        updatedAt: Date.now(),
-      };
-
-      store.addOrder(order);
+      resolvePendingOrder(pending, OrderStatus.ACKED, Date.now());
     }
 
     // Update status based on ack status
-    let status = OrderStatus.ACKED;
+    let status: OrderStatus = OrderStatus.ACKED;
     if (msg.status === AckStatus.FILLED) {
       status = OrderStatus.FILLED;
     } else if (msg.status === AckStatus.PARTIAL_FILL) {
       status = OrderStatus.PARTIAL;
     }
 
-    if (status !== OrderStatus.ACKED) {
+    // A late ack also resolves an order that had timed out
+    if (status !== OrderStatus.ACKED || pending === null) {
       store.updateOrderStatus(userId, msg.userOrderId, status);
     }
+
+    emitOrderEvent(OrderEventType.ACK, msg.symbol, userId, msg.userOrderId, null, null, null);
   }
 
   function handleReject(msg: OutputMessage): void {
@@ -198,90 +526,93 @@ export function createOrderManager(
       return;
     }
 
-    const userId = store.getUserId();
-    const pending = removePendingOrder(msg.userOrderId);
+    const userId = msg.userId;
+    latency.orderRejected(userId, msg.userOrderId);
+    const pending = removePendingOrder(userId, msg.userOrderId);
 
+    // A timed-out order is rejected by a late Reject, or by the Reject to
+    // its reconcile cancel (the engine never saw it). Otherwise, without a
+    // pending entry, the engine refused a cancel and the order is unchanged.
     if (pending !== null) {
-      // Create rejected order record
-      const order: Order = {
-        symbol: pending.symbol,
-        userId,
-        userOrderId: pending.userOrderId,
-        side: pending.side,
-        price: pending.price,
-        quantity: pending.quantity,
-        filledQuantity: 0,
-        status: OrderStatus.REJECTED,
-        createdAt: pending.sentAt,
-        updatedAt: Date.now(),
-      };
-
-      store.addOrder(order);
-    } else {
-      // Update existing order
+      resolvePendingOrder(pending, OrderStatus.REJECTED, Date.now());
+    } else if (store.getOrder(userId, msg.userOrderId)?.status === OrderStatus.TIMED_OUT) {
       store.updateOrderStatus(userId, msg.userOrderId, OrderStatus.REJECTED);
     }
+
+    emitOrderEvent(
+      OrderEventType.REJECT, msg.symbol, userId, msg.userOrderId, null, null, msg.reason
+    );
   }
 
-  function handleTrade(msg: OutputMessage): void {
-    if (msg.type !== OutputMessageType.TRADE) {
-      return;
-    }
+  function applyFill(
+    msg: TradeOutput,
+    userId: number,
+    side: Side,
+    userOrderId: number,
+    selfTrade: boolean
+  ): void {
+    const order = store.getOrder(userId, userOrderId);
+    latency.orderFilled(userId, userOrderId);
+
+    // Add trade record for our side of the trade
+    store.addTrade({
+      userId,
+      symbol: msg.symbol,
+      price: msg.price,
+      quantity: msg.quantity,
+      side,
+      userOrderId,
+      selfTrade,
+      timestamp: Date.now(),
+    });
 
-    const userId = store.getUserId();
+    // Update position (buys positive, sells negative)
+    store.updatePosition(msg.symbol, side, msg.price, msg.quantity, userId);
 
-    // Check if we're the buyer (compare userIds, not just look up orders)
-    if (msg.buyUserId === userId) {
-      const buyOrder = store.getOrder(userId, msg.buyOrderId);
+    // Update order filled quantity if we have the order
+    if (order === null) {
+      return;
+    }
 
-      // Add trade record for our buy
-      store.addTrade({
-        symbol: msg.symbol,
-        price: msg.price,
-        quantity: msg.quantity,
-        side: Side.BUY,
-        userOrderId: msg.buyOrderId,
-        timestamp: Date.now(),
-      });
+    const newFilled = order.filledQuantity + msg.quantity;
+    const isFilled = newFilled >= order.quantity;
+    const status = isFilled ? OrderStatus.FILLED : OrderStatus.PARTIAL;
+    store.updateOrderStatus(userId, userOrderId, status, newFilled);
 
-      // Update position (we bought, so positive)
-      store.updatePosition(msg.symbol, Side.BUY, msg.price, msg.quantity);
+    emitOrderEvent(
+      isFilled ? OrderEventType.FILL : OrderEventType.PARTIAL_FILL,
+      msg.symbol,
+      userId,
+      userOrderId,
+      msg.price,
+      msg.quantity,
+      null
+    );
+  }
 
-      // Update order filled quantity if we have the order
-      if (buyOrder !== null) {
-        const newFilled = buyOrder.filledQuantity + msg.quantity;
-        const status = newFilled >= buyOrder.quantity
-          ? OrderStatus.FILLED
-          : OrderStatus.PARTIAL;
-        store.updateOrderStatus(userId, msg.buyOrderId, status, newFilled);
-      }
+  function handleTrade(msg: OutputMessage): void {
+    if (msg.type !== OutputMessageType.TRADE) {
+      return;
     }
 
-    // Check if we're the seller (compare userIds, not just look up orders)
-    if (msg.sellUserId === userId) {
-      const sellOrder = store.getOrder(userId, msg.sellOrderId);
+    const accounts = store.getAccounts();
 
-      // Add trade record for our sell
-      store.addTrade({
-        symbol: msg.symbol,
-        price: msg.price,
-        quantity: msg.quantity,
-        side: Side.SELL,
-        userOrderId: msg.sellOrderId,
-        timestamp: Date.now(),
-      });
-
-      // Update position (we sold, so negative)
-      store.updatePosition(msg.symbol, Side.SELL, msg.price, msg.quantity);
+    // Both sides the same account: prevention did not catch it, flag both
+    // records. Two of our accounts trading with each other is not a self-trade.
+    const selfTrade = msg.buyUserId === msg.sellUserId && accounts.includes(msg.buyUserId);
+    if (selfTrade) {
+      console.warn(
+        `Self-trade on ${msg.symbol}: orders ${msg.buyOrderId}/${msg.sellOrderId}`
+      );
+    }
 
-      // Update order filled quantity if we have the order
-      if (sellOrder !== null) {
-        const newFilled = sellOrder.filledQuantity + msg.quantity;
-        const status = newFilled >= sellOrder.quantity
-          ? OrderStatus.FILLED
-          : OrderStatus.PARTIAL;
-        store.updateOrderStatus(userId, msg.sellOrderId, status, newFilled);
-      }
+    // Each side goes to its account, if it is one of ours (compare
+    // userIds, not just look up orders)
+    if (accounts.includes(msg.buyUserId)) {
+      applyFill(msg, msg.buyUserId, Side.BUY, msg.buyOrderId, selfTrade);
+    }
+    if (accounts.includes(msg.sellUserId)) {
+      applyFill(msg, msg.sellUserId, Side.SELL, msg.sellOrderId, selfTrade);
     }
   }
 
@@ -290,8 +621,11 @@ export function createOrderManager(
       return;
     }
 
-    const userId = store.getUserId();
+    const userId = msg.userId;
+    latency.cancelAcked(userId, msg.userOrderId);
     store.updateOrderStatus(userId, msg.userOrderId, OrderStatus.CANCELLED);
+
+    emitOrderEvent(OrderEventType.CANCEL_ACK, msg.symbol, userId, msg.userOrderId, null, null, null);
   }
 
   function handleTopOfBook(msg: OutputMessage): void {
@@ -299,14 +633,27 @@ export function createOrderManager(
       return;
     }
 
-    store.updateMarketData({
-      symbol: msg.symbol,
-      bidPrice: msg.bidPrice,
-      askPrice: msg.askPrice,
-      bidQuantity: msg.bidQuantity,
-      askQuantity: msg.askQuantity,
-      updatedAt: Date.now(),
-    });
+    const updates: BookUpdate[] = [];
+
+    // Side-specific updates only touch their own half of the book
+    if (msg.side === null || msg.side === Side.BUY) {
+      updates.push({
+        kind: BookUpdateKind.TOP,
+        side: Side.BUY,
+        price: msg.bidPrice,
+        quantity: msg.bidQuantity,
+      });
+    }
+    if (msg.side === null || msg.side === Side.SELL) {
+      updates.push({
+        kind: BookUpdateKind.TOP,
+        side: Side.SELL,
+        price: msg.askPrice,
+        quantity: msg.askQuantity,
+      });
+    }
+
+    store.applyBookUpdates(msg.symbol, updates);
   }
 
   const messageHandler: OutputMessageHandler = (msg: OutputMessage): void => {
@@ -346,6 +693,12 @@ export function createOrderManager(
   ): void => {
     if (endpoint === 'orders') {
       store.updateConnection({ ordersState: state });
+
+      // Every connect reconciles: after a reconnect, and on the first
+      // connect for orders restored from a previous page load
+      if (state === ConnectionState.CONNECTED) {
+        reconcileOrders();
+      }
     } else {
       store.updateConnection({ marketDataState: state });
     }
@@ -361,6 +714,68 @@ export function createOrderManager(
     });
   };
 
+  const latencyHandler: ConnectionLatencyHandler = (
+    endpoint: 'orders' | 'marketData',
+    latency: LatencyStats
+  ): void => {
+    if (endpoint === 'orders') {
+      store.updateConnection({ ordersLatency: latency });
+    } else {
+      store.updateConnection({ marketDataLatency: latency });
+    }
+  };
+
+  const feedHealthHandler: FeedHealthHandler = (health: FeedHealth): void => {
+    store.updateConnection({ marketDataFeed: health });
+    store.setMarketDataStale(health.state === FeedState.STALE);
+  };
+
+  function syncQueuedCount(): void {
+    store.updateConnection({ queuedMessages: connectionManager.getQueuedMessages().length });
+  }
+
+  /** A queued order went out: its ack clock starts now. */
+  function markQueuedOrderSent(userId: number, userOrderId: number, queued: QueuedMessage): void {
+    const pending = getPendingOrder(userId, userOrderId);
+    if (pending === null) {
+      return;
+    }
+
+    replacePendingOrder({ ...pending, queued: false, sentAt: Date.now() });
+    store.updateOrderStatus(userId, userOrderId, OrderStatus.PENDING);
+    latency.orderSent(userId, userOrderId, pending.symbol, queued.codec);
+  }
+
+  const handleQueueEvent: QueueEventHandler = (
+    type: QueueEventType,
+    queued: QueuedMessage
+  ): void => {
+    const msg = queued.message;
+
+    if (msg.type === MessageType.NEW_ORDER) {
+      if (type === QueueEventType.SENT) {
+        markQueuedOrderSent(msg.userId, msg.userOrderId, queued);
+      } else {
+        removePendingOrder(msg.userId, msg.userOrderId);
+        store.updateOrderStatus(msg.userId, msg.userOrderId, OrderStatus.DROPPED);
+        emitOrderEvent(
+          OrderEventType.DROPPED, msg.symbol, msg.userId, msg.userOrderId, null, null, null
+        );
+      }
+    } else if (msg.type === MessageType.CANCEL) {
+      if (type === QueueEventType.SENT) {
+        latency.cancelSent(msg.userId, msg.userOrderId, msg.symbol, queued.codec);
+      } else {
+        // Settles whoever is waiting on the cancel, not the order's ack
+        emitOrderEvent(
+          OrderEventType.CANCEL_DROPPED, msg.symbol, msg.userId, msg.userOrderId, null, null, null
+        );
+      }
+    }
+
+    syncQueuedCount();
+  };
+
   // --------------------------------------------------------------------------
   // Setup
   // --------------------------------------------------------------------------
@@ -368,12 +783,16 @@ export function createOrderManager(
   connectionManager.onMessage(messageHandler);
   connectionManager.onStateChange(stateHandler);
   connectionManager.onError(errorHandler);
+  connectionManager.onLatency(latencyHandler);
+  connectionManager.onQueueEvent(handleQueueEvent);
+  connectionManager.onFeedHealth(feedHealthHandler);
 
   // --------------------------------------------------------------------------
   // Public API
   // --------------------------------------------------------------------------
 
   function connect(): void {
+    startAckSweep();
     connectionManager.connect();
   }
 
@@ -385,10 +804,68 @@ export function createOrderManager(
     symbol: string,
     side: Side,
     price: number,
-    quantity: number
+    quantity: number,
+    userId: number = store.getUserId(),
+    clientOrderId: string | null = null
   ): OrderResult {
+    return sendNewOrder(symbol, side, price, quantity, null, userId, clientOrderId);
+  }
+
+  function getOrderIdByClientOrderId(
+    clientOrderId: string,
+    userId: number = store.getUserId()
+  ): number | null {
+    // Pending orders are newer than anything in the store (bounded loop)
+    let latest: number | null = null;
+    for (let i = 0; i < MAX_PENDING_ACKS; i += 1) {
+      const pending = pendingOrders[i];
+      if (pending !== null &&
+          pending.userId === userId &&
+          pending.clientOrderId === clientOrderId &&
+          (latest === null || pending.userOrderId > latest)) {
+        latest = pending.userOrderId;
+      }
+    }
+    if (latest !== null) {
+      return latest;
+    }
+
+    return store.getOrderByClientOrderId(clientOrderId, userId)?.userOrderId ?? null;
+  }
+
+  function sendNewOrder(
+    symbol: string,
+    side: Side,
+    price: number,
+    quantity: number,
+    replacesOrderId: number | null,
+    userId: number,
+    clientOrderId: string | null
+  ): OrderResult {
+    if (!store.getAccounts().includes(userId)) {
+      return { success: false, userOrderId: 0, error: `Unknown account ${userId}` };
+    }
+
+    // Client order IDs are unique per account; an amend's replacement
+    // takes over the original's
+    if (clientOrderId !== null) {
+      if (!isValidClientOrderId(clientOrderId)) {
+        return {
+          success: false,
+          userOrderId: 0,
+          error: `Invalid client order ID '${clientOrderId}'`,
+        };
+      }
+      if (replacesOrderId === null && getOrderIdByClientOrderId(clientOrderId, userId) !== null) {
+        return {
+          success: false,
+          userOrderId: 0,
+          error: `Duplicate client order ID ${clientOrderId}`,
+        };
+      }
+    }
+
     const userOrderId = store.consumeOrderId();
-    const userId = store.getUserId();
 
     const msg: NewOrderInput = {
       type: MessageType.NEW_ORDER,
@@ -402,14 +879,53 @@ export function createOrderManager(
 
     // Track pending
     const pending: PendingOrder = {
+      userId,
       userOrderId,
       symbol,
       side,
       price,
       quantity,
       sentAt: Date.now(),
+      replacesOrderId,
+      clientOrderId,
+      queued: false,
     };
 
+    // Malformed for the instrument: refused outright, like an encode error
+    const instrumentCheck = instruments.checkOrder(symbol, price, quantity);
+    if (!instrumentCheck.passed) {
+      return {
+        success: false,
+        userOrderId,
+        error: instrumentCheck.error,
+      };
+    }
+
+    // Pre-trade risk; rejected orders are recorded but never sent
+    const risk = riskChecker.check(
+      symbol, side, price, quantity, getPendingExposure(userId, symbol, side), userId
+    );
+    if (!risk.passed) {
+      store.addOrder(orderFromPending(pending, OrderStatus.RISK_REJECTED, Date.now()));
+      return {
+        success: false,
+        userOrderId,
+        error: risk.error,
+      };
+    }
+
+    // Self-trade prevention (CANCEL_BOTH still cancels the resting orders)
+    const selfTrade = checkSelfTrade(store, selfTradePolicy, symbol, side, price, userId);
+    if (selfTrade.rejectNew) {
+      cancelRestingOrders(selfTrade.cancelResting, userId);
+      store.addOrder(orderFromPending(pending, OrderStatus.RISK_REJECTED, Date.now()));
+      return {
+        success: false,
+        userOrderId,
+        error: selfTrade.error,
+      };
+    }
+
     const added = addPendingOrder(pending);
     if (!added) {
       return {
@@ -419,11 +935,26 @@ export function createOrderManager(
       };
     }
 
+    // Cancels go out first so the engine removes the resting orders before
+    // it sees the new one, but only once the new order is sure to follow
+    if (selfTrade.cancelResting.length > 0) {
+      const sendable = connectionManager.checkSend(msg);
+      if (!sendable.success) {
+        removePendingOrder(userId, userOrderId);
+        return {
+          success: false,
+          userOrderId,
+          error: sendable.error,
+        };
+      }
+      cancelRestingOrders(selfTrade.cancelResting, userId);
+    }
+
     // Send
     const result = connectionManager.sendOrder(msg);
 
     if (!result.success) {
-      removePendingOrder(userOrderId);
+      removePendingOrder(userId, userOrderId);
       return {
         success: false,
         userOrderId,
@@ -431,6 +962,17 @@ export function createOrderManager(
       };
     }
 
+    riskChecker.recordOrder();
+
+    if (result.queued) {
+      replacePendingOrder({ ...pending, queued: true });
+      store.addOrder(orderFromPending(pending, OrderStatus.QUEUED, Date.now()));
+      syncQueuedCount();
+    } else {
+      store.addOrder(orderFromPending(pending, OrderStatus.PENDING, Date.now()));
+      latency.orderSent(userId, userOrderId, symbol, connectionManager.getOutboundCodec());
+    }
+
     // Update stats
     const stats = connectionManager.getStats();
     store.updateConnection({
@@ -445,9 +987,186 @@ export function createOrderManager(
     };
   }
 
-  function cancelOrder(symbol: string, userOrderId: number): CancelResult {
-    const userId = store.getUserId();
+  function cancelRestingOrders(resting: readonly Order[], userId: number): void {
+    // Bounded by the self-trade check's crossing limit
+    for (let i = 0; i < resting.length; i += 1) {
+      cancelOrder(resting[i].symbol, resting[i].userOrderId, userId);
+    }
+  }
+
+  function placeOrder(
+    symbol: string,
+    side: Side,
+    price: number,
+    quantity: number,
+    userId: number = store.getUserId(),
+    clientOrderId: string | null = null
+  ): OrderHandle {
+    return placeOrderInternal(symbol, side, price, quantity, null, userId, clientOrderId);
+  }
 
+  function placeOrderInternal(
+    symbol: string,
+    side: Side,
+    price: number,
+    quantity: number,
+    replacesOrderId: number | null,
+    userId: number,
+    clientOrderId: string | null
+  ): OrderHandle {
+    // A sent order must get a handle that follows it
+    const result = orderEvents.canTrack()
+      ? sendNewOrder(symbol, side, price, quantity, replacesOrderId, userId, clientOrderId)
+      : UNTRACKABLE;
+    return createOrderHandle(symbol, userId, clientOrderId, result);
+  }
+
+  function createOrderHandle(
+    symbol: string,
+    userId: number,
+    clientOrderId: string | null,
+    result: OrderResult
+  ): OrderHandle {
+    const userOrderId = result.userOrderId;
+
+    let acknowledged: Promise<OrderAckResult> | null = null;
+
+    // Callers check canTrack() before sending, so only unsent orders fail here
+    if (result.success) {
+      acknowledged = orderEvents.track(userId, userOrderId);
+    }
+
+    if (acknowledged === null) {
+      acknowledged = Promise.resolve({
+        outcome: AckOutcome.FAILED,
+        userOrderId,
+        order: null,
+        reason: null,
+        error: result.error,
+      });
+    }
+
+    return {
+      userOrderId,
+      clientOrderId,
+      acknowledged,
+      onEvent: (handler: OrderEventHandler) =>
+        orderEvents.onOrderEvent(userId, userOrderId, handler),
+      cancel: (timeoutMs?: number) =>
+        cancelOrderAsync(symbol, userId, userOrderId, timeoutMs ?? cancelTimeoutMs),
+    };
+  }
+
+  function cancelOrderAsync(
+    symbol: string,
+    userId: number,
+    userOrderId: number,
+    timeoutMs: number
+  ): Promise<OrderCancelResult> {
+    const result = cancelOrder(symbol, userOrderId, userId);
+
+    if (!result.success) {
+      return Promise.resolve({
+        outcome: CancelOutcome.FAILED,
+        userOrderId,
+        reason: null,
+        error: result.error,
+      });
+    }
+
+    // Responses are delivered asynchronously, so registering after the
+    // send cannot miss the cancel-ack
+    return orderEvents.awaitCancel(userId, userOrderId, timeoutMs);
+  }
+
+  function findAmendSlot(userOrderId: number): number {
+    for (let i = 0; i < MAX_AMENDS_IN_FLIGHT; i += 1) {
+      if (amendsInFlight[i] === userOrderId) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Change the price and/or total quantity of a working order.
+   *
+   * The engine has no modify message, so this cancels the original, waits
+   * for its cancel-ack, then sends a replacement for whatever quantity is
+   * still unfilled. Fills that race the cancel are counted against the new
+   * quantity; if nothing is left, no replacement is sent.
+   */
+  async function amendOrder(
+    userOrderId: number,
+    price: number,
+    quantity: number,
+    userId: number = store.getUserId()
+  ): Promise<OrderAmendResult> {
+    const original = store.getOrder(userId, userOrderId);
+
+    if (original === null) {
+      return amendResult(AmendOutcome.FAILED, userOrderId, null, 'Unknown order');
+    }
+    if (original.status !== OrderStatus.ACKED && original.status !== OrderStatus.PARTIAL) {
+      return amendResult(
+        AmendOutcome.FAILED, userOrderId, null, `Order is not working (${original.status})`
+      );
+    }
+    if (findAmendSlot(userOrderId) !== -1) {
+      return amendResult(AmendOutcome.FAILED, userOrderId, null, 'Amend already in progress');
+    }
+
+    const slot = findAmendSlot(-1);
+    if (slot === -1) {
+      return amendResult(AmendOutcome.FAILED, userOrderId, null, 'Too many amends in progress');
+    }
+    amendsInFlight[slot] = userOrderId;
+
+    try {
+      const cancel = await cancelOrderAsync(
+        original.symbol, userId, userOrderId, cancelTimeoutMs
+      );
+      const current = store.getOrder(userId, userOrderId) ?? original;
+
+      if (cancel.outcome !== CancelOutcome.CANCELLED) {
+        if (current.status === OrderStatus.FILLED) {
+          return amendResult(AmendOutcome.FILLED, userOrderId, null, null);
+        }
+        return amendResult(AMEND_OUTCOME_BY_CANCEL[cancel.outcome], userOrderId, null, cancel.error);
+      }
+
+      const remaining = quantity - current.filledQuantity;
+      if (remaining <= 0) {
+        return amendResult(AmendOutcome.FILLED, userOrderId, null, null);
+      }
+
+      // The original stays cancelled, not replaced, if the new order is refused
+      const sent = orderEvents.canTrack()
+        ? sendNewOrder(
+          original.symbol, original.side, price, remaining, userOrderId, userId,
+          original.clientOrderId
+        )
+        : UNTRACKABLE;
+      if (!sent.success) {
+        return amendResult(AmendOutcome.FAILED, userOrderId, null, sent.error);
+      }
+
+      const replacement = createOrderHandle(
+        original.symbol, userId, original.clientOrderId, sent
+      );
+      store.markOrderReplaced(userId, userOrderId, replacement.userOrderId);
+
+      return amendResult(AmendOutcome.REPLACED, userOrderId, replacement, null);
+    } finally {
+      amendsInFlight[slot] = -1;
+    }
+  }
+
+  function cancelOrder(
+    symbol: string,
+    userOrderId: number,
+    userId: number = store.getUserId()
+  ): CancelResult {
     const msg: CancelInput = {
       type: MessageType.CANCEL,
       symbol,
@@ -464,18 +1183,23 @@ export function createOrderManager(
       };
     }
 
+    if (result.queued) {
+      syncQueuedCount();
+    } else {
+      latency.cancelSent(userId, userOrderId, symbol, connectionManager.getOutboundCodec());
+    }
+
     return { success: true, error: null };
   }
 
-  function cancelAllOrders(symbol: string): void {
+  function cancelAllOrders(symbol: string, userId: number = store.getUserId()): void {
     const orders = store.getOrders();
-    const userId = store.getUserId();
 
     // Bounded iteration over orders
     let cancelled = 0;
     const maxCancels = 100;
 
-    orders.forEach((order, key) => {
+    orders.forEach((order) => {
       if (cancelled >= maxCancels) {
         return;
       }
@@ -497,11 +1221,200 @@ export function createOrderManager(
         return;
       }
 
-      cancelOrder(symbol, order.userOrderId);
+      cancelOrder(symbol, order.userOrderId, userId);
       cancelled += 1;
     });
   }
 
+  /** Our accounts' working orders, including those still waiting for an ack. */
+  function collectFlushTargets(accounts: readonly number[]): FlushTarget[] {
+    const targets: FlushTarget[] = [];
+
+    store.getOrders().forEach((order: Order) => {
+      if (targets.length >= MAX_FLUSH_ORDERS) {
+        return;
+      }
+      if (accounts.includes(order.userId) && isWorkingStatus(order.status)) {
+        targets.push({
+          symbol: order.symbol,
+          userId: order.userId,
+          userOrderId: order.userOrderId,
+        });
+      }
+    });
+
+    // Bounded loop; unacked orders the store could not take
+    for (let i = 0; i < MAX_PENDING_ACKS && targets.length < MAX_FLUSH_ORDERS; i += 1) {
+      const pending = pendingOrders[i];
+      if (pending !== null && store.getOrder(pending.userId, pending.userOrderId) === null) {
+        targets.push({
+          symbol: pending.symbol,
+          userId: pending.userId,
+          userOrderId: pending.userOrderId,
+        });
+      }
+    }
+
+    return targets;
+  }
+
+  function isStillWorking(userId: number, userOrderId: number): boolean {
+    const order = store.getOrder(userId, userOrderId);
+    if (order === null) {
+      // Not in the store yet: still waiting for its ack
+      return getPendingOrder(userId, userOrderId) !== null;
+    }
+    return isWorkingStatus(order.status);
+  }
+
+  /**
+   * Kill switch: cancel every working order we have, across all symbols
+   * and accounts.
+   *
+   * Sends one FLUSH, which the engine applies to the whole session and so
+   * to every account, and waits for the cancel-acks it produces for each
+   * of our orders. Orders that are still working once the cancel timeout
+   * has passed get an individual cancel. If FLUSH cannot be sent (the CSV
+   * codec has no encoding for it), every order is cancelled individually
+   * instead. A FLUSH queued while disconnected goes out on reconnect; the
+   * orders it will cancel are reported as still working until then.
+   */
+  async function flushAllOrders(): Promise<FlushResult> {
+    // Nothing queued goes out after a kill switch
+    dropQueue();
+
+    const accounts = store.getAccounts();
+    const targets = collectFlushTargets(accounts);
+
+    // Register before sending; responses are delivered asynchronously
+    const waits: Promise<OrderCancelResult>[] = [];
+    for (let i = 0; i < targets.length; i += 1) {
+      const target = targets[i];
+      waits.push(orderEvents.awaitCancel(target.userId, target.userOrderId, cancelTimeoutMs));
+    }
+
+    // The user ID is informational; FLUSH covers the session
+    const msg: FlushInput = {
+      type: MessageType.FLUSH,
+      userId: store.getUserId(),
+    };
+    const sendResult = connectionManager.sendOrder(msg);
+    const flushSent = sendResult.success && !sendResult.queued;
+    const flushQueued = sendResult.success && sendResult.queued;
+
+    let fallbackCancels = 0;
+
+    if (flushSent) {
+      const stats = connectionManager.getStats();
+      store.updateConnection({
+        messagesSent: stats.orders.messagesSent,
+        outboundCodec: stats.outboundCodec,
+      });
+    } else if (!flushQueued) {
+      for (let i = 0; i < targets.length; i += 1) {
+        const target = targets[i];
+        if (cancelOrder(target.symbol, target.userOrderId, target.userId).success) {
+          fallbackCancels += 1;
+        }
+      }
+    }
+
+    await Promise.all(waits);
+
+    // Stragglers the flush did not reach
+    if (flushSent) {
+      const retries: Promise<OrderCancelResult>[] = [];
+      for (let i = 0; i < targets.length; i += 1) {
+        const target = targets[i];
+        if (isStillWorking(target.userId, target.userOrderId)) {
+          retries.push(
+            cancelOrderAsync(target.symbol, target.userId, target.userOrderId, cancelTimeoutMs)
+          );
+          fallbackCancels += 1;
+        }
+      }
+      await Promise.all(retries);
+    }
+
+    let cancelled = 0;
+    let remaining = 0;
+    for (let i = 0; i < targets.length; i += 1) {
+      const { userId, userOrderId } = targets[i];
+      if (isStillWorking(userId, userOrderId)) {
+        remaining += 1;
+      } else if (store.getOrder(userId, userOrderId)?.status === OrderStatus.CANCELLED) {
+        cancelled += 1;
+      }
+    }
+
+    let error: string | null = null;
+    if (remaining > 0) {
+      error = flushQueued
+        ? `FLUSH queued until reconnect; ${remaining} order(s) still working`
+        : `${remaining} order(s) still working after flush`;
+    }
+
+    return {
+      success: remaining === 0,
+      flushSent,
+      flushQueued,
+      cancelled,
+      fallbackCancels,
+      remaining,
+      error,
+    };
+  }
+
+  /**
+   * Ask the engine to cancel every order whose ack timed out, in every
+   * account. Orders the engine did accept end up CANCELLED (or FILLED if a
+   * trade arrives first); orders it never saw are answered with a Reject.
+   * Returns the number of cancels sent.
+   */
+  function reconcileOrders(): number {
+    const accounts = store.getAccounts();
+    const timedOut: Order[] = [];
+
+    store.getOrders().forEach((order: Order) => {
+      if (timedOut.length >= MAX_RECONCILE_CANCELS) {
+        return;
+      }
+      if (accounts.includes(order.userId) && order.status === OrderStatus.TIMED_OUT) {
+        timedOut.push(order);
+      }
+    });
+
+    let sent = 0;
+    for (let i = 0; i < timedOut.length; i += 1) {
+      const order = timedOut[i];
+      const result = cancelOrder(order.symbol, order.userOrderId, order.userId);
+      if (result.success) {
+        sent += 1;
+      }
+    }
+    return sent;
+  }
+
+  function setRiskLimits(limits: Partial<RiskLimits>): void {
+    riskChecker.setLimits(limits);
+  }
+
+  function getRiskLimits(): RiskLimits {
+    return riskChecker.getLimits();
+  }
+
+  function setSelfTradePolicy(policy: SelfTradePolicy): void {
+    selfTradePolicy = policy;
+  }
+
+  function getSelfTradePolicy(): SelfTradePolicy {
+    return selfTradePolicy;
+  }
+
+  function onOrderEvent(handler: OrderEventHandler): () => void {
+    return orderEvents.onEvent(handler);
+  }
+
   function setCodec(codec: Codec): void {
     connectionManager.setOutboundCodec(codec);
     store.updateConnection({ outboundCodec: codec });
@@ -511,12 +1424,34 @@ export function createOrderManager(
     return connectionManager.getOutboundCodec();
   }
 
+  function getLatencyStats(): OrderLatencyStats {
+    return latency.getStats();
+  }
+
+  function resetLatencyStats(): void {
+    latency.reset();
+  }
+
+  function setQueuePolicy(policy: QueuePolicy): void {
+    connectionManager.setQueuePolicy(policy);
+  }
+
+  function getQueuePolicy(): QueuePolicy {
+    return connectionManager.getQueuePolicy();
+  }
+
+  function dropQueue(): number {
+    return connectionManager.clearQueue();
+  }
+
   function isConnected(): boolean {
     return connectionManager.getOrdersState() === ConnectionState.CONNECTED;
   }
 
   function destroy(): void {
+    stopAckSweep();
     connectionManager.destroy();
+    orderEvents.destroy();
 
     // Clear pending orders
     for (let i = 0; i < MAX_PENDING_ACKS; i += 1) {
@@ -532,10 +1467,26 @@ export function createOrderManager(
     connect,
     disconnect,
     submitOrder,
+    placeOrder,
+    getOrderIdByClientOrderId,
     cancelOrder,
+    amendOrder,
+    onOrderEvent,
     cancelAllOrders,
+    flushAllOrders,
+    reconcileOrders,
+    getInstruments: () => instruments,
+    setRiskLimits,
+    getRiskLimits,
+    setSelfTradePolicy,
+    getSelfTradePolicy,
     setCodec,
     getCodec,
+    getLatencyStats,
+    resetLatencyStats,
+    setQueuePolicy,
+    getQueuePolicy,
+    dropQueue,
     isConnected,
     destroy,
   };
@@ -0,0 +1,313 @@
+/**
+ * Pre-trade risk checks.
+ *
+ * Every new order passes through the risk checker before it is handed to
+ * the connection manager. Orders that fail never leave the client: the
+ * order manager records them with status RISK_REJECTED and reports the
+ * reason through `OrderResult.error`.
+ *
+ * All limits are optional; a limit set to null is not checked.
+ *
+ * @module client/risk-checks
+ */
+
+import {
+  type Side,
+  Side as SideEnum,
+  getPriceScale,
+  toPriceUnits,
+  formatPriceUnits,
+} from '../protocol/index.js';
+import { type Store, type Order, OrderStatus } from '../store/index.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const RATE_WINDOW_MS = 1000;
+const MAX_RATE_SAMPLES = 1024;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RiskLimits {
+  readonly maxOrderQuantity: number | null;
+  // Price * quantity of a single order
+  readonly maxOrderNotional: number | null;
+  // Absolute net position per symbol and account, counting working and
+  // unacked orders on the same side
+  readonly maxPosition: number | null;
+  // Max distance from the touch, as a fraction (0.05 = 5%)
+  readonly priceCollar: number | null;
+  // Per account
+  readonly maxOpenOrders: number | null;
+  // Across all accounts: the throttle protects the shared session
+  readonly maxOrdersPerSecond: number | null;
+}
+
+export const RiskRejectReason = {
+  MAX_ORDER_QUANTITY: 'MAX_ORDER_QUANTITY',
+  MAX_ORDER_NOTIONAL: 'MAX_ORDER_NOTIONAL',
+  MAX_POSITION: 'MAX_POSITION',
+  PRICE_COLLAR: 'PRICE_COLLAR',
+  MAX_OPEN_ORDERS: 'MAX_OPEN_ORDERS',
+  RATE_LIMIT: 'RATE_LIMIT',
+} as const;
+
+export type RiskRejectReason = (typeof RiskRejectReason)[keyof typeof RiskRejectReason];
+
+export interface RiskCheckResult {
+  readonly passed: boolean;
+  readonly reason: RiskRejectReason | null;
+  readonly error: string | null;
+}
+
+/** An account's orders the engine has not acked yet, sent or queued. */
+export interface PendingExposure {
+  readonly count: number;
+  // Their quantity on the symbol and side being checked
+  readonly sameSideQuantity: number;
+}
+
+export interface RiskChecker {
+  /** Check a new order for an account (the active account by default). */
+  check(
+    symbol: string,
+    side: Side,
+    price: number,
+    quantity: number,
+    pending: PendingExposure,
+    userId?: number
+  ): RiskCheckResult;
+  /** Record an order that was sent, for the rate throttle. */
+  recordOrder(): void;
+  setLimits(limits: Partial<RiskLimits>): void;
+  getLimits(): RiskLimits;
+}
+
+export const DEFAULT_RISK_LIMITS: RiskLimits = {
+  maxOrderQuantity: null,
+  maxOrderNotional: null,
+  maxPosition: null,
+  priceCollar: null,
+  maxOpenOrders: null,
+  maxOrdersPerSecond: null,
+};
+
+const PASSED: RiskCheckResult = { passed: true, reason: null, error: null };
+
+function fail(reason: RiskRejectReason, error: string): RiskCheckResult {
+  return { passed: false, reason, error: `Risk: ${error}` };
+}
+
+function isWorking(order: Order): boolean {
+  return (
+    order.status === OrderStatus.ACKED ||
+    order.status === OrderStatus.PARTIAL ||
+    order.status === OrderStatus.TIMED_OUT
+  );
+}
+
+// ============================================================================
+// Risk Checker
+// ============================================================================
+
+export function createRiskChecker(
+  store: Store,
+  initialLimits?: Partial<RiskLimits>
+): RiskChecker {
+  // --------------------------------------------------------------------------
+  // State
+  // --------------------------------------------------------------------------
+
+  let limits: RiskLimits = { ...DEFAULT_RISK_LIMITS, ...initialLimits };
+
+  // Send times of recent orders (ring buffer)
+  const sentTimes: number[] = new Array(MAX_RATE_SAMPLES).fill(0);
+  let sentIndex = 0;
+
+  // --------------------------------------------------------------------------
+  // Individual Checks
+  // --------------------------------------------------------------------------
+
+  function checkOrderSize(price: number, quantity: number): RiskCheckResult {
+    if (limits.maxOrderQuantity !== null && quantity > limits.maxOrderQuantity) {
+      return fail(
+        RiskRejectReason.MAX_ORDER_QUANTITY,
+        `quantity ${quantity} exceeds max ${limits.maxOrderQuantity}`
+      );
+    }
+
+    const notional = price * quantity;
+    if (limits.maxOrderNotional !== null && notional > limits.maxOrderNotional) {
+      return fail(
+        RiskRejectReason.MAX_ORDER_NOTIONAL,
+        `notional ${notional.toFixed(2)} exceeds max ${limits.maxOrderNotional}`
+      );
+    }
+
+    return PASSED;
+  }
+
+  function checkPriceCollar(symbol: string, side: Side, price: number): RiskCheckResult {
+    if (limits.priceCollar === null) {
+      return PASSED;
+    }
+
+    const tob = store.getMarketData().get(symbol);
+    if (tob === undefined) {
+      return PASSED; // No market to measure against
+    }
+
+    // Buys are measured against the offer, sells against the bid,
+    // falling back to the other side when one side is empty
+    const near = side === SideEnum.BUY ? tob.askPrice : tob.bidPrice;
+    const far = side === SideEnum.BUY ? tob.bidPrice : tob.askPrice;
+    const reference = near > 0 ? near : far;
+    if (reference <= 0) {
+      return PASSED;
+    }
+
+    // Collar edges snap inward to the symbol's price grid
+    const scale = getPriceScale(symbol);
+    const referenceUnits = toPriceUnits(reference, scale);
+    const limitUnits = side === SideEnum.BUY
+      ? Math.floor(referenceUnits * (1 + limits.priceCollar))
+      : Math.ceil(referenceUnits * (1 - limits.priceCollar));
+    const priceUnits = toPriceUnits(price, scale);
+    const outside = side === SideEnum.BUY ? priceUnits > limitUnits : priceUnits < limitUnits;
+
+    if (outside) {
+      return fail(
+        RiskRejectReason.PRICE_COLLAR,
+        `price ${formatPriceUnits(priceUnits, scale)} outside collar (${formatPriceUnits(limitUnits, scale)})`
+      );
+    }
+
+    return PASSED;
+  }
+
+  function checkPositionAndOpenOrders(
+    symbol: string,
+    side: Side,
+    quantity: number,
+    pending: PendingExposure,
+    userId: number
+  ): RiskCheckResult {
+    if (limits.maxPosition === null && limits.maxOpenOrders === null) {
+      return PASSED;
+    }
+
+    // Unacked orders are not working in the store yet
+    let openOrders = pending.count;
+    let workingSameSide = pending.sameSideQuantity;
+
+    store.getOrders().forEach((order: Order) => {
+      if (order.userId !== userId || !isWorking(order)) {
+        return;
+      }
+      openOrders += 1;
+      if (order.symbol === symbol && order.side === side) {
+        workingSameSide += order.quantity - order.filledQuantity;
+      }
+    });
+
+    if (limits.maxOpenOrders !== null && openOrders >= limits.maxOpenOrders) {
+      return fail(
+        RiskRejectReason.MAX_OPEN_ORDERS,
+        `${openOrders} open orders, max ${limits.maxOpenOrders}`
+      );
+    }
+
+    if (limits.maxPosition !== null) {
+      // Worst case: every working and unacked order on this side fills as well
+      const position = store.getPosition(symbol, userId);
+      const net = position?.netQuantity ?? 0;
+      const exposure = workingSameSide + quantity;
+      const projected = side === SideEnum.BUY ? net + exposure : net - exposure;
+
+      if (Math.abs(projected) > limits.maxPosition) {
+        return fail(
+          RiskRejectReason.MAX_POSITION,
+          `projected position ${projected} exceeds max ${limits.maxPosition}`
+        );
+      }
+    }
+
+    return PASSED;
+  }
+
+  function checkRate(): RiskCheckResult {
+    if (limits.maxOrdersPerSecond === null) {
+      return PASSED;
+    }
+
+    const cutoff = Date.now() - RATE_WINDOW_MS;
+    let recent = 0;
+
+    // Bounded loop
+    for (let i = 0; i < MAX_RATE_SAMPLES; i += 1) {
+      if (sentTimes[i] > cutoff) {
+        recent += 1;
+      }
+    }
+
+    if (recent >= limits.maxOrdersPerSecond) {
+      return fail(
+        RiskRejectReason.RATE_LIMIT,
+        `more than ${limits.maxOrdersPerSecond} orders per second`
+      );
+    }
+
+    return PASSED;
+  }
+
+  // --------------------------------------------------------------------------
+  // Public API
+  // --------------------------------------------------------------------------
+
+  function check(
+    symbol: string,
+    side: Side,
+    price: number,
+    quantity: number,
+    pending: PendingExposure,
+    userId: number = store.getUserId()
+  ): RiskCheckResult {
+    const size = checkOrderSize(price, quantity);
+    if (!size.passed) return size;
+
+    const collar = checkPriceCollar(symbol, side, price);
+    if (!collar.passed) return collar;
+
+    const exposure = checkPositionAndOpenOrders(symbol, side, quantity, pending, userId);
+    if (!exposure.passed) return exposure;
+
+    return checkRate();
+  }
+
+  function recordOrder(): void {
+    sentTimes[sentIndex] = Date.now();
+    sentIndex = (sentIndex + 1) % MAX_RATE_SAMPLES;
+  }
+
+  function setLimits(partial: Partial<RiskLimits>): void {
+    limits = { ...limits, ...partial };
+  }
+
+  function getLimits(): RiskLimits {
+    return limits;
+  }
+
+  // --------------------------------------------------------------------------
+  // Return interface
+  // --------------------------------------------------------------------------
+
+  return {
+    check,
+    recordOrder,
+    setLimits,
+    getLimits,
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Client-side self-trade prevention.
+ *
+ * Before a new order is sent, the order manager looks for our own resting
+ * orders on the opposite side of the same symbol that the new order would
+ * trade against, and applies the configured policy:
+ *
+ * - ALLOW:          send as usual (a self-trade may occur)
+ * - REJECT_NEW:     block the new order, resting orders stay
+ * - CANCEL_RESTING: cancel the crossing resting orders, then send
+ * - CANCEL_BOTH:    cancel the crossing resting orders and block the new one
+ *
+ * The engine does not prevent self-trades, so any that still happen (for
+ * example against an order whose ack has not arrived yet) are flagged in
+ * the trade history.
+ *
+ * @module client/self-trade
+ */
+
+import { type Side, Side as SideEnum } from '../protocol/index.js';
+import { type Store, type Order, OrderStatus } from '../store/index.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MAX_CROSSING_ORDERS = 64;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const SelfTradePolicy = {
+  ALLOW: 'ALLOW',
+  REJECT_NEW: 'REJECT_NEW',
+  CANCEL_RESTING: 'CANCEL_RESTING',
+  CANCEL_BOTH: 'CANCEL_BOTH',
+} as const;
+
+export type SelfTradePolicy = (typeof SelfTradePolicy)[keyof typeof SelfTradePolicy];
+
+export interface SelfTradeDecision {
+  // Block the new order
+  readonly rejectNew: boolean;
+  // Resting orders to cancel before (or instead of) sending
+  readonly cancelResting: readonly Order[];
+  readonly error: string | null;
+}
+
+const NO_ACTION: SelfTradeDecision = { rejectNew: false, cancelResting: [], error: null };
+
+// ============================================================================
+// Crossing Detection
+// ============================================================================
+
+/** True if an order on `side` at `price` would trade with a resting `order`. */
+function crosses(side: Side, price: number, order: Order): boolean {
+  return side === SideEnum.BUY ? price >= order.price : price <= order.price;
+}
+
+/**
+ * The account's working orders on the opposite side of `symbol` that an
+ * order at `price` would trade against.
+ */
+export function findCrossingOrders(
+  store: Store,
+  symbol: string,
+  side: Side,
+  price: number,
+  userId: number = store.getUserId()
+): Order[] {
+  const crossing: Order[] = [];
+
+  store.getOrders().forEach((order: Order) => {
+    if (crossing.length >= MAX_CROSSING_ORDERS) {
+      return;
+    }
+    if (order.userId !== userId || order.symbol !== symbol || order.side === side) {
+      return;
+    }
+
+    const isResting =
+      order.status === OrderStatus.ACKED ||
+      order.status === OrderStatus.PARTIAL ||
+      order.status === OrderStatus.TIMED_OUT;
+
+    if (isResting && crosses(side, price, order)) {
+      crossing.push(order);
+    }
+  });
+
+  return crossing;
+}
+
+/** Decide what to do with a new order under the given policy. */
+export function checkSelfTrade(
+  store: Store,
+  policy: SelfTradePolicy,
+  symbol: string,
+  side: Side,
+  price: number,
+  userId: number = store.getUserId()
+): SelfTradeDecision {
+  if (policy === SelfTradePolicy.ALLOW) {
+    return NO_ACTION;
+  }
+
+  const crossing = findCrossingOrders(store, symbol, side, price, userId);
+  if (crossing.length === 0) {
+    return NO_ACTION;
+  }
+
+  const error = `Self-trade: would cross own order ${crossing[0].userOrderId}`;
+
+  if (policy === SelfTradePolicy.REJECT_NEW) {
+    return { rejectNew: true, cancelResting: [], error };
+  }
+  if (policy === SelfTradePolicy.CANCEL_RESTING) {
+    return { rejectNew: false, cancelResting: crossing, error: null };
+  }
+  return { rejectNew: true, cancelResting: crossing, error };
+}
@@ -0,0 +1,27 @@
+/**
+ * Instruments module exports.
+ *
+ * @module instruments
+ */
+
+export {
+  createInstrumentRegistry,
+  validateInstrument,
+  isValidTradingStatus,
+  getTickUnits,
+  TradingStatus,
+  InstrumentRejectReason,
+  MAX_INSTRUMENTS,
+  type Instrument,
+  type InstrumentRegistry,
+  type InstrumentCheckResult,
+} from './registry.js';
+
+export {
+  parseInstruments,
+  parseInstrumentsJson,
+  parseInstrumentsCsv,
+  fetchInstruments,
+  InstrumentFormat,
+  type InstrumentLoadResult,
+} from './loader.js';
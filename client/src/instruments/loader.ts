@@ -0,0 +1,234 @@
+/**
+ * Load instrument reference data from JSON or CSV.
+ *
+ * JSON is an array of instruments, or an object with an `instruments`
+ * array. CSV has a header row naming the columns. Field names are the
+ * same in both:
+ *
+ *     symbol,description,tickSize,lotSize,priceScale,minQuantity,maxQuantity,status
+ *     AAPL,Apple Inc.,0.01,1,2,1,100000,TRADING
+ *
+ * Only `symbol` is required. `priceScale` defaults to the decimals of
+ * `tickSize` (at least 2), `tickSize` to one price unit, `lotSize` to 1,
+ * `minQuantity` to the lot size and `status` to TRADING.
+ *
+ * @module instruments/loader
+ */
+
+import { DEFAULT_PRICE_SCALE, fromPriceUnits } from '../protocol/index.js';
+import {
+  type Instrument,
+  TradingStatus,
+  MAX_INSTRUMENTS,
+  validateInstrument,
+} from './registry.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_MAX_QUANTITY = 1000000;
+const MAX_SOURCE_LENGTH = 1024 * 1024;
+const MAX_ERRORS = 32;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const InstrumentFormat = {
+  JSON: 'JSON',
+  CSV: 'CSV',
+} as const;
+
+export type InstrumentFormat = (typeof InstrumentFormat)[keyof typeof InstrumentFormat];
+
+export interface InstrumentLoadResult {
+  readonly success: boolean;
+  // Valid instruments; invalid rows are skipped and reported in `errors`
+  readonly instruments: Instrument[];
+  readonly errors: string[];
+}
+
+type RawInstrument = Readonly<Record<string, unknown>>;
+
+// ============================================================================
+// Field Conversion
+// ============================================================================
+
+function readNumber(raw: RawInstrument, key: string): number | null {
+  const value = raw[key];
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) ? parsed : NaN;
+  }
+  return null;
+}
+
+function readString(raw: RawInstrument, key: string): string {
+  const value = raw[key];
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function countDecimals(value: number): number {
+  const text = String(value);
+  const dot = text.indexOf('.');
+  return dot < 0 ? 0 : text.length - dot - 1;
+}
+
+function toInstrument(raw: RawInstrument): Instrument {
+  const tickSize = readNumber(raw, 'tickSize');
+  const priceScale = readNumber(raw, 'priceScale') ??
+    Math.max(DEFAULT_PRICE_SCALE, tickSize !== null ? countDecimals(tickSize) : 0);
+  const lotSize = readNumber(raw, 'lotSize') ?? 1;
+  const status = readString(raw, 'status').toUpperCase();
+
+  return {
+    symbol: readString(raw, 'symbol'),
+    description: readString(raw, 'description'),
+    tickSize: tickSize ?? fromPriceUnits(1, priceScale),
+    lotSize,
+    priceScale,
+    minQuantity: readNumber(raw, 'minQuantity') ?? lotSize,
+    maxQuantity: readNumber(raw, 'maxQuantity') ?? DEFAULT_MAX_QUANTITY,
+    status: (status === '' ? TradingStatus.TRADING : status) as TradingStatus,
+  };
+}
+
+function collect(rows: readonly RawInstrument[], errors: string[]): InstrumentLoadResult {
+  const instruments: Instrument[] = [];
+  const seen = new Set<string>();
+
+  if (rows.length > MAX_INSTRUMENTS) {
+    errors.push(`Too many instruments, keeping the first ${MAX_INSTRUMENTS}`);
+  }
+
+  const count = Math.min(rows.length, MAX_INSTRUMENTS);
+  for (let i = 0; i < count; i += 1) {
+    const instrument = toInstrument(rows[i]);
+    const error = seen.has(instrument.symbol)
+      ? `duplicate symbol ${instrument.symbol}`
+      : validateInstrument(instrument);
+
+    if (error !== null) {
+      if (errors.length < MAX_ERRORS) {
+        errors.push(`Instrument ${i + 1}: ${error}`);
+      }
+      continue;
+    }
+
+    seen.add(instrument.symbol);
+    instruments.push(instrument);
+  }
+
+  return { success: instruments.length > 0, instruments, errors };
+}
+
+function failed(error: string): InstrumentLoadResult {
+  return { success: false, instruments: [], errors: [error] };
+}
+
+// ============================================================================
+// Parsers
+// ============================================================================
+
+export function parseInstrumentsJson(text: string): InstrumentLoadResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return failed(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const list = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { instruments?: unknown } | null)?.instruments;
+  if (!Array.isArray(list)) {
+    return failed('Expected an array of instruments');
+  }
+
+  const rows: RawInstrument[] = [];
+  const errors: string[] = [];
+  for (let i = 0; i < Math.min(list.length, MAX_INSTRUMENTS + 1); i += 1) {
+    const entry: unknown = list[i];
+    if (typeof entry === 'object' && entry !== null) {
+      rows.push(entry as RawInstrument);
+    } else if (errors.length < MAX_ERRORS) {
+      errors.push(`Instrument ${i + 1}: not an object`);
+    }
+  }
+
+  return collect(rows, errors);
+}
+
+export function parseInstrumentsCsv(text: string): InstrumentLoadResult {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '' && !line.startsWith('#'));
+  if (lines.length === 0) {
+    return failed('Empty instrument file');
+  }
+
+  const columns = lines[0].split(',').map((name) => name.trim());
+  if (!columns.includes('symbol')) {
+    return failed('CSV header must include a symbol column');
+  }
+
+  const rows: RawInstrument[] = [];
+  const count = Math.min(lines.length, MAX_INSTRUMENTS + 2);
+  for (let i = 1; i < count; i += 1) {
+    const fields = lines[i].split(',');
+    const row: Record<string, string> = {};
+    for (let j = 0; j < columns.length; j += 1) {
+      row[columns[j]] = fields[j] ?? '';
+    }
+    rows.push(row);
+  }
+
+  return collect(rows, []);
+}
+
+/** Parse either format; without `format`, JSON is detected by its first character. */
+export function parseInstruments(text: string, format?: InstrumentFormat): InstrumentLoadResult {
+  if (text.length > MAX_SOURCE_LENGTH) {
+    return failed('Instrument file too large');
+  }
+
+  const trimmed = text.trimStart();
+  const isJson = format !== undefined
+    ? format === InstrumentFormat.JSON
+    : trimmed.startsWith('[') || trimmed.startsWith('{');
+
+  return isJson ? parseInstrumentsJson(trimmed) : parseInstrumentsCsv(trimmed);
+}
+
+/**
+ * Fetch and parse reference data. The format comes from the response's
+ * content type, falling back to detection.
+ */
+export async function fetchInstruments(
+  url: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<InstrumentLoadResult> {
+  let text: string;
+  let contentType: string;
+
+  try {
+    const response = await fetchImpl(url);
+    if (!response.ok) {
+      return failed(`${url}: HTTP ${response.status}`);
+    }
+    text = await response.text();
+    contentType = response.headers.get('content-type') ?? '';
+  } catch (error) {
+    return failed(`${url}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (contentType.includes('json')) {
+    return parseInstruments(text, InstrumentFormat.JSON);
+  }
+  if (contentType.includes('csv')) {
+    return parseInstruments(text, InstrumentFormat.CSV);
+  }
+  return parseInstruments(text);
+}
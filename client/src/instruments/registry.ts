@@ -0,0 +1,334 @@
+/**
+ * Instrument reference data.
+ *
+ * The registry holds each symbol's tick size, lot size, price scale,
+ * quantity limits and trading status. Loading it also sets the symbols'
+ * price scales (protocol/price), so codecs and formatters follow the
+ * reference data.
+ *
+ * An empty registry places no restrictions: until reference data is loaded
+ * every symbol is accepted at the default price scale.
+ *
+ * @module instruments/registry
+ */
+
+import {
+  MAX_PRICE_SCALE,
+  isValidSymbol,
+  isValidPriceScale,
+  getPriceScale,
+  setPriceScale,
+  clearPriceScales,
+  toPriceUnits,
+  fromPriceUnits,
+  formatPriceUnits,
+} from '../protocol/index.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const MAX_INSTRUMENTS = 1024;
+const MAX_LISTENERS = 32;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const TradingStatus = {
+  TRADING: 'TRADING',
+  HALTED: 'HALTED',
+  CLOSED: 'CLOSED',
+} as const;
+
+export type TradingStatus = (typeof TradingStatus)[keyof typeof TradingStatus];
+
+export interface Instrument {
+  readonly symbol: string;
+  readonly description: string;
+  // Smallest price increment, a whole number of price units
+  readonly tickSize: number;
+  // Quantities must be a multiple of this
+  readonly lotSize: number;
+  // Decimals carried on the wire
+  readonly priceScale: number;
+  readonly minQuantity: number;
+  readonly maxQuantity: number;
+  readonly status: TradingStatus;
+}
+
+export const InstrumentRejectReason = {
+  UNKNOWN_SYMBOL: 'UNKNOWN_SYMBOL',
+  NOT_TRADING: 'NOT_TRADING',
+  OFF_TICK: 'OFF_TICK',
+  OFF_LOT: 'OFF_LOT',
+  BELOW_MIN_QUANTITY: 'BELOW_MIN_QUANTITY',
+  ABOVE_MAX_QUANTITY: 'ABOVE_MAX_QUANTITY',
+} as const;
+
+export type InstrumentRejectReason =
+  (typeof InstrumentRejectReason)[keyof typeof InstrumentRejectReason];
+
+export interface InstrumentCheckResult {
+  readonly passed: boolean;
+  readonly reason: InstrumentRejectReason | null;
+  readonly error: string | null;
+}
+
+export interface InstrumentRegistry {
+  /** Replace the reference data. Returns how many instruments were kept. */
+  load(instruments: readonly Instrument[]): number;
+  get(symbol: string): Instrument | null;
+  /** All instruments, sorted by symbol. */
+  getAll(): Instrument[];
+  size(): number;
+  setStatus(symbol: string, status: TradingStatus): boolean;
+  /** Tick size, or one price unit for symbols without reference data. */
+  getTickSize(symbol: string): number;
+  /** Decimals needed to show any on-tick price (0.05 -> 2, 0.5 -> 1). */
+  getPriceDecimals(symbol: string): number;
+  isOnTick(symbol: string, price: number): boolean;
+  /**
+   * Snap a price to the tick grid and move it by `ticks` ticks, never
+   * below one tick.
+   */
+  stepPrice(symbol: string, price: number, ticks: number): number;
+  /** Validate an order against the symbol's reference data. */
+  checkOrder(symbol: string, price: number, quantity: number): InstrumentCheckResult;
+  onChange(callback: () => void): () => void;
+}
+
+const PASSED: InstrumentCheckResult = { passed: true, reason: null, error: null };
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+export function isValidTradingStatus(value: unknown): value is TradingStatus {
+  return value === TradingStatus.TRADING ||
+    value === TradingStatus.HALTED ||
+    value === TradingStatus.CLOSED;
+}
+
+/** Tick size as price units, or null if it is not a positive whole unit. */
+export function getTickUnits(instrument: Instrument): number | null {
+  if (!isValidPriceScale(instrument.priceScale) || !(instrument.tickSize > 0)) {
+    return null;
+  }
+
+  const units = toPriceUnits(instrument.tickSize, instrument.priceScale);
+  if (units < 1 || fromPriceUnits(units, instrument.priceScale) !== instrument.tickSize) {
+    return null;
+  }
+  return units;
+}
+
+/** Describe what is wrong with an instrument definition, or null if valid. */
+export function validateInstrument(instrument: Instrument): string | null {
+  if (!isValidSymbol(instrument.symbol)) {
+    return `invalid symbol '${instrument.symbol}'`;
+  }
+  if (!isValidPriceScale(instrument.priceScale)) {
+    return `${instrument.symbol}: price scale must be 0-${MAX_PRICE_SCALE}`;
+  }
+  if (getTickUnits(instrument) === null) {
+    return `${instrument.symbol}: tick size ${instrument.tickSize} is not a multiple of the price scale`;
+  }
+  if (!Number.isInteger(instrument.lotSize) || instrument.lotSize < 1) {
+    return `${instrument.symbol}: lot size must be a positive integer`;
+  }
+  if (!Number.isInteger(instrument.minQuantity) || instrument.minQuantity < 1) {
+    return `${instrument.symbol}: min quantity must be a positive integer`;
+  }
+  if (!Number.isInteger(instrument.maxQuantity) || instrument.maxQuantity < instrument.minQuantity) {
+    return `${instrument.symbol}: max quantity must be an integer >= min quantity`;
+  }
+  if (!isValidTradingStatus(instrument.status)) {
+    return `${instrument.symbol}: unknown trading status '${String(instrument.status)}'`;
+  }
+  return null;
+}
+
+function fail(reason: InstrumentRejectReason, error: string): InstrumentCheckResult {
+  return { passed: false, reason, error };
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export function createInstrumentRegistry(
+  initial: readonly Instrument[] = []
+): InstrumentRegistry {
+  let instruments = new Map<string, Instrument>();
+  const listeners = new Set<() => void>();
+
+  function notify(): void {
+    listeners.forEach((callback) => callback());
+  }
+
+  function load(list: readonly Instrument[]): number {
+    const next = new Map<string, Instrument>();
+    const count = Math.min(list.length, MAX_INSTRUMENTS);
+
+    for (let i = 0; i < count; i += 1) {
+      const instrument = list[i];
+      const error = validateInstrument(instrument);
+      if (error !== null) {
+        console.warn(`Skipping instrument: ${error}`);
+        continue;
+      }
+      next.set(instrument.symbol, instrument);
+    }
+
+    // The registry owns the price scales once reference data is loaded
+    clearPriceScales();
+    next.forEach((instrument: Instrument) => {
+      setPriceScale(instrument.symbol, instrument.priceScale);
+    });
+
+    instruments = next;
+    notify();
+    return next.size;
+  }
+
+  function get(symbol: string): Instrument | null {
+    return instruments.get(symbol) ?? null;
+  }
+
+  function getAll(): Instrument[] {
+    const all: Instrument[] = [];
+    instruments.forEach((instrument: Instrument) => all.push(instrument));
+    return all.sort((a, b) => (a.symbol < b.symbol ? -1 : a.symbol > b.symbol ? 1 : 0));
+  }
+
+  function setStatus(symbol: string, status: TradingStatus): boolean {
+    const instrument = instruments.get(symbol);
+    if (instrument === undefined || !isValidTradingStatus(status)) {
+      return false;
+    }
+
+    instruments.set(symbol, { ...instrument, status });
+    notify();
+    return true;
+  }
+
+  // --------------------------------------------------------------------------
+  // Tick Grid
+  // --------------------------------------------------------------------------
+
+  function getGrid(symbol: string): { scale: number; tickUnits: number } {
+    const instrument = instruments.get(symbol);
+    if (instrument === undefined) {
+      return { scale: getPriceScale(symbol), tickUnits: 1 };
+    }
+    return { scale: instrument.priceScale, tickUnits: getTickUnits(instrument) ?? 1 };
+  }
+
+  function getTickSize(symbol: string): number {
+    const grid = getGrid(symbol);
+    return fromPriceUnits(grid.tickUnits, grid.scale);
+  }
+
+  function getPriceDecimals(symbol: string): number {
+    const grid = getGrid(symbol);
+    const tick = formatPriceUnits(grid.tickUnits, grid.scale, 0);
+    const dot = tick.indexOf('.');
+    return dot < 0 ? 0 : tick.length - dot - 1;
+  }
+
+  function isOnTick(symbol: string, price: number): boolean {
+    const grid = getGrid(symbol);
+    const units = toPriceUnits(price, grid.scale);
+    return fromPriceUnits(units, grid.scale) === price && units % grid.tickUnits === 0;
+  }
+
+  function stepPrice(symbol: string, price: number, ticks: number): number {
+    const grid = getGrid(symbol);
+    const units = Number.isFinite(price) ? toPriceUnits(price, grid.scale) : 0;
+    const onGrid = Math.round(units / grid.tickUnits);
+    const stepped = Math.max(1, onGrid + Math.trunc(ticks));
+    return fromPriceUnits(stepped * grid.tickUnits, grid.scale);
+  }
+
+  // --------------------------------------------------------------------------
+  // Order Validation
+  // --------------------------------------------------------------------------
+
+  function checkOrder(symbol: string, price: number, quantity: number): InstrumentCheckResult {
+    if (instruments.size === 0) {
+      return PASSED;
+    }
+
+    const instrument = instruments.get(symbol);
+    if (instrument === undefined) {
+      return fail(InstrumentRejectReason.UNKNOWN_SYMBOL, `unknown symbol ${symbol}`);
+    }
+
+    if (instrument.status !== TradingStatus.TRADING) {
+      return fail(
+        InstrumentRejectReason.NOT_TRADING,
+        `${symbol} is ${instrument.status.toLowerCase()}`
+      );
+    }
+
+    if (!isOnTick(symbol, price)) {
+      return fail(
+        InstrumentRejectReason.OFF_TICK,
+        `price ${price} is not a multiple of the tick size ${getTickSize(symbol)}`
+      );
+    }
+
+    if (quantity % instrument.lotSize !== 0) {
+      return fail(
+        InstrumentRejectReason.OFF_LOT,
+        `quantity ${quantity} is not a multiple of the lot size ${instrument.lotSize}`
+      );
+    }
+
+    if (quantity < instrument.minQuantity) {
+      return fail(
+        InstrumentRejectReason.BELOW_MIN_QUANTITY,
+        `quantity ${quantity} below minimum ${instrument.minQuantity}`
+      );
+    }
+
+    if (quantity > instrument.maxQuantity) {
+      return fail(
+        InstrumentRejectReason.ABOVE_MAX_QUANTITY,
+        `quantity ${quantity} above maximum ${instrument.maxQuantity}`
+      );
+    }
+
+    return PASSED;
+  }
+
+  function onChange(callback: () => void): () => void {
+    if (listeners.size >= MAX_LISTENERS) {
+      console.warn('Max instrument listeners reached');
+      return () => {};
+    }
+    listeners.add(callback);
+    return () => {
+      listeners.delete(callback);
+    };
+  }
+
+  if (initial.length > 0) {
+    load(initial);
+  }
+
+  return {
+    load,
+    get,
+    getAll,
+    size: () => instruments.size,
+    setStatus,
+    getTickSize,
+    getPriceDecimals,
+    isOnTick,
+    stepPrice,
+    checkOrder,
+    onChange,
+  };
+}
@@ -6,9 +6,29 @@
  * @module main
  */
 
-import { createStore, type Store } from './store/index.js';
-import { createOrderManager, type OrderManager } from './client/index.js';
-import { Codec } from './protocol/index.js';
+import {
+  createStore,
+  createStorePersistence,
+  type Store,
+  type StorePersistence,
+} from './store/index.js';
+import {
+  createOrderManager,
+  type OrderManager,
+  type OrderResult,
+  AmendOutcome,
+  SelfTradePolicy,
+  type LatencySeries,
+} from './client/index.js';
+import { Codec, getPriceScale } from './protocol/index.js';
+import { FeedState, QueuePolicy } from './transport/index.js';
+import {
+  createInstrumentRegistry,
+  fetchInstruments,
+  type InstrumentRegistry,
+  type Instrument,
+  TradingStatus,
+} from './instruments/index.js';
 import {
   createElement,
   getById,
@@ -27,16 +47,29 @@ import {
   formatSideClass,
   formatOrderStatus,
   formatOrderStatusClass,
+  formatTradingStatus,
   formatConnectionStatus,
   formatConnectionStatusClass,
   formatCodec,
+  formatLatency,
+  formatLatencyMs,
+  formatFeedHealth,
+  formatLatencyMetric,
   formatTime,
   parsePrice,
   parseQuantity,
   parseSymbol,
 } from './ui/utils/format.js';
 import { Side } from './protocol/index.js';
-import { type Order, type Position, type Trade, type TopOfBook, OrderStatus } from './store/index.js';
+import {
+  type Order,
+  type Position,
+  type Trade,
+  type TopOfBook,
+  type BookSnapshot,
+  OrderStatus,
+  MAX_CLIENT_ORDER_ID_LENGTH,
+} from './store/index.js';
 
 // ============================================================================
 // Configuration
@@ -46,7 +79,36 @@ const CONFIG = {
   host: 'localhost',
   ordersPort: 9080,
   marketDataPort: 9082,
+  // Reference data: the relay's file first, then the copy bundled with the UI
+  instrumentSources: [
+    'http://localhost:9080/instruments',
+    '/instruments.json',
+  ],
   defaultCodec: Codec.BINARY,
+  ladderLevels: 10,
+  // Pre-trade risk limits (null disables a check)
+  risk: {
+    maxOrderQuantity: 10000,
+    maxOrderNotional: 1000000,
+    maxPosition: 50000,
+    priceCollar: 0.1,
+    maxOpenOrders: 200,
+    maxOrdersPerSecond: 20,
+  },
+  selfTradePolicy: SelfTradePolicy.REJECT_NEW,
+  // Orders placed while disconnected wait up to queueMaxAgeMs, then are dropped
+  queuePolicy: QueuePolicy.QUEUE,
+  queueMaxAgeMs: 10000,
+  // Order latency panel refresh
+  latencyRefreshMs: 1000,
+};
+
+// Price field keys and how many ticks they move the price
+const PRICE_STEP_KEYS: Readonly<Record<string, number>> = {
+  ArrowUp: 1,
+  ArrowDown: -1,
+  PageUp: 10,
+  PageDown: -10,
 };
 
 // ============================================================================
@@ -55,6 +117,18 @@ const CONFIG = {
 
 let store: Store;
 let orderManager: OrderManager;
+let instruments: InstrumentRegistry;
+let persistence: StorePersistence | null = null;
+
+// Depth ladder: submit immediately on click instead of prefilling the ticket
+let ladderClickToTrade = false;
+
+// Positions table: one total per symbol, or one row per account
+let positionsByAccount = false;
+// Orders table filter: client order ID or order ID; empty shows working orders
+let orderSearch = '';
+// Latency panel: histograms per codec instead of per symbol
+let latencyByCodec = false;
 
 // ============================================================================
 // Connection Status Component
@@ -78,6 +152,38 @@ function renderConnectionStatus(): void {
 
   wrapper.appendChild(indicator);
   wrapper.appendChild(label);
+
+  // Orders waiting for the connection; dropping them stops the replay
+  if (connection.queuedMessages > 0) {
+    const queued = createElement('span', {
+      className: 'queue-status',
+      textContent: `${connection.queuedMessages} queued`,
+    });
+    const dropButton = createElement('button', {
+      className: 'btn-drop-queue',
+      textContent: 'Drop',
+    }, {
+      onClick: () => {
+        orderManager.dropQueue();
+      },
+    });
+    wrapper.appendChild(queued);
+    wrapper.appendChild(dropButton);
+  }
+
+  // Market data is stale after a sequence gap until a snapshot recovers it
+  const feed = connection.marketDataFeed;
+  if (feed !== null) {
+    const feedStatus = createElement('span', {
+      className: 'feed-status',
+      textContent: formatFeedHealth(feed),
+    });
+    if (feed.state === FeedState.STALE) {
+      addClass(feedStatus, 'feed-stale');
+    }
+    wrapper.appendChild(feedStatus);
+  }
+
   container.appendChild(wrapper);
 }
 
@@ -121,6 +227,41 @@ function renderCodecSelector(): void {
   container.appendChild(wrapper);
 }
 
+// ============================================================================
+// Kill Switch Component
+// ============================================================================
+
+function renderKillSwitch(): void {
+  const container = getById('kill-switch');
+  if (container === null) return;
+
+  removeAllChildren(container);
+
+  const button = createElement('button', {
+    className: 'btn-kill-switch',
+    textContent: 'Flush All',
+  }, {
+    onClick: () => {
+      button.disabled = true;
+      button.textContent = 'Flushing...';
+
+      void orderManager.flushAllOrders().then((result) => {
+        button.disabled = false;
+        button.textContent = 'Flush All';
+
+        if (!result.success) {
+          store.updateConnection({
+            lastError: `flush: ${result.error ?? 'failed'}`,
+            lastErrorAt: Date.now(),
+          });
+        }
+      });
+    },
+  });
+
+  container.appendChild(button);
+}
+
 // ============================================================================
 // Order Entry Component
 // ============================================================================
@@ -135,29 +276,58 @@ function renderOrderEntry(): void {
 
   const form = createElement('div', { className: 'order-entry-form' });
 
-  // Symbol input
+  // Symbol: a picker once reference data is loaded, free text until then
   const symbolGroup = createElement('div', { className: 'form-group' });
   const symbolLabel = createElement('label', { textContent: 'Symbol' });
-  const symbolInput = createElement('input', {
-    id: 'order-symbol',
-    type: 'text',
-    value: store.getSelectedSymbol(),
-    placeholder: 'AAPL',
-  });
+  const symbolInput = instruments.size() > 0
+    ? renderSymbolPicker()
+    : createElement('input', {
+      id: 'order-symbol',
+      type: 'text',
+      value: store.getSelectedSymbol(),
+      placeholder: 'AAPL',
+    }, {
+      onChange: (event: Event) => {
+        const target = event.target as HTMLInputElement;
+        const symbol = parseSymbol(target.value);
+        if (symbol !== null) {
+          store.setSelectedSymbol(symbol);
+        }
+      },
+    });
+  const instrumentInfo = createElement('div', { id: 'instrument-info', className: 'instrument-info' });
   symbolGroup.appendChild(symbolLabel);
   symbolGroup.appendChild(symbolInput);
+  symbolGroup.appendChild(instrumentInfo);
+
+  const accountGroup = renderAccountPicker();
 
   // Price and Quantity row
   const priceQtyRow = createElement('div', { className: 'form-row' });
 
   const priceGroup = createElement('div', { className: 'form-group' });
   const priceLabel = createElement('label', { textContent: 'Price' });
+  // Step and placeholder follow the symbol's tick (applyTickToPriceInput)
   const priceInput = createElement('input', {
     id: 'order-price',
     type: 'number',
-    placeholder: '0.00',
     min: '0',
-    step: '0.01',
+  }, {
+    onInput: () => validatePriceInput(),
+    onKeyDown: (event: KeyboardEvent) => {
+      const ticks = PRICE_STEP_KEYS[event.key];
+      if (ticks !== undefined) {
+        event.preventDefault();
+        stepPriceInput(ticks);
+      }
+    },
+    onWheel: (event: WheelEvent) => {
+      // Only while focused, so scrolling the page past the field still works
+      if (document.activeElement === priceInput && event.deltaY !== 0) {
+        event.preventDefault();
+        stepPriceInput(event.deltaY < 0 ? 1 : -1);
+      }
+    },
   });
   priceGroup.appendChild(priceLabel);
   priceGroup.appendChild(priceInput);
@@ -177,6 +347,18 @@ function renderOrderEntry(): void {
   priceQtyRow.appendChild(priceGroup);
   priceQtyRow.appendChild(qtyGroup);
 
+  // Optional client order ID, kept on the order for searching and correlation
+  const clientIdGroup = createElement('div', { className: 'form-group' });
+  const clientIdLabel = createElement('label', { textContent: 'Client ID' });
+  const clientIdInput = createElement('input', {
+    id: 'order-client-id',
+    type: 'text',
+    placeholder: 'optional',
+  });
+  clientIdInput.maxLength = MAX_CLIENT_ORDER_ID_LENGTH;
+  clientIdGroup.appendChild(clientIdLabel);
+  clientIdGroup.appendChild(clientIdInput);
+
   // Buttons
   const buttons = createElement('div', { className: 'order-buttons' });
 
@@ -200,33 +382,201 @@ function renderOrderEntry(): void {
   buttons.appendChild(buyBtn);
   buttons.appendChild(sellBtn);
 
+  form.appendChild(accountGroup);
   form.appendChild(symbolGroup);
   form.appendChild(priceQtyRow);
+  form.appendChild(clientIdGroup);
   form.appendChild(buttons);
 
   wrapper.appendChild(form);
   container.appendChild(wrapper);
+
+  renderInstrumentInfo();
+  applyTickToPriceInput();
+}
+
+/** Account select for new orders, with a field to add another account. */
+function renderAccountPicker(): HTMLElement {
+  const group = createElement('div', { className: 'form-group' });
+  const label = createElement('label', { textContent: 'Account' });
+  const row = createElement('div', { className: 'account-picker' });
+
+  const select = createElement('select', { id: 'order-account' }, {
+    onChange: (event: Event) => {
+      store.setUserId(Number((event.target as HTMLSelectElement).value));
+    },
+  });
+
+  const accounts = store.getAccounts();
+  for (let i = 0; i < accounts.length; i += 1) {
+    const option = createElement('option', {
+      value: String(accounts[i]),
+      textContent: String(accounts[i]),
+    });
+    select.appendChild(option);
+  }
+  select.value = String(store.getUserId());
+
+  const newAccount = createElement('input', {
+    id: 'order-new-account',
+    type: 'number',
+    min: '0',
+    step: '1',
+    placeholder: 'User ID',
+  });
+
+  const addBtn = createElement('button', {
+    className: 'btn-add-account',
+    textContent: 'Add',
+  }, {
+    onClick: () => {
+      const userId = parseQuantity(newAccount.value);
+      if (userId === null || !store.addAccount(userId)) {
+        newAccount.focus();
+        return;
+      }
+      store.setUserId(userId);
+    },
+  });
+
+  row.appendChild(select);
+  row.appendChild(newAccount);
+  row.appendChild(addBtn);
+  group.appendChild(label);
+  group.appendChild(row);
+  return group;
+}
+
+/** Decimals prices of `symbol` are shown with. */
+function priceDecimals(symbol: string): number {
+  return instruments.getPriceDecimals(symbol);
+}
+
+function applyTickToPriceInput(): void {
+  const priceInput = getById<HTMLInputElement>('order-price');
+  if (priceInput === null) return;
+
+  const symbol = store.getSelectedSymbol();
+  const decimals = priceDecimals(symbol);
+  priceInput.step = formatPrice(instruments.getTickSize(symbol), decimals);
+  priceInput.placeholder = formatPrice(0, decimals);
+  validatePriceInput();
+}
+
+/** Move the entered price by whole ticks, starting from the touch if empty. */
+function stepPriceInput(ticks: number): void {
+  const priceInput = getById<HTMLInputElement>('order-price');
+  if (priceInput === null) return;
+
+  const symbol = store.getSelectedSymbol();
+  const tob = store.getTopOfBook(symbol);
+  const current = parsePrice(priceInput.value) ??
+    (tob !== null ? (ticks > 0 ? tob.askPrice : tob.bidPrice) : 0);
+
+  // From an off-tick price, the first step only snaps onto the grid
+  const next = instruments.isOnTick(symbol, current)
+    ? instruments.stepPrice(symbol, current, ticks)
+    : instruments.stepPrice(symbol, current, 0);
+
+  setInputValue(priceInput, formatPrice(next, priceDecimals(symbol)));
+  validatePriceInput();
+}
+
+/** Highlight a price that is not on the selected symbol's tick grid. */
+function validatePriceInput(): boolean {
+  const priceInput = getById<HTMLInputElement>('order-price');
+  if (priceInput === null) return true;
+
+  const symbol = store.getSelectedSymbol();
+  const text = priceInput.value.trim();
+  const price = parsePrice(text);
+  const valid = text === '' || (price !== null && instruments.isOnTick(symbol, price));
+
+  if (valid) {
+    removeClass(priceInput, 'input-invalid');
+    priceInput.title = '';
+  } else {
+    addClass(priceInput, 'input-invalid');
+    priceInput.title = `Price must be a multiple of ${formatPrice(instruments.getTickSize(symbol), priceDecimals(symbol))}`;
+  }
+  return valid;
+}
+
+function renderSymbolPicker(): HTMLSelectElement {
+  const select = createElement('select', { id: 'order-symbol' }, {
+    onChange: (event: Event) => {
+      store.setSelectedSymbol((event.target as HTMLSelectElement).value);
+    },
+  });
+
+  const selected = store.getSelectedSymbol();
+  const all = instruments.getAll();
+
+  // A selected symbol without reference data stays visible, so the
+  // picker never silently switches instrument
+  if (instruments.get(selected) === null) {
+    select.appendChild(createElement('option', { value: selected, textContent: selected }));
+  }
+
+  for (let i = 0; i < all.length; i += 1) {
+    const instrument = all[i];
+    const suffix = instrument.status === TradingStatus.TRADING
+      ? ''
+      : ` (${formatTradingStatus(instrument.status)})`;
+    const option = createElement('option', {
+      value: instrument.symbol,
+      textContent: instrument.symbol + suffix,
+    });
+    option.title = instrument.description;
+    select.appendChild(option);
+  }
+
+  select.value = selected;
+  return select;
+}
+
+/** Tick, lot and status of the selected symbol under the symbol field. */
+function renderInstrumentInfo(): void {
+  const info = getById('instrument-info');
+  if (info === null) return;
+
+  const instrument: Instrument | null = instruments.get(store.getSelectedSymbol());
+  if (instrument === null) {
+    info.textContent = '';
+    info.className = 'instrument-info';
+    return;
+  }
+
+  info.textContent =
+    `Tick ${formatPrice(instrument.tickSize, instrument.priceScale)}` +
+    ` · Lot ${formatQuantity(instrument.lotSize)}` +
+    ` · Qty ${formatQuantity(instrument.minQuantity)}-${formatQuantity(instrument.maxQuantity)}` +
+    ` · ${formatTradingStatus(instrument.status)}`;
+  info.className = instrument.status === TradingStatus.TRADING
+    ? 'instrument-info'
+    : 'instrument-info instrument-not-trading';
 }
 
 function submitOrder(side: Side): void {
   const symbolInput = getById<HTMLInputElement>('order-symbol');
   const priceInput = getById<HTMLInputElement>('order-price');
   const qtyInput = getById<HTMLInputElement>('order-quantity');
+  const clientIdInput = getById<HTMLInputElement>('order-client-id');
 
   if (symbolInput === null || priceInput === null || qtyInput === null) {
     return;
   }
 
   const symbol = parseSymbol(symbolInput.value);
-  const price = parsePrice(priceInput.value);
-  const quantity = parseQuantity(qtyInput.value);
-
   if (symbol === null) {
     symbolInput.focus();
     return;
   }
 
-  if (price === null) {
+  const price = parsePrice(priceInput.value, getPriceScale(symbol));
+  const quantity = parseQuantity(qtyInput.value);
+
+  if (price === null || !validatePriceInput()) {
     priceInput.focus();
     return;
   }
@@ -236,15 +586,78 @@ function submitOrder(side: Side): void {
     return;
   }
 
-  const result = orderManager.submitOrder(symbol, side, price, quantity);
+  const clientOrderId = clientIdInput?.value.trim() ?? '';
+  const result = orderManager.submitOrder(
+    symbol, side, price, quantity, store.getUserId(), clientOrderId === '' ? null : clientOrderId
+  );
 
   if (result.success) {
     setInputValue(priceInput, '');
     setInputValue(qtyInput, '');
+    if (clientIdInput !== null) {
+      setInputValue(clientIdInput, '');
+    }
     store.setSelectedSymbol(symbol);
+  } else {
+    reportOrderError(result);
+  }
+}
+
+/** Instrument, risk and send failures never reach the engine, so surface them here. */
+function reportOrderError(result: OrderResult): void {
+  if (result.error !== null) {
+    store.updateConnection({
+      lastError: `order ${result.userOrderId}: ${result.error}`,
+      lastErrorAt: Date.now(),
+    });
   }
 }
 
+/**
+ * Amend a working order using the order entry form. An empty price or
+ * quantity field keeps the order's current value.
+ */
+function amendFromOrderEntry(order: Order): void {
+  const priceInput = getById<HTMLInputElement>('order-price');
+  const qtyInput = getById<HTMLInputElement>('order-quantity');
+
+  if (priceInput === null || qtyInput === null) {
+    return;
+  }
+
+  const price = priceInput.value.trim() === ''
+    ? order.price
+    : parsePrice(priceInput.value, getPriceScale(order.symbol));
+  const quantity =
+    qtyInput.value.trim() === '' ? order.quantity : parseQuantity(qtyInput.value);
+
+  if (price === null) {
+    priceInput.focus();
+    return;
+  }
+
+  if (quantity === null) {
+    qtyInput.focus();
+    return;
+  }
+
+  if (price === order.price && quantity === order.quantity) {
+    return;
+  }
+
+  void orderManager.amendOrder(order.userOrderId, price, quantity, order.userId).then((result) => {
+    if (result.outcome !== AmendOutcome.REPLACED && result.error !== null) {
+      store.updateConnection({
+        lastError: `amend ${order.userOrderId}: ${result.error}`,
+        lastErrorAt: Date.now(),
+      });
+    }
+  });
+
+  setInputValue(priceInput, '');
+  setInputValue(qtyInput, '');
+}
+
 // ============================================================================
 // Positions Table Component
 // ============================================================================
@@ -255,9 +668,29 @@ function renderPositionsTable(): void {
 
   removeAllChildren(container);
 
-  const positions = store.getPositions();
-
-  if (positions.size === 0) {
+  // Toolbar: total per symbol or per account
+  const toolbar = createElement('div', { className: 'table-toolbar' });
+  const toggleLabel = createElement('label', { className: 'table-toggle' });
+  const toggle = createElement('input', { type: 'checkbox' }, {
+    onChange: (event: Event) => {
+      positionsByAccount = (event.target as HTMLInputElement).checked;
+      renderPositionsTable();
+    },
+  });
+  toggle.checked = positionsByAccount;
+  toggleLabel.appendChild(toggle);
+  toggleLabel.appendChild(document.createTextNode(' By account'));
+  toolbar.appendChild(toggleLabel);
+  container.appendChild(toolbar);
+
+  const positions: Position[] = [];
+  (positionsByAccount ? store.getPositions() : store.getAggregatePositions())
+    .forEach((position: Position) => positions.push(position));
+  positions.sort((a, b) =>
+    a.symbol === b.symbol ? (a.userId ?? 0) - (b.userId ?? 0) : a.symbol < b.symbol ? -1 : 1
+  );
+
+  if (positions.length === 0) {
     const empty = createElement('div', {
       className: 'empty-state',
       textContent: 'No positions',
@@ -271,11 +704,13 @@ function renderPositionsTable(): void {
   // Header
   const thead = createElement('thead');
   const headerRow = createElement('tr');
-  const headers = ['Symbol', 'Net Qty', 'Avg Buy', 'Avg Sell', 'Last', 'Unrealized', 'Realized'];
+  const headers = [
+    'Symbol', 'Account', 'Net Qty', 'Avg Buy', 'Avg Sell', 'Last', 'Unrealized', 'Realized',
+  ];
 
   for (let i = 0; i < headers.length; i += 1) {
     const th = createElement('th', { textContent: headers[i] });
-    if (i > 0) addClass(th, 'align-right');
+    if (i > 1) addClass(th, 'align-right');
     headerRow.appendChild(th);
   }
   thead.appendChild(headerRow);
@@ -284,28 +719,33 @@ function renderPositionsTable(): void {
   // Body
   const tbody = createElement('tbody');
 
-  positions.forEach((position: Position) => {
+  for (let i = 0; i < positions.length; i += 1) {
+    const position = positions[i];
     const row = createElement('tr');
 
     const symbolCell = createElement('td', { textContent: position.symbol });
 
+    const accountCell = createElement('td', {
+      textContent: position.userId === null ? 'All' : String(position.userId),
+    });
+
     const netQtyCell = createElement('td', {
       textContent: formatQuantity(position.netQuantity),
       className: 'align-right ' + (position.netQuantity >= 0 ? 'side-buy' : 'side-sell'),
     });
 
     const avgBuyCell = createElement('td', {
-      textContent: formatPrice(position.avgBuyPrice),
+      textContent: formatPrice(position.avgBuyPrice, priceDecimals(position.symbol)),
       className: 'align-right',
     });
 
     const avgSellCell = createElement('td', {
-      textContent: formatPrice(position.avgSellPrice),
+      textContent: formatPrice(position.avgSellPrice, priceDecimals(position.symbol)),
       className: 'align-right',
     });
 
     const lastCell = createElement('td', {
-      textContent: formatPrice(position.lastPrice),
+      textContent: formatPrice(position.lastPrice, priceDecimals(position.symbol)),
       className: 'align-right',
     });
 
@@ -320,6 +760,7 @@ function renderPositionsTable(): void {
     });
 
     row.appendChild(symbolCell);
+    row.appendChild(accountCell);
     row.appendChild(netQtyCell);
     row.appendChild(avgBuyCell);
     row.appendChild(avgSellCell);
@@ -328,7 +769,7 @@ function renderPositionsTable(): void {
     row.appendChild(realizedCell);
 
     tbody.appendChild(row);
-  });
+  }
 
   table.appendChild(tbody);
   container.appendChild(table);
@@ -342,30 +783,52 @@ function renderOrdersTable(): void {
   const container = getById('orders-table');
   if (container === null) return;
 
+  // Re-rendering replaces the search field, so keep its focus
+  const searchFocused = document.activeElement?.id === 'order-search';
   removeAllChildren(container);
 
+  // Toolbar: search by client order ID or order ID
+  const toolbar = createElement('div', { className: 'table-toolbar' });
+  const search = createElement('input', {
+    id: 'order-search',
+    type: 'search',
+    className: 'table-search',
+    placeholder: 'Search client ID / order ID',
+    value: orderSearch,
+  }, {
+    onInput: (event: Event) => {
+      orderSearch = (event.target as HTMLInputElement).value;
+      renderOrdersTable();
+    },
+  });
+  toolbar.appendChild(search);
+  container.appendChild(toolbar);
+  if (searchFocused) {
+    search.focus();
+    search.setSelectionRange(orderSearch.length, orderSearch.length);
+  }
+
   const orders = store.getOrders();
-  const userId = store.getUserId();
+  const query = orderSearch.trim().toLowerCase();
 
-  // Filter to working orders only
-  const workingOrders: Order[] = [];
+  // Without a search, working orders only (timed-out orders may still be
+  // live); a search also finds finished orders. Across all accounts
+  const shownOrders: Order[] = [];
   orders.forEach((order: Order) => {
-    if (order.userId !== userId) return;
-
-    const isWorking =
-      order.status === OrderStatus.PENDING ||
-      order.status === OrderStatus.ACKED ||
-      order.status === OrderStatus.PARTIAL;
-
-    if (isWorking) {
-      workingOrders.push(order);
+    if (query !== '') {
+      if (matchesOrderSearch(order, query)) {
+        shownOrders.push(order);
+      }
+    } else if (isWorkingOrder(order)) {
+      shownOrders.push(order);
     }
   });
+  shownOrders.sort((a, b) => b.userOrderId - a.userOrderId);
 
-  if (workingOrders.length === 0) {
+  if (shownOrders.length === 0) {
     const empty = createElement('div', {
       className: 'empty-state',
-      textContent: 'No working orders',
+      textContent: query !== '' ? 'No matching orders' : 'No working orders',
     });
     container.appendChild(empty);
     return;
@@ -376,12 +839,14 @@ function renderOrdersTable(): void {
   // Header
   const thead = createElement('thead');
   const headerRow = createElement('tr');
-  const headers = ['Symbol', 'Side', 'Price', 'Qty', 'Filled', 'Status', ''];
+  const headers = [
+    'Account', 'ID', 'Client ID', 'Symbol', 'Side', 'Price', 'Qty', 'Filled', 'Status', '',
+  ];
 
   for (let i = 0; i < headers.length; i += 1) {
     const th = createElement('th', { textContent: headers[i] });
-    if (i >= 2 && i <= 4) addClass(th, 'align-right');
-    if (i === 6) addClass(th, 'align-center');
+    if (i === 1 || (i >= 5 && i <= 7)) addClass(th, 'align-right');
+    if (i === 9) addClass(th, 'align-center');
     headerRow.appendChild(th);
   }
   thead.appendChild(headerRow);
@@ -390,10 +855,19 @@ function renderOrdersTable(): void {
   // Body
   const tbody = createElement('tbody');
 
-  for (let i = 0; i < workingOrders.length; i += 1) {
-    const order = workingOrders[i];
+  for (let i = 0; i < shownOrders.length; i += 1) {
+    const order = shownOrders[i];
     const row = createElement('tr');
 
+    const accountCell = createElement('td', { textContent: String(order.userId) });
+
+    const idCell = createElement('td', {
+      textContent: String(order.userOrderId),
+      className: 'align-right',
+    });
+
+    const clientIdCell = createElement('td', { textContent: order.clientOrderId ?? '' });
+
     const symbolCell = createElement('td', { textContent: order.symbol });
 
     const sideCell = createElement('td', {
@@ -402,7 +876,7 @@ function renderOrdersTable(): void {
     });
 
     const priceCell = createElement('td', {
-      textContent: formatPrice(order.price),
+      textContent: formatPrice(order.price, priceDecimals(order.symbol)),
       className: 'align-right',
     });
 
@@ -422,16 +896,37 @@ function renderOrdersTable(): void {
     });
 
     const actionCell = createElement('td', { className: 'align-center' });
-    const cancelBtn = createElement('button', {
-      className: 'btn-cancel',
-      textContent: 'Cancel',
-    }, {
-      onClick: () => {
-        orderManager.cancelOrder(order.symbol, order.userOrderId);
-      },
-    });
-    actionCell.appendChild(cancelBtn);
 
+    // Amend to the price/quantity in the order entry form
+    const isAmendable =
+      order.status === OrderStatus.ACKED || order.status === OrderStatus.PARTIAL;
+    if (isAmendable) {
+      const amendBtn = createElement('button', {
+        className: 'btn-amend',
+        textContent: 'Amend',
+      }, {
+        onClick: () => {
+          amendFromOrderEntry(order);
+        },
+      });
+      actionCell.appendChild(amendBtn);
+    }
+
+    if (isWorkingOrder(order)) {
+      const cancelBtn = createElement('button', {
+        className: 'btn-cancel',
+        textContent: 'Cancel',
+      }, {
+        onClick: () => {
+          orderManager.cancelOrder(order.symbol, order.userOrderId, order.userId);
+        },
+      });
+      actionCell.appendChild(cancelBtn);
+    }
+
+    row.appendChild(accountCell);
+    row.appendChild(idCell);
+    row.appendChild(clientIdCell);
     row.appendChild(symbolCell);
     row.appendChild(sideCell);
     row.appendChild(priceCell);
@@ -447,6 +942,20 @@ function renderOrdersTable(): void {
   container.appendChild(table);
 }
 
+function isWorkingOrder(order: Order): boolean {
+  return order.status === OrderStatus.QUEUED ||
+    order.status === OrderStatus.PENDING ||
+    order.status === OrderStatus.ACKED ||
+    order.status === OrderStatus.PARTIAL ||
+    order.status === OrderStatus.TIMED_OUT;
+}
+
+/** Client order ID containing the (lower-cased) query, or the exact order ID. */
+function matchesOrderSearch(order: Order, query: string): boolean {
+  return (order.clientOrderId !== null && order.clientOrderId.toLowerCase().includes(query)) ||
+    String(order.userOrderId) === query;
+}
+
 // ============================================================================
 // Trades Table Component
 // ============================================================================
@@ -473,11 +982,11 @@ function renderTradesTable(): void {
   // Header
   const thead = createElement('thead');
   const headerRow = createElement('tr');
-  const headers = ['Time', 'Symbol', 'Side', 'Price', 'Qty'];
+  const headers = ['Time', 'Account', 'Symbol', 'Side', 'Price', 'Qty'];
 
   for (let i = 0; i < headers.length; i += 1) {
     const th = createElement('th', { textContent: headers[i] });
-    if (i >= 3) addClass(th, 'align-right');
+    if (i >= 4) addClass(th, 'align-right');
     headerRow.appendChild(th);
   }
   thead.appendChild(headerRow);
@@ -490,20 +999,23 @@ function renderTradesTable(): void {
   for (let i = 0; i < maxTrades; i += 1) {
     const trade = trades[i];
     const row = createElement('tr');
+    if (trade.selfTrade) addClass(row, 'trade-self');
 
     const timeCell = createElement('td', {
       textContent: formatTime(trade.timestamp),
     });
 
+    const accountCell = createElement('td', { textContent: String(trade.userId) });
+
     const symbolCell = createElement('td', { textContent: trade.symbol });
 
     const sideCell = createElement('td', {
-      textContent: formatSide(trade.side),
+      textContent: trade.selfTrade ? `${formatSide(trade.side)} (self)` : formatSide(trade.side),
       className: formatSideClass(trade.side),
     });
 
     const priceCell = createElement('td', {
-      textContent: formatPrice(trade.price),
+      textContent: formatPrice(trade.price, priceDecimals(trade.symbol)),
       className: 'align-right',
     });
 
@@ -513,6 +1025,7 @@ function renderTradesTable(): void {
     });
 
     row.appendChild(timeCell);
+    row.appendChild(accountCell);
     row.appendChild(symbolCell);
     row.appendChild(sideCell);
     row.appendChild(priceCell);
@@ -550,6 +1063,9 @@ function renderMarketData(): void {
 
   marketData.forEach((tob: TopOfBook) => {
     const item = createElement('div', { className: 'market-data-item' });
+    if (tob.stale) {
+      addClass(item, 'market-data-stale');
+    }
 
     const symbol = createElement('div', {
       className: 'market-data-symbol',
@@ -561,7 +1077,7 @@ function renderMarketData(): void {
     const bidWrapper = createElement('div');
     const bidPrice = createElement('span', {
       className: 'market-data-bid',
-      textContent: formatPrice(tob.bidPrice),
+      textContent: formatPrice(tob.bidPrice, priceDecimals(tob.symbol)),
     });
     const bidQty = createElement('span', {
       className: 'market-data-qty',
@@ -573,7 +1089,7 @@ function renderMarketData(): void {
     const askWrapper = createElement('div');
     const askPrice = createElement('span', {
       className: 'market-data-ask',
-      textContent: formatPrice(tob.askPrice),
+      textContent: formatPrice(tob.askPrice, priceDecimals(tob.symbol)),
     });
     const askQty = createElement('span', {
       className: 'market-data-qty',
@@ -593,6 +1109,311 @@ function renderMarketData(): void {
   container.appendChild(list);
 }
 
+// ============================================================================
+// Depth Ladder Component
+// ============================================================================
+
+interface LadderRow {
+  readonly price: number;
+  readonly bidQuantity: number;
+  readonly askQuantity: number;
+  readonly ownBidQuantity: number;
+  readonly ownAskQuantity: number;
+}
+
+function buildLadderRows(book: BookSnapshot | null, symbol: string): LadderRow[] {
+  const rows: Map<number, LadderRow> = new Map();
+
+  function getRow(price: number): LadderRow {
+    return rows.get(price) ?? {
+      price,
+      bidQuantity: 0,
+      askQuantity: 0,
+      ownBidQuantity: 0,
+      ownAskQuantity: 0,
+    };
+  }
+
+  if (book !== null) {
+    const bidCount = Math.min(book.bids.length, CONFIG.ladderLevels);
+    for (let i = 0; i < bidCount; i += 1) {
+      const level = book.bids[i];
+      rows.set(level.price, { ...getRow(level.price), bidQuantity: level.quantity });
+    }
+
+    const askCount = Math.min(book.asks.length, CONFIG.ladderLevels);
+    for (let i = 0; i < askCount; i += 1) {
+      const level = book.asks[i];
+      rows.set(level.price, { ...getRow(level.price), askQuantity: level.quantity });
+    }
+  }
+
+  // The active account's working orders, shown at their price even if not
+  // in the book
+  const userId = store.getUserId();
+  store.getOrders().forEach((order: Order) => {
+    if (order.symbol !== symbol || order.userId !== userId) return;
+
+    const isWorking =
+      order.status === OrderStatus.PENDING ||
+      order.status === OrderStatus.ACKED ||
+      order.status === OrderStatus.PARTIAL;
+    if (!isWorking) return;
+
+    const remaining = order.quantity - order.filledQuantity;
+    const row = getRow(order.price);
+
+    if (order.side === Side.BUY) {
+      rows.set(order.price, { ...row, ownBidQuantity: row.ownBidQuantity + remaining });
+    } else {
+      rows.set(order.price, { ...row, ownAskQuantity: row.ownAskQuantity + remaining });
+    }
+  });
+
+  // Highest price at the top
+  const result: LadderRow[] = [];
+  rows.forEach((row: LadderRow) => result.push(row));
+  result.sort((a, b) => b.price - a.price);
+  return result;
+}
+
+function handleLadderClick(side: Side, price: number): void {
+  const symbolInput = getById<HTMLInputElement>('order-symbol');
+  const priceInput = getById<HTMLInputElement>('order-price');
+  const qtyInput = getById<HTMLInputElement>('order-quantity');
+
+  if (symbolInput === null || priceInput === null || qtyInput === null) {
+    return;
+  }
+
+  const symbol = store.getSelectedSymbol();
+  setInputValue(symbolInput, symbol);
+  setInputValue(priceInput, formatPrice(price, priceDecimals(symbol)));
+
+  if (!ladderClickToTrade) {
+    qtyInput.focus();
+    return;
+  }
+
+  const quantity = parseQuantity(qtyInput.value);
+  if (quantity === null) {
+    qtyInput.focus();
+    return;
+  }
+
+  const result = orderManager.submitOrder(symbol, side, price, quantity);
+  if (!result.success) {
+    reportOrderError(result);
+  }
+}
+
+function renderDepthLadder(): void {
+  const container = getById('depth-ladder');
+  if (container === null) return;
+
+  removeAllChildren(container);
+
+  const symbol = store.getSelectedSymbol();
+  const book = store.getOrderBook(symbol);
+
+  const wrapper = createElement('div', { className: 'ladder' });
+
+  // Toolbar: symbol and click-to-trade toggle
+  const toolbar = createElement('div', { className: 'ladder-toolbar' });
+  const symbolLabel = createElement('span', {
+    className: 'ladder-symbol',
+    textContent: symbol,
+  });
+
+  const toggleLabel = createElement('label', { className: 'ladder-toggle' });
+  const toggle = createElement('input', { type: 'checkbox' }, {
+    onChange: (event: Event) => {
+      ladderClickToTrade = (event.target as HTMLInputElement).checked;
+    },
+  });
+  toggle.checked = ladderClickToTrade;
+  toggleLabel.appendChild(toggle);
+  toggleLabel.appendChild(document.createTextNode(' Click to trade'));
+
+  toolbar.appendChild(symbolLabel);
+  toolbar.appendChild(toggleLabel);
+  wrapper.appendChild(toolbar);
+
+  const rows = buildLadderRows(book, symbol);
+
+  if (rows.length === 0) {
+    const empty = createElement('div', {
+      className: 'empty-state',
+      textContent: 'No depth for ' + symbol,
+    });
+    wrapper.appendChild(empty);
+    container.appendChild(wrapper);
+    return;
+  }
+
+  const bestBid = book !== null && book.bids.length > 0 ? book.bids[0].price : null;
+  const bestAsk = book !== null && book.asks.length > 0 ? book.asks[0].price : null;
+
+  const table = createElement('table', { className: 'data-table ladder-table' });
+
+  // Header
+  const thead = createElement('thead');
+  const headerRow = createElement('tr');
+  const headers = ['Mine', 'Bid', 'Price', 'Ask', 'Mine'];
+
+  for (let i = 0; i < headers.length; i += 1) {
+    const th = createElement('th', { textContent: headers[i], className: 'align-center' });
+    headerRow.appendChild(th);
+  }
+  thead.appendChild(headerRow);
+  table.appendChild(thead);
+
+  // Body
+  const tbody = createElement('tbody');
+
+  for (let i = 0; i < rows.length; i += 1) {
+    const level = rows[i];
+    const row = createElement('tr', { className: 'ladder-row' });
+
+    if (level.price === bestBid) addClass(row, 'ladder-best-bid');
+    if (level.price === bestAsk) addClass(row, 'ladder-best-ask');
+
+    const onBuy = { onClick: () => handleLadderClick(Side.BUY, level.price) };
+    const onSell = { onClick: () => handleLadderClick(Side.SELL, level.price) };
+
+    const ownBidCell = createElement('td', {
+      textContent: level.ownBidQuantity > 0 ? formatQuantity(level.ownBidQuantity) : '',
+      className: 'align-center ladder-cell-bid' + (level.ownBidQuantity > 0 ? ' ladder-own' : ''),
+    }, onBuy);
+
+    const bidCell = createElement('td', {
+      textContent: level.bidQuantity > 0 ? formatQuantity(level.bidQuantity) : '',
+      className: 'align-center ladder-cell-bid side-buy',
+    }, onBuy);
+
+    const priceCell = createElement('td', {
+      textContent: formatPrice(level.price, priceDecimals(symbol)),
+      className: 'align-center ladder-price',
+    });
+
+    const askCell = createElement('td', {
+      textContent: level.askQuantity > 0 ? formatQuantity(level.askQuantity) : '',
+      className: 'align-center ladder-cell-ask side-sell',
+    }, onSell);
+
+    const ownAskCell = createElement('td', {
+      textContent: level.ownAskQuantity > 0 ? formatQuantity(level.ownAskQuantity) : '',
+      className: 'align-center ladder-cell-ask' + (level.ownAskQuantity > 0 ? ' ladder-own' : ''),
+    }, onSell);
+
+    row.appendChild(ownBidCell);
+    row.appendChild(bidCell);
+    row.appendChild(priceCell);
+    row.appendChild(askCell);
+    row.appendChild(ownAskCell);
+
+    tbody.appendChild(row);
+  }
+
+  table.appendChild(tbody);
+  wrapper.appendChild(table);
+  container.appendChild(wrapper);
+}
+
+// ============================================================================
+// Latency Panel Component
+// ============================================================================
+
+function renderLatencyPanel(): void {
+  const container = getById('latency-panel');
+  if (container === null) return;
+
+  removeAllChildren(container);
+
+  // Toolbar: per symbol or per codec, and a reset
+  const toolbar = createElement('div', { className: 'table-toolbar' });
+  const toggleLabel = createElement('label', { className: 'table-toggle' });
+  const toggle = createElement('input', { type: 'checkbox' }, {
+    onChange: (event: Event) => {
+      latencyByCodec = (event.target as HTMLInputElement).checked;
+      renderLatencyPanel();
+    },
+  });
+  toggle.checked = latencyByCodec;
+  toggleLabel.appendChild(toggle);
+  toggleLabel.appendChild(document.createTextNode(' By codec'));
+  toolbar.appendChild(toggleLabel);
+
+  const resetButton = createElement('button', {
+    className: 'btn-toolbar',
+    textContent: 'Reset',
+  }, {
+    onClick: () => {
+      orderManager.resetLatencyStats();
+      renderLatencyPanel();
+    },
+  });
+  toolbar.appendChild(resetButton);
+  container.appendChild(toolbar);
+
+  const stats = orderManager.getLatencyStats();
+  const series: readonly LatencySeries[] = latencyByCodec ? stats.byCodec : stats.bySymbol;
+
+  if (series.length === 0) {
+    const empty = createElement('div', {
+      className: 'empty-state',
+      textContent: 'No responses yet',
+    });
+    container.appendChild(empty);
+    return;
+  }
+
+  const table = createElement('table', { className: 'data-table' });
+
+  // Header
+  const thead = createElement('thead');
+  const headerRow = createElement('tr');
+  const headers = [
+    'Latency', latencyByCodec ? 'Codec' : 'Symbol', 'Count', 'p50', 'p90', 'p99', 'Max',
+  ];
+
+  for (let i = 0; i < headers.length; i += 1) {
+    const th = createElement('th', { textContent: headers[i] });
+    if (i > 1) addClass(th, 'align-right');
+    headerRow.appendChild(th);
+  }
+  thead.appendChild(headerRow);
+  table.appendChild(thead);
+
+  // Body (milliseconds)
+  const tbody = createElement('tbody');
+
+  for (let i = 0; i < series.length; i += 1) {
+    const entry = series[i];
+    const row = createElement('tr');
+    const values = [
+      formatLatencyMetric(entry.metric),
+      entry.key,
+      String(entry.stats.count),
+      formatLatencyMs(entry.stats.p50Ms),
+      formatLatencyMs(entry.stats.p90Ms),
+      formatLatencyMs(entry.stats.p99Ms),
+      formatLatencyMs(entry.stats.maxMs),
+    ];
+
+    for (let j = 0; j < values.length; j += 1) {
+      const cell = createElement('td', { textContent: values[j] });
+      if (j > 1) addClass(cell, 'align-right');
+      row.appendChild(cell);
+    }
+
+    tbody.appendChild(row);
+  }
+
+  table.appendChild(tbody);
+  container.appendChild(table);
+}
+
 // ============================================================================
 // Footer Stats Component
 // ============================================================================
@@ -612,6 +1433,16 @@ function renderFooterStats(): void {
     recvEl.textContent = 'Recv: ' + connection.messagesReceived;
   }
 
+  const ordersRttEl = getById('orders-rtt');
+  if (ordersRttEl !== null) {
+    ordersRttEl.textContent = 'Orders RTT: ' + formatLatency(connection.ordersLatency);
+  }
+
+  const marketDataRttEl = getById('market-data-rtt');
+  if (marketDataRttEl !== null) {
+    marketDataRttEl.textContent = 'MD RTT: ' + formatLatency(connection.marketDataLatency);
+  }
+
   if (errorEl !== null) {
     if (connection.lastError !== null) {
       errorEl.textContent = connection.lastError;
@@ -633,6 +1464,7 @@ function setupSubscriptions(): void {
 
   store.subscribe('orders', () => {
     renderOrdersTable();
+    renderDepthLadder();
   });
 
   store.subscribe('positions', () => {
@@ -646,6 +1478,83 @@ function setupSubscriptions(): void {
   store.subscribe('marketData', () => {
     renderMarketData();
   });
+
+  store.subscribe('orderBook', () => {
+    renderDepthLadder();
+  });
+
+  store.subscribe('userId', () => {
+    renderOrderEntry();
+    renderDepthLadder();
+  });
+
+  store.subscribe('accounts', () => {
+    renderOrderEntry();
+  });
+
+  store.subscribe('selectedSymbol', () => {
+    renderDepthLadder();
+    renderInstrumentInfo();
+    applyTickToPriceInput();
+  });
+
+  instruments.onChange(() => {
+    renderOrderEntry();
+  });
+}
+
+// ============================================================================
+// Reference Data
+// ============================================================================
+
+async function loadInstruments(): Promise<void> {
+  for (let i = 0; i < CONFIG.instrumentSources.length; i += 1) {
+    const url = CONFIG.instrumentSources[i];
+    const result = await fetchInstruments(url);
+
+    if (result.errors.length > 0) {
+      console.warn(`Instrument data from ${url}:`, result.errors);
+    }
+    if (result.success) {
+      instruments.load(result.instruments);
+      console.log(`Loaded ${instruments.size()} instruments from ${url}`);
+      return;
+    }
+  }
+
+  console.warn('No instrument reference data, orders are not validated against it');
+}
+
+// ============================================================================
+// Session Persistence
+// ============================================================================
+
+function setupPersistence(): void {
+  let storage: Storage;
+  try {
+    storage = window.localStorage;
+  } catch (error) {
+    // Blocked by browser settings; the session lives only as long as the page
+    console.warn('localStorage unavailable, session will not be saved:', error);
+    return;
+  }
+
+  persistence = createStorePersistence(store, { storage });
+
+  const result = persistence.restore();
+  if (result.restored) {
+    console.log(
+      `Restored ${store.getAccounts().length} account(s): ${store.getOrders().size} orders, ` +
+      `${store.getTrades().length} trades, next order ID ${store.getNextOrderId()}`
+    );
+  }
+
+  persistence.start();
+
+  // Pending writes are debounced; flush them before the page goes away
+  window.addEventListener('pagehide', () => {
+    persistence?.save();
+  });
 }
 
 // ============================================================================
@@ -655,6 +1564,10 @@ function setupSubscriptions(): void {
 function init(): void {
   // Create store
   store = createStore();
+  instruments = createInstrumentRegistry();
+
+  // Before the order manager connects, so restored orders get reconciled
+  setupPersistence();
 
   // Create order manager
   orderManager = createOrderManager(store, {
@@ -662,6 +1575,11 @@ function init(): void {
     ordersPort: CONFIG.ordersPort,
     marketDataPort: CONFIG.marketDataPort,
     codec: CONFIG.defaultCodec,
+    instruments,
+    risk: CONFIG.risk,
+    selfTradePolicy: CONFIG.selfTradePolicy,
+    queuePolicy: CONFIG.queuePolicy,
+    queueMaxAgeMs: CONFIG.queueMaxAgeMs,
   });
 
   // Setup subscriptions
@@ -670,19 +1588,27 @@ function init(): void {
   // Initial render
   renderConnectionStatus();
   renderCodecSelector();
+  renderKillSwitch();
   renderOrderEntry();
   renderPositionsTable();
   renderOrdersTable();
   renderTradesTable();
   renderMarketData();
+  renderDepthLadder();
+  renderLatencyPanel();
   renderFooterStats();
 
+  // Histograms roll over time, not only on new responses
+  setInterval(renderLatencyPanel, CONFIG.latencyRefreshMs);
+
   // Connect
   orderManager.connect();
+  void loadInstruments();
 
   // Expose for debugging
   (window as any).store = store;
   (window as any).orderManager = orderManager;
+  (window as any).persistence = persistence;
   (window as any).Side = Side;
   (window as any).Codec = Codec;
   console.log('App initialized, orderManager exposed to window');
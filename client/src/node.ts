@@ -0,0 +1,32 @@
+/**
+ * Node.js entry point for the headless client library.
+ *
+ * Re-exports the SDK and makes `createOrderManager` use the `ws` package,
+ * since Node (before v22) has no global WebSocket:
+ *
+ *   import { createStore, createOrderManager, Side } from 'matching-engine-client';
+ *
+ *   const store = createStore();
+ *   const orders = createOrderManager(store, { host: 'localhost' });
+ *   orders.connect();
+ *
+ * @module node
+ */
+
+import { WebSocket as NodeWebSocket } from 'ws';
+
+import { type Store } from './store/index.js';
+import {
+  type OrderManager,
+  type OrderManagerConfig,
+  createOrderManager as createBaseOrderManager,
+} from './client/index.js';
+
+export * from './sdk.js';
+
+export function createOrderManager(store: Store, config: OrderManagerConfig): OrderManager {
+  return createBaseOrderManager(store, {
+    webSocketImpl: NodeWebSocket,
+    ...config,
+  });
+}
@@ -16,6 +16,8 @@
  *   Top of Book: 20 bytes
  *   Reject:      19 bytes
  *
+ * Prices are u32 counts of the symbol's price units (see protocol/price).
+ *
  * @module protocol/binary-codec
  */
 
@@ -37,6 +39,12 @@ import {
   isValidOrderId,
   isValidSide,
 } from './types.js';
+import {
+  MAX_PRICE_UNITS,
+  getPriceScale,
+  toPriceUnits,
+  fromPriceUnits,
+} from './price.js';
 
 // ============================================================================
 // Protocol Constants (matching Zig)
@@ -154,6 +162,11 @@ function encodeNewOrder(msg: NewOrderInput): EncodeResult {
     return { success: false, data: new Uint8Array(0), error: 'Invalid quantity' };
   }
 
+  const priceUnits = toPriceUnits(msg.price, getPriceScale(msg.symbol));
+  if (priceUnits > MAX_PRICE_UNITS) {
+    return { success: false, data: new Uint8Array(0), error: 'Invalid price' };
+  }
+
   const buffer = new ArrayBuffer(NEW_ORDER_WIRE_SIZE);
   const view = new DataView(buffer);
   let pos = 0;
@@ -172,8 +185,8 @@ function encodeNewOrder(msg: NewOrderInput): EncodeResult {
   writeSymbol(view, pos, msg.symbol);
   pos += SYMBOL_SIZE;
 
-  // price (as integer - assuming price is already scaled or we scale it)
-  writeU32Big(view, pos, Math.round(msg.price * 100));
+  // price in units of the symbol's price scale
+  writeU32Big(view, pos, priceUnits);
   pos += 4;
 
   // quantity
@@ -271,6 +284,7 @@ function decodeAck(view: DataView): DecodeResult {
     message: {
       type: OutputMessageType.ACK,
       symbol,
+      userId,
       userOrderId,
       status: AckStatus.ACCEPTED,
     },
@@ -308,9 +322,11 @@ function decodeTrade(view: DataView): DecodeResult {
     message: {
       type: OutputMessageType.TRADE,
       symbol,
-      price: priceRaw / 100,
+      price: fromPriceUnits(priceRaw, getPriceScale(symbol)),
       quantity,
+      buyUserId,
       buyOrderId,
+      sellUserId,
       sellOrderId,
     },
     bytesConsumed: TRADE_WIRE_SIZE,
@@ -338,6 +354,7 @@ function decodeReject(view: DataView): DecodeResult {
     message: {
       type: OutputMessageType.REJECT,
       symbol,
+      userId,
       userOrderId,
       reason: reason as RejectReason,
     },
@@ -363,6 +380,7 @@ function decodeCancelAck(view: DataView): DecodeResult {
     message: {
       type: OutputMessageType.CANCEL_ACK,
       symbol,
+      userId,
       userOrderId,
     },
     bytesConsumed: CANCEL_ACK_WIRE_SIZE,
@@ -390,17 +408,19 @@ function decodeTopOfBook(view: DataView): DecodeResult {
   const quantity = readU32Big(view, pos);
   pos += 4;
 
-  // Note: TopOfBook in Zig only has one side at a time
-  // We'll need to track bid/ask separately in the UI
+  // TopOfBook in Zig only has one side at a time; `side` tells the
+  // store which half of the book to update
   const isBid = side === Side.BUY;
+  const price = fromPriceUnits(priceRaw, getPriceScale(symbol));
 
   return {
     success: true,
     message: {
       type: OutputMessageType.TOP_OF_BOOK,
       symbol,
-      bidPrice: isBid ? priceRaw / 100 : 0,
-      askPrice: isBid ? 0 : priceRaw / 100,
+      side: isBid ? Side.BUY : Side.SELL,
+      bidPrice: isBid ? price : 0,
+      askPrice: isBid ? 0 : price,
       bidQuantity: isBid ? quantity : 0,
       askQuantity: isBid ? 0 : quantity,
     },
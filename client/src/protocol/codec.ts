@@ -27,7 +27,6 @@ import {
   decode as binaryDecode,
   isBinaryMessage,
   type EncodeResult as BinaryEncodeResult,
-  type DecodeResult as BinaryDecodeResult,
 } from './binary-codec.js';
 
 // ============================================================================
@@ -239,13 +238,14 @@ function decodeBinaryBatch(data: Uint8Array): BatchDecodeResult {
   const messages: OutputMessage[] = [];
   const errors: string[] = [];
 
-  const messageCount = Math.floor(data.length / BINARY_MESSAGE_SIZE);
+  // A short last slot is an unpadded message (e.g. one per packet)
+  const messageCount = Math.ceil(data.length / BINARY_MESSAGE_SIZE);
   const boundedCount = Math.min(messageCount, MAX_BATCH_MESSAGES);
 
   // Bounded loop
   for (let i = 0; i < boundedCount; i += 1) {
     const offset = i * BINARY_MESSAGE_SIZE;
-    const slice = data.subarray(offset, offset + BINARY_MESSAGE_SIZE);
+    const slice = data.subarray(offset, Math.min(offset + BINARY_MESSAGE_SIZE, data.length));
     const result = binaryDecode(slice);
 
     if (result.success && result.message !== null) {
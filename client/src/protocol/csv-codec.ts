@@ -13,6 +13,9 @@
  *     X,<symbol>,<user_order_id>  (Cancel Ack)
  *     B,<symbol>,<bid_price>,<ask_price>,<bid_qty>,<ask_qty>
  *
+ * Input prices are decimal text; output prices are integer counts of the
+ * symbol's price units (see protocol/price).
+ *
  * @module protocol/csv-codec
  */
 
@@ -39,6 +42,7 @@ import {
   isValidUserId,
   isValidOrderId,
 } from './types.js';
+import { getPriceScale, toPriceUnits, fromPriceUnits, formatPriceUnits } from './price.js';
 
 // ============================================================================
 // Constants
@@ -112,7 +116,7 @@ function encodeNewOrder(msg: NewOrderInput): EncodeResult {
     FIELD_SEPARATOR +
     sideChar +
     FIELD_SEPARATOR +
-    msg.price.toString() +
+    priceToField(msg.symbol, msg.price) +
     FIELD_SEPARATOR +
     msg.quantity.toString() +
     LINE_TERMINATOR;
@@ -203,6 +207,12 @@ function parseIntField(value: string): number | null {
   return parsed;
 }
 
+/** Decimal text on the symbol's unit grid, without trailing zeros. */
+function priceToField(symbol: string, price: number): string {
+  const scale = getPriceScale(symbol);
+  return formatPriceUnits(toPriceUnits(price, scale), scale, 0);
+}
+
 function parseFloatField(value: string): number | null {
   if (value.length === 0) {
     return null;
@@ -240,6 +250,7 @@ function decodeAck(fields: string[]): DecodeResult {
     message: {
       type: OutputMessageType.ACK,
       symbol,
+      userId,
       userOrderId,
       status: AckStatus.ACCEPTED,
     },
@@ -278,12 +289,11 @@ function decodeTrade(fields: string[]): DecodeResult {
     return { success: false, message: null, error: 'TRADE: invalid sell order ID' };
   }
 
-  const priceCents = parseFloatField(fields[6]);
-  if (priceCents === null) {
+  const priceUnits = parseFloatField(fields[6]);
+  if (priceUnits === null) {
     return { success: false, message: null, error: 'TRADE: invalid price' };
   }
-  // Zig sends price in cents, convert to dollars
-  const price = priceCents / 100;
+  const price = fromPriceUnits(priceUnits, getPriceScale(symbol));
 
   const quantity = parseIntField(fields[7]);
   if (quantity === null) {
@@ -337,6 +347,7 @@ function decodeReject(fields: string[]): DecodeResult {
     message: {
       type: OutputMessageType.REJECT,
       symbol,
+      userId,
       userOrderId,
       reason: reason as typeof RejectReason[keyof typeof RejectReason],
     },
@@ -370,6 +381,7 @@ function decodeCancelAck(fields: string[]): DecodeResult {
     message: {
       type: OutputMessageType.CANCEL_ACK,
       symbol,
+      userId,
       userOrderId,
     },
     error: null,
@@ -382,19 +394,19 @@ function decodeTopOfBook(fields: string[]): DecodeResult {
   // Single-side: B,<symbol>,<side>,<price>,<qty>
   
   if (fields.length >= 6) {
-    // Full format: B,<symbol>,<bid_price_cents>,<ask_price_cents>,<bid_qty>,<ask_qty>
+    // Full format: B,<symbol>,<bid_price_units>,<ask_price_units>,<bid_qty>,<ask_qty>
     const symbol = fields[1];
     if (!isValidSymbol(symbol)) {
       return { success: false, message: null, error: 'TOB: invalid symbol' };
     }
 
-    const bidPriceCents = parseFloatField(fields[2]);
-    if (bidPriceCents === null) {
+    const bidPriceUnits = parseFloatField(fields[2]);
+    if (bidPriceUnits === null) {
       return { success: false, message: null, error: 'TOB: invalid bid price' };
     }
 
-    const askPriceCents = parseFloatField(fields[3]);
-    if (askPriceCents === null) {
+    const askPriceUnits = parseFloatField(fields[3]);
+    if (askPriceUnits === null) {
       return { success: false, message: null, error: 'TOB: invalid ask price' };
     }
 
@@ -408,14 +420,15 @@ function decodeTopOfBook(fields: string[]): DecodeResult {
       return { success: false, message: null, error: 'TOB: invalid ask quantity' };
     }
 
-    // Zig sends prices in cents, convert to dollars
+    const scale = getPriceScale(symbol);
     return {
       success: true,
       message: {
         type: OutputMessageType.TOP_OF_BOOK,
         symbol,
-        bidPrice: bidPriceCents / 100,
-        askPrice: askPriceCents / 100,
+        side: null,
+        bidPrice: fromPriceUnits(bidPriceUnits, scale),
+        askPrice: fromPriceUnits(askPriceUnits, scale),
         bidQuantity,
         askQuantity,
       },
@@ -424,19 +437,18 @@ function decodeTopOfBook(fields: string[]): DecodeResult {
   }
   
   if (fields.length >= 5) {
-    // Single-side format: B,<symbol>,<side>,<price_cents>,<qty>
+    // Single-side format: B,<symbol>,<side>,<price_units>,<qty>
     const symbol = fields[1];
     if (!isValidSymbol(symbol)) {
       return { success: false, message: null, error: 'TOB: invalid symbol' };
     }
 
     const side = fields[2];
-    const priceCents = parseFloatField(fields[3]);
-    if (priceCents === null) {
+    const priceUnits = parseFloatField(fields[3]);
+    if (priceUnits === null) {
       return { success: false, message: null, error: 'TOB: invalid price' };
     }
-    // Zig sends price in cents, convert to dollars
-    const price = priceCents / 100;
+    const price = fromPriceUnits(priceUnits, getPriceScale(symbol));
 
     const quantity = parseIntField(fields[4]);
     if (quantity === null) {
@@ -450,6 +462,7 @@ function decodeTopOfBook(fields: string[]): DecodeResult {
       message: {
         type: OutputMessageType.TOP_OF_BOOK,
         symbol,
+        side: isBid ? Side.BUY : Side.SELL,
         bidPrice: isBid ? price : 0,
         askPrice: isBid ? 0 : price,
         bidQuantity: isBid ? quantity : 0,
@@ -58,6 +58,25 @@ export {
   isValidOrderId,
 } from './types.js';
 
+// ============================================================================
+// Prices
+// ============================================================================
+
+export {
+  DEFAULT_PRICE_SCALE,
+  MAX_PRICE_SCALE,
+  MAX_PRICE_UNITS,
+  isValidPriceScale,
+  setPriceScale,
+  getPriceScale,
+  clearPriceScales,
+  parsePriceUnits,
+  toPriceUnits,
+  fromPriceUnits,
+  roundPrice,
+  formatPriceUnits,
+} from './price.js';
+
 // ============================================================================
 // Codec (main interface)
 // ============================================================================
@@ -0,0 +1,142 @@
+/**
+ * Fixed-point prices.
+ *
+ * On the wire and in arithmetic a price is an integer count of units of
+ * 10^-scale, where `scale` is the symbol's number of decimal places
+ * (2 = cents, the engine default). Elsewhere prices stay plain numbers
+ * for display and input, but every conversion goes through this module so
+ * they always sit exactly on the symbol's unit grid.
+ *
+ * Conversions work on the shortest decimal text of a number rather than
+ * multiplying floats, so 1.005 at scale 2 becomes 101 units, not 100.
+ *
+ * @module protocol/price
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_PRICE_SCALE = 2;
+export const MAX_PRICE_SCALE = 8;
+
+// Binary price fields are u32
+export const MAX_PRICE_UNITS = 0xffffffff;
+
+const MAX_SCALED_SYMBOLS = 1024;
+
+const POWERS_OF_TEN: readonly number[] = [
+  1, 10, 100, 1000, 10000, 100000, 1000000, 10000000, 100000000,
+];
+
+const DECIMAL_PATTERN = /^(\d*)(?:\.(\d*))?$/;
+
+// ============================================================================
+// Per-symbol Scale
+// ============================================================================
+
+// Symbols without an entry use DEFAULT_PRICE_SCALE
+const priceScales = new Map<string, number>();
+
+export function isValidPriceScale(scale: number): boolean {
+  return Number.isInteger(scale) && scale >= 0 && scale <= MAX_PRICE_SCALE;
+}
+
+/** Set how many decimals a symbol's prices carry. Returns false if refused. */
+export function setPriceScale(symbol: string, scale: number): boolean {
+  if (!isValidPriceScale(scale)) {
+    return false;
+  }
+  if (!priceScales.has(symbol) && priceScales.size >= MAX_SCALED_SYMBOLS) {
+    return false;
+  }
+  priceScales.set(symbol, scale);
+  return true;
+}
+
+export function getPriceScale(symbol: string): number {
+  return priceScales.get(symbol) ?? DEFAULT_PRICE_SCALE;
+}
+
+export function clearPriceScales(): void {
+  priceScales.clear();
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+/**
+ * Parse unsigned decimal text into units, rounding half up past `scale`
+ * digits. Returns null for malformed text or values beyond safe integers.
+ */
+export function parsePriceUnits(text: string, scale: number): number | null {
+  const match = DECIMAL_PATTERN.exec(text.trim());
+  if (match === null) {
+    return null;
+  }
+
+  const whole = match[1];
+  const fraction = match[2] ?? '';
+  if (whole.length === 0 && fraction.length === 0) {
+    return null;
+  }
+
+  const kept = fraction.slice(0, scale).padEnd(scale, '0');
+  let units =
+    (whole.length > 0 ? parseInt(whole, 10) : 0) * POWERS_OF_TEN[scale] +
+    (kept.length > 0 ? parseInt(kept, 10) : 0);
+
+  // Round on the first dropped digit
+  if (fraction.length > scale && fraction.charCodeAt(scale) >= 0x35) {
+    units += 1;
+  }
+
+  return Number.isSafeInteger(units) ? units : null;
+}
+
+/** Nearest whole number of units for a price. NaN for non-finite input. */
+export function toPriceUnits(price: number, scale: number): number {
+  if (!Number.isFinite(price)) {
+    return NaN;
+  }
+
+  const magnitude = Math.abs(price);
+  // String() switches to exponent notation below 1e-6; toFixed does not
+  const text = magnitude < 1e-6 ? magnitude.toFixed(20) : String(magnitude);
+  const units = parsePriceUnits(text, scale);
+
+  if (units === null) {
+    // Beyond safe integers: exactness is moot, keep the magnitude
+    return Math.round(price * POWERS_OF_TEN[scale]);
+  }
+  return price < 0 ? -units : units;
+}
+
+export function fromPriceUnits(units: number, scale: number): number {
+  return units / POWERS_OF_TEN[scale];
+}
+
+/** Snap a price to the nearest unit at `scale`. */
+export function roundPrice(price: number, scale: number): number {
+  return fromPriceUnits(toPriceUnits(price, scale), scale);
+}
+
+/**
+ * Exact decimal text for a unit count. Trailing zeros are dropped down to
+ * `minDecimals` (default: keep all `scale` decimals).
+ */
+export function formatPriceUnits(units: number, scale: number, minDecimals: number = scale): string {
+  const magnitude = Math.abs(Math.round(units));
+  const power = POWERS_OF_TEN[scale];
+  const whole = Math.floor(magnitude / power).toString();
+  let fraction = (magnitude % power).toString().padStart(scale, '0');
+
+  // Bounded loop: at most `scale` iterations
+  while (fraction.length > minDecimals && fraction.endsWith('0')) {
+    fraction = fraction.slice(0, -1);
+  }
+
+  const sign = units < 0 && magnitude !== 0 ? '-' : '';
+  return fraction.length > 0 ? `${sign}${whole}.${fraction}` : `${sign}${whole}`;
+}
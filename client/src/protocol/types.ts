@@ -111,9 +111,13 @@ export type InputMessage = NewOrderInput | CancelInput | FlushInput;
 // Output Messages (Engine -> Client)
 // ============================================================================
 
+// Order responses carry the account the order belongs to, since one session
+// can trade several.
+
 export interface AckOutput {
   readonly type: typeof OutputMessageType.ACK;
   readonly symbol: string;
+  readonly userId: number;
   readonly userOrderId: number;
   readonly status: AckStatus;
 }
@@ -121,6 +125,7 @@ export interface AckOutput {
 export interface RejectOutput {
   readonly type: typeof OutputMessageType.REJECT;
   readonly symbol: string;
+  readonly userId: number;
   readonly userOrderId: number;
   readonly reason: RejectReason;
 }
@@ -139,12 +144,16 @@ export interface TradeOutput {
 export interface CancelAckOutput {
   readonly type: typeof OutputMessageType.CANCEL_ACK;
   readonly symbol: string;
+  readonly userId: number;
   readonly userOrderId: number;
 }
 
 export interface TopOfBookOutput {
   readonly type: typeof OutputMessageType.TOP_OF_BOOK;
   readonly symbol: string;
+  // Side this update describes; null when both sides are present.
+  // Fields for the other side are zero and must not be applied.
+  readonly side: Side | null;
   readonly bidPrice: number;
   readonly askPrice: number;
   readonly bidQuantity: number;
@@ -0,0 +1,15 @@
+/**
+ * Headless client library: protocol codecs, transport, store, instrument
+ * reference data and order manager, without any DOM or UI code.
+ *
+ * Runs in the browser as is. In Node, import the `node` entry instead,
+ * which supplies a WebSocket implementation.
+ *
+ * @module sdk
+ */
+
+export * from './protocol/index.js';
+export * from './transport/index.js';
+export * from './store/index.js';
+export * from './instruments/index.js';
+export * from './client/index.js';
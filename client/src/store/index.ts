@@ -13,22 +13,52 @@ export {
   type PositionsSubscriber,
   type TradesSubscriber,
   type MarketDataSubscriber,
+  type OrderBookSubscriber,
+  type BookChangeSubscriber,
   type ConnectionSubscriber,
 } from './store.js';
 
+export { createOrderBook, type OrderBook } from './order-book.js';
+
+export {
+  createStorePersistence,
+  encodeSession,
+  decodeSession,
+  SESSION_SCHEMA_VERSION,
+  DEFAULT_STORAGE_PREFIX,
+  type StorePersistence,
+  type StorageLike,
+  type PersistenceConfig,
+  type PersistenceResult,
+  type RestoreResult,
+} from './persistence.js';
+
 export {
   type AppState,
   type Order,
   type Position,
   type Trade,
   type TopOfBook,
+  type BookLevel,
+  type BookSnapshot,
+  type BookUpdate,
+  type BookChange,
   type ConnectionStatus,
   type StateKey,
+  type SessionSnapshot,
   OrderStatus,
   StateKey as StateKeyEnum,
   MAX_ORDERS,
   MAX_TRADES,
   MAX_SYMBOLS,
+  MAX_ACCOUNTS,
+  MAX_POSITIONS,
+  MAX_BOOK_LEVELS,
+  MAX_CLIENT_ORDER_ID_LENGTH,
+  BookUpdateKind,
   createOrderKey,
+  createClientOrderKey,
+  isValidClientOrderId,
+  createPositionKey,
   parseOrderKey,
 } from './types.js';
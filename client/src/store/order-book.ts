@@ -0,0 +1,224 @@
+/**
+ * Per-symbol order book built from market data.
+ *
+ * Maintains both sides of the book as sorted price levels and merges
+ * side-specific updates, so a bid update never wipes out the ask side.
+ *
+ * Two kinds of update are supported:
+ * - TOP:   a new best level for one side. Any levels better than it are
+ *          gone (otherwise they would still be the best), deeper levels
+ *          are kept. Price 0 with quantity 0 empties the side.
+ * - LEVEL: an absolute quantity for one price level (0 removes it), for
+ *          feeds that publish depth beyond the top of book.
+ *
+ * @module store/order-book
+ */
+
+import { type Side, Side as SideEnum } from '../protocol/index.js';
+import {
+  type BookLevel,
+  type BookSnapshot,
+  type BookUpdate,
+  BookUpdateKind,
+  MAX_BOOK_LEVELS,
+} from './types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface OrderBook {
+  readonly symbol: string;
+  apply(update: BookUpdate): boolean;
+  applyTopOfBook(side: Side, price: number, quantity: number): boolean;
+  applyLevel(side: Side, price: number, quantity: number): boolean;
+  clearSide(side: Side): boolean;
+  clear(): void;
+  getBestBid(): BookLevel | null;
+  getBestAsk(): BookLevel | null;
+  getLevelCount(side: Side): number;
+  getSnapshot(maxLevels?: number): BookSnapshot;
+}
+
+// ============================================================================
+// Order Book
+// ============================================================================
+
+export function createOrderBook(symbol: string): OrderBook {
+  // --------------------------------------------------------------------------
+  // State
+  // --------------------------------------------------------------------------
+
+  // Bids sorted by price descending, asks by price ascending (best first)
+  let bids: BookLevel[] = [];
+  let asks: BookLevel[] = [];
+  let updatedAt = 0;
+
+  // --------------------------------------------------------------------------
+  // Helpers
+  // --------------------------------------------------------------------------
+
+  function getLevels(side: Side): BookLevel[] {
+    return side === SideEnum.BUY ? bids : asks;
+  }
+
+  function setLevels(side: Side, levels: BookLevel[]): void {
+    if (side === SideEnum.BUY) {
+      bids = levels;
+    } else {
+      asks = levels;
+    }
+    updatedAt = Date.now();
+  }
+
+  /** True if `a` ranks ahead of `b` on the given side. */
+  function isBetter(side: Side, a: number, b: number): boolean {
+    return side === SideEnum.BUY ? a > b : a < b;
+  }
+
+  function isEmptyLevel(price: number, quantity: number): boolean {
+    return quantity <= 0 || !Number.isFinite(price) || price <= 0;
+  }
+
+  // --------------------------------------------------------------------------
+  // Mutations
+  // --------------------------------------------------------------------------
+
+  function applyLevel(side: Side, price: number, quantity: number): boolean {
+    const levels = getLevels(side);
+    const next: BookLevel[] = [];
+    let changed = false;
+    let placed = false;
+
+    // Bounded loop: existing levels are capped at MAX_BOOK_LEVELS
+    const count = Math.min(levels.length, MAX_BOOK_LEVELS);
+    for (let i = 0; i < count; i += 1) {
+      const level = levels[i];
+
+      if (level.price === price) {
+        placed = true;
+        if (quantity > 0) {
+          next.push({ price, quantity });
+          changed = changed || level.quantity !== quantity;
+        } else {
+          changed = true; // Level removed
+        }
+        continue;
+      }
+
+      if (!placed && quantity > 0 && isBetter(side, price, level.price)) {
+        next.push({ price, quantity });
+        placed = true;
+        changed = true;
+      }
+
+      next.push(level);
+    }
+
+    if (!placed && quantity > 0) {
+      next.push({ price, quantity });
+      changed = true;
+    }
+
+    if (!changed) {
+      return false;
+    }
+
+    setLevels(side, next.slice(0, MAX_BOOK_LEVELS));
+    return true;
+  }
+
+  function applyTopOfBook(side: Side, price: number, quantity: number): boolean {
+    if (isEmptyLevel(price, quantity)) {
+      return clearSide(side);
+    }
+
+    const levels = getLevels(side);
+    const next: BookLevel[] = [{ price, quantity }];
+    let changed = levels.length === 0 ||
+      levels[0].price !== price ||
+      levels[0].quantity !== quantity;
+
+    // Keep only levels behind the new best (bounded loop)
+    const count = Math.min(levels.length, MAX_BOOK_LEVELS);
+    for (let i = 0; i < count; i += 1) {
+      const level = levels[i];
+      if (isBetter(side, price, level.price)) {
+        next.push(level);
+      } else if (level.price !== price) {
+        changed = true; // A better level has been taken out
+      }
+    }
+
+    if (!changed) {
+      return false;
+    }
+
+    setLevels(side, next.slice(0, MAX_BOOK_LEVELS));
+    return true;
+  }
+
+  function apply(update: BookUpdate): boolean {
+    if (update.kind === BookUpdateKind.LEVEL) {
+      return applyLevel(update.side, update.price, update.quantity);
+    }
+    return applyTopOfBook(update.side, update.price, update.quantity);
+  }
+
+  function clearSide(side: Side): boolean {
+    if (getLevels(side).length === 0) {
+      return false;
+    }
+    setLevels(side, []);
+    return true;
+  }
+
+  function clear(): void {
+    bids = [];
+    asks = [];
+    updatedAt = Date.now();
+  }
+
+  // --------------------------------------------------------------------------
+  // Queries
+  // --------------------------------------------------------------------------
+
+  function getBestBid(): BookLevel | null {
+    return bids.length > 0 ? bids[0] : null;
+  }
+
+  function getBestAsk(): BookLevel | null {
+    return asks.length > 0 ? asks[0] : null;
+  }
+
+  function getLevelCount(side: Side): number {
+    return getLevels(side).length;
+  }
+
+  function getSnapshot(maxLevels?: number): BookSnapshot {
+    const depth = Math.min(maxLevels ?? MAX_BOOK_LEVELS, MAX_BOOK_LEVELS);
+    return {
+      symbol,
+      bids: bids.slice(0, depth),
+      asks: asks.slice(0, depth),
+      updatedAt,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Return interface
+  // --------------------------------------------------------------------------
+
+  return {
+    symbol,
+    apply,
+    applyTopOfBook,
+    applyLevel,
+    clearSide,
+    clear,
+    getBestBid,
+    getBestAsk,
+    getLevelCount,
+    getSnapshot,
+  };
+}
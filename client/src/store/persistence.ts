@@ -0,0 +1,440 @@
+/**
+ * Session persistence.
+ *
+ * Saves each account's orders, trades and positions, and the order-ID
+ * counter, to a localStorage-compatible storage and restores them on
+ * startup, so a page reload neither loses history nor restarts order IDs
+ * at 1 (which the engine rejects as DUPLICATE_ORDER_ID).
+ *
+ * Sessions are namespaced by user ID; separate keys remember the account
+ * list and which account was active. Each saved session carries a schema
+ * version, and sessions written by another version are discarded rather
+ * than misread.
+ *
+ * @module store/persistence
+ */
+
+import {
+  type Order,
+  type Position,
+  type Trade,
+  type SessionSnapshot,
+  OrderStatus,
+  MAX_ORDERS,
+  MAX_TRADES,
+  MAX_ACCOUNTS,
+  MAX_POSITIONS,
+  isValidClientOrderId,
+} from './types.js';
+import { type Store } from './store.js';
+import { isValidUserId } from '../protocol/index.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SESSION_SCHEMA_VERSION = 1;
+export const DEFAULT_STORAGE_PREFIX = 'matching-engine';
+const DEFAULT_SAVE_DELAY_MS = 1000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** The subset of the Web Storage API used here (window.localStorage fits). */
+export interface StorageLike {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export interface PersistenceConfig {
+  readonly storage: StorageLike;
+  readonly prefix?: string;
+  // Changes within this window are written once
+  readonly saveDelayMs?: number;
+}
+
+export interface PersistenceResult {
+  readonly success: boolean;
+  readonly error: string | null;
+}
+
+export interface RestoreResult extends PersistenceResult {
+  // False when there was nothing (usable) to restore
+  readonly restored: boolean;
+}
+
+export interface StorePersistence {
+  /** Load every saved account into the store and select the last active one. */
+  restore(): RestoreResult;
+  /** Write all accounts now, cancelling any pending write. */
+  save(): PersistenceResult;
+  /**
+   * Save on every change, and load an account's saved session when it is
+   * added to the store.
+   */
+  start(): void;
+  stop(): void;
+  /**
+   * Forget an account's saved session (the active account by default) and
+   * empty it in the store, keeping the order-ID counter.
+   */
+  clear(userId?: number): void;
+}
+
+interface SavedSession {
+  readonly version: number;
+  readonly savedAt: number;
+  readonly session: SessionSnapshot;
+}
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+type RawRecord = Readonly<Record<string, unknown>>;
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasNumbers(raw: RawRecord, keys: readonly string[]): boolean {
+  for (let i = 0; i < keys.length; i += 1) {
+    if (typeof raw[keys[i]] !== 'number' || !Number.isFinite(raw[keys[i]])) {
+      return false;
+    }
+  }
+  return true;
+}
+
+const ORDER_NUMBERS = [
+  'userId', 'userOrderId', 'side', 'price', 'quantity', 'filledQuantity', 'createdAt', 'updatedAt',
+] as const;
+const TRADE_NUMBERS = ['id', 'price', 'quantity', 'side', 'userOrderId', 'timestamp'] as const;
+const POSITION_NUMBERS = [
+  'netQuantity', 'buyQuantity', 'sellQuantity', 'avgBuyPrice', 'avgSellPrice', 'priceScale',
+  'buyNotional', 'sellNotional', 'realizedPnl', 'unrealizedPnl', 'lastPrice', 'updatedAt',
+] as const;
+
+function isOrder(raw: unknown): raw is Order {
+  return isRecord(raw) &&
+    typeof raw.symbol === 'string' &&
+    typeof raw.status === 'string' &&
+    hasNumbers(raw, ORDER_NUMBERS);
+}
+
+/** Sessions saved before client order IDs existed have none. */
+function withClientOrderId(order: Order): Order {
+  const clientOrderId: unknown = order.clientOrderId;
+  return {
+    ...order,
+    clientOrderId: typeof clientOrderId === 'string' && isValidClientOrderId(clientOrderId)
+      ? clientOrderId
+      : null,
+  };
+}
+
+function isTrade(raw: unknown): raw is Trade {
+  return isRecord(raw) &&
+    typeof raw.symbol === 'string' &&
+    typeof raw.selfTrade === 'boolean' &&
+    hasNumbers(raw, TRADE_NUMBERS);
+}
+
+function isPosition(raw: unknown): raw is Position {
+  return isRecord(raw) && typeof raw.symbol === 'string' && hasNumbers(raw, POSITION_NUMBERS);
+}
+
+function pickValid<T>(list: unknown, limit: number, isValid: (raw: unknown) => raw is T): T[] {
+  const valid: T[] = [];
+  if (!Array.isArray(list)) {
+    return valid;
+  }
+
+  const count = Math.min(list.length, limit);
+  for (let i = 0; i < count; i += 1) {
+    const entry: unknown = list[i];
+    if (isValid(entry)) {
+      valid.push(entry);
+    }
+  }
+  return valid;
+}
+
+/** Parse a saved session, or describe why it cannot be used. */
+export function decodeSession(text: string): SessionSnapshot | string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return `invalid JSON: ${error instanceof Error ? error.message : String(error)}`;
+  }
+
+  if (!isRecord(parsed) || !isRecord(parsed.session)) {
+    return 'not a saved session';
+  }
+  if (parsed.version !== SESSION_SCHEMA_VERSION) {
+    return `schema version ${String(parsed.version)}, expected ${SESSION_SCHEMA_VERSION}`;
+  }
+
+  const raw = parsed.session;
+  if (!hasNumbers(raw, ['userId', 'nextOrderId']) ||
+      !isValidUserId(raw.userId as number)) {
+    return 'missing user ID or order-ID counter';
+  }
+
+  return {
+    userId: raw.userId as number,
+    nextOrderId: raw.nextOrderId as number,
+    orders: pickValid(raw.orders, MAX_ORDERS, isOrder).map(withClientOrderId),
+    trades: pickValid(raw.trades, MAX_TRADES, isTrade),
+    positions: pickValid(raw.positions, MAX_POSITIONS, isPosition),
+  };
+}
+
+export function encodeSession(session: SessionSnapshot): string {
+  const saved: SavedSession = {
+    version: SESSION_SCHEMA_VERSION,
+    savedAt: Date.now(),
+    session,
+  };
+  return JSON.stringify(saved);
+}
+
+/**
+ * Acks for orders in flight at the last save were lost with the page, so
+ * they come back TIMED_OUT and get reconciled once the connection is up.
+ * The outbound queue was lost too, so queued orders were never sent.
+ */
+function markInFlightTimedOut(session: SessionSnapshot): SessionSnapshot {
+  return {
+    ...session,
+    orders: session.orders.map((order: Order) => {
+      if (order.status === OrderStatus.PENDING) {
+        return { ...order, status: OrderStatus.TIMED_OUT };
+      }
+      if (order.status === OrderStatus.QUEUED) {
+        return { ...order, status: OrderStatus.DROPPED };
+      }
+      return order;
+    }),
+  };
+}
+
+function emptySession(userId: number): SessionSnapshot {
+  return { userId, nextOrderId: 1, orders: [], trades: [], positions: [] };
+}
+
+/** Parse the saved account list, ignoring anything that is not a user ID. */
+function decodeAccounts(text: string | null): number[] {
+  let parsed: unknown = null;
+  try {
+    parsed = text !== null ? JSON.parse(text) : null;
+  } catch {
+    return [];
+  }
+
+  return pickValid(parsed, MAX_ACCOUNTS, (raw: unknown): raw is number =>
+    typeof raw === 'number' && isValidUserId(raw)
+  );
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+export function createStorePersistence(
+  store: Store,
+  config: PersistenceConfig
+): StorePersistence {
+  const storage = config.storage;
+  const prefix = config.prefix ?? DEFAULT_STORAGE_PREFIX;
+  const saveDelayMs = config.saveDelayMs ?? DEFAULT_SAVE_DELAY_MS;
+
+  const activeUserKey = `${prefix}:active-user`;
+  const accountsKey = `${prefix}:accounts`;
+
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+  let unsubscribes: (() => void)[] = [];
+  // Accounts whose saved session has been looked for
+  const loadedAccounts = new Set<number>();
+
+  function sessionKey(userId: number): string {
+    return `${prefix}:session:${userId}`;
+  }
+
+  // --------------------------------------------------------------------------
+  // Storage Access
+  // --------------------------------------------------------------------------
+
+  function read(key: string): string | null {
+    try {
+      return storage.getItem(key);
+    } catch (error) {
+      console.warn(`Failed to read ${key}:`, error);
+      return null;
+    }
+  }
+
+  function write(key: string, value: string): PersistenceResult {
+    try {
+      storage.setItem(key, value);
+      return { success: true, error: null };
+    } catch (error) {
+      // Quota exceeded or storage disabled (private browsing)
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`Failed to save ${key}:`, message);
+      return { success: false, error: message };
+    }
+  }
+
+  /** Restore one account from its saved session, if it has one. */
+  function loadAccount(userId: number): { restored: boolean; error: string | null } {
+    loadedAccounts.add(userId);
+
+    const text = read(sessionKey(userId));
+    if (text === null) {
+      return { restored: false, error: null };
+    }
+
+    const session = decodeSession(text);
+    const error = typeof session === 'string'
+      ? session
+      : session.userId !== userId ? `saved for user ${session.userId}` : null;
+
+    if (typeof session === 'string' || error !== null) {
+      console.warn(`Discarding saved session for user ${userId}: ${error}`);
+      return { restored: false, error };
+    }
+
+    store.restoreSession(markInFlightTimedOut(session));
+    return { restored: true, error: null };
+  }
+
+  // --------------------------------------------------------------------------
+  // Save / Restore
+  // --------------------------------------------------------------------------
+
+  function cancelPendingSave(): void {
+    if (saveTimer !== null) {
+      clearTimeout(saveTimer);
+      saveTimer = null;
+    }
+  }
+
+  function save(): PersistenceResult {
+    cancelPendingSave();
+
+    const accounts = store.getAccounts();
+    for (let i = 0; i < accounts.length; i += 1) {
+      const session = store.getSessionSnapshot(accounts[i]);
+      const result = write(sessionKey(accounts[i]), encodeSession(session));
+      if (!result.success) {
+        return result;
+      }
+    }
+
+    const result = write(accountsKey, JSON.stringify(accounts));
+    if (!result.success) {
+      return result;
+    }
+    return write(activeUserKey, String(store.getUserId()));
+  }
+
+  function scheduleSave(): void {
+    if (saveTimer !== null) {
+      return;
+    }
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      save();
+    }, saveDelayMs);
+  }
+
+  function restore(): RestoreResult {
+    const saved = read(activeUserKey);
+    const active = saved !== null ? Number(saved) : NaN;
+    const activeUserId = isValidUserId(active) ? active : store.getUserId();
+
+    const accounts = decodeAccounts(read(accountsKey));
+    if (!accounts.includes(activeUserId)) {
+      accounts.push(activeUserId);
+    }
+
+    let restored = false;
+    let error: string | null = null;
+    for (let i = 0; i < accounts.length; i += 1) {
+      const result = loadAccount(accounts[i]);
+      restored = restored || result.restored;
+      error = error ?? result.error;
+    }
+
+    store.setUserId(activeUserId);
+    return { success: error === null, restored, error };
+  }
+
+  function loadNewAccounts(): void {
+    const accounts = store.getAccounts();
+    for (let i = 0; i < accounts.length; i += 1) {
+      if (!loadedAccounts.has(accounts[i])) {
+        loadAccount(accounts[i]);
+      }
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Lifecycle
+  // --------------------------------------------------------------------------
+
+  function start(): void {
+    if (unsubscribes.length > 0) {
+      return;
+    }
+
+    // Accounts already in the store are taken as they are
+    const accounts = store.getAccounts();
+    for (let i = 0; i < accounts.length; i += 1) {
+      loadedAccounts.add(accounts[i]);
+    }
+
+    unsubscribes = [
+      store.subscribe('orders', scheduleSave),
+      store.subscribe('trades', scheduleSave),
+      store.subscribe('positions', scheduleSave),
+      store.subscribe('userId', scheduleSave),
+      store.subscribe('accounts', () => {
+        loadNewAccounts();
+        scheduleSave();
+      }),
+    ];
+  }
+
+  function stop(): void {
+    for (let i = 0; i < unsubscribes.length; i += 1) {
+      unsubscribes[i]();
+    }
+    unsubscribes = [];
+    cancelPendingSave();
+  }
+
+  function clear(userId: number = store.getUserId()): void {
+    try {
+      storage.removeItem(sessionKey(userId));
+    } catch (error) {
+      console.warn(`Failed to clear session for user ${userId}:`, error);
+    }
+
+    if (store.getAccounts().includes(userId)) {
+      store.restoreSession({ ...emptySession(userId), nextOrderId: store.getNextOrderId() });
+    }
+  }
+
+  return {
+    restore,
+    save,
+    start,
+    stop,
+    clear,
+  };
+}
@@ -13,17 +13,36 @@ import {
   type Position,
   type Trade,
   type TopOfBook,
+  type BookSnapshot,
+  type BookUpdate,
+  type BookChange,
   type ConnectionStatus,
   type OrderStatus,
+  type SessionSnapshot,
   type StateKey,
   OrderStatus as OrderStatusEnum,
   MAX_ORDERS,
   MAX_TRADES,
   MAX_SYMBOLS,
+  MAX_ACCOUNTS,
+  MAX_POSITIONS,
+  BookUpdateKind,
   createOrderKey,
+  createClientOrderKey,
+  createPositionKey,
 } from './types.js';
 
-import { type Side, Codec, Side as SideEnum } from '../protocol/index.js';
+import { createOrderBook, type OrderBook } from './order-book.js';
+
+import {
+  type Side,
+  Codec,
+  Side as SideEnum,
+  getPriceScale,
+  toPriceUnits,
+  fromPriceUnits,
+  isValidUserId,
+} from '../protocol/index.js';
 import { ConnectionState } from '../transport/index.js';
 
 // ============================================================================
@@ -31,6 +50,7 @@ import { ConnectionState } from '../transport/index.js';
 // ============================================================================
 
 const MAX_SUBSCRIBERS_PER_KEY = 64;
+const MAX_BOOK_UPDATES_PER_BATCH = 128;
 
 // ============================================================================
 // Types
@@ -43,6 +63,8 @@ export type OrdersSubscriber = Subscriber<Map<string, Order>>;
 export type PositionsSubscriber = Subscriber<Map<string, Position>>;
 export type TradesSubscriber = Subscriber<Trade[]>;
 export type MarketDataSubscriber = Subscriber<Map<string, TopOfBook>>;
+export type OrderBookSubscriber = Subscriber<Map<string, BookSnapshot>>;
+export type BookChangeSubscriber = Subscriber<BookChange>;
 export type ConnectionSubscriber = Subscriber<ConnectionStatus>;
 
 // ============================================================================
@@ -52,10 +74,12 @@ export type ConnectionSubscriber = Subscriber<ConnectionStatus>;
 function createInitialState(): AppState {
   return {
     orders: new Map(),
+    clientOrderIds: new Map(),
     positions: new Map(),
     trades: [],
     tradeCount: 0,
     marketData: new Map(),
+    books: new Map(),
     connection: {
       ordersState: ConnectionState.DISCONNECTED,
       marketDataState: null,
@@ -65,7 +89,12 @@ function createInitialState(): AppState {
       messagesReceived: 0,
       lastError: null,
       lastErrorAt: null,
+      queuedMessages: 0,
+      ordersLatency: null,
+      marketDataLatency: null,
+      marketDataFeed: null,
     },
+    accounts: [1001],
     selectedSymbol: 'AAPL',
     userId: 1001,
     nextOrderId: 1,
@@ -81,31 +110,57 @@ export interface Store {
   getState(): AppState;
   getOrders(): Map<string, Order>;
   getOrder(userId: number, userOrderId: number): Order | null;
+  /**
+   * The latest order an account (the active account by default) placed
+   * with this client order ID; after an amend, the replacement.
+   */
+  getOrderByClientOrderId(clientOrderId: string, userId?: number): Order | null;
+  /** Every account's positions, keyed by `${userId}:${symbol}`. */
   getPositions(): Map<string, Position>;
-  getPosition(symbol: string): Position | null;
+  /** One account's position (the active account by default). */
+  getPosition(symbol: string, userId?: number): Position | null;
+  /** Positions summed across accounts, keyed by symbol. */
+  getAggregatePositions(): Map<string, Position>;
   getTrades(): Trade[];
   getMarketData(): Map<string, TopOfBook>;
   getTopOfBook(symbol: string): TopOfBook | null;
+  getOrderBooks(): Map<string, BookSnapshot>;
+  getOrderBook(symbol: string): BookSnapshot | null;
   getConnection(): ConnectionStatus;
   getSelectedSymbol(): string;
   getUserId(): number;
+  getAccounts(): readonly number[];
   getNextOrderId(): number;
+  /** One account's session (the active account by default). */
+  getSessionSnapshot(userId?: number): SessionSnapshot;
 
   // Mutations
   addOrder(order: Order): void;
   updateOrderStatus(userId: number, userOrderId: number, status: OrderStatus, filledQty?: number): void;
+  markOrderReplaced(userId: number, userOrderId: number, replacedByOrderId: number): void;
   removeOrder(userId: number, userOrderId: number): void;
-  updatePosition(symbol: string, side: Side, price: number, quantity: number): void;
+  updatePosition(symbol: string, side: Side, price: number, quantity: number, userId?: number): void;
   addTrade(trade: Omit<Trade, 'id'>): void;
-  updateMarketData(tob: TopOfBook): void;
+  updateMarketData(tob: Omit<TopOfBook, 'stale'>): void;
+  applyBookUpdates(symbol: string, updates: readonly BookUpdate[]): void;
+  /** Flag every symbol's market data stale (or fresh again). */
+  setMarketDataStale(stale: boolean): void;
   updateConnection(partial: Partial<ConnectionStatus>): void;
   setSelectedSymbol(symbol: string): void;
+  /** Select the account new orders are entered for, adding it if needed. */
   setUserId(userId: number): void;
+  addAccount(userId: number): boolean;
   consumeOrderId(): number;
+  /**
+   * Replace one account's orders, trades and positions. The order-ID
+   * counter only moves forward.
+   */
+  restoreSession(snapshot: SessionSnapshot): void;
 
   // Subscriptions
   subscribe(key: StateKey, callback: Subscriber<unknown>): () => void;
   subscribeAll(callback: StateSubscriber): () => void;
+  onBookChange(callback: BookChangeSubscriber): () => void;
 }
 
 export function createStore(): Store {
@@ -121,15 +176,27 @@ export function createStore(): Store {
     positions: new Array(MAX_SUBSCRIBERS_PER_KEY).fill(null),
     trades: new Array(MAX_SUBSCRIBERS_PER_KEY).fill(null),
     marketData: new Array(MAX_SUBSCRIBERS_PER_KEY).fill(null),
+    orderBook: new Array(MAX_SUBSCRIBERS_PER_KEY).fill(null),
     connection: new Array(MAX_SUBSCRIBERS_PER_KEY).fill(null),
     selectedSymbol: new Array(MAX_SUBSCRIBERS_PER_KEY).fill(null),
     userId: new Array(MAX_SUBSCRIBERS_PER_KEY).fill(null),
+    accounts: new Array(MAX_SUBSCRIBERS_PER_KEY).fill(null),
   };
 
   const globalSubscribers: (StateSubscriber | null)[] = new Array(
     MAX_SUBSCRIBERS_PER_KEY
   ).fill(null);
 
+  const bookChangeSubscribers: (BookChangeSubscriber | null)[] = new Array(
+    MAX_SUBSCRIBERS_PER_KEY
+  ).fill(null);
+
+  // Live order books indexed by symbol (snapshots are published in state)
+  const orderBooks: Map<string, OrderBook> = new Map();
+
+  // Market data since the last feed gap, until the feed recovers
+  let marketDataStale = false;
+
   // Trade ID counter
   let tradeIdCounter = 1;
 
@@ -163,9 +230,11 @@ export function createStore(): Store {
     if (key === 'positions') return state.positions;
     if (key === 'trades') return state.trades;
     if (key === 'marketData') return state.marketData;
+    if (key === 'orderBook') return state.books;
     if (key === 'connection') return state.connection;
     if (key === 'selectedSymbol') return state.selectedSymbol;
     if (key === 'userId') return state.userId;
+    if (key === 'accounts') return state.accounts;
     return null;
   }
 
@@ -186,12 +255,38 @@ export function createStore(): Store {
     return state.orders.get(key) ?? null;
   }
 
+  function getOrderByClientOrderId(
+    clientOrderId: string,
+    userId: number = state.userId
+  ): Order | null {
+    const userOrderId = state.clientOrderIds.get(createClientOrderKey(userId, clientOrderId));
+    return userOrderId !== undefined ? getOrder(userId, userOrderId) : null;
+  }
+
   function getPositions(): Map<string, Position> {
     return state.positions;
   }
 
-  function getPosition(symbol: string): Position | null {
-    return state.positions.get(symbol) ?? null;
+  function getPosition(symbol: string, userId: number = state.userId): Position | null {
+    return state.positions.get(createPositionKey(userId, symbol)) ?? null;
+  }
+
+  function getAggregatePositions(): Map<string, Position> {
+    const bySymbol = new Map<string, Position[]>();
+    state.positions.forEach((position: Position) => {
+      const list = bySymbol.get(position.symbol);
+      if (list === undefined) {
+        bySymbol.set(position.symbol, [position]);
+      } else {
+        list.push(position);
+      }
+    });
+
+    const totals = new Map<string, Position>();
+    bySymbol.forEach((list: Position[], symbol: string) => {
+      totals.set(symbol, sumPositions(list));
+    });
+    return totals;
   }
 
   function getTrades(): Trade[] {
@@ -206,6 +301,14 @@ export function createStore(): Store {
     return state.marketData.get(symbol) ?? null;
   }
 
+  function getOrderBooks(): Map<string, BookSnapshot> {
+    return state.books;
+  }
+
+  function getOrderBook(symbol: string): BookSnapshot | null {
+    return state.books.get(symbol) ?? null;
+  }
+
   function getConnection(): ConnectionStatus {
     return state.connection;
   }
@@ -218,10 +321,38 @@ export function createStore(): Store {
     return state.userId;
   }
 
+  function getAccounts(): readonly number[] {
+    return state.accounts;
+  }
+
   function getNextOrderId(): number {
     return state.nextOrderId;
   }
 
+  function getSessionSnapshot(userId: number = state.userId): SessionSnapshot {
+    const orders: Order[] = [];
+    state.orders.forEach((order: Order) => {
+      if (order.userId === userId) {
+        orders.push(order);
+      }
+    });
+
+    const positions: Position[] = [];
+    state.positions.forEach((position: Position) => {
+      if (position.userId === userId) {
+        positions.push(position);
+      }
+    });
+
+    return {
+      userId,
+      nextOrderId: state.nextOrderId,
+      orders,
+      trades: state.trades.filter((trade: Trade) => trade.userId === userId),
+      positions,
+    };
+  }
+
   // --------------------------------------------------------------------------
   // Mutations
   // --------------------------------------------------------------------------
@@ -236,7 +367,16 @@ export function createStore(): Store {
     const newOrders = new Map(state.orders);
     newOrders.set(key, order);
 
-    state = { ...state, orders: newOrders };
+    let clientOrderIds = state.clientOrderIds;
+    if (order.clientOrderId !== null) {
+      const clientKey = createClientOrderKey(order.userId, order.clientOrderId);
+      if ((clientOrderIds.get(clientKey) ?? 0) <= order.userOrderId) {
+        clientOrderIds = new Map(clientOrderIds);
+        clientOrderIds.set(clientKey, order.userOrderId);
+      }
+    }
+
+    state = { ...state, orders: newOrders, clientOrderIds };
     notify('orders');
   }
 
@@ -249,7 +389,8 @@ export function createStore(): Store {
     const key = createOrderKey(userId, userOrderId);
     const existing = state.orders.get(key);
 
-    if (existing === undefined) {
+    // A final status stands; late or stray responses do not reopen the order
+    if (existing === undefined || isFinalStatus(existing.status)) {
       return;
     }
 
@@ -267,6 +408,32 @@ export function createStore(): Store {
     notify('orders');
   }
 
+  function markOrderReplaced(
+    userId: number,
+    userOrderId: number,
+    replacedByOrderId: number
+  ): void {
+    const key = createOrderKey(userId, userOrderId);
+    const existing = state.orders.get(key);
+
+    if (existing === undefined) {
+      return;
+    }
+
+    const updated: Order = {
+      ...existing,
+      status: OrderStatusEnum.REPLACED,
+      replacedByOrderId,
+      updatedAt: Date.now(),
+    };
+
+    const newOrders = new Map(state.orders);
+    newOrders.set(key, updated);
+
+    state = { ...state, orders: newOrders };
+    notify('orders');
+  }
+
   function removeOrder(userId: number, userOrderId: number): void {
     const key = createOrderKey(userId, userOrderId);
 
@@ -277,7 +444,7 @@ export function createStore(): Store {
     const newOrders = new Map(state.orders);
     newOrders.delete(key);
 
-    state = { ...state, orders: newOrders };
+    state = { ...state, orders: newOrders, clientOrderIds: indexClientOrderIds(newOrders) };
     notify('orders');
   }
 
@@ -285,55 +452,56 @@ export function createStore(): Store {
     symbol: string,
     side: Side,
     price: number,
-    quantity: number
+    quantity: number,
+    userId: number = state.userId
   ): void {
-    const existing = state.positions.get(symbol);
+    const key = createPositionKey(userId, symbol);
+    const existing = state.positions.get(key);
     const now = Date.now();
 
     let position: Position;
 
     if (existing === undefined) {
       // New position
-      if (state.positions.size >= MAX_SYMBOLS) {
-        console.warn('Max symbols reached, cannot add position');
+      if (state.positions.size >= MAX_POSITIONS) {
+        console.warn('Max positions reached, cannot add position');
         return;
       }
 
       const isBuy = side === SideEnum.BUY;
+      const priceScale = getPriceScale(symbol);
+      const notional = toPriceUnits(price, priceScale) * quantity;
       position = {
         symbol,
+        userId,
         netQuantity: isBuy ? quantity : -quantity,
         buyQuantity: isBuy ? quantity : 0,
         sellQuantity: isBuy ? 0 : quantity,
         avgBuyPrice: isBuy ? price : 0,
         avgSellPrice: isBuy ? 0 : price,
+        priceScale,
+        buyNotional: isBuy ? notional : 0,
+        sellNotional: isBuy ? 0 : notional,
         realizedPnl: 0,
         unrealizedPnl: 0,
         lastPrice: price,
         updatedAt: now,
       };
     } else {
-      // Update existing position
+      // Update existing position. All sums are integer price units.
       const isBuy = side === SideEnum.BUY;
+      const scale = existing.priceScale;
+      const priceUnits = toPriceUnits(price, scale);
 
       const newBuyQty = existing.buyQuantity + (isBuy ? quantity : 0);
       const newSellQty = existing.sellQuantity + (isBuy ? 0 : quantity);
       const newNetQty = existing.netQuantity + (isBuy ? quantity : -quantity);
+      const newBuyNotional = existing.buyNotional + (isBuy ? priceUnits * quantity : 0);
+      const newSellNotional = existing.sellNotional + (isBuy ? 0 : priceUnits * quantity);
 
-      // Weighted average price calculation
-      let newAvgBuyPrice = existing.avgBuyPrice;
-      let newAvgSellPrice = existing.avgSellPrice;
-
-      if (isBuy && quantity > 0) {
-        const totalBuyCost = existing.avgBuyPrice * existing.buyQuantity + price * quantity;
-        newAvgBuyPrice = newBuyQty > 0 ? totalBuyCost / newBuyQty : 0;
-      } else if (!isBuy && quantity > 0) {
-        const totalSellCost = existing.avgSellPrice * existing.sellQuantity + price * quantity;
-        newAvgSellPrice = newSellQty > 0 ? totalSellCost / newSellQty : 0;
-      }
-
-      // Calculate realized P&L when closing position
-      let realizedPnl = existing.realizedPnl;
+      // Realized P&L when closing, against the average before this fill,
+      // rounded once to a whole unit
+      let realizedUnits = toPriceUnits(existing.realizedPnl, scale);
       const closingQty = Math.min(
         isBuy ? existing.sellQuantity : existing.buyQuantity,
         quantity
@@ -341,20 +509,28 @@ export function createStore(): Store {
 
       if (closingQty > 0) {
         if (isBuy) {
-          realizedPnl += closingQty * (existing.avgSellPrice - price);
+          realizedUnits += Math.round(
+            (closingQty * existing.sellNotional) / existing.sellQuantity - closingQty * priceUnits
+          );
         } else {
-          realizedPnl += closingQty * (price - existing.avgBuyPrice);
+          realizedUnits += Math.round(
+            closingQty * priceUnits - (closingQty * existing.buyNotional) / existing.buyQuantity
+          );
         }
       }
 
       position = {
         symbol,
+        userId,
         netQuantity: newNetQty,
         buyQuantity: newBuyQty,
         sellQuantity: newSellQty,
-        avgBuyPrice: newAvgBuyPrice,
-        avgSellPrice: newAvgSellPrice,
-        realizedPnl,
+        avgBuyPrice: averagePrice(newBuyNotional, newBuyQty, scale),
+        avgSellPrice: averagePrice(newSellNotional, newSellQty, scale),
+        priceScale: scale,
+        buyNotional: newBuyNotional,
+        sellNotional: newSellNotional,
+        realizedPnl: fromPriceUnits(realizedUnits, scale),
         unrealizedPnl: existing.unrealizedPnl,
         lastPrice: price,
         updatedAt: now,
@@ -362,7 +538,7 @@ export function createStore(): Store {
     }
 
     const newPositions = new Map(state.positions);
-    newPositions.set(symbol, position);
+    newPositions.set(key, position);
 
     state = { ...state, positions: newPositions };
     notify('positions');
@@ -391,42 +567,145 @@ export function createStore(): Store {
     notify('trades');
   }
 
-  function updateMarketData(tob: TopOfBook): void {
-    if (!state.marketData.has(tob.symbol) && state.marketData.size >= MAX_SYMBOLS) {
-      console.warn('Max symbols reached, cannot add market data');
+  function updateMarketData(tob: Omit<TopOfBook, 'stale'>): void {
+    // Two-sided top of book: replace the best level on both sides
+    applyBookUpdates(tob.symbol, [
+      {
+        kind: BookUpdateKind.TOP,
+        side: SideEnum.BUY,
+        price: tob.bidPrice,
+        quantity: tob.bidQuantity,
+      },
+      {
+        kind: BookUpdateKind.TOP,
+        side: SideEnum.SELL,
+        price: tob.askPrice,
+        quantity: tob.askQuantity,
+      },
+    ]);
+  }
+
+  function applyBookUpdates(symbol: string, updates: readonly BookUpdate[]): void {
+    let book = orderBooks.get(symbol);
+
+    if (book === undefined) {
+      if (orderBooks.size >= MAX_SYMBOLS) {
+        console.warn('Max symbols reached, cannot add market data');
+        return;
+      }
+      book = createOrderBook(symbol);
+      orderBooks.set(symbol, book);
+    }
+
+    // Bounded loop over the updates in this batch
+    let changed = false;
+    const count = Math.min(updates.length, MAX_BOOK_UPDATES_PER_BATCH);
+    for (let i = 0; i < count; i += 1) {
+      if (book.apply(updates[i])) {
+        changed = true;
+      }
+    }
+
+    if (!changed && state.books.has(symbol)) {
       return;
     }
 
+    const snapshot = book.getSnapshot();
+    const bestBid = book.getBestBid();
+    const bestAsk = book.getBestAsk();
+
+    const tob: TopOfBook = {
+      symbol,
+      bidPrice: bestBid?.price ?? 0,
+      askPrice: bestAsk?.price ?? 0,
+      bidQuantity: bestBid?.quantity ?? 0,
+      askQuantity: bestAsk?.quantity ?? 0,
+      updatedAt: snapshot.updatedAt,
+      stale: marketDataStale,
+    };
+
+    revaluePositions(tob);
+
+    const newBooks = new Map(state.books);
+    newBooks.set(symbol, snapshot);
+
     const newMarketData = new Map(state.marketData);
-    newMarketData.set(tob.symbol, tob);
-
-    // Update unrealized P&L for positions
-    const position = state.positions.get(tob.symbol);
-    if (position !== undefined) {
-      const midPrice = (tob.bidPrice + tob.askPrice) / 2;
-      let unrealizedPnl = 0;
-
-      if (position.netQuantity > 0) {
-        unrealizedPnl = position.netQuantity * (midPrice - position.avgBuyPrice);
-      } else if (position.netQuantity < 0) {
-        unrealizedPnl = Math.abs(position.netQuantity) * (position.avgSellPrice - midPrice);
+    newMarketData.set(symbol, tob);
+
+    state = { ...state, books: newBooks, marketData: newMarketData };
+    notify('orderBook');
+    notify('marketData');
+
+    notifyBookChange({ symbol, updates, snapshot });
+  }
+
+  function setMarketDataStale(stale: boolean): void {
+    if (stale === marketDataStale) {
+      return;
+    }
+    marketDataStale = stale;
+
+    // One feed carries every symbol, so a gap affects them all
+    const newMarketData = new Map<string, TopOfBook>();
+    state.marketData.forEach((tob, symbol) => {
+      newMarketData.set(symbol, { ...tob, stale });
+    });
+
+    state = { ...state, marketData: newMarketData };
+    notify('marketData');
+  }
+
+  function revaluePositions(tob: TopOfBook): void {
+    // Update unrealized P&L for every account holding the symbol
+    let newPositions: Map<string, Position> | null = null;
+
+    for (let i = 0; i < state.accounts.length; i += 1) {
+      const key = createPositionKey(state.accounts[i], tob.symbol);
+      const position = state.positions.get(key);
+      if (position === undefined) {
+        continue;
       }
 
-      const updatedPosition: Position = {
-        ...position,
-        unrealizedPnl,
-        lastPrice: midPrice,
-        updatedAt: Date.now(),
-      };
+      const revalued = revaluePosition(position, tob);
+      if (revalued !== null) {
+        newPositions = newPositions ?? new Map(state.positions);
+        newPositions.set(key, revalued);
+      }
+    }
 
-      const newPositions = new Map(state.positions);
-      newPositions.set(tob.symbol, updatedPosition);
+    if (newPositions !== null) {
       state = { ...state, positions: newPositions };
       notify('positions');
     }
+  }
 
-    state = { ...state, marketData: newMarketData };
-    notify('marketData');
+  function revaluePosition(position: Position, tob: TopOfBook): Position | null {
+    const scale = position.priceScale;
+    const markUnits = getMarkUnits(tob, scale);
+    if (markUnits === null) {
+      return null;
+    }
+
+    let unrealizedUnits = 0;
+
+    if (position.netQuantity > 0) {
+      const openQty = position.netQuantity;
+      unrealizedUnits =
+        openQty * markUnits - (openQty * position.buyNotional) / position.buyQuantity;
+    } else if (position.netQuantity < 0) {
+      const openQty = -position.netQuantity;
+      unrealizedUnits =
+        (openQty * position.sellNotional) / position.sellQuantity - openQty * markUnits;
+    }
+
+    const unrealizedPnl = fromPriceUnits(Math.round(unrealizedUnits), scale);
+
+    return {
+      ...position,
+      unrealizedPnl,
+      lastPrice: fromPriceUnits(markUnits, scale),
+      updatedAt: Date.now(),
+    };
   }
 
   function updateConnection(partial: Partial<ConnectionStatus>): void {
@@ -446,19 +725,93 @@ export function createStore(): Store {
   }
 
   function setUserId(userId: number): void {
-    if (userId === state.userId) {
+    if (userId === state.userId || !addAccount(userId)) {
       return;
     }
     state = { ...state, userId };
     notify('userId');
   }
 
+  function addAccount(userId: number): boolean {
+    if (state.accounts.includes(userId)) {
+      return true;
+    }
+    if (!isValidUserId(userId)) {
+      return false;
+    }
+    if (state.accounts.length >= MAX_ACCOUNTS) {
+      console.warn('Max accounts reached, cannot add account');
+      return false;
+    }
+
+    state = { ...state, accounts: [...state.accounts, userId] };
+    notify('accounts');
+    return true;
+  }
+
   function consumeOrderId(): number {
     const orderId = state.nextOrderId;
     state = { ...state, nextOrderId: orderId + 1 };
     return orderId;
   }
 
+  function restoreSession(snapshot: SessionSnapshot): void {
+    const userId = snapshot.userId;
+    if (!addAccount(userId)) {
+      return;
+    }
+
+    // Other accounts' state is kept; this account's is replaced
+    const orders = new Map<string, Order>();
+    state.orders.forEach((order: Order, key: string) => {
+      if (order.userId !== userId) {
+        orders.set(key, order);
+      }
+    });
+    const orderCount = Math.min(snapshot.orders.length, MAX_ORDERS - orders.size);
+    for (let i = 0; i < orderCount; i += 1) {
+      const order = { ...snapshot.orders[i], userId };
+      orders.set(createOrderKey(userId, order.userOrderId), order);
+    }
+
+    const positions = new Map<string, Position>();
+    state.positions.forEach((position: Position, key: string) => {
+      if (position.userId !== userId) {
+        positions.set(key, position);
+      }
+    });
+    const positionCount = Math.min(snapshot.positions.length, MAX_POSITIONS - positions.size);
+    for (let i = 0; i < positionCount; i += 1) {
+      const position = { ...snapshot.positions[i], userId };
+      positions.set(createPositionKey(userId, position.symbol), position);
+    }
+
+    const kept = state.trades.filter((trade: Trade) => trade.userId !== userId);
+    const restored = snapshot.trades.map((trade: Trade) => ({ ...trade, userId }));
+    const trades = [...kept, ...restored]
+      .sort((a: Trade, b: Trade) => b.timestamp - a.timestamp)
+      .slice(0, MAX_TRADES);
+
+    // Trade IDs continue after the newest restored trade
+    for (let i = 0; i < trades.length; i += 1) {
+      tradeIdCounter = Math.max(tradeIdCounter, trades[i].id + 1);
+    }
+
+    state = {
+      ...state,
+      orders,
+      clientOrderIds: indexClientOrderIds(orders),
+      positions,
+      trades,
+      tradeCount: state.tradeCount - (state.trades.length - kept.length) + restored.length,
+      nextOrderId: Math.max(state.nextOrderId, snapshot.nextOrderId),
+    };
+
+    notify('orders');
+    notify('positions');
+    notify('trades');
+  }
+
   // --------------------------------------------------------------------------
   // Subscriptions
   // --------------------------------------------------------------------------
@@ -511,6 +864,39 @@ export function createStore(): Store {
     };
   }
 
+  function onBookChange(callback: BookChangeSubscriber): () => void {
+    let slotIndex = -1;
+
+    // Find empty slot (bounded loop)
+    for (let i = 0; i < MAX_SUBSCRIBERS_PER_KEY; i += 1) {
+      if (bookChangeSubscribers[i] === null) {
+        slotIndex = i;
+        break;
+      }
+    }
+
+    if (slotIndex === -1) {
+      console.warn('Max book change subscribers reached');
+      return () => {};
+    }
+
+    bookChangeSubscribers[slotIndex] = callback;
+
+    return () => {
+      bookChangeSubscribers[slotIndex] = null;
+    };
+  }
+
+  function notifyBookChange(change: BookChange): void {
+    // Bounded loop
+    for (let i = 0; i < MAX_SUBSCRIBERS_PER_KEY; i += 1) {
+      const sub = bookChangeSubscribers[i];
+      if (sub !== null) {
+        sub(change);
+      }
+    }
+  }
+
   // --------------------------------------------------------------------------
   // Return interface
   // --------------------------------------------------------------------------
@@ -519,26 +905,145 @@ export function createStore(): Store {
     getState,
     getOrders,
     getOrder,
+    getOrderByClientOrderId,
     getPositions,
     getPosition,
+    getAggregatePositions,
     getTrades,
     getMarketData,
     getTopOfBook,
+    getOrderBooks,
+    getOrderBook,
     getConnection,
     getSelectedSymbol,
     getUserId,
+    getAccounts,
     getNextOrderId,
+    getSessionSnapshot,
     addOrder,
     updateOrderStatus,
+    markOrderReplaced,
     removeOrder,
     updatePosition,
     addTrade,
     updateMarketData,
+    applyBookUpdates,
+    setMarketDataStale,
     updateConnection,
     setSelectedSymbol,
     setUserId,
+    addAccount,
     consumeOrderId,
+    restoreSession,
     subscribe,
     subscribeAll,
+    onBookChange,
   };
 }
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isFinalStatus(status: OrderStatus): boolean {
+  return (
+    status === OrderStatusEnum.FILLED ||
+    status === OrderStatusEnum.CANCELLED ||
+    status === OrderStatusEnum.REJECTED ||
+    status === OrderStatusEnum.REPLACED ||
+    status === OrderStatusEnum.RISK_REJECTED ||
+    status === OrderStatusEnum.DROPPED
+  );
+}
+
+/** Map each client order ID to the newest order carrying it. */
+function indexClientOrderIds(orders: Map<string, Order>): Map<string, number> {
+  const index = new Map<string, number>();
+  orders.forEach((order: Order) => {
+    if (order.clientOrderId === null) {
+      return;
+    }
+    const key = createClientOrderKey(order.userId, order.clientOrderId);
+    if ((index.get(key) ?? 0) <= order.userOrderId) {
+      index.set(key, order.userOrderId);
+    }
+  });
+  return index;
+}
+
+/**
+ * Total of one symbol's positions across accounts. Cost bases are brought
+ * to the finest price scale among them before they are added.
+ */
+function sumPositions(list: readonly Position[]): Position {
+  let scale = 0;
+  let latest = list[0];
+  for (let i = 0; i < list.length; i += 1) {
+    scale = Math.max(scale, list[i].priceScale);
+    if (list[i].updatedAt > latest.updatedAt) {
+      latest = list[i];
+    }
+  }
+
+  let netQuantity = 0;
+  let buyQuantity = 0;
+  let sellQuantity = 0;
+  let buyNotional = 0;
+  let sellNotional = 0;
+  let realizedUnits = 0;
+  let unrealizedUnits = 0;
+
+  for (let i = 0; i < list.length; i += 1) {
+    const position = list[i];
+    const factor = 10 ** (scale - position.priceScale);
+    netQuantity += position.netQuantity;
+    buyQuantity += position.buyQuantity;
+    sellQuantity += position.sellQuantity;
+    buyNotional += position.buyNotional * factor;
+    sellNotional += position.sellNotional * factor;
+    realizedUnits += toPriceUnits(position.realizedPnl, scale);
+    unrealizedUnits += toPriceUnits(position.unrealizedPnl, scale);
+  }
+
+  return {
+    symbol: latest.symbol,
+    userId: null,
+    netQuantity,
+    buyQuantity,
+    sellQuantity,
+    avgBuyPrice: averagePrice(buyNotional, buyQuantity, scale),
+    avgSellPrice: averagePrice(sellNotional, sellQuantity, scale),
+    priceScale: scale,
+    buyNotional,
+    sellNotional,
+    realizedPnl: fromPriceUnits(realizedUnits, scale),
+    unrealizedPnl: fromPriceUnits(unrealizedUnits, scale),
+    lastPrice: latest.lastPrice,
+    updatedAt: latest.updatedAt,
+  };
+}
+
+/** Average price from a cost basis in price units. */
+function averagePrice(notional: number, quantity: number, scale: number): number {
+  return quantity > 0 ? fromPriceUnits(notional / quantity, scale) : 0;
+}
+
+/**
+ * Price units used to mark positions: the mid when both sides are present
+ * (possibly half a unit), otherwise whichever side is quoted.
+ */
+function getMarkUnits(tob: TopOfBook, scale: number): number | null {
+  const hasBid = tob.bidPrice > 0 && tob.bidQuantity > 0;
+  const hasAsk = tob.askPrice > 0 && tob.askQuantity > 0;
+
+  if (hasBid && hasAsk) {
+    return (toPriceUnits(tob.bidPrice, scale) + toPriceUnits(tob.askPrice, scale)) / 2;
+  }
+  if (hasBid) {
+    return toPriceUnits(tob.bidPrice, scale);
+  }
+  if (hasAsk) {
+    return toPriceUnits(tob.askPrice, scale);
+  }
+  return null;
+}
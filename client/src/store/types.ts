@@ -7,8 +7,12 @@
  * @module store/types
  */
 
-import { type OutputMessage, type Side, type Codec } from '../protocol/index.js';
-import { type ConnectionState } from '../transport/index.js';
+import { type Side, type Codec } from '../protocol/index.js';
+import {
+  type ConnectionState,
+  type FeedHealth,
+  type LatencyStats,
+} from '../transport/index.js';
 
 // ============================================================================
 // Constants
@@ -17,6 +21,10 @@ import { type ConnectionState } from '../transport/index.js';
 export const MAX_ORDERS = 1024;
 export const MAX_TRADES = 2048;
 export const MAX_SYMBOLS = 256;
+export const MAX_ACCOUNTS = 16;
+export const MAX_POSITIONS = 1024;
+export const MAX_BOOK_LEVELS = 64;
+export const MAX_CLIENT_ORDER_ID_LENGTH = 32;
 
 // ============================================================================
 // Order State
@@ -29,6 +37,16 @@ export const OrderStatus = {
   FILLED: 'FILLED',
   CANCELLED: 'CANCELLED',
   REJECTED: 'REJECTED',
+  // No Ack/Reject within the ack timeout; outcome unknown until reconciled
+  TIMED_OUT: 'TIMED_OUT',
+  // Cancelled as part of an amend; see replacedByOrderId
+  REPLACED: 'REPLACED',
+  // Blocked by pre-trade risk checks; never sent to the engine
+  RISK_REJECTED: 'RISK_REJECTED',
+  // Held in the outbound queue while disconnected; not yet sent
+  QUEUED: 'QUEUED',
+  // Left the outbound queue unsent (expired, or dropped by the user)
+  DROPPED: 'DROPPED',
 } as const;
 
 export type OrderStatus = (typeof OrderStatus)[keyof typeof OrderStatus];
@@ -44,6 +62,12 @@ export interface Order {
   readonly status: OrderStatus;
   readonly createdAt: number;
   readonly updatedAt: number;
+  // Amend linkage: the order this one replaced, and the order replacing it
+  readonly replacesOrderId: number | null;
+  readonly replacedByOrderId: number | null;
+  // Caller's own identifier (ClOrdID), never sent to the engine; an amend's
+  // replacement keeps the original's
+  readonly clientOrderId: string | null;
 }
 
 // ============================================================================
@@ -52,11 +76,18 @@ export interface Order {
 
 export interface Position {
   readonly symbol: string;
+  // Account holding the position, or null for a total across accounts
+  readonly userId: number | null;
   readonly netQuantity: number;
   readonly buyQuantity: number;
   readonly sellQuantity: number;
   readonly avgBuyPrice: number;
   readonly avgSellPrice: number;
+  // Cost basis in price units x quantity at `priceScale`, kept exact so the
+  // averages and P&L never accumulate float error
+  readonly priceScale: number;
+  readonly buyNotional: number;
+  readonly sellNotional: number;
   readonly realizedPnl: number;
   readonly unrealizedPnl: number;
   readonly lastPrice: number;
@@ -69,11 +100,15 @@ export interface Position {
 
 export interface Trade {
   readonly id: number;
+  // Account whose order filled
+  readonly userId: number;
   readonly symbol: string;
   readonly price: number;
   readonly quantity: number;
   readonly side: Side;
   readonly userOrderId: number;
+  // Both sides of the trade were the same account's orders
+  readonly selfTrade: boolean;
   readonly timestamp: number;
 }
 
@@ -88,6 +123,45 @@ export interface TopOfBook {
   readonly bidQuantity: number;
   readonly askQuantity: number;
   readonly updatedAt: number;
+  // The feed lost updates since; not trustworthy until it recovers
+  readonly stale: boolean;
+}
+
+// ============================================================================
+// Order Book State
+// ============================================================================
+
+export interface BookLevel {
+  readonly price: number;
+  readonly quantity: number;
+}
+
+export interface BookSnapshot {
+  readonly symbol: string;
+  // Best price first on both sides
+  readonly bids: BookLevel[];
+  readonly asks: BookLevel[];
+  readonly updatedAt: number;
+}
+
+export const BookUpdateKind = {
+  TOP: 'TOP',
+  LEVEL: 'LEVEL',
+} as const;
+
+export type BookUpdateKind = (typeof BookUpdateKind)[keyof typeof BookUpdateKind];
+
+export interface BookUpdate {
+  readonly kind: BookUpdateKind;
+  readonly side: Side;
+  readonly price: number;
+  readonly quantity: number;
+}
+
+export interface BookChange {
+  readonly symbol: string;
+  readonly updates: readonly BookUpdate[];
+  readonly snapshot: BookSnapshot;
 }
 
 // ============================================================================
@@ -103,6 +177,13 @@ export interface ConnectionStatus {
   readonly messagesReceived: number;
   readonly lastError: string | null;
   readonly lastErrorAt: number | null;
+  // Messages waiting in the outbound queue for the orders connection
+  readonly queuedMessages: number;
+  // Heartbeat round trips per connection (null until the first pong)
+  readonly ordersLatency: LatencyStats | null;
+  readonly marketDataLatency: LatencyStats | null;
+  // Sequencing of the market-data feed (null without one)
+  readonly marketDataFeed: FeedHealth | null;
 }
 
 // ============================================================================
@@ -113,25 +194,54 @@ export interface AppState {
   // Orders indexed by `${userId}-${userOrderId}`
   readonly orders: Map<string, Order>;
 
-  // Positions indexed by symbol
+  // Latest order ID carrying each client order ID, indexed by
+  // `${userId}:${clientOrderId}`
+  readonly clientOrderIds: Map<string, number>;
+
+  // Positions indexed by `${userId}:${symbol}`
   readonly positions: Map<string, Position>;
 
   // Trade history (circular buffer - newest first)
   readonly trades: Trade[];
   readonly tradeCount: number;
 
-  // Market data indexed by symbol
+  // Market data indexed by symbol (best levels derived from books)
   readonly marketData: Map<string, TopOfBook>;
 
+  // Order book depth snapshots indexed by symbol
+  readonly books: Map<string, BookSnapshot>;
+
   // Connection status
   readonly connection: ConnectionStatus;
 
+  // Accounts traded from this client, in the order they were added
+  readonly accounts: readonly number[];
+
   // UI state
   readonly selectedSymbol: string;
+  // Account new orders are entered for
   readonly userId: number;
+  // Shared by all accounts, so an order ID identifies one order
   readonly nextOrderId: number;
 }
 
+// ============================================================================
+// Session State
+// ============================================================================
+
+/**
+ * The part of the state that outlives a page load: one account's orders,
+ * fills and positions, and the order-ID counter.
+ */
+export interface SessionSnapshot {
+  readonly userId: number;
+  readonly nextOrderId: number;
+  readonly orders: readonly Order[];
+  // Newest first, as in AppState
+  readonly trades: readonly Trade[];
+  readonly positions: readonly Position[];
+}
+
 // ============================================================================
 // State Keys for Subscriptions
 // ============================================================================
@@ -141,9 +251,11 @@ export const StateKey = {
   POSITIONS: 'positions',
   TRADES: 'trades',
   MARKET_DATA: 'marketData',
+  ORDER_BOOK: 'orderBook',
   CONNECTION: 'connection',
   SELECTED_SYMBOL: 'selectedSymbol',
   USER_ID: 'userId',
+  ACCOUNTS: 'accounts',
 } as const;
 
 export type StateKey = (typeof StateKey)[keyof typeof StateKey];
@@ -156,6 +268,28 @@ export function createOrderKey(userId: number, userOrderId: number): string {
   return `${userId}-${userOrderId}`;
 }
 
+export function createClientOrderKey(userId: number, clientOrderId: string): string {
+  return `${userId}:${clientOrderId}`;
+}
+
+/** 1-32 printable ASCII characters, no spaces. */
+export function isValidClientOrderId(clientOrderId: string): boolean {
+  if (clientOrderId.length === 0 || clientOrderId.length > MAX_CLIENT_ORDER_ID_LENGTH) {
+    return false;
+  }
+  for (let i = 0; i < clientOrderId.length; i += 1) {
+    const code = clientOrderId.charCodeAt(i);
+    if (code < 0x21 || code > 0x7e) {
+      return false;
+    }
+  }
+  return true;
+}
+
+export function createPositionKey(userId: number, symbol: string): string {
+  return `${userId}:${symbol}`;
+}
+
 export function parseOrderKey(key: string): { userId: number; userOrderId: number } | null {
   const parts = key.split('-');
   if (parts.length !== 2) {
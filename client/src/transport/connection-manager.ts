@@ -6,6 +6,25 @@
  * - Automatic codec detection for inbound messages
  * - Message encoding/decoding
  * - Connection to orders endpoint and market data endpoint
+ * - Heartbeat latency from both connections
+ * - Outbound queue while the orders connection is down
+ * - Market-data sequencing: gap and duplicate detection, and snapshot
+ *   recovery from the relay (see sequence)
+ *
+ * QUEUE:
+ * What happens to orders sent while disconnected is set by the queue
+ * policy: refuse them, queue them, or queue only cancels. Every queued
+ * message expires (after `queueMaxAgeMs`, or earlier if the sender says
+ * so) and is dropped instead of replayed, since a minutes-old order no
+ * longer reflects the market. Queue handlers hear about every message
+ * that leaves the queue, sent or dropped.
+ *
+ * FEED HEALTH:
+ * The market-data feed goes stale on a sequence gap and while its
+ * connection is down. The relay sends a snapshot on every connect; after
+ * a gap the client asks for one, again every `snapshotRetryMs` while
+ * packets keep arriving, until one completes. Feed health handlers hear
+ * about every gap, duplicate, request and completed snapshot.
  *
  * @module transport/connection-manager
  */
@@ -13,6 +32,7 @@
 import {
   type InputMessage,
   type OutputMessage,
+  MessageType,
   type EncodeResult,
   type DecodeResult,
   type BatchDecodeResult,
@@ -25,9 +45,21 @@ import {
 import {
   createWebSocketClient,
   type WebSocketClient,
+  type WebSocketConstructor,
   type ConnectionStats,
+  type WebSocketClientConfig,
   ConnectionState,
 } from './websocket-client.js';
+import { type LatencyStats } from './heartbeat.js';
+import {
+  createFeedSequencer,
+  parseSequencedPacket,
+  parseSnapshotEnd,
+  FeedState,
+  SequenceCheck,
+  SNAPSHOT_REQUEST,
+  type FeedHealth,
+} from './sequence.js';
 
 // ============================================================================
 // Constants
@@ -37,21 +69,66 @@ const DEFAULT_ORDERS_PORT = 8080;
 const DEFAULT_MARKET_DATA_PORT = 8082;
 const MAX_MESSAGE_HANDLERS = 32;
 const MAX_QUEUED_MESSAGES = 256;
+const DEFAULT_QUEUE_MAX_AGE_MS = 30000;
+const DEFAULT_SNAPSHOT_RETRY_MS = 5000;
 
 // ============================================================================
 // Types
 // ============================================================================
 
+export const QueuePolicy = {
+  // Refuse orders and cancels while disconnected
+  REJECT: 'REJECT',
+  // Queue everything until it is sent or expires
+  QUEUE: 'QUEUE',
+  // Queue cancels and flushes, refuse new orders
+  QUEUE_CANCELS_ONLY: 'QUEUE_CANCELS_ONLY',
+} as const;
+
+export type QueuePolicy = (typeof QueuePolicy)[keyof typeof QueuePolicy];
+
+export const QueueEventType = {
+  // Replayed after reconnecting
+  SENT: 'SENT',
+  // Reached its expiry before it could be sent
+  EXPIRED: 'EXPIRED',
+  // Dropped on request (clearQueue)
+  CLEARED: 'CLEARED',
+} as const;
+
+export type QueueEventType = (typeof QueueEventType)[keyof typeof QueueEventType];
+
+export interface QueuedMessage {
+  readonly message: InputMessage;
+  // Encoded when queued, in the outbound codec at the time
+  readonly data: Uint8Array;
+  readonly codec: Codec;
+  readonly queuedAt: number;
+  readonly expiresAt: number;
+}
+
 export interface ConnectionManagerConfig {
   readonly ordersUrl: string;
   readonly marketDataUrl: string | null;
   readonly outboundCodec: Codec;
   readonly reconnect: boolean;
+  // WebSocket implementation for non-browser runtimes (null: global WebSocket)
+  readonly webSocketImpl: WebSocketConstructor | null;
+  // Heartbeat interval and silence before reconnecting (null: client defaults)
+  readonly heartbeatIntervalMs: number | null;
+  readonly staleTimeoutMs: number | null;
+  // What to do with orders sent while the orders connection is down
+  readonly queuePolicy: QueuePolicy;
+  // Queued messages older than this are dropped instead of sent
+  readonly queueMaxAgeMs: number;
+  // Minimum time between snapshot requests while the feed is stale
+  readonly snapshotRetryMs: number;
 }
 
 export interface ConnectionManagerStats {
   readonly orders: ConnectionStats;
   readonly marketData: ConnectionStats | null;
+  readonly marketDataFeed: FeedHealth | null;
   readonly outboundCodec: Codec;
   readonly lastInboundCodec: Codec;
 }
@@ -65,6 +142,12 @@ export type ConnectionErrorHandler = (
   endpoint: 'orders' | 'marketData',
   error: Error
 ) => void;
+export type ConnectionLatencyHandler = (
+  endpoint: 'orders' | 'marketData',
+  latency: LatencyStats
+) => void;
+export type QueueEventHandler = (type: QueueEventType, queued: QueuedMessage) => void;
+export type FeedHealthHandler = (health: FeedHealth) => void;
 
 // ============================================================================
 // Default Configuration
@@ -83,6 +166,12 @@ function createDefaultConfig(
     marketDataUrl: mdPort !== null ? `ws://${host}:${mdPort}/market-data` : null,
     outboundCodec: Codec.CSV,
     reconnect: true,
+    webSocketImpl: null,
+    heartbeatIntervalMs: null,
+    staleTimeoutMs: null,
+    queuePolicy: QueuePolicy.QUEUE,
+    queueMaxAgeMs: DEFAULT_QUEUE_MAX_AGE_MS,
+    snapshotRetryMs: DEFAULT_SNAPSHOT_RETRY_MS,
   };
 }
 
@@ -93,7 +182,22 @@ function createDefaultConfig(
 export interface ConnectionManager {
   connect(): void;
   disconnect(): void;
-  sendOrder(message: InputMessage): SendResult;
+  /**
+   * Send, or queue while disconnected (per the queue policy). `expiresAt`
+   * (epoch ms) drops the message from the queue earlier than the max age.
+   */
+  sendOrder(message: InputMessage, expiresAt?: number): SendResult;
+  /** What sendOrder would do with the message now, without sending or queueing it. */
+  checkSend(message: InputMessage): SendResult;
+  setQueuePolicy(policy: QueuePolicy): void;
+  getQueuePolicy(): QueuePolicy;
+  getQueuedMessages(): readonly QueuedMessage[];
+  /** Drop expired messages now; returns how many were dropped. */
+  expireQueue(): number;
+  /** Drop every queued message before it replays; returns how many. */
+  clearQueue(): number;
+  /** Ask the market-data relay for a snapshot; false if not connected. */
+  requestSnapshot(): boolean;
   setOutboundCodec(codec: Codec): void;
   getOutboundCodec(): Codec;
   getStats(): ConnectionManagerStats;
@@ -102,11 +206,16 @@ export interface ConnectionManager {
   onMessage(handler: OutputMessageHandler): void;
   onStateChange(handler: ConnectionStateHandler): void;
   onError(handler: ConnectionErrorHandler): void;
+  onLatency(handler: ConnectionLatencyHandler): void;
+  onQueueEvent(handler: QueueEventHandler): void;
+  onFeedHealth(handler: FeedHealthHandler): void;
   destroy(): void;
 }
 
 export interface SendResult {
   readonly success: boolean;
+  // Held in the outbound queue until the orders connection is back
+  readonly queued: boolean;
   readonly error: string | null;
 }
 
@@ -146,8 +255,28 @@ export function createConnectionManager(
   ).fill(null);
   let errorHandlerCount = 0;
 
+  const latencyHandlers: (ConnectionLatencyHandler | null)[] = new Array(
+    MAX_MESSAGE_HANDLERS
+  ).fill(null);
+  let latencyHandlerCount = 0;
+
+  const queueHandlers: (QueueEventHandler | null)[] = new Array(
+    MAX_MESSAGE_HANDLERS
+  ).fill(null);
+  let queueHandlerCount = 0;
+
+  const feedHandlers: (FeedHealthHandler | null)[] = new Array(
+    MAX_MESSAGE_HANDLERS
+  ).fill(null);
+  let feedHandlerCount = 0;
+
   // Message queue for sending while reconnecting
-  const messageQueue: Uint8Array[] = [];
+  const messageQueue: QueuedMessage[] = [];
+  let queuePolicy: QueuePolicy = config.queuePolicy;
+
+  // Market-data sequencing
+  const sequencer = createFeedSequencer();
+  let lastSnapshotRequestAt = 0;
 
   // --------------------------------------------------------------------------
   // Handler Dispatch
@@ -189,6 +318,40 @@ export function createConnectionManager(
     }
   }
 
+  function dispatchLatency(
+    endpoint: 'orders' | 'marketData',
+    latency: LatencyStats
+  ): void {
+    // Bounded loop
+    for (let i = 0; i < MAX_MESSAGE_HANDLERS; i += 1) {
+      const handler = latencyHandlers[i];
+      if (handler !== null) {
+        handler(endpoint, latency);
+      }
+    }
+  }
+
+  function dispatchQueueEvent(type: QueueEventType, queued: QueuedMessage): void {
+    // Bounded loop
+    for (let i = 0; i < MAX_MESSAGE_HANDLERS; i += 1) {
+      const handler = queueHandlers[i];
+      if (handler !== null) {
+        handler(type, queued);
+      }
+    }
+  }
+
+  function dispatchFeedHealth(): void {
+    const health = sequencer.getHealth();
+    // Bounded loop
+    for (let i = 0; i < MAX_MESSAGE_HANDLERS; i += 1) {
+      const handler = feedHandlers[i];
+      if (handler !== null) {
+        handler(health);
+      }
+    }
+  }
+
   // --------------------------------------------------------------------------
   // Message Processing
   // --------------------------------------------------------------------------
@@ -211,8 +374,24 @@ export function createConnectionManager(
   }
 
   function handleMarketDataMessage(data: Uint8Array): void {
+    const packet = parseSequencedPacket(data);
+    if (packet === null) {
+      dispatchError('marketData', new Error('Market data packet without sequence header'));
+      return;
+    }
+
+    const check = sequencer.check(packet.sequence);
+    if (check === SequenceCheck.DUPLICATE) {
+      dispatchFeedHealth();
+      return;
+    }
+    if (check === SequenceCheck.GAP) {
+      // Before applying, so the packet's updates are marked stale too
+      dispatchFeedHealth();
+    }
+
     // Market data may be batched (multiple messages in one UDP packet)
-    const result: BatchDecodeResult = decodeBatch(data);
+    const result: BatchDecodeResult = decodeBatch(packet.payload);
 
     if (result.codec !== Codec.UNKNOWN) {
       lastInboundCodec = result.codec;
@@ -229,33 +408,149 @@ export function createConnectionManager(
     for (let i = 0; i < errorCount; i += 1) {
       dispatchError('marketData', new Error(result.errors[i]));
     }
+
+    if (sequencer.getHealth().state === FeedState.STALE) {
+      requestSnapshotIfDue();
+    }
+  }
+
+  function handleMarketDataControl(text: string): void {
+    const endSequence = parseSnapshotEnd(text);
+    if (endSequence === null) {
+      dispatchError('marketData', new Error('Unexpected text message received'));
+      return;
+    }
+
+    sequencer.completeSnapshot(endSequence);
+    lastSnapshotRequestAt = 0;
+    dispatchFeedHealth();
+  }
+
+  function handleMarketDataState(state: ConnectionState): void {
+    // The relay sends a snapshot on connect without being asked
+    if (state === ConnectionState.CONNECTED) {
+      return;
+    }
+
+    // Whatever is published while we are away is lost
+    const health = sequencer.getHealth();
+    if (health.lastSequence !== null && health.state === FeedState.OK) {
+      sequencer.markStale();
+      dispatchFeedHealth();
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Snapshot Recovery
+  // --------------------------------------------------------------------------
+
+  function requestSnapshot(): boolean {
+    if (marketDataClient === null || !marketDataClient.sendControl(SNAPSHOT_REQUEST)) {
+      return false;
+    }
+
+    sequencer.snapshotRequested();
+    lastSnapshotRequestAt = Date.now();
+    dispatchFeedHealth();
+    return true;
+  }
+
+  function requestSnapshotIfDue(): void {
+    if (Date.now() - lastSnapshotRequestAt >= config.snapshotRetryMs) {
+      requestSnapshot();
+    }
   }
 
   // --------------------------------------------------------------------------
   // Queue Management
   // --------------------------------------------------------------------------
 
+  function isQueueable(message: InputMessage): boolean {
+    if (queuePolicy === QueuePolicy.QUEUE) {
+      return true;
+    }
+    if (queuePolicy === QueuePolicy.QUEUE_CANCELS_ONLY) {
+      return message.type === MessageType.CANCEL || message.type === MessageType.FLUSH;
+    }
+    return false;
+  }
+
+  function checkEnqueue(message: InputMessage): SendResult {
+    if (!isQueueable(message)) {
+      return { success: false, queued: false, error: 'Not connected' };
+    }
+    if (messageQueue.length >= MAX_QUEUED_MESSAGES) {
+      return { success: false, queued: false, error: 'Message queue full' };
+    }
+    return { success: true, queued: true, error: null };
+  }
+
+  function enqueue(message: InputMessage, data: Uint8Array, expiresAt?: number): SendResult {
+    const check = checkEnqueue(message);
+    if (!check.success) {
+      return check;
+    }
+
+    const queuedAt = Date.now();
+    messageQueue.push({
+      message,
+      data,
+      codec: outboundCodec,
+      queuedAt,
+      expiresAt: Math.min(queuedAt + config.queueMaxAgeMs, expiresAt ?? Infinity),
+    });
+    return { success: true, queued: true, error: null };
+  }
+
+  function expireQueue(): number {
+    const now = Date.now();
+    let expired = 0;
+
+    // Bounded loop; iterate backwards so removals keep indexes valid
+    for (let i = messageQueue.length - 1; i >= 0; i -= 1) {
+      const entry = messageQueue[i];
+      if (entry.expiresAt <= now) {
+        messageQueue.splice(i, 1);
+        expired += 1;
+        dispatchQueueEvent(QueueEventType.EXPIRED, entry);
+      }
+    }
+    return expired;
+  }
+
+  function clearQueue(): number {
+    const dropped = messageQueue.splice(0, messageQueue.length);
+    for (let i = 0; i < dropped.length; i += 1) {
+      dispatchQueueEvent(QueueEventType.CLEARED, dropped[i]);
+    }
+    return dropped.length;
+  }
+
   function flushMessageQueue(): void {
     if (ordersClient === null) {
       return;
     }
 
+    // Stale orders are dropped, not replayed
+    expireQueue();
+
     // Bounded loop
     let flushed = 0;
     while (messageQueue.length > 0 && flushed < MAX_QUEUED_MESSAGES) {
-      const data = messageQueue.shift();
-      if (data === undefined) {
+      const entry = messageQueue.shift();
+      if (entry === undefined) {
         break;
       }
 
-      const sent = ordersClient.send(data);
+      const sent = ordersClient.send(entry.data);
       if (!sent) {
         // Put it back and stop
-        messageQueue.unshift(data);
+        messageQueue.unshift(entry);
         break;
       }
 
       flushed += 1;
+      dispatchQueueEvent(QueueEventType.SENT, entry);
     }
   }
 
@@ -263,10 +558,19 @@ export function createConnectionManager(
   // Client Setup
   // --------------------------------------------------------------------------
 
-  function setupOrdersClient(): void {
-    ordersClient = createWebSocketClient(config.ordersUrl, {
+  function clientConfig(): Partial<WebSocketClientConfig> {
+    return {
       reconnect: config.reconnect,
-    });
+      webSocketImpl: config.webSocketImpl,
+      ...(config.heartbeatIntervalMs !== null
+        ? { healthCheckIntervalMs: config.heartbeatIntervalMs }
+        : {}),
+      ...(config.staleTimeoutMs !== null ? { staleTimeoutMs: config.staleTimeoutMs } : {}),
+    };
+  }
+
+  function setupOrdersClient(): void {
+    ordersClient = createWebSocketClient(config.ordersUrl, clientConfig());
 
     ordersClient.onMessage(handleOrdersMessage);
 
@@ -281,6 +585,10 @@ export function createConnectionManager(
     ordersClient.onError((error: Error) => {
       dispatchError('orders', error);
     });
+
+    ordersClient.onLatency((latency: LatencyStats) => {
+      dispatchLatency('orders', latency);
+    });
   }
 
   function setupMarketDataClient(): void {
@@ -288,19 +596,23 @@ export function createConnectionManager(
       return;
     }
 
-    marketDataClient = createWebSocketClient(config.marketDataUrl, {
-      reconnect: config.reconnect,
-    });
+    marketDataClient = createWebSocketClient(config.marketDataUrl, clientConfig());
 
     marketDataClient.onMessage(handleMarketDataMessage);
+    marketDataClient.onControl(handleMarketDataControl);
 
     marketDataClient.onStateChange((state: ConnectionState) => {
       dispatchStateChange('marketData', state);
+      handleMarketDataState(state);
     });
 
     marketDataClient.onError((error: Error) => {
       dispatchError('marketData', error);
     });
+
+    marketDataClient.onLatency((latency: LatencyStats) => {
+      dispatchLatency('marketData', latency);
+    });
   }
 
   // --------------------------------------------------------------------------
@@ -332,37 +644,51 @@ export function createConnectionManager(
     }
   }
 
-  function sendOrder(message: InputMessage): SendResult {
-    const encodeResult: EncodeResult = encode(message, outboundCodec);
+  function isOrdersConnected(): boolean {
+    return ordersClient !== null && ordersClient.getState() === ConnectionState.CONNECTED;
+  }
 
+  function checkSend(message: InputMessage): SendResult {
+    const encodeResult: EncodeResult = encode(message, outboundCodec);
     if (!encodeResult.success) {
-      return { success: false, error: encodeResult.error };
+      return { success: false, queued: false, error: encodeResult.error };
     }
+    if (!isOrdersConnected()) {
+      return checkEnqueue(message);
+    }
+    return { success: true, queued: false, error: null };
+  }
 
-    // If not connected, queue the message
-    if (ordersClient === null) {
-      if (messageQueue.length < MAX_QUEUED_MESSAGES) {
-        messageQueue.push(encodeResult.data);
-        return { success: true, error: null };
-      }
-      return { success: false, error: 'Message queue full' };
+  function sendOrder(message: InputMessage, expiresAt?: number): SendResult {
+    const encodeResult: EncodeResult = encode(message, outboundCodec);
+
+    if (!encodeResult.success) {
+      return { success: false, queued: false, error: encodeResult.error };
     }
 
-    const state = ordersClient.getState();
-    if (state !== ConnectionState.CONNECTED) {
-      if (messageQueue.length < MAX_QUEUED_MESSAGES) {
-        messageQueue.push(encodeResult.data);
-        return { success: true, error: null };
-      }
-      return { success: false, error: 'Message queue full' };
+    // If not connected, queue the message (policy permitting)
+    if (ordersClient === null || !isOrdersConnected()) {
+      return enqueue(message, encodeResult.data, expiresAt);
     }
 
     const sent = ordersClient.send(encodeResult.data);
     if (!sent) {
-      return { success: false, error: 'Failed to send' };
+      return { success: false, queued: false, error: 'Failed to send' };
     }
 
-    return { success: true, error: null };
+    return { success: true, queued: false, error: null };
+  }
+
+  function setQueuePolicy(policy: QueuePolicy): void {
+    queuePolicy = policy;
+  }
+
+  function getQueuePolicy(): QueuePolicy {
+    return queuePolicy;
+  }
+
+  function getQueuedMessages(): readonly QueuedMessage[] {
+    return messageQueue.slice();
   }
 
   function setOutboundCodec(codec: Codec): void {
@@ -380,6 +706,7 @@ export function createConnectionManager(
     return {
       orders: ordersClient?.getStats() ?? createEmptyStats(),
       marketData: marketDataClient?.getStats() ?? null,
+      marketDataFeed: marketDataClient !== null ? sequencer.getHealth() : null,
       outboundCodec,
       lastInboundCodec,
     };
@@ -423,6 +750,30 @@ export function createConnectionManager(
     errorHandlerCount += 1;
   }
 
+  function onLatency(handler: ConnectionLatencyHandler): void {
+    if (latencyHandlerCount >= MAX_MESSAGE_HANDLERS) {
+      return;
+    }
+    latencyHandlers[latencyHandlerCount] = handler;
+    latencyHandlerCount += 1;
+  }
+
+  function onQueueEvent(handler: QueueEventHandler): void {
+    if (queueHandlerCount >= MAX_MESSAGE_HANDLERS) {
+      return;
+    }
+    queueHandlers[queueHandlerCount] = handler;
+    queueHandlerCount += 1;
+  }
+
+  function onFeedHealth(handler: FeedHealthHandler): void {
+    if (feedHandlerCount >= MAX_MESSAGE_HANDLERS) {
+      return;
+    }
+    feedHandlers[feedHandlerCount] = handler;
+    feedHandlerCount += 1;
+  }
+
   function destroy(): void {
     disconnect();
 
@@ -441,14 +792,21 @@ export function createConnectionManager(
       messageHandlers[i] = null;
       stateHandlers[i] = null;
       errorHandlers[i] = null;
+      latencyHandlers[i] = null;
+      queueHandlers[i] = null;
+      feedHandlers[i] = null;
     }
 
     messageHandlerCount = 0;
     stateHandlerCount = 0;
     errorHandlerCount = 0;
+    latencyHandlerCount = 0;
+    queueHandlerCount = 0;
+    feedHandlerCount = 0;
 
     // Clear queue
     messageQueue.length = 0;
+    sequencer.reset();
   }
 
   // --------------------------------------------------------------------------
@@ -459,6 +817,13 @@ export function createConnectionManager(
     connect,
     disconnect,
     sendOrder,
+    checkSend,
+    setQueuePolicy,
+    getQueuePolicy,
+    getQueuedMessages,
+    expireQueue,
+    clearQueue,
+    requestSnapshot,
     setOutboundCodec,
     getOutboundCodec,
     getStats,
@@ -467,6 +832,9 @@ export function createConnectionManager(
     onMessage,
     onStateChange,
     onError,
+    onLatency,
+    onQueueEvent,
+    onFeedHealth,
     destroy,
   };
 }
@@ -486,5 +854,7 @@ function createEmptyStats(): ConnectionStats {
     lastMessageTime: 0,
     connectedAt: null,
     latencyMs: null,
+    latency: null,
+    staleDisconnects: 0,
   };
 }
@@ -0,0 +1,116 @@
+/**
+ * Application-level heartbeat between the client and the relays.
+ *
+ * The browser WebSocket API exposes no ping/pong frames, so the client
+ * sends its own: a text frame `PING <token>`, which the relay answers
+ * itself with `PONG <token>` without involving the engine. Protocol
+ * messages always travel as binary frames, so text frames are free for
+ * this control traffic.
+ *
+ * Round trips are kept in a rolling window, from which latency
+ * percentiles are computed.
+ *
+ * @module transport/heartbeat
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const PING_PREFIX = 'PING ';
+export const PONG_PREFIX = 'PONG ';
+
+// Control frames are short; anything longer is not a heartbeat
+export const MAX_CONTROL_FRAME_LENGTH = 64;
+
+export const DEFAULT_LATENCY_WINDOW = 128;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Round-trip latency over the most recent heartbeats, in milliseconds. */
+export interface LatencyStats {
+  // Round trips in the window
+  readonly samples: number;
+  readonly p50Ms: number;
+  readonly p90Ms: number;
+  readonly p99Ms: number;
+  readonly maxMs: number;
+}
+
+export interface LatencyWindow {
+  record(rttMs: number): void;
+  /** Percentiles over the window, or null before the first sample. */
+  getStats(): LatencyStats | null;
+  reset(): void;
+}
+
+// ============================================================================
+// Frames
+// ============================================================================
+
+export function encodePing(token: number): string {
+  return PING_PREFIX + String(token);
+}
+
+/** Token of a `PONG <token>` frame, or null for anything else. */
+export function parsePong(text: string): number | null {
+  if (text.length > MAX_CONTROL_FRAME_LENGTH || !text.startsWith(PONG_PREFIX)) {
+    return null;
+  }
+
+  const token = text.slice(PONG_PREFIX.length);
+  if (!/^\d+$/.test(token)) {
+    return null;
+  }
+  return parseInt(token, 10);
+}
+
+// ============================================================================
+// Latency Window
+// ============================================================================
+
+/** Nearest-rank percentile of an ascending list. */
+function percentile(sorted: readonly number[], fraction: number): number {
+  const rank = Math.ceil(fraction * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+export function createLatencyWindow(capacity: number = DEFAULT_LATENCY_WINDOW): LatencyWindow {
+  // Ring buffer of the newest round trips
+  const samples: number[] = new Array(capacity).fill(0);
+  let count = 0;
+  let next = 0;
+
+  function record(rttMs: number): void {
+    if (!Number.isFinite(rttMs) || rttMs < 0) {
+      return;
+    }
+    samples[next] = rttMs;
+    next = (next + 1) % capacity;
+    count = Math.min(count + 1, capacity);
+  }
+
+  function getStats(): LatencyStats | null {
+    if (count === 0) {
+      return null;
+    }
+
+    const sorted = samples.slice(0, count).sort((a, b) => a - b);
+    return {
+      samples: count,
+      p50Ms: percentile(sorted, 0.5),
+      p90Ms: percentile(sorted, 0.9),
+      p99Ms: percentile(sorted, 0.99),
+      maxMs: sorted[count - 1],
+    };
+  }
+
+  function reset(): void {
+    count = 0;
+    next = 0;
+  }
+
+  return { record, getStats, reset };
+}
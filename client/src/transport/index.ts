@@ -16,18 +16,59 @@ export {
   ConnectionState,
   type WebSocketClient,
   type WebSocketClientConfig,
+  type WebSocketLike,
+  type WebSocketConstructor,
   type ConnectionStats,
   type MessageHandler,
   type StateHandler,
   type ErrorHandler,
+  type LatencyHandler,
+  type ControlHandler,
 } from './websocket-client.js';
 
+// ============================================================================
+// Heartbeat
+// ============================================================================
+
+export {
+  createLatencyWindow,
+  encodePing,
+  parsePong,
+  PING_PREFIX,
+  PONG_PREFIX,
+  MAX_CONTROL_FRAME_LENGTH,
+  DEFAULT_LATENCY_WINDOW,
+  type LatencyStats,
+  type LatencyWindow,
+} from './heartbeat.js';
+
+// ============================================================================
+// Market-Data Sequencing
+// ============================================================================
+
+export {
+  createFeedSequencer,
+  parseSequencedPacket,
+  parseSnapshotEnd,
+  SequenceCheck,
+  FeedState,
+  SEQUENCE_HEADER_SIZE,
+  SNAPSHOT_SEQUENCE,
+  SNAPSHOT_REQUEST,
+  SNAPSHOT_END_PREFIX,
+  type SequencedPacket,
+  type FeedHealth,
+  type FeedSequencer,
+} from './sequence.js';
+
 // ============================================================================
 // Connection Manager
 // ============================================================================
 
 export {
   createConnectionManager,
+  QueuePolicy,
+  QueueEventType,
   type ConnectionManager,
   type ConnectionManagerConfig,
   type ConnectionManagerStats,
@@ -35,4 +76,8 @@ export {
   type OutputMessageHandler,
   type ConnectionStateHandler,
   type ConnectionErrorHandler,
+  type ConnectionLatencyHandler,
+  type QueueEventHandler,
+  type QueuedMessage,
+  type FeedHealthHandler,
 } from './connection-manager.js';
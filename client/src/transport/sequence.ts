@@ -0,0 +1,224 @@
+/**
+ * Market-data sequencing and snapshot recovery.
+ *
+ * The engine prefixes every multicast packet with an 8-byte big-endian
+ * sequence number (starting at 1), and the multicast relay forwards the
+ * packets unchanged. The client strips the header and checks each number
+ * against the last one seen:
+ *
+ * - the next number is applied as usual
+ * - a number already seen is a duplicate and is dropped
+ * - a jump forward is a gap: the packet is applied, but updates in the
+ *   missing packets are lost, so the feed is stale until recovered
+ * - 1 after anything higher is a publisher restart, treated as a gap
+ *
+ * RECOVERY:
+ * A stale feed asks the relay for a snapshot with the text frame
+ * `SNAPSHOT`. The relay replays its cached book as packets with sequence
+ * 0, then sends `SNAPSHOT_END <sequence>`, the last live sequence it had
+ * forwarded. Live packets continue from the next number, and the feed is
+ * healthy again. The relay sends the same snapshot unasked to every new
+ * connection.
+ *
+ * @module transport/sequence
+ */
+
+import { MAX_CONTROL_FRAME_LENGTH } from './heartbeat.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SEQUENCE_HEADER_SIZE = 8;
+
+// Snapshot packets replayed by the relay carry this sequence
+export const SNAPSHOT_SEQUENCE = 0;
+
+export const SNAPSHOT_REQUEST = 'SNAPSHOT';
+export const SNAPSHOT_END_PREFIX = 'SNAPSHOT_END ';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const SequenceCheck = {
+  // First packet since the sequencer was reset
+  FIRST: 'FIRST',
+  IN_ORDER: 'IN_ORDER',
+  // Packets were missed (or the publisher restarted)
+  GAP: 'GAP',
+  // Already seen; drop it
+  DUPLICATE: 'DUPLICATE',
+  // Replayed from the relay's cache during recovery
+  SNAPSHOT: 'SNAPSHOT',
+} as const;
+
+export type SequenceCheck = (typeof SequenceCheck)[keyof typeof SequenceCheck];
+
+export const FeedState = {
+  OK: 'OK',
+  // A gap or disconnect lost updates; waiting for a snapshot
+  STALE: 'STALE',
+} as const;
+
+export type FeedState = (typeof FeedState)[keyof typeof FeedState];
+
+export interface SequencedPacket {
+  readonly sequence: number;
+  readonly payload: Uint8Array;
+}
+
+export interface FeedHealth {
+  readonly state: FeedState;
+  // Last live sequence applied (null before the first packet)
+  readonly lastSequence: number | null;
+  readonly gaps: number;
+  // Packets lost across all gaps (a restart counts none)
+  readonly missedMessages: number;
+  readonly duplicates: number;
+  readonly lastGapAt: number | null;
+  readonly snapshotsRequested: number;
+  readonly snapshotsCompleted: number;
+}
+
+export interface FeedSequencer {
+  /** Classify a packet's sequence, updating the counters. */
+  check(sequence: number): SequenceCheck;
+  /** Mark the feed stale without a gap (e.g. the connection dropped). */
+  markStale(): void;
+  snapshotRequested(): void;
+  /** A snapshot ended at `lastSequence`; live packets continue after it. */
+  completeSnapshot(lastSequence: number): void;
+  getHealth(): FeedHealth;
+  reset(): void;
+}
+
+// ============================================================================
+// Frames
+// ============================================================================
+
+/** Split a packet into sequence and payload, or null if it has no header. */
+export function parseSequencedPacket(data: Uint8Array): SequencedPacket | null {
+  if (data.length < SEQUENCE_HEADER_SIZE) {
+    return null;
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, SEQUENCE_HEADER_SIZE);
+  const sequence = view.getBigUint64(0, false);
+  if (sequence > BigInt(Number.MAX_SAFE_INTEGER)) {
+    return null;
+  }
+
+  return {
+    sequence: Number(sequence),
+    payload: data.subarray(SEQUENCE_HEADER_SIZE),
+  };
+}
+
+/** Sequence of a `SNAPSHOT_END <sequence>` frame, or null for anything else. */
+export function parseSnapshotEnd(text: string): number | null {
+  if (text.length > MAX_CONTROL_FRAME_LENGTH || !text.startsWith(SNAPSHOT_END_PREFIX)) {
+    return null;
+  }
+
+  const sequence = text.slice(SNAPSHOT_END_PREFIX.length);
+  if (!/^\d+$/.test(sequence)) {
+    return null;
+  }
+  return parseInt(sequence, 10);
+}
+
+// ============================================================================
+// Feed Sequencer
+// ============================================================================
+
+export function createFeedSequencer(): FeedSequencer {
+  let state: FeedState = FeedState.OK;
+  let lastSequence: number | null = null;
+  let gaps = 0;
+  let missedMessages = 0;
+  let duplicates = 0;
+  let lastGapAt: number | null = null;
+  let snapshotsRequested = 0;
+  let snapshotsCompleted = 0;
+
+  function recordGap(missed: number): void {
+    gaps += 1;
+    missedMessages += missed;
+    lastGapAt = Date.now();
+    state = FeedState.STALE;
+  }
+
+  function check(sequence: number): SequenceCheck {
+    if (sequence === SNAPSHOT_SEQUENCE) {
+      return SequenceCheck.SNAPSHOT;
+    }
+
+    if (lastSequence === null) {
+      lastSequence = sequence;
+      return SequenceCheck.FIRST;
+    }
+
+    if (sequence === lastSequence + 1) {
+      lastSequence = sequence;
+      return SequenceCheck.IN_ORDER;
+    }
+
+    // The publisher starts again from 1; everything before is unknown
+    if (sequence === 1 && lastSequence > 1) {
+      recordGap(0);
+      lastSequence = sequence;
+      return SequenceCheck.GAP;
+    }
+
+    if (sequence <= lastSequence) {
+      duplicates += 1;
+      return SequenceCheck.DUPLICATE;
+    }
+
+    recordGap(sequence - lastSequence - 1);
+    lastSequence = sequence;
+    return SequenceCheck.GAP;
+  }
+
+  function markStale(): void {
+    state = FeedState.STALE;
+  }
+
+  function snapshotRequested(): void {
+    snapshotsRequested += 1;
+  }
+
+  function completeSnapshot(endSequence: number): void {
+    // 0: the relay has not forwarded anything live yet
+    lastSequence = endSequence === SNAPSHOT_SEQUENCE ? null : endSequence;
+    snapshotsCompleted += 1;
+    state = FeedState.OK;
+  }
+
+  function getHealth(): FeedHealth {
+    return {
+      state,
+      lastSequence,
+      gaps,
+      missedMessages,
+      duplicates,
+      lastGapAt,
+      snapshotsRequested,
+      snapshotsCompleted,
+    };
+  }
+
+  function reset(): void {
+    state = FeedState.OK;
+    lastSequence = null;
+    gaps = 0;
+    missedMessages = 0;
+    duplicates = 0;
+    lastGapAt = null;
+    snapshotsRequested = 0;
+    snapshotsCompleted = 0;
+  }
+
+  return { check, markStale, snapshotRequested, completeSnapshot, getHealth, reset };
+}
@@ -4,16 +4,32 @@
  * Handles:
  * - Connection lifecycle (connect, disconnect, reconnect)
  * - Binary message handling
- * - Connection health monitoring
+ * - Connection health monitoring: an application-level heartbeat (see
+ *   heartbeat) measures round-trip latency, and a connection that has been
+ *   silent for `staleTimeoutMs` is dropped and re-established
+ * - Other control text frames (e.g. snapshot recovery, see sequence), in
+ *   both directions
  *
  * FRAMING NOTE:
  * WebSocket has built-in message framing, so we send/receive raw messages.
  * The relay server handles TCP length-prefix framing when forwarding to the
  * matching engine.
  *
+ * RUNTIME NOTE:
+ * The browser's global WebSocket is used by default. Outside the browser
+ * (Node), pass a compatible implementation such as the `ws` package via
+ * `webSocketImpl`.
+ *
  * @module transport/websocket-client
  */
 
+import {
+  type LatencyStats,
+  createLatencyWindow,
+  encodePing,
+  parsePong,
+} from './heartbeat.js';
+
 // ============================================================================
 // Constants
 // ============================================================================
@@ -22,7 +38,12 @@ const MAX_RECONNECT_ATTEMPTS = 10;
 const RECONNECT_BASE_DELAY_MS = 1000;
 const RECONNECT_MAX_DELAY_MS = 30000;
 const HEALTH_CHECK_INTERVAL_MS = 5000;
+const STALE_TIMEOUT_MS = 15000;
 const CONNECTION_TIMEOUT_MS = 10000;
+const MAX_OUTSTANDING_PINGS = 8;
+
+// WebSocket.OPEN, without relying on a global WebSocket being present
+const READY_STATE_OPEN = 1;
 
 // ============================================================================
 // Types
@@ -48,19 +69,49 @@ export interface ConnectionStats {
   readonly bytesSent: number;
   readonly lastMessageTime: number;
   readonly connectedAt: number | null;
+  // Latest heartbeat round trip
   readonly latencyMs: number | null;
+  // Percentiles over recent heartbeats on this connection
+  readonly latency: LatencyStats | null;
+  // Connections dropped for going silent
+  readonly staleDisconnects: number;
 }
 
+/**
+ * The subset of the WebSocket API the client uses. Both the browser
+ * WebSocket and the `ws` package satisfy it. Handler parameters are typed
+ * `never` so implementations with differing event types are accepted.
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  binaryType: string;
+  onopen: ((event: never) => void) | null;
+  onclose: ((event: never) => void) | null;
+  onerror: ((event: never) => void) | null;
+  onmessage: ((event: never) => void) | null;
+  send(data: Uint8Array | string): void;
+  close(): void;
+}
+
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
 export interface WebSocketClientConfig {
   readonly url: string;
   readonly reconnect: boolean;
   readonly maxReconnectAttempts: number;
+  // Heartbeat interval
   readonly healthCheckIntervalMs: number;
+  // Reconnect after this long without any inbound frame (0: never)
+  readonly staleTimeoutMs: number;
+  // null: use the global WebSocket (browser, or Node 22+)
+  readonly webSocketImpl: WebSocketConstructor | null;
 }
 
 export type MessageHandler = (data: Uint8Array) => void;
 export type StateHandler = (state: ConnectionState) => void;
 export type ErrorHandler = (error: Error) => void;
+export type LatencyHandler = (latency: LatencyStats) => void;
+export type ControlHandler = (text: string) => void;
 
 // ============================================================================
 // Default Configuration
@@ -72,9 +123,26 @@ function createDefaultConfig(url: string): WebSocketClientConfig {
     reconnect: true,
     maxReconnectAttempts: MAX_RECONNECT_ATTEMPTS,
     healthCheckIntervalMs: HEALTH_CHECK_INTERVAL_MS,
+    staleTimeoutMs: STALE_TIMEOUT_MS,
+    webSocketImpl: null,
   };
 }
 
+/** Monotonic clock for round trips; wall time where there is none. */
+function monotonicNow(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+function resolveWebSocketImpl(impl: WebSocketConstructor | null): WebSocketConstructor | null {
+  if (impl !== null) {
+    return impl;
+  }
+  if (typeof WebSocket !== 'undefined') {
+    return WebSocket;
+  }
+  return null;
+}
+
 // ============================================================================
 // WebSocket Client
 // ============================================================================
@@ -83,11 +151,17 @@ export interface WebSocketClient {
   connect(): void;
   disconnect(): void;
   send(data: Uint8Array): boolean;
+  /** Send a control text frame; not counted as a protocol message. */
+  sendControl(text: string): boolean;
   getStats(): ConnectionStats;
   getState(): ConnectionState;
   onMessage(handler: MessageHandler): void;
   onStateChange(handler: StateHandler): void;
   onError(handler: ErrorHandler): void;
+  /** Called after each heartbeat round trip. */
+  onLatency(handler: LatencyHandler): void;
+  /** Called with inbound text frames other than heartbeat pongs. */
+  onControl(handler: ControlHandler): void;
   destroy(): void;
 }
 
@@ -104,7 +178,7 @@ export function createWebSocketClient(
     ...configOverrides,
   };
 
-  let socket: WebSocket | null = null;
+  let socket: WebSocketLike | null = null;
   let state: ConnectionState = ConnectionState.DISCONNECTED;
   let reconnectAttempts = 0;
   let reconnectTimeoutId: ReturnType<typeof setTimeout> | null = null;
@@ -118,11 +192,22 @@ export function createWebSocketClient(
   let lastMessageTime = 0;
   let connectedAt: number | null = null;
   let latencyMs: number | null = null;
+  let staleDisconnects = 0;
+
+  // Heartbeat: the last inbound frame of any kind, and pings awaiting a
+  // pong, slotted by token (-1 = free)
+  let lastHeardAt = 0;
+  let nextPingToken = 0;
+  const pingTokens: number[] = new Array(MAX_OUTSTANDING_PINGS).fill(-1);
+  const pingSentAt: number[] = new Array(MAX_OUTSTANDING_PINGS).fill(0);
+  const latencyWindow = createLatencyWindow();
 
   // Handlers
   let messageHandler: MessageHandler | null = null;
   let stateHandler: StateHandler | null = null;
   let errorHandler: ErrorHandler | null = null;
+  let latencyHandler: LatencyHandler | null = null;
+  let controlHandler: ControlHandler | null = null;
 
   // --------------------------------------------------------------------------
   // State Management
@@ -169,16 +254,88 @@ export function createWebSocketClient(
     }
 
     healthCheckIntervalId = setInterval(() => {
-      if (socket === null || socket.readyState !== WebSocket.OPEN) {
+      if (socket === null || socket.readyState !== READY_STATE_OPEN) {
+        return;
+      }
+
+      // A half-open connection never closes by itself; silence gives it away
+      if (config.staleTimeoutMs > 0 && Date.now() - lastHeardAt > config.staleTimeoutMs) {
+        dropStaleConnection();
         return;
       }
 
-      // Note: Browser WebSocket doesn't expose ping/pong frames
-      // We rely on WebSocket's built-in keepalive
-      // For explicit latency, we'd need application-level ping
+      sendPing();
     }, config.healthCheckIntervalMs);
   }
 
+  function dropStaleConnection(): void {
+    if (socket === null) {
+      return;
+    }
+
+    // Don't wait for a close handshake the peer will never complete
+    const stale = socket;
+    stale.onopen = null;
+    stale.onclose = null;
+    stale.onerror = null;
+    stale.onmessage = null;
+    stale.close();
+
+    staleDisconnects += 1;
+    emitError(new Error(`No data for ${config.staleTimeoutMs} ms, reconnecting`));
+    handleClose();
+  }
+
+  // --------------------------------------------------------------------------
+  // Heartbeat
+  // --------------------------------------------------------------------------
+
+  function sendPing(): void {
+    if (socket === null || socket.readyState !== READY_STATE_OPEN) {
+      return;
+    }
+
+    const token = nextPingToken;
+    nextPingToken += 1;
+
+    try {
+      socket.send(encodePing(token));
+    } catch (err) {
+      return;
+    }
+
+    const slot = token % MAX_OUTSTANDING_PINGS;
+    pingTokens[slot] = token;
+    pingSentAt[slot] = monotonicNow();
+  }
+
+  function handleControlFrame(text: string): void {
+    const token = parsePong(text);
+    if (token === null) {
+      if (controlHandler !== null) {
+        controlHandler(text);
+      } else {
+        emitError(new Error('Unexpected text message received'));
+      }
+      return;
+    }
+
+    // Unknown or already answered: too late to measure
+    const slot = token % MAX_OUTSTANDING_PINGS;
+    if (pingTokens[slot] !== token) {
+      return;
+    }
+    pingTokens[slot] = -1;
+
+    latencyMs = monotonicNow() - pingSentAt[slot];
+    latencyWindow.record(latencyMs);
+
+    const latency = latencyWindow.getStats();
+    if (latencyHandler !== null && latency !== null) {
+      latencyHandler(latency);
+    }
+  }
+
   function scheduleReconnect(): void {
     if (!config.reconnect) {
       setState(ConnectionState.FAILED);
@@ -216,11 +373,18 @@ export function createWebSocketClient(
     setState(ConnectionState.CONNECTED);
     reconnectAttempts = 0;
     connectedAt = Date.now();
+    lastHeardAt = connectedAt;
+
+    // Latency is per connection
+    latencyMs = null;
+    latencyWindow.reset();
+    pingTokens.fill(-1);
 
     startHealthCheck();
+    sendPing();
   }
 
-  function handleClose(event: CloseEvent): void {
+  function handleClose(): void {
     clearTimers();
     socket = null;
     connectedAt = null;
@@ -234,11 +398,19 @@ export function createWebSocketClient(
     }
   }
 
-  function handleError(event: Event): void {
+  function handleError(): void {
     emitError(new Error('WebSocket error'));
   }
 
-  function handleMessage(event: MessageEvent): void {
+  function handleMessage(event: { readonly data: unknown }): void {
+    lastHeardAt = Date.now();
+
+    // Text frames carry heartbeats; protocol messages are always binary
+    if (typeof event.data === 'string') {
+      handleControlFrame(event.data);
+      return;
+    }
+
     // Handle binary data (ArrayBuffer)
     if (event.data instanceof ArrayBuffer) {
       const data = new Uint8Array(event.data);
@@ -254,7 +426,7 @@ export function createWebSocketClient(
     }
 
     // Handle Blob (convert to ArrayBuffer)
-    if (event.data instanceof Blob) {
+    if (typeof Blob !== 'undefined' && event.data instanceof Blob) {
       event.data.arrayBuffer().then((buffer) => {
         const data = new Uint8Array(buffer);
         bytesReceived += data.length;
@@ -264,14 +436,13 @@ export function createWebSocketClient(
         if (messageHandler !== null) {
           messageHandler(data);
         }
-      }).catch((err) => {
+      }).catch(() => {
         emitError(new Error('Failed to read Blob data'));
       });
       return;
     }
 
-    // Text messages not expected but handle gracefully
-    emitError(new Error('Unexpected text message received'));
+    emitError(new Error('Unexpected message type received'));
   }
 
   function connectInternal(): void {
@@ -279,10 +450,17 @@ export function createWebSocketClient(
       return;
     }
 
+    const WebSocketImpl = resolveWebSocketImpl(config.webSocketImpl);
+    if (WebSocketImpl === null) {
+      setState(ConnectionState.FAILED);
+      emitError(new Error('No WebSocket implementation available'));
+      return;
+    }
+
     setState(ConnectionState.CONNECTING);
 
     try {
-      socket = new WebSocket(config.url);
+      socket = new WebSocketImpl(config.url);
       socket.binaryType = 'arraybuffer';
 
       socket.onopen = handleOpen;
@@ -339,7 +517,7 @@ export function createWebSocketClient(
     if (socket === null) {
       return false;
     }
-    if (socket.readyState !== WebSocket.OPEN) {
+    if (socket.readyState !== READY_STATE_OPEN) {
       return false;
     }
 
@@ -356,6 +534,20 @@ export function createWebSocketClient(
     }
   }
 
+  function sendControl(text: string): boolean {
+    if (socket === null || socket.readyState !== READY_STATE_OPEN) {
+      return false;
+    }
+
+    try {
+      socket.send(text);
+      return true;
+    } catch (err) {
+      emitError(new Error('Failed to send control frame'));
+      return false;
+    }
+  }
+
   function getStats(): ConnectionStats {
     return {
       state,
@@ -367,6 +559,8 @@ export function createWebSocketClient(
       lastMessageTime,
       connectedAt,
       latencyMs,
+      latency: latencyWindow.getStats(),
+      staleDisconnects,
     };
   }
 
@@ -386,11 +580,21 @@ export function createWebSocketClient(
     errorHandler = handler;
   }
 
+  function onLatency(handler: LatencyHandler): void {
+    latencyHandler = handler;
+  }
+
+  function onControl(handler: ControlHandler): void {
+    controlHandler = handler;
+  }
+
   function destroy(): void {
     disconnect();
     messageHandler = null;
     stateHandler = null;
     errorHandler = null;
+    latencyHandler = null;
+    controlHandler = null;
   }
 
   // --------------------------------------------------------------------------
@@ -401,11 +605,14 @@ export function createWebSocketClient(
     connect,
     disconnect,
     send,
+    sendControl,
     getStats,
     getState,
     onMessage,
     onStateChange,
     onError,
+    onLatency,
+    onControl,
     destroy,
   };
 }
@@ -47,6 +47,7 @@ export interface EventHandlers {
   readonly onKeyUp?: (event: KeyboardEvent) => void;
   readonly onFocus?: (event: FocusEvent) => void;
   readonly onBlur?: (event: FocusEvent) => void;
+  readonly onWheel?: (event: WheelEvent) => void;
 }
 
 // ============================================================================
@@ -177,6 +178,11 @@ function applyHandlers(element: HTMLElement, handlers: EventHandlers): void {
   if (handlers.onBlur !== undefined) {
     element.addEventListener('blur', handlers.onBlur as EventListener);
   }
+
+  if (handlers.onWheel !== undefined) {
+    // Not passive, so handlers can stop the page from scrolling
+    element.addEventListener('wheel', handlers.onWheel as EventListener, { passive: false });
+  }
 }
 
 // ============================================================================
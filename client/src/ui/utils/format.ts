@@ -4,11 +4,21 @@
  * @module ui/utils/format
  */
 
+import {
+  DEFAULT_PRICE_SCALE,
+  MAX_PRICE_SCALE,
+  parsePriceUnits,
+  toPriceUnits,
+  formatPriceUnits,
+  fromPriceUnits,
+} from '../../protocol/price.js';
+import { type LatencyStats } from '../../transport/heartbeat.js';
+import { type FeedHealth, FeedState } from '../../transport/sequence.js';
+
 // ============================================================================
 // Constants
 // ============================================================================
 
-const PRICE_DECIMALS = 2;
 const QUANTITY_DECIMALS = 0;
 const PNL_DECIMALS = 2;
 const PERCENT_DECIMALS = 2;
@@ -21,20 +31,25 @@ const BILLION = 1000000000;
 // Price Formatting
 // ============================================================================
 
-export function formatPrice(price: number): string {
+/**
+ * Prices are shown with a fixed number of decimals per symbol: the
+ * instrument's tick decimals in the UI (`getPriceDecimals`), its price
+ * scale elsewhere (`getPriceScale`).
+ */
+export function formatPrice(price: number, decimals: number = DEFAULT_PRICE_SCALE): string {
   if (!Number.isFinite(price)) {
     return '-';
   }
 
-  return price.toFixed(PRICE_DECIMALS);
+  return formatPriceUnits(toPriceUnits(price, decimals), decimals);
 }
 
-export function formatPriceWithSign(price: number): string {
+export function formatPriceWithSign(price: number, decimals: number = DEFAULT_PRICE_SCALE): string {
   if (!Number.isFinite(price)) {
     return '-';
   }
 
-  const formatted = price.toFixed(PRICE_DECIMALS);
+  const formatted = formatPrice(price, decimals);
   if (price > 0) {
     return '+' + formatted;
   }
@@ -42,19 +57,19 @@ export function formatPriceWithSign(price: number): string {
   return formatted;
 }
 
-export function formatBidAsk(bid: number, ask: number): string {
-  const bidStr = formatPrice(bid);
-  const askStr = formatPrice(ask);
+export function formatBidAsk(bid: number, ask: number, decimals: number = DEFAULT_PRICE_SCALE): string {
+  const bidStr = formatPrice(bid, decimals);
+  const askStr = formatPrice(ask, decimals);
   return `${bidStr} / ${askStr}`;
 }
 
-export function formatSpread(bid: number, ask: number): string {
+export function formatSpread(bid: number, ask: number, decimals: number = DEFAULT_PRICE_SCALE): string {
   if (!Number.isFinite(bid) || !Number.isFinite(ask)) {
     return '-';
   }
 
-  const spread = ask - bid;
-  return spread.toFixed(PRICE_DECIMALS);
+  const spread = toPriceUnits(ask, decimals) - toPriceUnits(bid, decimals);
+  return formatPriceUnits(spread, decimals);
 }
 
 // ============================================================================
@@ -113,7 +128,7 @@ export function formatPnl(pnl: number): string {
     return '-';
   }
 
-  const formatted = Math.abs(pnl).toFixed(PNL_DECIMALS);
+  const formatted = formatPriceUnits(toPriceUnits(Math.abs(pnl), PNL_DECIMALS), PNL_DECIMALS);
 
   if (pnl > 0) {
     return '+$' + formatted;
@@ -212,6 +227,11 @@ export function formatOrderStatus(status: string): string {
   if (status === 'FILLED') return 'Filled';
   if (status === 'CANCELLED') return 'Cancelled';
   if (status === 'REJECTED') return 'Rejected';
+  if (status === 'TIMED_OUT') return 'Timed Out';
+  if (status === 'REPLACED') return 'Replaced';
+  if (status === 'RISK_REJECTED') return 'Risk Rejected';
+  if (status === 'QUEUED') return 'Queued';
+  if (status === 'DROPPED') return 'Dropped';
   return status;
 }
 
@@ -222,9 +242,21 @@ export function formatOrderStatusClass(status: string): string {
   if (status === 'FILLED') return 'status-filled';
   if (status === 'CANCELLED') return 'status-cancelled';
   if (status === 'REJECTED') return 'status-rejected';
+  if (status === 'TIMED_OUT') return 'status-timed-out';
+  if (status === 'REPLACED') return 'status-replaced';
+  if (status === 'RISK_REJECTED') return 'status-rejected';
+  if (status === 'QUEUED') return 'status-queued';
+  if (status === 'DROPPED') return 'status-dropped';
   return 'status-unknown';
 }
 
+export function formatTradingStatus(status: string): string {
+  if (status === 'TRADING') return 'Trading';
+  if (status === 'HALTED') return 'Halted';
+  if (status === 'CLOSED') return 'Closed';
+  return status;
+}
+
 export function formatConnectionStatus(status: string): string {
   if (status === 'DISCONNECTED') return 'Disconnected';
   if (status === 'CONNECTING') return 'Connecting...';
@@ -326,6 +358,47 @@ export function formatRelativeTime(timestamp: number): string {
   return `${days}d ago`;
 }
 
+// ============================================================================
+// Latency Formatting
+// ============================================================================
+
+export function formatLatencyMs(ms: number): string {
+  if (!Number.isFinite(ms) || ms < 0) {
+    return '-';
+  }
+  // Sub-millisecond round trips are common on a local relay
+  return ms < 10 ? ms.toFixed(1) : Math.round(ms).toString();
+}
+
+export function formatLatencyMetric(metric: string): string {
+  if (metric === 'ACK') return 'Ack';
+  if (metric === 'FIRST_FILL') return 'First fill';
+  if (metric === 'CANCEL_ACK') return 'Cancel ack';
+  return metric;
+}
+
+/** `p50 0.4 / p99 2.1 ms` over the heartbeat window, or `-` before the first pong. */
+export function formatLatency(stats: LatencyStats | null): string {
+  if (stats === null) {
+    return '-';
+  }
+  return `p50 ${formatLatencyMs(stats.p50Ms)} / p99 ${formatLatencyMs(stats.p99Ms)} ms`;
+}
+
+// ============================================================================
+// Feed Health Formatting
+// ============================================================================
+
+/** `Feed stale, 2 gaps` until a snapshot recovers it, then `Feed OK, 2 gaps`. */
+export function formatFeedHealth(health: FeedHealth | null): string {
+  if (health === null) {
+    return '-';
+  }
+  const state = health.state === FeedState.STALE ? 'stale' : 'OK';
+  const gaps = health.gaps === 1 ? '1 gap' : `${health.gaps} gaps`;
+  return `Feed ${state}, ${gaps}`;
+}
+
 // ============================================================================
 // Symbol Formatting
 // ============================================================================
@@ -353,22 +426,27 @@ export function formatCodec(codec: string): string {
 // Number Parsing
 // ============================================================================
 
-export function parsePrice(value: string): number | null {
+/**
+ * Parse a price typed at `scale` decimals. Digits beyond the scale are
+ * refused rather than rounded away.
+ */
+export function parsePrice(value: string, scale: number = MAX_PRICE_SCALE): number | null {
   const trimmed = value.trim();
   if (trimmed === '') {
     return null;
   }
 
-  const parsed = parseFloat(trimmed);
-  if (!Number.isFinite(parsed)) {
+  const units = parsePriceUnits(trimmed, scale);
+  const exact = parsePriceUnits(trimmed, MAX_PRICE_SCALE);
+  if (units === null || exact === null) {
     return null;
   }
 
-  if (parsed < 0) {
+  if (fromPriceUnits(units, scale) !== fromPriceUnits(exact, MAX_PRICE_SCALE)) {
     return null;
   }
 
-  return parsed;
+  return fromPriceUnits(units, scale);
 }
 
 export function parseQuantity(value: string): number | null {
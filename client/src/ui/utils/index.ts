@@ -62,6 +62,7 @@ export {
   formatSideClass,
   formatOrderStatus,
   formatOrderStatusClass,
+  formatTradingStatus,
   formatConnectionStatus,
   formatConnectionStatusClass,
   formatTime,
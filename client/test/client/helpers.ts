@@ -0,0 +1,62 @@
+/**
+ * Shared helpers for order manager tests: an order manager connected
+ * through a hand-driven socket, with the engine's side played in CSV.
+ */
+
+import {
+  createOrderManager,
+  type OrderManager,
+  type OrderManagerConfig,
+} from '../../src/client/index.js';
+import { createStore, type Store } from '../../src/store/index.js';
+import { FakeSocket } from '../transport/helpers.js';
+
+export { FakeSocket };
+
+export const USER_ID = 1001;
+
+export interface OrderManagerHarness {
+  readonly store: Store;
+  readonly manager: OrderManager;
+  readonly socket: FakeSocket;
+  /** Protocol lines the client sent, oldest first (heartbeats left out). */
+  sent(): string[];
+  /** Deliver engine output, one binary frame per line. */
+  reply(...lines: string[]): void;
+}
+
+/** Order manager on a connected orders socket, without market data. */
+export function createOrderManagerHarness(
+  config: Partial<OrderManagerConfig> = {}
+): OrderManagerHarness {
+  const store = createStore();
+  const manager = createOrderManager(store, {
+    host: 'relay',
+    marketDataPort: null,
+    webSocketImpl: FakeSocket,
+    ...config,
+  });
+  manager.connect();
+
+  const socket = FakeSocket.instances[FakeSocket.instances.length - 1];
+  socket.open();
+
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+
+  return {
+    store,
+    manager,
+    socket,
+    sent: () =>
+      socket.sent.flatMap((data) =>
+        typeof data === 'string' ? [] : [decoder.decode(data).trimEnd()]
+      ),
+    reply: (...lines) => {
+      for (const line of lines) {
+        const bytes = encoder.encode(line + '\n');
+        socket.receive(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length));
+      }
+    },
+  };
+}
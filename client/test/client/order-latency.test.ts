@@ -0,0 +1,119 @@
+/**
+ * Order latency: HDR-style histograms and the per-order bookkeeping that
+ * feeds them.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  createLatencyHistogram,
+  createOrderLatencyTracker,
+  LatencyMetric,
+} from '../../src/client/index.js';
+import { Codec } from '../../src/protocol/index.js';
+
+describe('latency histogram', () => {
+  it('keeps percentiles within a bucket of the exact value', () => {
+    const histogram = createLatencyHistogram();
+    for (let ms = 1; ms <= 1000; ms += 1) {
+      histogram.record(ms, 0);
+    }
+
+    const stats = histogram.snapshot(0);
+    expect(stats?.count).toBe(1000);
+    expect(stats?.minMs).toBe(1);
+    expect(stats?.maxMs).toBe(1000);
+    expect(stats?.meanMs).toBeCloseTo(500.5, 6);
+    const percentiles: [number | undefined, number][] = [
+      [stats?.p50Ms, 500],
+      [stats?.p90Ms, 900],
+      [stats?.p99Ms, 990],
+    ];
+    for (const [actual, exact] of percentiles) {
+      expect(Math.abs((actual ?? 0) - exact) / exact).toBeLessThan(1 / 16);
+    }
+  });
+
+  it('records sub-millisecond values exactly up to 32 microseconds', () => {
+    const histogram = createLatencyHistogram();
+    histogram.record(0.012, 0);
+
+    expect(histogram.snapshot(0)?.p50Ms).toBe(0.012);
+  });
+
+  it('forgets values older than two windows', () => {
+    const histogram = createLatencyHistogram(1000);
+    histogram.record(50, 0);
+
+    histogram.record(5, 1500);
+    // Both generations are still covered
+    expect(histogram.snapshot(1500)?.count).toBe(2);
+
+    expect(histogram.snapshot(2600)?.count).toBe(1);
+    expect(histogram.snapshot(2600)?.maxMs).toBe(5);
+    expect(histogram.snapshot(5000)).toBeNull();
+  });
+});
+
+describe('order latency tracker', () => {
+  function createClockedTracker(): {
+    tracker: ReturnType<typeof createOrderLatencyTracker>;
+    advance: (ms: number) => void;
+  } {
+    let now = 0;
+    const tracker = createOrderLatencyTracker({ now: () => now });
+    return { tracker, advance: (ms) => { now += ms; } };
+  }
+
+  it('measures ack, first fill and cancel-ack per symbol and codec', () => {
+    const { tracker, advance } = createClockedTracker();
+
+    tracker.orderSent(1, 1, 'AAPL', Codec.BINARY);
+    advance(2);
+    tracker.orderAcked(1, 1);
+    advance(8);
+    tracker.orderFilled(1, 1);
+    // Only the first fill counts
+    advance(100);
+    tracker.orderFilled(1, 1);
+
+    tracker.orderSent(1, 2, 'MSFT', Codec.CSV);
+    advance(4);
+    tracker.orderAcked(1, 2);
+    tracker.cancelSent(1, 2, 'MSFT', Codec.CSV);
+    advance(3);
+    tracker.cancelAcked(1, 2);
+
+    const stats = tracker.getStats();
+    expect(stats.bySymbol.map((s) => [s.metric, s.key, s.stats.count, s.stats.maxMs])).toEqual([
+      [LatencyMetric.ACK, 'AAPL', 1, 2],
+      [LatencyMetric.ACK, 'MSFT', 1, 4],
+      [LatencyMetric.CANCEL_ACK, 'MSFT', 1, 3],
+      [LatencyMetric.FIRST_FILL, 'AAPL', 1, 10],
+    ]);
+    expect(stats.byCodec.map((s) => [s.metric, s.key])).toEqual([
+      [LatencyMetric.ACK, Codec.BINARY],
+      [LatencyMetric.ACK, Codec.CSV],
+      [LatencyMetric.CANCEL_ACK, Codec.CSV],
+      [LatencyMetric.FIRST_FILL, Codec.BINARY],
+    ]);
+  });
+
+  it('counts rejects as responses and ignores orders it never saw sent', () => {
+    const { tracker, advance } = createClockedTracker();
+
+    tracker.orderSent(1, 1, 'AAPL', Codec.BINARY);
+    advance(5);
+    tracker.orderRejected(1, 1);
+    tracker.orderAcked(1, 1);
+    tracker.orderAcked(2, 1);
+    tracker.cancelAcked(1, 7);
+
+    const stats = tracker.getStats();
+    expect(stats.bySymbol).toHaveLength(1);
+    expect(stats.bySymbol[0].stats.count).toBe(1);
+
+    tracker.reset();
+    expect(tracker.getStats().bySymbol).toEqual([]);
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Order manager: how engine responses and local failures move orders
+ * through their lifecycle.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+import { AckOutcome, AmendOutcome, CancelOutcome } from '../../src/client/index.js';
+import { QueuePolicy } from '../../src/transport/index.js';
+import { Codec, Side } from '../../src/protocol/index.js';
+import { OrderStatus } from '../../src/store/index.js';
+import { FakeSocket, USER_ID, createOrderManagerHarness } from './helpers.js';
+
+afterEach(() => {
+  FakeSocket.instances = [];
+  vi.useRealTimers();
+});
+
+describe('amend', () => {
+  it('leaves the original unreplaced when the replacement is refused', async () => {
+    const { store, manager, sent, reply } = createOrderManagerHarness();
+    const handle = manager.placeOrder('AAPL', Side.BUY, 150, 100);
+    reply(`A,AAPL,${USER_ID},${handle.userOrderId}`);
+    await handle.acknowledged;
+
+    manager.setRiskLimits({ maxOrderQuantity: 100 });
+    const amend = manager.amendOrder(handle.userOrderId, 150, 200);
+    reply(`X,AAPL,${USER_ID},${handle.userOrderId}`);
+    const result = await amend;
+
+    expect(result.outcome).toBe(AmendOutcome.FAILED);
+    expect(result.replacement).toBeNull();
+    expect(result.error).toContain('exceeds max 100');
+    expect(store.getOrder(USER_ID, handle.userOrderId)).toMatchObject({
+      status: OrderStatus.CANCELLED,
+      replacedByOrderId: null,
+    });
+    // Only the original order and its cancel reached the engine
+    expect(sent()).toHaveLength(2);
+
+    manager.destroy();
+  });
+});
+
+describe('pending orders', () => {
+  it('are in the store as PENDING until the engine answers', async () => {
+    const { store, manager, reply } = createOrderManagerHarness();
+    const handle = manager.placeOrder('AAPL', Side.BUY, 150, 100);
+    expect(store.getOrder(USER_ID, handle.userOrderId)?.status).toBe(OrderStatus.PENDING);
+
+    // A fill that overtakes the ack is kept
+    reply(
+      `T,AAPL,${USER_ID},${handle.userOrderId},2,1,15000,40`,
+      `A,AAPL,${USER_ID},${handle.userOrderId}`
+    );
+    await handle.acknowledged;
+
+    expect(store.getOrder(USER_ID, handle.userOrderId)).toMatchObject({
+      status: OrderStatus.PARTIAL,
+      filledQuantity: 40,
+    });
+
+    manager.destroy();
+  });
+});
+
+describe('order handles', () => {
+  it('refuses an order it could not follow instead of sending it', async () => {
+    const { manager, sent, reply } = createOrderManagerHarness();
+    // Acked orders with a listener stay tracked
+    for (let i = 0; i < 200; i += 1) {
+      const handle = manager.placeOrder('AAPL', Side.BUY, 150, 1);
+      handle.onEvent(() => {});
+      reply(`A,AAPL,${USER_ID},${handle.userOrderId}`);
+    }
+    for (let i = 0; i < 56; i += 1) {
+      manager.placeOrder('AAPL', Side.BUY, 150, 1);
+    }
+
+    const refused = manager.placeOrder('AAPL', Side.BUY, 150, 1);
+
+    expect(await refused.acknowledged).toMatchObject({
+      outcome: AckOutcome.FAILED,
+      error: 'Too many tracked orders',
+    });
+    expect(sent()).toHaveLength(256);
+
+    manager.destroy();
+  });
+});
+
+describe('timed-out orders', () => {
+  function timeOut(): ReturnType<typeof createOrderManagerHarness> & { orderId: number } {
+    vi.useFakeTimers();
+    const harness = createOrderManagerHarness({ ackTimeoutMs: 1000 });
+    const result = harness.manager.submitOrder('AAPL', Side.BUY, 150, 100);
+    vi.advanceTimersByTime(1500);
+    expect(harness.store.getOrder(USER_ID, result.userOrderId)?.status)
+      .toBe(OrderStatus.TIMED_OUT);
+    return { ...harness, orderId: result.userOrderId };
+  }
+
+  it('are rejected by a late Reject', () => {
+    const { store, manager, reply, orderId } = timeOut();
+
+    reply(`R,AAPL,${USER_ID},${orderId},2`);
+
+    expect(store.getOrder(USER_ID, orderId)?.status).toBe(OrderStatus.REJECTED);
+    manager.destroy();
+  });
+
+  it('are rejected when the engine refuses their reconcile cancel', () => {
+    const { store, manager, sent, reply, orderId } = timeOut();
+
+    expect(manager.reconcileOrders()).toBe(1);
+    expect(sent()[sent().length - 1]).toBe(`C,AAPL,${USER_ID},${orderId}`);
+    reply(`R,AAPL,${USER_ID},${orderId},2`);
+
+    expect(store.getOrder(USER_ID, orderId)?.status).toBe(OrderStatus.REJECTED);
+    // Settled: the next reconnect has nothing to cancel
+    expect(manager.reconcileOrders()).toBe(0);
+    manager.destroy();
+  });
+});
+
+describe('cancel responses', () => {
+  it('keeps the order working when the engine refuses its cancel', async () => {
+    const { store, manager, reply } = createOrderManagerHarness();
+    const handle = manager.placeOrder('AAPL', Side.BUY, 150, 100);
+    reply(`A,AAPL,${USER_ID},${handle.userOrderId}`);
+    await handle.acknowledged;
+
+    const cancel = handle.cancel();
+    reply(`R,AAPL,${USER_ID},${handle.userOrderId},2`);
+
+    expect((await cancel).outcome).toBe(CancelOutcome.REJECTED);
+    expect(store.getOrder(USER_ID, handle.userOrderId)?.status).toBe(OrderStatus.ACKED);
+
+    manager.destroy();
+  });
+
+  it('does not reopen a filled order on a stray cancel-ack', async () => {
+    const { store, manager, reply } = createOrderManagerHarness();
+    const handle = manager.placeOrder('AAPL', Side.BUY, 150, 100);
+    reply(
+      `A,AAPL,${USER_ID},${handle.userOrderId}`,
+      `T,AAPL,${USER_ID},${handle.userOrderId},2,1,15000,100`,
+      `X,AAPL,${USER_ID},${handle.userOrderId}`
+    );
+    await handle.acknowledged;
+
+    expect(store.getOrder(USER_ID, handle.userOrderId)).toMatchObject({
+      status: OrderStatus.FILLED,
+      filledQuantity: 100,
+    });
+
+    manager.destroy();
+  });
+});
+
+describe('outbound queue', () => {
+  it('settles only the cancel when a queued cancel is dropped', async () => {
+    const { manager, socket } = createOrderManagerHarness({ queuePolicy: QueuePolicy.QUEUE });
+    const handle = manager.placeOrder('AAPL', Side.BUY, 150, 100);
+    socket.close();
+
+    const cancel = handle.cancel();
+    expect(manager.dropQueue()).toBe(1);
+
+    expect(await cancel).toMatchObject({
+      outcome: CancelOutcome.FAILED,
+      error: 'Cancel dropped from the outbound queue',
+    });
+    // The order went out before the disconnect; its ack is still to come
+    expect(await Promise.race([handle.acknowledged, Promise.resolve('waiting')])).toBe('waiting');
+
+    manager.destroy();
+  });
+});
+
+describe('flush', () => {
+  it('sends one FLUSH for the session and waits for every account', async () => {
+    const { store, manager, socket, reply } = createOrderManagerHarness({ codec: Codec.BINARY });
+    store.addAccount(2002);
+    const first = manager.placeOrder('AAPL', Side.BUY, 150, 10);
+    const second = manager.placeOrder('MSFT', Side.SELL, 300, 5, 2002);
+    reply(`A,AAPL,${USER_ID},${first.userOrderId}`, `A,MSFT,2002,${second.userOrderId}`);
+    await Promise.all([first.acknowledged, second.acknowledged]);
+
+    const flush = manager.flushAllOrders();
+    reply(`X,AAPL,${USER_ID},${first.userOrderId}`, `X,MSFT,2002,${second.userOrderId}`);
+
+    expect(await flush).toMatchObject({
+      success: true,
+      flushSent: true,
+      cancelled: 2,
+      fallbackCancels: 0,
+    });
+    // 'M' 'F'
+    const flushes = socket.sent.filter(
+      (data) => typeof data !== 'string' && data[0] === 0x4d && data[1] === 0x46
+    );
+    expect(flushes).toHaveLength(1);
+
+    manager.destroy();
+  });
+
+  it('reports a FLUSH queued while disconnected as not sent', async () => {
+    const { manager, socket, sent, reply } = createOrderManagerHarness({
+      codec: Codec.BINARY,
+      queuePolicy: QueuePolicy.QUEUE,
+      cancelTimeoutMs: 50,
+    });
+    const handle = manager.placeOrder('AAPL', Side.BUY, 150, 10);
+    reply(`A,AAPL,${USER_ID},${handle.userOrderId}`);
+    await handle.acknowledged;
+    socket.close();
+
+    expect(await manager.flushAllOrders()).toMatchObject({
+      success: false,
+      flushSent: false,
+      flushQueued: true,
+      fallbackCancels: 0,
+      remaining: 1,
+      error: 'FLUSH queued until reconnect; 1 order(s) still working',
+    });
+    // Only the order itself went out
+    expect(sent()).toHaveLength(1);
+
+    manager.destroy();
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Pre-trade risk checks: each limit on its own, and the exposure the
+ * order manager reports for orders the engine has not acked yet.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+import {
+  createRiskChecker,
+  RiskRejectReason,
+  type PendingExposure,
+} from '../../src/client/index.js';
+import { Side } from '../../src/protocol/index.js';
+import { QueuePolicy } from '../../src/transport/index.js';
+import { createStore, OrderStatus, type Order } from '../../src/store/index.js';
+import { FakeSocket, USER_ID, createOrderManagerHarness } from './helpers.js';
+
+const NO_PENDING: PendingExposure = { count: 0, sameSideQuantity: 0 };
+
+function workingOrder(userOrderId: number, side: Side, quantity: number): Order {
+  return {
+    symbol: 'AAPL',
+    userId: USER_ID,
+    userOrderId,
+    side,
+    price: 150,
+    quantity,
+    filledQuantity: 0,
+    status: OrderStatus.ACKED,
+    createdAt: 1000,
+    updatedAt: 1000,
+    replacesOrderId: null,
+    replacedByOrderId: null,
+    clientOrderId: null,
+  };
+}
+
+afterEach(() => {
+  FakeSocket.instances = [];
+  vi.useRealTimers();
+});
+
+describe('risk limits', () => {
+  it('limits order quantity and notional', () => {
+    const checker = createRiskChecker(createStore(), {
+      maxOrderQuantity: 100,
+      maxOrderNotional: 10000,
+    });
+
+    expect(checker.check('AAPL', Side.BUY, 50, 101, NO_PENDING).reason)
+      .toBe(RiskRejectReason.MAX_ORDER_QUANTITY);
+    expect(checker.check('AAPL', Side.BUY, 150, 100, NO_PENDING).reason)
+      .toBe(RiskRejectReason.MAX_ORDER_NOTIONAL);
+    expect(checker.check('AAPL', Side.BUY, 100, 100, NO_PENDING).passed).toBe(true);
+  });
+
+  it('collars prices against the far touch', () => {
+    const store = createStore();
+    store.updateMarketData({
+      symbol: 'AAPL',
+      bidPrice: 99,
+      askPrice: 100,
+      bidQuantity: 10,
+      askQuantity: 10,
+      updatedAt: 0,
+    });
+    const checker = createRiskChecker(store, { priceCollar: 0.05 });
+
+    expect(checker.check('AAPL', Side.BUY, 105, 1, NO_PENDING).passed).toBe(true);
+    expect(checker.check('AAPL', Side.BUY, 105.01, 1, NO_PENDING).reason)
+      .toBe(RiskRejectReason.PRICE_COLLAR);
+    expect(checker.check('AAPL', Side.SELL, 94.04, 1, NO_PENDING).reason)
+      .toBe(RiskRejectReason.PRICE_COLLAR);
+    // No market for the symbol: nothing to measure against
+    expect(checker.check('MSFT', Side.BUY, 1000, 1, NO_PENDING).passed).toBe(true);
+  });
+
+  it('counts working and unacked orders against the open order limit', () => {
+    const store = createStore();
+    store.addOrder(workingOrder(1, Side.BUY, 10));
+    const checker = createRiskChecker(store, { maxOpenOrders: 3 });
+
+    expect(checker.check('AAPL', Side.BUY, 150, 1, { count: 1, sameSideQuantity: 0 }).passed)
+      .toBe(true);
+    expect(checker.check('AAPL', Side.BUY, 150, 1, { count: 2, sameSideQuantity: 0 }).reason)
+      .toBe(RiskRejectReason.MAX_OPEN_ORDERS);
+  });
+
+  it('projects the position with same-side working and unacked orders', () => {
+    const store = createStore();
+    store.updatePosition('AAPL', Side.BUY, 150, 40, USER_ID);
+    store.addOrder(workingOrder(1, Side.BUY, 30));
+    // The other side does not add to a long position
+    store.addOrder(workingOrder(2, Side.SELL, 500));
+    const checker = createRiskChecker(store, { maxPosition: 100 });
+
+    expect(checker.check('AAPL', Side.BUY, 150, 30, NO_PENDING, USER_ID).passed).toBe(true);
+    expect(
+      checker.check('AAPL', Side.BUY, 150, 30, { count: 1, sameSideQuantity: 1 }, USER_ID).reason
+    ).toBe(RiskRejectReason.MAX_POSITION);
+  });
+
+  it('throttles orders per second', () => {
+    vi.useFakeTimers();
+    const checker = createRiskChecker(createStore(), { maxOrdersPerSecond: 2 });
+    checker.recordOrder();
+    checker.recordOrder();
+
+    expect(checker.check('AAPL', Side.BUY, 150, 1, NO_PENDING).reason)
+      .toBe(RiskRejectReason.RATE_LIMIT);
+
+    vi.advanceTimersByTime(1001);
+    expect(checker.check('AAPL', Side.BUY, 150, 1, NO_PENDING).passed).toBe(true);
+  });
+});
+
+describe('order manager exposure', () => {
+  it('counts orders sent but not yet acked', () => {
+    const { manager } = createOrderManagerHarness({ risk: { maxPosition: 100 } });
+
+    expect(manager.submitOrder('AAPL', Side.BUY, 150, 60).success).toBe(true);
+    const second = manager.submitOrder('AAPL', Side.BUY, 150, 60);
+
+    expect(second.success).toBe(false);
+    expect(second.error).toContain('projected position 120');
+    // The sell side is unaffected
+    expect(manager.submitOrder('AAPL', Side.SELL, 150, 60).success).toBe(true);
+
+    manager.destroy();
+  });
+
+  it('counts orders queued while disconnected', () => {
+    const { manager, socket } = createOrderManagerHarness({
+      queuePolicy: QueuePolicy.QUEUE,
+      risk: { maxPosition: 100, maxOpenOrders: 2 },
+    });
+    socket.close();
+
+    expect(manager.submitOrder('AAPL', Side.SELL, 150, 60).success).toBe(true);
+    expect(manager.submitOrder('AAPL', Side.SELL, 150, 60).error)
+      .toContain('projected position -120');
+    expect(manager.submitOrder('MSFT', Side.BUY, 300, 1).success).toBe(true);
+    expect(manager.submitOrder('IBM', Side.BUY, 100, 1).error).toContain('2 open orders');
+
+    manager.destroy();
+  });
+});
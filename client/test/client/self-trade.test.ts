@@ -0,0 +1,111 @@
+/**
+ * Self-trade prevention: what each policy sends when a new order would
+ * cross one of the account's own resting orders.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+
+import { SelfTradePolicy, type OrderManager } from '../../src/client/index.js';
+import { Side } from '../../src/protocol/index.js';
+import { QueuePolicy } from '../../src/transport/index.js';
+import { OrderStatus } from '../../src/store/index.js';
+import {
+  FakeSocket,
+  USER_ID,
+  createOrderManagerHarness,
+  type OrderManagerHarness,
+} from './helpers.js';
+
+/** Harness with an acked resting sell at 150. */
+async function withRestingSell(
+  policy: SelfTradePolicy,
+  queuePolicy: QueuePolicy = QueuePolicy.QUEUE
+): Promise<OrderManagerHarness & { restingId: number }> {
+  const harness = createOrderManagerHarness({ selfTradePolicy: policy, queuePolicy });
+  const resting = harness.manager.placeOrder('AAPL', Side.SELL, 150, 100);
+  harness.reply(`A,AAPL,${USER_ID},${resting.userOrderId}`);
+  await resting.acknowledged;
+  return { ...harness, restingId: resting.userOrderId };
+}
+
+function buyCrossing(manager: OrderManager): ReturnType<OrderManager['submitOrder']> {
+  return manager.submitOrder('AAPL', Side.BUY, 150.5, 10);
+}
+
+afterEach(() => {
+  FakeSocket.instances = [];
+});
+
+describe('self-trade policy', () => {
+  it('ALLOW sends the crossing order as is', async () => {
+    const { manager, sent } = await withRestingSell(SelfTradePolicy.ALLOW);
+
+    expect(buyCrossing(manager).success).toBe(true);
+    expect(sent()).toHaveLength(2);
+
+    manager.destroy();
+  });
+
+  it('REJECT_NEW blocks the new order and leaves the resting one', async () => {
+    const { store, manager, sent } = await withRestingSell(SelfTradePolicy.REJECT_NEW);
+
+    const result = buyCrossing(manager);
+
+    expect(result.error).toContain('would cross own order');
+    expect(store.getOrder(USER_ID, result.userOrderId)?.status).toBe(OrderStatus.RISK_REJECTED);
+    expect(sent()).toHaveLength(1);
+
+    manager.destroy();
+  });
+
+  it('REJECT_NEW lets orders through that do not cross', async () => {
+    const { manager } = await withRestingSell(SelfTradePolicy.REJECT_NEW);
+
+    expect(manager.submitOrder('AAPL', Side.BUY, 149.5, 10).success).toBe(true);
+    expect(manager.submitOrder('MSFT', Side.BUY, 150.5, 10).success).toBe(true);
+
+    manager.destroy();
+  });
+
+  it('CANCEL_RESTING cancels the resting order before sending the new one', async () => {
+    const { manager, sent, restingId } = await withRestingSell(SelfTradePolicy.CANCEL_RESTING);
+
+    const result = buyCrossing(manager);
+
+    expect(result.success).toBe(true);
+    expect(sent().slice(1)).toEqual([
+      `C,AAPL,${USER_ID},${restingId}`,
+      `N,AAPL,${USER_ID},${result.userOrderId},B,150.5,10`,
+    ]);
+
+    manager.destroy();
+  });
+
+  it('CANCEL_RESTING cancels nothing when the new order cannot be sent', async () => {
+    const { store, manager, socket } = await withRestingSell(
+      SelfTradePolicy.CANCEL_RESTING,
+      QueuePolicy.QUEUE_CANCELS_ONLY
+    );
+    socket.close();
+
+    const result = buyCrossing(manager);
+
+    expect(result).toMatchObject({ success: false, error: 'Not connected' });
+    // The cancel would have been queued; nothing was
+    expect(store.getConnection().queuedMessages).toBe(0);
+
+    manager.destroy();
+  });
+
+  it('CANCEL_BOTH cancels the resting order and blocks the new one', async () => {
+    const { store, manager, sent, restingId } = await withRestingSell(SelfTradePolicy.CANCEL_BOTH);
+
+    const result = buyCrossing(manager);
+
+    expect(result.success).toBe(false);
+    expect(store.getOrder(USER_ID, result.userOrderId)?.status).toBe(OrderStatus.RISK_REJECTED);
+    expect(sent().slice(1)).toEqual([`C,AAPL,${USER_ID},${restingId}`]);
+
+    manager.destroy();
+  });
+});
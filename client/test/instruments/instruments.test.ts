@@ -0,0 +1,256 @@
+/**
+ * Instrument registry validation and the JSON/CSV loaders.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+
+import {
+  createInstrumentRegistry,
+  parseInstruments,
+  fetchInstruments,
+  InstrumentRejectReason,
+  TradingStatus,
+  type Instrument,
+} from '../../src/instruments/index.js';
+import { getPriceScale, clearPriceScales } from '../../src/protocol/index.js';
+
+const AAPL: Instrument = {
+  symbol: 'AAPL',
+  description: 'Apple Inc.',
+  tickSize: 0.01,
+  lotSize: 1,
+  priceScale: 2,
+  minQuantity: 1,
+  maxQuantity: 100000,
+  status: TradingStatus.TRADING,
+};
+
+const EURUSD: Instrument = {
+  symbol: 'EURUSD',
+  description: 'Euro / US Dollar',
+  tickSize: 0.0005,
+  lotSize: 1000,
+  priceScale: 4,
+  minQuantity: 1000,
+  maxQuantity: 10000000,
+  status: TradingStatus.TRADING,
+};
+
+afterEach(() => {
+  clearPriceScales();
+});
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+describe('instrument registry', () => {
+  it('accepts anything while empty', () => {
+    const registry = createInstrumentRegistry();
+
+    expect(registry.checkOrder('ANY', 1.23456, 7).passed).toBe(true);
+  });
+
+  it('sets price scales from the reference data', () => {
+    createInstrumentRegistry([AAPL, EURUSD]);
+
+    expect(getPriceScale('EURUSD')).toBe(4);
+    expect(getPriceScale('AAPL')).toBe(2);
+  });
+
+  it('skips invalid definitions', () => {
+    const registry = createInstrumentRegistry();
+    const count = registry.load([
+      AAPL,
+      { ...EURUSD, tickSize: 0.00005 },
+      { ...AAPL, symbol: 'BAD', lotSize: 0 },
+      { ...AAPL, symbol: 'LIMITS', minQuantity: 10, maxQuantity: 5 },
+    ]);
+
+    expect(count).toBe(1);
+    expect(registry.getAll().map((i) => i.symbol)).toEqual(['AAPL']);
+  });
+
+  it.each([
+    ['unknown symbol', 'IBM', 100, 1, InstrumentRejectReason.UNKNOWN_SYMBOL],
+    ['off-tick price', 'EURUSD', 1.0847, 1000, InstrumentRejectReason.OFF_TICK],
+    ['price finer than the scale', 'AAPL', 150.255, 1, InstrumentRejectReason.OFF_TICK],
+    ['odd lot', 'EURUSD', 1.0845, 1500, InstrumentRejectReason.OFF_LOT],
+    ['too small', 'EURUSD', 1.0845, 0, InstrumentRejectReason.BELOW_MIN_QUANTITY],
+    ['too large', 'AAPL', 150, 100001, InstrumentRejectReason.ABOVE_MAX_QUANTITY],
+  ])('rejects %s', (_name, symbol, price, quantity, reason) => {
+    const registry = createInstrumentRegistry([AAPL, EURUSD]);
+    const result = registry.checkOrder(symbol, price, quantity);
+
+    expect(result.passed).toBe(false);
+    expect(result.reason).toBe(reason);
+  });
+
+  it('accepts on-tick, on-lot orders', () => {
+    const registry = createInstrumentRegistry([AAPL, EURUSD]);
+
+    expect(registry.checkOrder('EURUSD', 1.0845, 3000).passed).toBe(true);
+    expect(registry.checkOrder('AAPL', 150.25, 1).passed).toBe(true);
+  });
+
+  it('refuses orders once trading is halted', () => {
+    const registry = createInstrumentRegistry([AAPL]);
+    let changes = 0;
+    registry.onChange(() => {
+      changes += 1;
+    });
+
+    expect(registry.setStatus('AAPL', TradingStatus.HALTED)).toBe(true);
+
+    expect(changes).toBe(1);
+    expect(registry.checkOrder('AAPL', 150, 1)).toEqual({
+      passed: false,
+      reason: InstrumentRejectReason.NOT_TRADING,
+      error: 'AAPL is halted',
+    });
+  });
+});
+
+// ============================================================================
+// Tick Grid
+// ============================================================================
+
+describe('tick grid', () => {
+  const NICKEL: Instrument = { ...AAPL, symbol: 'NICKEL', tickSize: 0.05 };
+  const HALF: Instrument = { ...AAPL, symbol: 'HALF', tickSize: 0.5 };
+
+  it('shows as many decimals as the tick needs', () => {
+    const registry = createInstrumentRegistry([AAPL, EURUSD, NICKEL, HALF]);
+
+    expect(registry.getPriceDecimals('AAPL')).toBe(2);
+    expect(registry.getPriceDecimals('EURUSD')).toBe(4);
+    expect(registry.getPriceDecimals('NICKEL')).toBe(2);
+    expect(registry.getPriceDecimals('HALF')).toBe(1);
+  });
+
+  it('falls back to one price unit without reference data', () => {
+    const registry = createInstrumentRegistry();
+
+    expect(registry.getTickSize('IBM')).toBe(0.01);
+    expect(registry.getPriceDecimals('IBM')).toBe(2);
+    expect(registry.isOnTick('IBM', 99.99)).toBe(true);
+    expect(registry.isOnTick('IBM', 99.995)).toBe(false);
+  });
+
+  it('detects off-tick prices', () => {
+    const registry = createInstrumentRegistry([EURUSD, NICKEL]);
+
+    expect(registry.isOnTick('NICKEL', 10.05)).toBe(true);
+    expect(registry.isOnTick('NICKEL', 10.07)).toBe(false);
+    expect(registry.isOnTick('EURUSD', 1.0845)).toBe(true);
+    expect(registry.isOnTick('EURUSD', 1.0847)).toBe(false);
+  });
+
+  it('steps by whole ticks without float drift', () => {
+    const registry = createInstrumentRegistry([EURUSD, NICKEL]);
+
+    let price = 1.0845;
+    for (let i = 0; i < 100; i += 1) {
+      price = registry.stepPrice('EURUSD', price, 1);
+    }
+    expect(price).toBe(1.1345);
+
+    expect(registry.stepPrice('NICKEL', 10.05, -2)).toBe(9.95);
+    expect(registry.stepPrice('NICKEL', 10.05, 10)).toBe(10.55);
+  });
+
+  it('snaps off-tick prices and never steps below one tick', () => {
+    const registry = createInstrumentRegistry([NICKEL]);
+
+    expect(registry.stepPrice('NICKEL', 10.07, 0)).toBe(10.05);
+    expect(registry.stepPrice('NICKEL', 10.08, 0)).toBe(10.1);
+    expect(registry.stepPrice('NICKEL', 0.05, -5)).toBe(0.05);
+    expect(registry.stepPrice('NICKEL', 0, 1)).toBe(0.05);
+  });
+});
+
+// ============================================================================
+// Loaders
+// ============================================================================
+
+describe('instrument loaders', () => {
+  it('parses a JSON array and fills in defaults', () => {
+    const result = parseInstruments('[{"symbol":"EURUSD","tickSize":0.0001,"lotSize":1000}]');
+
+    expect(result.success).toBe(true);
+    expect(result.instruments).toEqual([{
+      symbol: 'EURUSD',
+      description: '',
+      tickSize: 0.0001,
+      lotSize: 1000,
+      priceScale: 4,
+      minQuantity: 1000,
+      maxQuantity: 1000000,
+      status: TradingStatus.TRADING,
+    }]);
+  });
+
+  it('parses JSON wrapped in an object', () => {
+    const result = parseInstruments('{"instruments":[{"symbol":"AAPL"}]}');
+
+    expect(result.instruments[0]).toMatchObject({ symbol: 'AAPL', tickSize: 0.01, priceScale: 2 });
+  });
+
+  it('parses CSV with a header row', () => {
+    const result = parseInstruments(
+      'symbol,description,tickSize,lotSize,priceScale,minQuantity,maxQuantity,status\n' +
+      '# comment lines are ignored\n' +
+      'AAPL,Apple Inc.,0.01,1,2,1,100000,trading\n' +
+      'EURUSD,Euro / US Dollar,0.0005,1000,4,1000,10000000,HALTED\n'
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.instruments).toEqual([AAPL, { ...EURUSD, status: TradingStatus.HALTED }]);
+  });
+
+  it('reports bad rows and keeps the good ones', () => {
+    const result = parseInstruments(
+      'symbol,tickSize,status\nAAPL,0.01,\nAAPL,0.01,\nIBM,abc,\nMSFT,0.01,SUSPENDED\n'
+    );
+
+    expect(result.instruments.map((i) => i.symbol)).toEqual(['AAPL']);
+    expect(result.errors).toHaveLength(3);
+    expect(result.errors[0]).toContain('duplicate symbol AAPL');
+  });
+
+  it.each([
+    ['invalid JSON', '[{'],
+    ['a JSON object without instruments', '{"symbols":[]}'],
+    ['CSV without a symbol column', 'ticker,tickSize\nAAPL,0.01'],
+    ['an empty file', ''],
+  ])('fails on %s', (_name, text) => {
+    const result = parseInstruments(text);
+
+    expect(result.success).toBe(false);
+    expect(result.errors.length).toBeGreaterThan(0);
+  });
+
+  it('fetches using the content type to pick the format', async () => {
+    const fetchImpl = (async () => new Response('symbol\nAAPL\n', {
+      headers: { 'Content-Type': 'text/csv' },
+    })) as typeof fetch;
+
+    const result = await fetchInstruments('http://relay/instruments', fetchImpl);
+
+    expect(result.instruments.map((i) => i.symbol)).toEqual(['AAPL']);
+  });
+
+  it('reports HTTP and network failures', async () => {
+    const notFound = (async () => new Response('', { status: 404 })) as typeof fetch;
+    const offline = (async () => {
+      throw new Error('connection refused');
+    }) as typeof fetch;
+
+    expect((await fetchInstruments('http://relay/instruments', notFound)).errors).toEqual([
+      'http://relay/instruments: HTTP 404',
+    ]);
+    expect((await fetchInstruments('http://relay/instruments', offline)).errors).toEqual([
+      'http://relay/instruments: connection refused',
+    ]);
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Golden byte vectors for every binary message type.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  binaryEncode,
+  binaryDecode,
+  MessageType,
+  OutputMessageType,
+  Side,
+  AckStatus,
+  RejectReason,
+} from '../../src/protocol/index.js';
+import { WIRE_SIZES } from '../../src/protocol/binary-codec.js';
+import { hex, toHex } from './helpers.js';
+
+// ============================================================================
+// Golden Vectors
+// ============================================================================
+
+// AAPL = 41 41 50 4c, NUL-padded to 8 bytes; prices are cents, big-endian
+const NEW_ORDER = hex('4d4e 00000001 4141504c00000000 00003ab1 00000064 42 0000002a');
+const CANCEL = hex('4d43 00000001 4141504c00000000 0000002a');
+const FLUSH = hex('4d46');
+const ACK = hex('4d41 49424d0000000000 00000007 000003e9');
+const CANCEL_ACK = hex('4d58 49424d0000000000 00000007 000003e9');
+const TRADE = hex(
+  '4d54 4d53465400000000 00000001 0000000a 00000002 00000014 00007562 00000019'
+);
+const TOP_OF_BOOK_ASK = hex('4d42 4141504c00000000 53 00003ab6 000001f4 00');
+const TOP_OF_BOOK_BID = hex('4d42 4141504c00000000 42 00003ab1 00000064 00');
+const REJECT = hex('4d52 4141504c00000000 00000001 0000002a 05');
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+describe('binary encode', () => {
+  it('encodes New Order as 27 bytes', () => {
+    const result = binaryEncode({
+      type: MessageType.NEW_ORDER,
+      symbol: 'AAPL',
+      userId: 1,
+      userOrderId: 42,
+      side: Side.BUY,
+      price: 150.25,
+      quantity: 100,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data.length).toBe(WIRE_SIZES.NEW_ORDER);
+    expect(toHex(result.data)).toBe(toHex(NEW_ORDER));
+  });
+
+  it('encodes the sell side as S', () => {
+    const result = binaryEncode({
+      type: MessageType.NEW_ORDER,
+      symbol: 'AAPL',
+      userId: 1,
+      userOrderId: 42,
+      side: Side.SELL,
+      price: 150.25,
+      quantity: 100,
+    });
+
+    expect(result.data[22]).toBe(0x53);
+  });
+
+  it('encodes Cancel as 18 bytes', () => {
+    const result = binaryEncode({
+      type: MessageType.CANCEL,
+      symbol: 'AAPL',
+      userId: 1,
+      userOrderId: 42,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data.length).toBe(WIRE_SIZES.CANCEL);
+    expect(toHex(result.data)).toBe(toHex(CANCEL));
+  });
+
+  it('encodes Flush as 2 bytes', () => {
+    const result = binaryEncode({ type: MessageType.FLUSH, userId: 1 });
+
+    expect(result.success).toBe(true);
+    expect(toHex(result.data)).toBe(toHex(FLUSH));
+  });
+
+  it('rounds prices to whole cents', () => {
+    const result = binaryEncode({
+      type: MessageType.NEW_ORDER,
+      symbol: 'AAPL',
+      userId: 1,
+      userOrderId: 42,
+      side: Side.BUY,
+      price: 0.1 + 0.2, // 0.30000000000000004
+      quantity: 1,
+    });
+
+    expect(toHex(result.data.subarray(14, 18))).toBe('0000001e');
+  });
+
+  it.each([
+    ['symbol too long', { symbol: 'ABCDEFGHI' }, 'Invalid symbol'],
+    ['empty symbol', { symbol: '' }, 'Invalid symbol'],
+    ['negative user ID', { userId: -1 }, 'Invalid user ID'],
+    ['fractional order ID', { userOrderId: 1.5 }, 'Invalid order ID'],
+    ['bad side', { side: 3 }, 'Invalid side'],
+    ['negative price', { price: -1 }, 'Invalid price'],
+    ['price beyond u32 cents', { price: 50_000_000 }, 'Invalid price'],
+    ['zero quantity', { quantity: 0 }, 'Invalid quantity'],
+  ])('rejects New Order with %s', (_name, override, error) => {
+    const result = binaryEncode({
+      type: MessageType.NEW_ORDER,
+      symbol: 'AAPL',
+      userId: 1,
+      userOrderId: 42,
+      side: Side.BUY,
+      price: 150.25,
+      quantity: 100,
+      ...override,
+    } as never);
+
+    expect(result.success).toBe(false);
+    expect(result.data.length).toBe(0);
+    expect(result.error).toBe(error);
+  });
+});
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+describe('binary decode', () => {
+  it('decodes Ack', () => {
+    const result = binaryDecode(ACK);
+
+    expect(result).toEqual({
+      success: true,
+      message: {
+        type: OutputMessageType.ACK,
+        symbol: 'IBM',
+        userId: 7,
+        userOrderId: 1001,
+        status: AckStatus.ACCEPTED,
+      },
+      bytesConsumed: WIRE_SIZES.ACK,
+      error: null,
+    });
+  });
+
+  it('decodes Cancel Ack', () => {
+    const result = binaryDecode(CANCEL_ACK);
+
+    expect(result.success).toBe(true);
+    expect(result.bytesConsumed).toBe(WIRE_SIZES.CANCEL_ACK);
+    expect(result.message).toEqual({
+      type: OutputMessageType.CANCEL_ACK,
+      symbol: 'IBM',
+      userId: 7,
+      userOrderId: 1001,
+    });
+  });
+
+  it('decodes Trade', () => {
+    const result = binaryDecode(TRADE);
+
+    expect(result.success).toBe(true);
+    expect(result.bytesConsumed).toBe(WIRE_SIZES.TRADE);
+    expect(result.message).toEqual({
+      type: OutputMessageType.TRADE,
+      symbol: 'MSFT',
+      price: 300.5,
+      quantity: 25,
+      buyUserId: 1,
+      buyOrderId: 10,
+      sellUserId: 2,
+      sellOrderId: 20,
+    });
+  });
+
+  it('decodes an ask-side Top of Book', () => {
+    const result = binaryDecode(TOP_OF_BOOK_ASK);
+
+    expect(result.success).toBe(true);
+    expect(result.bytesConsumed).toBe(WIRE_SIZES.TOP_OF_BOOK);
+    expect(result.message).toEqual({
+      type: OutputMessageType.TOP_OF_BOOK,
+      symbol: 'AAPL',
+      side: Side.SELL,
+      bidPrice: 0,
+      askPrice: 150.3,
+      bidQuantity: 0,
+      askQuantity: 500,
+    });
+  });
+
+  it('decodes a bid-side Top of Book', () => {
+    const result = binaryDecode(TOP_OF_BOOK_BID);
+
+    expect(result.message).toEqual({
+      type: OutputMessageType.TOP_OF_BOOK,
+      symbol: 'AAPL',
+      side: Side.BUY,
+      bidPrice: 150.25,
+      askPrice: 0,
+      bidQuantity: 100,
+      askQuantity: 0,
+    });
+  });
+
+  it('decodes Reject', () => {
+    const result = binaryDecode(REJECT);
+
+    expect(result.success).toBe(true);
+    expect(result.bytesConsumed).toBe(WIRE_SIZES.REJECT);
+    expect(result.message).toEqual({
+      type: OutputMessageType.REJECT,
+      symbol: 'AAPL',
+      userId: 1,
+      userOrderId: 42,
+      reason: RejectReason.DUPLICATE_ORDER_ID,
+    });
+  });
+
+  it('reads a full 8-character symbol', () => {
+    const data = Uint8Array.from(ACK);
+    data.set([0x41, 0x42, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48], 2);
+
+    expect(binaryDecode(data).message?.symbol).toBe('ABCDEFGH');
+  });
+
+  it('rejects an invalid magic byte', () => {
+    const data = Uint8Array.from(ACK);
+    data[0] = 0x4e;
+
+    expect(binaryDecode(data)).toEqual({
+      success: false,
+      message: null,
+      bytesConsumed: 0,
+      error: 'Invalid magic byte',
+    });
+  });
+
+  it('rejects an unknown message type', () => {
+    const result = binaryDecode(hex('4d5a 00000000'));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Unknown message type: 0x5a');
+  });
+
+  it('rejects a Top of Book with an invalid side byte', () => {
+    const data = Uint8Array.from(TOP_OF_BOOK_ASK);
+    data[10] = 0x58;
+
+    expect(binaryDecode(data).error).toBe('Invalid side');
+  });
+
+  it('ignores input messages arriving on the output path', () => {
+    expect(binaryDecode(NEW_ORDER).success).toBe(false);
+    expect(binaryDecode(FLUSH).success).toBe(false);
+  });
+});
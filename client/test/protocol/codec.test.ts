@@ -0,0 +1,281 @@
+/**
+ * Codec router: detection, batch decoding and round-trip properties
+ * against the reference engine-side codec in helpers.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  encode,
+  decode,
+  decodeWithCodec,
+  decodeBatch,
+  detectCodec,
+  Codec,
+  MessageType,
+  OutputMessageType,
+  Side,
+  AckStatus,
+  RejectReason,
+  type NewOrderInput,
+  type CancelInput,
+  type OutputMessage,
+} from '../../src/protocol/index.js';
+import {
+  ascii,
+  createRandom,
+  hex,
+  referenceDecodeBinaryInput,
+  referenceDecodeCsvInput,
+  referenceEncodeBinaryOutput,
+  referenceEncodeCsvOutput,
+  type Random,
+} from './helpers.js';
+
+const ITERATIONS = 500;
+
+// ============================================================================
+// Generators
+// ============================================================================
+
+function randomNewOrder(random: Random): NewOrderInput {
+  return {
+    type: MessageType.NEW_ORDER,
+    symbol: random.symbol(),
+    userId: random.int(0, 0xffffffff),
+    userOrderId: random.int(0, 0xffffffff),
+    side: random.pick([Side.BUY, Side.SELL]),
+    // Whole cents that fit the u32 price field
+    price: random.int(1, 100_000_000) / 100,
+    quantity: random.int(1, 0xffffffff),
+  };
+}
+
+function randomCancel(random: Random): CancelInput {
+  return {
+    type: MessageType.CANCEL,
+    symbol: random.symbol(),
+    userId: random.int(0, 0xffffffff),
+    userOrderId: random.int(0, 0xffffffff),
+  };
+}
+
+function randomOutput(random: Random): OutputMessage {
+  const symbol = random.symbol();
+  const userId = random.int(0, 0xffffffff);
+  const userOrderId = random.int(0, 0xffffffff);
+  const price = random.int(1, 100_000_000) / 100;
+  const quantity = random.int(1, 0xffffffff);
+  const kind = random.int(0, 4);
+
+  if (kind === 0) {
+    return { type: OutputMessageType.ACK, symbol, userId, userOrderId, status: AckStatus.ACCEPTED };
+  }
+  if (kind === 1) {
+    return { type: OutputMessageType.CANCEL_ACK, symbol, userId, userOrderId };
+  }
+  if (kind === 2) {
+    return {
+      type: OutputMessageType.REJECT,
+      symbol,
+      userId,
+      userOrderId,
+      reason: random.pick(Object.values(RejectReason)),
+    };
+  }
+  if (kind === 3) {
+    return {
+      type: OutputMessageType.TRADE,
+      symbol,
+      price,
+      quantity,
+      buyUserId: random.int(0, 0xffffffff),
+      buyOrderId: random.int(0, 0xffffffff),
+      sellUserId: random.int(0, 0xffffffff),
+      sellOrderId: random.int(0, 0xffffffff),
+    };
+  }
+
+  const isBid = random.int(0, 1) === 0;
+  return {
+    type: OutputMessageType.TOP_OF_BOOK,
+    symbol,
+    side: isBid ? Side.BUY : Side.SELL,
+    bidPrice: isBid ? price : 0,
+    askPrice: isBid ? 0 : price,
+    bidQuantity: isBid ? quantity : 0,
+    askQuantity: isBid ? 0 : quantity,
+  };
+}
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+describe('detectCodec', () => {
+  it('detects binary from the magic byte', () => {
+    expect(detectCodec(hex('4d41'))).toEqual({ codec: Codec.BINARY, confidence: 'HIGH' });
+  });
+
+  it.each(['N', 'C', 'A', 'T', 'R', 'B', 'X'])('detects CSV starting with %s', (letter) => {
+    expect(detectCodec(ascii(`${letter},AAPL`))).toEqual({ codec: Codec.CSV, confidence: 'HIGH' });
+  });
+
+  it('guesses CSV for other printable ASCII', () => {
+    expect(detectCodec(ascii('hello'))).toEqual({ codec: Codec.CSV, confidence: 'LOW' });
+  });
+
+  it('guesses binary for control bytes', () => {
+    expect(detectCodec(hex('0001'))).toEqual({ codec: Codec.BINARY, confidence: 'LOW' });
+  });
+
+  it('returns UNKNOWN for empty and high bytes', () => {
+    expect(detectCodec(new Uint8Array(0)).codec).toBe(Codec.UNKNOWN);
+    expect(detectCodec(hex('ff')).codec).toBe(Codec.UNKNOWN);
+  });
+
+  it('classifies every possible first byte', () => {
+    for (let byte = 0; byte < 256; byte += 1) {
+      const result = detectCodec(Uint8Array.of(byte));
+      expect([Codec.CSV, Codec.BINARY, Codec.UNKNOWN]).toContain(result.codec);
+      expect(['HIGH', 'LOW']).toContain(result.confidence);
+    }
+  });
+});
+
+// ============================================================================
+// Routing
+// ============================================================================
+
+describe('decode', () => {
+  it('routes binary and CSV by first byte', () => {
+    const binary = decode(hex('4d41 49424d0000000000 00000007 000003e9'));
+    const csv = decode(ascii('A,IBM,7,1001\n'));
+
+    expect(binary.codec).toBe(Codec.BINARY);
+    expect(csv.codec).toBe(Codec.CSV);
+    expect(binary.message).toEqual(csv.message);
+  });
+
+  it('reports empty input', () => {
+    expect(decode(new Uint8Array(0))).toEqual({
+      success: false,
+      message: null,
+      codec: Codec.UNKNOWN,
+      error: 'Empty message',
+    });
+  });
+
+  it('honours an explicit codec', () => {
+    expect(decodeWithCodec(ascii('A,IBM,7,1001'), Codec.BINARY).success).toBe(false);
+    expect(decodeWithCodec(ascii('A,IBM,7,1001'), Codec.CSV).success).toBe(true);
+    expect(decodeWithCodec(ascii('A,IBM,7,1001'), Codec.UNKNOWN).error).toBe('Unknown codec');
+  });
+});
+
+describe('decodeBatch', () => {
+  it('splits CSV on newlines and skips blank lines', () => {
+    const result = decodeBatch(ascii('B,AAPL,B,15025,100\n\nB,AAPL,S,15030,500\nA,IBM,7,1\n'));
+
+    expect(result.codec).toBe(Codec.CSV);
+    expect(result.errors).toEqual([]);
+    expect(result.messages.map((m) => m.type)).toEqual([
+      OutputMessageType.TOP_OF_BOOK,
+      OutputMessageType.TOP_OF_BOOK,
+      OutputMessageType.ACK,
+    ]);
+  });
+
+  it('reports bad CSV lines without dropping good ones', () => {
+    const result = decodeBatch(ascii('B,AAPL,B,15025,100\nQ,bad\n'));
+
+    expect(result.messages.length).toBe(1);
+    expect(result.errors).toEqual(['Line 1: Unknown message type: Q']);
+  });
+
+  it('splits binary on 64-byte slots', () => {
+    const data = new Uint8Array(128);
+    data.set(hex('4d42 4141504c00000000 42 00003ab1 00000064 00'), 0);
+    data.set(hex('4d42 4141504c00000000 53 00003ab6 000001f4 00'), 64);
+
+    const result = decodeBatch(data);
+
+    expect(result.codec).toBe(Codec.BINARY);
+    expect(result.messages.map((m) => (m.type === OutputMessageType.TOP_OF_BOOK ? m.side : null)))
+      .toEqual([Side.BUY, Side.SELL]);
+  });
+
+  it('decodes a single unpadded binary message', () => {
+    const result = decodeBatch(hex('4d42 4141504c00000000 42 00003ab1 00000064 00'));
+
+    expect(result.errors).toEqual([]);
+    expect(result.messages).toHaveLength(1);
+  });
+
+  it('stops after 64 messages', () => {
+    const result = decodeBatch(ascii('A,IBM,7,1\n'.repeat(100)));
+
+    expect(result.messages.length).toBe(64);
+  });
+
+  it('reports an empty buffer', () => {
+    expect(decodeBatch(new Uint8Array(0)).errors).toEqual(['Empty buffer']);
+  });
+});
+
+// ============================================================================
+// Round Trips
+// ============================================================================
+
+describe('round trip', () => {
+  it('binary New Order and Cancel decode to what was encoded', () => {
+    const random = createRandom(1);
+
+    for (let i = 0; i < ITERATIONS; i += 1) {
+      const msg = i % 2 === 0 ? randomNewOrder(random) : randomCancel(random);
+      const encoded = encode(msg, Codec.BINARY);
+
+      expect(encoded.success).toBe(true);
+      expect(referenceDecodeBinaryInput(encoded.data)).toEqual(msg);
+    }
+  });
+
+  it('CSV New Order and Cancel decode to what was encoded', () => {
+    const random = createRandom(2);
+    const decoder = new TextDecoder();
+
+    for (let i = 0; i < ITERATIONS; i += 1) {
+      const msg = i % 2 === 0 ? randomNewOrder(random) : randomCancel(random);
+      const encoded = encode(msg, Codec.CSV);
+
+      expect(encoded.success).toBe(true);
+      expect(referenceDecodeCsvInput(decoder.decode(encoded.data))).toEqual(msg);
+    }
+  });
+
+  it('binary output messages survive engine encoding', () => {
+    const random = createRandom(3);
+
+    for (let i = 0; i < ITERATIONS; i += 1) {
+      const msg = randomOutput(random);
+      const result = decode(referenceEncodeBinaryOutput(msg));
+
+      expect(result.success).toBe(true);
+      expect(result.codec).toBe(Codec.BINARY);
+      expect(result.message).toEqual(msg);
+    }
+  });
+
+  it('CSV output messages survive engine encoding', () => {
+    const random = createRandom(4);
+
+    for (let i = 0; i < ITERATIONS; i += 1) {
+      const msg = randomOutput(random);
+      const result = decode(ascii(referenceEncodeCsvOutput(msg)));
+
+      expect(result.success).toBe(true);
+      expect(result.codec).toBe(Codec.CSV);
+      expect(result.message).toEqual(msg);
+    }
+  });
+});
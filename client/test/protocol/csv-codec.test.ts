@@ -0,0 +1,205 @@
+/**
+ * Golden vectors for every CSV message type.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  csvEncode,
+  csvDecode,
+  MessageType,
+  OutputMessageType,
+  Side,
+  AckStatus,
+  RejectReason,
+} from '../../src/protocol/index.js';
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+describe('csv encode', () => {
+  it('encodes New Order with the price in dollars', () => {
+    const result = csvEncode({
+      type: MessageType.NEW_ORDER,
+      symbol: 'AAPL',
+      userId: 1,
+      userOrderId: 42,
+      side: Side.BUY,
+      price: 150.25,
+      quantity: 100,
+    });
+
+    expect(result).toEqual({ success: true, data: 'N,AAPL,1,42,B,150.25,100\n', error: null });
+  });
+
+  it('encodes a sell New Order', () => {
+    const result = csvEncode({
+      type: MessageType.NEW_ORDER,
+      symbol: 'IBM',
+      userId: 7,
+      userOrderId: 1,
+      side: Side.SELL,
+      price: 99,
+      quantity: 5,
+    });
+
+    expect(result.data).toBe('N,IBM,7,1,S,99,5\n');
+  });
+
+  it('encodes Cancel', () => {
+    const result = csvEncode({
+      type: MessageType.CANCEL,
+      symbol: 'AAPL',
+      userId: 1,
+      userOrderId: 42,
+    });
+
+    expect(result).toEqual({ success: true, data: 'C,AAPL,1,42\n', error: null });
+  });
+
+  it('does not support Flush', () => {
+    const result = csvEncode({ type: MessageType.FLUSH, userId: 1 });
+
+    expect(result).toEqual({ success: false, data: '', error: 'FLUSH not supported in CSV' });
+  });
+
+  it.each([
+    ['symbol too long', { symbol: 'ABCDEFGHI' }, 'Invalid symbol'],
+    ['negative user ID', { userId: -1 }, 'Invalid user ID'],
+    ['negative order ID', { userOrderId: -1 }, 'Invalid order ID'],
+    ['infinite price', { price: Infinity }, 'Invalid price'],
+    ['fractional quantity', { quantity: 1.5 }, 'Invalid quantity'],
+    ['bad side', { side: 0 }, 'Invalid side'],
+  ])('rejects New Order with %s', (_name, override, error) => {
+    const result = csvEncode({
+      type: MessageType.NEW_ORDER,
+      symbol: 'AAPL',
+      userId: 1,
+      userOrderId: 42,
+      side: Side.BUY,
+      price: 150.25,
+      quantity: 100,
+      ...override,
+    } as never);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(error);
+  });
+});
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+describe('csv decode', () => {
+  it('decodes Ack', () => {
+    expect(csvDecode('A,IBM,7,1001\n')).toEqual({
+      success: true,
+      message: {
+        type: OutputMessageType.ACK,
+        symbol: 'IBM',
+        userId: 7,
+        userOrderId: 1001,
+        status: AckStatus.ACCEPTED,
+      },
+      error: null,
+    });
+  });
+
+  it('decodes Cancel Ack sent as X or C', () => {
+    const expected = {
+      type: OutputMessageType.CANCEL_ACK,
+      symbol: 'IBM',
+      userId: 7,
+      userOrderId: 1001,
+    };
+
+    expect(csvDecode('X,IBM,7,1001').message).toEqual(expected);
+    expect(csvDecode('C,IBM,7,1001').message).toEqual(expected);
+  });
+
+  it('decodes Trade with the price in cents', () => {
+    expect(csvDecode('T,MSFT,1,10,2,20,30050,25').message).toEqual({
+      type: OutputMessageType.TRADE,
+      symbol: 'MSFT',
+      price: 300.5,
+      quantity: 25,
+      buyUserId: 1,
+      buyOrderId: 10,
+      sellUserId: 2,
+      sellOrderId: 20,
+    });
+  });
+
+  it('decodes Reject', () => {
+    expect(csvDecode('R,AAPL,1,42,5').message).toEqual({
+      type: OutputMessageType.REJECT,
+      symbol: 'AAPL',
+      userId: 1,
+      userOrderId: 42,
+      reason: RejectReason.DUPLICATE_ORDER_ID,
+    });
+  });
+
+  it('decodes two-sided Top of Book', () => {
+    expect(csvDecode('B,AAPL,15025,15030,100,500').message).toEqual({
+      type: OutputMessageType.TOP_OF_BOOK,
+      symbol: 'AAPL',
+      side: null,
+      bidPrice: 150.25,
+      askPrice: 150.3,
+      bidQuantity: 100,
+      askQuantity: 500,
+    });
+  });
+
+  it('decodes single-sided Top of Book', () => {
+    expect(csvDecode('B,AAPL,S,15030,500').message).toEqual({
+      type: OutputMessageType.TOP_OF_BOOK,
+      symbol: 'AAPL',
+      side: Side.SELL,
+      bidPrice: 0,
+      askPrice: 150.3,
+      bidQuantity: 0,
+      askQuantity: 500,
+    });
+    expect(csvDecode('B,AAPL,B,15025,100').message).toMatchObject({
+      side: Side.BUY,
+      bidPrice: 150.25,
+      bidQuantity: 100,
+    });
+  });
+
+  it('trims whitespace around fields', () => {
+    expect(csvDecode('A, IBM, 7, 1001').message).toMatchObject({
+      symbol: 'IBM',
+      userOrderId: 1001,
+    });
+  });
+
+  it.each([
+    ['', 'Empty message'],
+    ['Q,AAPL,1,2', 'Unknown message type: Q'],
+    ['A,IBM,7', 'ACK: insufficient fields'],
+    ['A,TOOLONGSYM,7,1', 'ACK: invalid symbol'],
+    ['A,IBM,x,1', 'ACK: invalid user ID'],
+    ['T,MSFT,1,10,2,20,abc,25', 'TRADE: invalid price'],
+    ['R,AAPL,1,42', 'REJECT: insufficient fields'],
+    ['X,IBM,7,', 'CANCEL_ACK: invalid order ID'],
+    ['B,AAPL,1', 'TOB: insufficient fields (got 3)'],
+    ['T,MSFT,1,10,2,20,30050,25,9', 'Failed to parse fields'],
+  ])('fails on %j', (line, error) => {
+    const result = csvDecode(line);
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBeNull();
+    expect(result.error).toBe(error);
+  });
+
+  it('rejects lines over the maximum length', () => {
+    const result = csvDecode(`A,IBM,7,${'1'.repeat(300)}`);
+
+    expect(result.error).toBe('Message too long');
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Fuzzing: decoders must never throw, must keep their result shape
+ * consistent, and must refuse truncated binary messages.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  decode,
+  decodeBatch,
+  detectCodec,
+  binaryDecode,
+  csvDecode,
+  type DecodeResult,
+} from '../../src/protocol/index.js';
+import { ascii, createRandom, hex } from './helpers.js';
+
+const ITERATIONS = 2000;
+
+const BINARY_OUTPUTS = [
+  hex('4d41 49424d0000000000 00000007 000003e9'),
+  hex('4d58 49424d0000000000 00000007 000003e9'),
+  hex('4d54 4d53465400000000 00000001 0000000a 00000002 00000014 00007562 00000019'),
+  hex('4d42 4141504c00000000 53 00003ab6 000001f4 00'),
+  hex('4d52 4141504c00000000 00000001 0000002a 05'),
+];
+
+function expectConsistent(result: DecodeResult): void {
+  if (result.success) {
+    expect(result.message).not.toBeNull();
+    expect(result.error).toBeNull();
+  } else {
+    expect(result.message).toBeNull();
+    expect(typeof result.error).toBe('string');
+  }
+}
+
+describe('fuzz', () => {
+  it('decode survives random bytes', () => {
+    const random = createRandom(10);
+
+    for (let i = 0; i < ITERATIONS; i += 1) {
+      const data = random.bytes(random.int(0, 96));
+      expectConsistent(decode(data));
+    }
+  });
+
+  it('decode survives random bytes behind a valid binary header', () => {
+    const random = createRandom(11);
+    const types = [0x41, 0x42, 0x52, 0x54, 0x58];
+
+    for (let i = 0; i < ITERATIONS; i += 1) {
+      const data = random.bytes(random.int(2, 48));
+      data[0] = 0x4d;
+      data[1] = random.pick(types);
+      expectConsistent(decode(data));
+    }
+  });
+
+  it('decode survives random CSV-shaped text', () => {
+    const random = createRandom(12);
+    const alphabet = 'ABCRTXN,0123456789.-\n \t';
+
+    for (let i = 0; i < ITERATIONS; i += 1) {
+      const length = random.int(0, 300);
+      let line = random.pick(['A', 'B', 'C', 'R', 'T', 'X']);
+      for (let j = 0; j < length; j += 1) {
+        line += alphabet[random.int(0, alphabet.length - 1)];
+      }
+
+      const result = csvDecode(line);
+      expect(result.success === (result.message !== null)).toBe(true);
+      expectConsistent(decode(ascii(line)));
+    }
+  });
+
+  it('every truncation of a binary message fails cleanly', () => {
+    for (const message of BINARY_OUTPUTS) {
+      expect(binaryDecode(message).success).toBe(true);
+
+      for (let length = 0; length < message.length; length += 1) {
+        const result = binaryDecode(message.subarray(0, length));
+        expect(result.success).toBe(false);
+        expect(result.bytesConsumed).toBe(0);
+      }
+    }
+  });
+
+  it('trailing bytes after a binary message are not consumed', () => {
+    const random = createRandom(13);
+
+    for (const message of BINARY_OUTPUTS) {
+      const padded = new Uint8Array(message.length + 32);
+      padded.set(message, 0);
+      padded.set(random.bytes(32), message.length);
+
+      const result = binaryDecode(padded);
+      expect(result.success).toBe(true);
+      expect(result.bytesConsumed).toBe(message.length);
+      expect(result.message).toEqual(binaryDecode(message).message);
+    }
+  });
+
+  it('oversized CSV is refused', () => {
+    const result = decode(ascii(`T,MSFT,1,10,2,20,30050,${'9'.repeat(1000)}`));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Message too long');
+  });
+
+  it('decodeBatch survives random buffers', () => {
+    const random = createRandom(14);
+
+    for (let i = 0; i < ITERATIONS; i += 1) {
+      const data = random.bytes(random.int(0, 4096));
+      const result = decodeBatch(data);
+
+      expect(result.messages.length).toBeLessThanOrEqual(64);
+      expect(Array.isArray(result.errors)).toBe(true);
+    }
+  });
+
+  it('detectCodec survives random buffers', () => {
+    const random = createRandom(15);
+
+    for (let i = 0; i < ITERATIONS; i += 1) {
+      const result = detectCodec(random.bytes(random.int(0, 16)));
+      expect(['CSV', 'BINARY', 'UNKNOWN']).toContain(result.codec);
+    }
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Shared helpers for protocol tests: hex conversion, a seeded PRNG and
+ * a reference implementation of the engine side of the wire format
+ * (input decoding, output encoding), written straight from the layouts
+ * in binary-codec.ts so round trips do not test a codec against itself.
+ */
+
+import {
+  type NewOrderInput,
+  type CancelInput,
+  type OutputMessage,
+  MessageType,
+  OutputMessageType,
+  Side,
+} from '../../src/protocol/index.js';
+
+// ============================================================================
+// Bytes
+// ============================================================================
+
+export function hex(text: string): Uint8Array {
+  const clean = text.replace(/\s+/g, '');
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i += 1) {
+    bytes[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function ascii(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+// ============================================================================
+// Seeded Random
+// ============================================================================
+
+export interface Random {
+  /** Integer in [min, max]. */
+  int(min: number, max: number): number;
+  pick<T>(items: readonly T[]): T;
+  bytes(length: number): Uint8Array;
+  symbol(): string;
+}
+
+/** mulberry32: small, fast and reproducible across runs. */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+
+  function next(): number {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  function int(min: number, max: number): number {
+    return min + Math.floor(next() * (max - min + 1));
+  }
+
+  return {
+    int,
+    pick: <T>(items: readonly T[]): T => items[int(0, items.length - 1)],
+    bytes: (length: number): Uint8Array => {
+      const out = new Uint8Array(length);
+      for (let i = 0; i < length; i += 1) {
+        out[i] = int(0, 255);
+      }
+      return out;
+    },
+    symbol: (): string => {
+      const length = int(1, 8);
+      let result = '';
+      for (let i = 0; i < length; i += 1) {
+        result += String.fromCharCode(int(0x41, 0x5a));
+      }
+      return result;
+    },
+  };
+}
+
+// ============================================================================
+// Reference Engine-side Codec
+// ============================================================================
+
+const SYMBOL_SIZE = 8;
+
+function readSymbol(view: DataView, offset: number): string {
+  let result = '';
+  for (let i = 0; i < SYMBOL_SIZE; i += 1) {
+    const byte = view.getUint8(offset + i);
+    if (byte === 0) break;
+    result += String.fromCharCode(byte);
+  }
+  return result;
+}
+
+function writeSymbol(view: DataView, offset: number, symbol: string): void {
+  for (let i = 0; i < SYMBOL_SIZE; i += 1) {
+    view.setUint8(offset + i, i < symbol.length ? symbol.charCodeAt(i) : 0);
+  }
+}
+
+/** Decode a binary New Order or Cancel the way the engine reads it. */
+export function referenceDecodeBinaryInput(data: Uint8Array): NewOrderInput | CancelInput {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const type = String.fromCharCode(data[1]);
+
+  if (type === 'N') {
+    return {
+      type: MessageType.NEW_ORDER,
+      userId: view.getUint32(2),
+      symbol: readSymbol(view, 6),
+      price: view.getUint32(14) / 100,
+      quantity: view.getUint32(18),
+      side: data[22] === 0x42 ? Side.BUY : Side.SELL,
+      userOrderId: view.getUint32(23),
+    };
+  }
+
+  return {
+    type: MessageType.CANCEL,
+    userId: view.getUint32(2),
+    symbol: readSymbol(view, 6),
+    userOrderId: view.getUint32(14),
+  };
+}
+
+/** Decode a CSV New Order or Cancel line. */
+export function referenceDecodeCsvInput(line: string): NewOrderInput | CancelInput {
+  const fields = line.trimEnd().split(',');
+
+  if (fields[0] === 'N') {
+    return {
+      type: MessageType.NEW_ORDER,
+      symbol: fields[1],
+      userId: Number(fields[2]),
+      userOrderId: Number(fields[3]),
+      side: fields[4] === 'B' ? Side.BUY : Side.SELL,
+      price: Number(fields[5]),
+      quantity: Number(fields[6]),
+    };
+  }
+
+  return {
+    type: MessageType.CANCEL,
+    symbol: fields[1],
+    userId: Number(fields[2]),
+    userOrderId: Number(fields[3]),
+  };
+}
+
+/** Encode an output message as the engine would, in binary. */
+export function referenceEncodeBinaryOutput(msg: OutputMessage): Uint8Array {
+  if (msg.type === OutputMessageType.TRADE) {
+    const view = new DataView(new ArrayBuffer(34));
+    view.setUint8(0, 0x4d);
+    view.setUint8(1, 0x54);
+    writeSymbol(view, 2, msg.symbol);
+    view.setUint32(10, msg.buyUserId);
+    view.setUint32(14, msg.buyOrderId);
+    view.setUint32(18, msg.sellUserId);
+    view.setUint32(22, msg.sellOrderId);
+    view.setUint32(26, Math.round(msg.price * 100));
+    view.setUint32(30, msg.quantity);
+    return new Uint8Array(view.buffer);
+  }
+
+  if (msg.type === OutputMessageType.TOP_OF_BOOK) {
+    const isBid = msg.side === Side.BUY;
+    const view = new DataView(new ArrayBuffer(20));
+    view.setUint8(0, 0x4d);
+    view.setUint8(1, 0x42);
+    writeSymbol(view, 2, msg.symbol);
+    view.setUint8(10, isBid ? 0x42 : 0x53);
+    view.setUint32(11, Math.round((isBid ? msg.bidPrice : msg.askPrice) * 100));
+    view.setUint32(15, isBid ? msg.bidQuantity : msg.askQuantity);
+    return new Uint8Array(view.buffer);
+  }
+
+  if (msg.type === OutputMessageType.REJECT) {
+    const view = new DataView(new ArrayBuffer(19));
+    view.setUint8(0, 0x4d);
+    view.setUint8(1, 0x52);
+    writeSymbol(view, 2, msg.symbol);
+    view.setUint32(10, msg.userId);
+    view.setUint32(14, msg.userOrderId);
+    view.setUint8(18, msg.reason);
+    return new Uint8Array(view.buffer);
+  }
+
+  // ACK and CANCEL_ACK share a layout
+  const view = new DataView(new ArrayBuffer(18));
+  view.setUint8(0, 0x4d);
+  view.setUint8(1, msg.type === OutputMessageType.ACK ? 0x41 : 0x58);
+  writeSymbol(view, 2, msg.symbol);
+  view.setUint32(10, msg.userId);
+  view.setUint32(14, msg.userOrderId);
+  return new Uint8Array(view.buffer);
+}
+
+/** Encode an output message as the engine would, as a CSV line. */
+export function referenceEncodeCsvOutput(msg: OutputMessage): string {
+  if (msg.type === OutputMessageType.ACK) {
+    return `A,${msg.symbol},${msg.userId},${msg.userOrderId}\n`;
+  }
+  if (msg.type === OutputMessageType.CANCEL_ACK) {
+    return `X,${msg.symbol},${msg.userId},${msg.userOrderId}\n`;
+  }
+  if (msg.type === OutputMessageType.REJECT) {
+    return `R,${msg.symbol},${msg.userId},${msg.userOrderId},${msg.reason}\n`;
+  }
+  if (msg.type === OutputMessageType.TRADE) {
+    return (
+      `T,${msg.symbol},${msg.buyUserId},${msg.buyOrderId},${msg.sellUserId},` +
+      `${msg.sellOrderId},${Math.round(msg.price * 100)},${msg.quantity}\n`
+    );
+  }
+  const isBid = msg.side === Side.BUY;
+  const price = Math.round((isBid ? msg.bidPrice : msg.askPrice) * 100);
+  const quantity = isBid ? msg.bidQuantity : msg.askQuantity;
+  return `B,${msg.symbol},${isBid ? 'B' : 'S'},${price},${quantity}\n`;
+}
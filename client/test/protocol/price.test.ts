@@ -0,0 +1,164 @@
+/**
+ * Fixed-point price conversion, per-symbol scales, and both codecs
+ * carrying prices for a symbol with more than two decimals.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+
+import {
+  binaryEncode,
+  binaryDecode,
+  csvEncode,
+  csvDecode,
+  MessageType,
+  Side,
+  DEFAULT_PRICE_SCALE,
+  setPriceScale,
+  getPriceScale,
+  clearPriceScales,
+  parsePriceUnits,
+  toPriceUnits,
+  fromPriceUnits,
+  roundPrice,
+  formatPriceUnits,
+} from '../../src/protocol/index.js';
+import { createRandom, hex, toHex } from './helpers.js';
+
+const ITERATIONS = 2000;
+
+afterEach(() => {
+  clearPriceScales();
+});
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+describe('price units', () => {
+  it('converts from the decimal value, not the float product', () => {
+    // 1.005 * 100 === 100.49999999999999
+    expect(toPriceUnits(1.005, 2)).toBe(101);
+    expect(toPriceUnits(0.1 + 0.2, 2)).toBe(30);
+    expect(toPriceUnits(150.25, 2)).toBe(15025);
+    expect(toPriceUnits(0.00012345, 8)).toBe(12345);
+    expect(toPriceUnits(1e-7, 8)).toBe(10);
+    expect(toPriceUnits(-2.5, 0)).toBe(-3);
+  });
+
+  it('returns NaN for non-finite prices', () => {
+    expect(toPriceUnits(NaN, 2)).toBeNaN();
+    expect(toPriceUnits(Infinity, 2)).toBeNaN();
+  });
+
+  it('parses decimal text, rounding half up past the scale', () => {
+    expect(parsePriceUnits('150.25', 2)).toBe(15025);
+    expect(parsePriceUnits('150.255', 2)).toBe(15026);
+    expect(parsePriceUnits('150.254', 2)).toBe(15025);
+    expect(parsePriceUnits('.5', 1)).toBe(5);
+    expect(parsePriceUnits('7.', 2)).toBe(700);
+    expect(parsePriceUnits(' 99 ', 2)).toBe(9900);
+  });
+
+  it.each(['', '.', '-1', '1e3', '1.2.3', 'abc', '12abc', '9'.repeat(20)])(
+    'refuses %j',
+    (text) => {
+      expect(parsePriceUnits(text, 2)).toBeNull();
+    }
+  );
+
+  it('formats exactly, trimming zeros down to the minimum', () => {
+    expect(formatPriceUnits(15025, 2)).toBe('150.25');
+    expect(formatPriceUnits(15000, 2)).toBe('150.00');
+    expect(formatPriceUnits(15000, 2, 0)).toBe('150');
+    expect(formatPriceUnits(15020, 2, 0)).toBe('150.2');
+    expect(formatPriceUnits(5, 4)).toBe('0.0005');
+    expect(formatPriceUnits(-5, 2)).toBe('-0.05');
+    expect(formatPriceUnits(42, 0)).toBe('42');
+  });
+
+  it('snaps prices to the grid', () => {
+    expect(roundPrice(0.1 + 0.2, 2)).toBe(0.3);
+    expect(roundPrice(1.23456, 4)).toBe(1.2346);
+  });
+
+  it('round-trips every unit count at every scale', () => {
+    const random = createRandom(20);
+
+    for (let i = 0; i < ITERATIONS; i += 1) {
+      const scale = random.int(0, 8);
+      const units = random.int(0, 0xffffffff);
+      const price = fromPriceUnits(units, scale);
+
+      expect(toPriceUnits(price, scale)).toBe(units);
+      expect(parsePriceUnits(formatPriceUnits(units, scale), scale)).toBe(units);
+    }
+  });
+});
+
+// ============================================================================
+// Per-symbol Scale
+// ============================================================================
+
+describe('price scales', () => {
+  it('defaults to cents', () => {
+    expect(getPriceScale('AAPL')).toBe(DEFAULT_PRICE_SCALE);
+  });
+
+  it('stores valid scales per symbol', () => {
+    expect(setPriceScale('EURUSD', 5)).toBe(true);
+    expect(getPriceScale('EURUSD')).toBe(5);
+    expect(getPriceScale('AAPL')).toBe(DEFAULT_PRICE_SCALE);
+  });
+
+  it.each([-1, 9, 2.5, NaN])('refuses scale %d', (scale) => {
+    expect(setPriceScale('EURUSD', scale)).toBe(false);
+    expect(getPriceScale('EURUSD')).toBe(DEFAULT_PRICE_SCALE);
+  });
+});
+
+// ============================================================================
+// Codecs
+// ============================================================================
+
+describe('codecs with a four-decimal symbol', () => {
+  const order = {
+    type: MessageType.NEW_ORDER,
+    symbol: 'EURUSD',
+    userId: 1,
+    userOrderId: 42,
+    side: Side.BUY,
+    price: 1.0845,
+    quantity: 1000,
+  } as const;
+
+  it('binary encodes price units at the symbol scale', () => {
+    setPriceScale('EURUSD', 4);
+    const result = binaryEncode(order);
+
+    // 1.0845 -> 10845 = 0x2a5d
+    expect(toHex(result.data.subarray(14, 18))).toBe('00002a5d');
+  });
+
+  it('binary decodes trades at the symbol scale', () => {
+    setPriceScale('EURUSD', 4);
+    const trade = hex(
+      '4d54 4555525553440000 00000001 0000000a 00000002 00000014 00002a5d 00000019'
+    );
+
+    expect(binaryDecode(trade).message).toMatchObject({ symbol: 'EURUSD', price: 1.0845 });
+  });
+
+  it('CSV sends every significant decimal and decodes units', () => {
+    setPriceScale('EURUSD', 4);
+
+    expect(csvEncode(order).data).toBe('N,EURUSD,1,42,B,1.0845,1000\n');
+    expect(csvDecode('B,EURUSD,B,10845,500').message).toMatchObject({ bidPrice: 1.0845 });
+    expect(csvDecode('T,EURUSD,1,10,2,20,10845,25').message).toMatchObject({ price: 1.0845 });
+  });
+
+  it('CSV drops float noise from prices', () => {
+    expect(csvEncode({ ...order, symbol: 'AAPL', price: 0.1 + 0.2 }).data).toBe(
+      'N,AAPL,1,42,B,0.3,1000\n'
+    );
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Several accounts in one store: each keeps its own orders, fills and
+ * positions, and totals are summed across them.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { createStore, BookUpdateKind, MAX_ACCOUNTS } from '../../src/store/index.js';
+import { Side } from '../../src/protocol/index.js';
+
+describe('accounts', () => {
+  it('keeps positions per account and totals them', () => {
+    const store = createStore();
+    store.addAccount(2002);
+
+    store.updatePosition('AAPL', Side.BUY, 150, 100, 1001);
+    store.updatePosition('AAPL', Side.SELL, 151, 40, 2002);
+
+    expect(store.getPosition('AAPL')?.netQuantity).toBe(100);
+    expect(store.getPosition('AAPL', 2002)?.netQuantity).toBe(-40);
+
+    const total = store.getAggregatePositions().get('AAPL');
+    expect(total?.userId).toBeNull();
+    expect(total?.netQuantity).toBe(60);
+    expect(total?.buyQuantity).toBe(100);
+    expect(total?.sellQuantity).toBe(40);
+  });
+
+  it('marks every account to the market', () => {
+    const store = createStore();
+    store.addAccount(2002);
+    store.updatePosition('AAPL', Side.BUY, 150, 10, 1001);
+    store.updatePosition('AAPL', Side.SELL, 151, 10, 2002);
+
+    store.applyBookUpdates('AAPL', [
+      { kind: BookUpdateKind.TOP, side: Side.BUY, price: 150.5, quantity: 10 },
+      { kind: BookUpdateKind.TOP, side: Side.SELL, price: 150.5, quantity: 10 },
+    ]);
+
+    expect(store.getPosition('AAPL')?.unrealizedPnl).toBe(5);
+    expect(store.getPosition('AAPL', 2002)?.unrealizedPnl).toBe(5);
+    expect(store.getAggregatePositions().get('AAPL')?.unrealizedPnl).toBe(10);
+  });
+
+  it('restores one account without touching the others', () => {
+    const store = createStore();
+    store.updatePosition('AAPL', Side.BUY, 150, 10, 1001);
+
+    store.restoreSession({
+      userId: 2002,
+      nextOrderId: 7,
+      orders: [],
+      trades: [],
+      positions: [],
+    });
+
+    expect(store.getAccounts()).toEqual([1001, 2002]);
+    expect(store.getPosition('AAPL')?.netQuantity).toBe(10);
+    expect(store.getPosition('AAPL', 2002)).toBeNull();
+    // One counter serves every account, so it never goes backwards
+    expect(store.getNextOrderId()).toBe(7);
+  });
+
+  it('rejects invalid accounts and caps the account list', () => {
+    const store = createStore();
+
+    expect(store.addAccount(-1)).toBe(false);
+    for (let i = 1; i < MAX_ACCOUNTS; i += 1) {
+      expect(store.addAccount(5000 + i)).toBe(true);
+    }
+    expect(store.addAccount(9999)).toBe(false);
+    expect(store.getAccounts().length).toBe(MAX_ACCOUNTS);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Client order IDs: the caller's own identifiers map to the newest order
+ * carrying them, per account.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  createStore,
+  isValidClientOrderId,
+  OrderStatus,
+  type Order,
+} from '../../src/store/index.js';
+import { Side } from '../../src/protocol/index.js';
+
+function makeOrder(userId: number, userOrderId: number, clientOrderId: string | null): Order {
+  return {
+    symbol: 'AAPL',
+    userId,
+    userOrderId,
+    side: Side.BUY,
+    price: 150.25,
+    quantity: 100,
+    filledQuantity: 0,
+    status: OrderStatus.ACKED,
+    createdAt: 1000,
+    updatedAt: 1000,
+    replacesOrderId: null,
+    replacedByOrderId: null,
+    clientOrderId,
+  };
+}
+
+describe('client order IDs', () => {
+  it('maps a client order ID to its account and order', () => {
+    const store = createStore();
+    store.addAccount(2002);
+    store.addOrder(makeOrder(1001, 1, 'alpha'));
+    store.addOrder(makeOrder(2002, 2, 'alpha'));
+    store.addOrder(makeOrder(1001, 3, null));
+
+    expect(store.getOrderByClientOrderId('alpha')?.userOrderId).toBe(1);
+    expect(store.getOrderByClientOrderId('alpha', 2002)?.userOrderId).toBe(2);
+    expect(store.getOrderByClientOrderId('beta')).toBeNull();
+  });
+
+  it('follows the replacement after an amend', () => {
+    const store = createStore();
+    store.addOrder(makeOrder(1001, 1, 'alpha'));
+    store.addOrder({ ...makeOrder(1001, 2, 'alpha'), replacesOrderId: 1 });
+    store.markOrderReplaced(1001, 1, 2);
+
+    expect(store.getOrderByClientOrderId('alpha')?.userOrderId).toBe(2);
+
+    store.removeOrder(1001, 2);
+    expect(store.getOrderByClientOrderId('alpha')?.status).toBe(OrderStatus.REPLACED);
+  });
+
+  it('rebuilds the mapping for a restored session', () => {
+    const store = createStore();
+    store.restoreSession({
+      userId: 1001,
+      nextOrderId: 5,
+      orders: [makeOrder(1001, 4, 'gamma')],
+      trades: [],
+      positions: [],
+    });
+
+    expect(store.getOrderByClientOrderId('gamma')?.userOrderId).toBe(4);
+  });
+
+  it('accepts 1-32 printable characters without spaces', () => {
+    expect(isValidClientOrderId('strat-1/leg:A')).toBe(true);
+    expect(isValidClientOrderId('x'.repeat(32))).toBe(true);
+    expect(isValidClientOrderId('')).toBe(false);
+    expect(isValidClientOrderId('x'.repeat(33))).toBe(false);
+    expect(isValidClientOrderId('two words')).toBe(false);
+    expect(isValidClientOrderId('café')).toBe(false);
+  });
+});
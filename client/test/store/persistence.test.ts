@@ -0,0 +1,248 @@
+/**
+ * Session persistence: a reloaded page picks up the same orders, fills,
+ * positions and order-ID counter, for every account.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+import {
+  createStore,
+  createStorePersistence,
+  encodeSession,
+  decodeSession,
+  OrderStatus,
+  type Order,
+  type StorageLike,
+} from '../../src/store/index.js';
+import { Side } from '../../src/protocol/index.js';
+import { FakeSocket, createOrderManagerHarness } from '../client/helpers.js';
+
+function createMemoryStorage(): StorageLike & { readonly items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+function makeOrder(userId: number, userOrderId: number, status: OrderStatus): Order {
+  return {
+    symbol: 'AAPL',
+    userId,
+    userOrderId,
+    side: Side.BUY,
+    price: 150.25,
+    quantity: 100,
+    filledQuantity: 0,
+    status,
+    createdAt: 1000,
+    updatedAt: 1000,
+    replacesOrderId: null,
+    replacedByOrderId: null,
+    clientOrderId: null,
+  };
+}
+
+afterEach(() => {
+  FakeSocket.instances = [];
+  vi.useRealTimers();
+});
+
+describe('session persistence', () => {
+  it('restores orders, trades, positions and the order-ID counter', () => {
+    const storage = createMemoryStorage();
+
+    const before = createStore();
+    const orderId = before.consumeOrderId();
+    before.consumeOrderId();
+    before.addOrder(makeOrder(1001, orderId, OrderStatus.ACKED));
+    before.addTrade({
+      userId: 1001,
+      symbol: 'AAPL',
+      price: 150.25,
+      quantity: 40,
+      side: Side.BUY,
+      userOrderId: orderId,
+      selfTrade: false,
+      timestamp: 2000,
+    });
+    before.updatePosition('AAPL', Side.BUY, 150.25, 40);
+    expect(createStorePersistence(before, { storage }).save().success).toBe(true);
+
+    const after = createStore();
+    const result = createStorePersistence(after, { storage }).restore();
+
+    expect(result.restored).toBe(true);
+    expect(after.getNextOrderId()).toBe(3);
+    expect(after.getOrder(1001, orderId)?.status).toBe(OrderStatus.ACKED);
+    expect(after.getTrades()).toEqual(before.getTrades());
+    expect(after.getPosition('AAPL')).toEqual(before.getPosition('AAPL'));
+
+    // Trade IDs carry on from the restored history
+    after.addTrade({ ...before.getTrades()[0], timestamp: 3000 });
+    expect(after.getTrades()[0].id).toBe(2);
+  });
+
+  it('marks orders still awaiting an ack as timed out', () => {
+    const storage = createMemoryStorage();
+    const { store, manager } = createOrderManagerHarness();
+    const sent = manager.submitOrder('AAPL', Side.BUY, 150.25, 100);
+    expect(store.getOrder(1001, sent.userOrderId)?.status).toBe(OrderStatus.PENDING);
+    createStorePersistence(store, { storage }).save();
+    manager.destroy();
+
+    const after = createStore();
+    createStorePersistence(after, { storage }).restore();
+
+    expect(after.getOrder(1001, sent.userOrderId)).toMatchObject({
+      status: OrderStatus.TIMED_OUT,
+      price: 150.25,
+      quantity: 100,
+    });
+  });
+
+  it('marks queued orders as dropped, since the queue did not survive', () => {
+    const storage = createMemoryStorage();
+    const before = createStore();
+    before.addOrder(makeOrder(1001, before.consumeOrderId(), OrderStatus.QUEUED));
+    createStorePersistence(before, { storage }).save();
+
+    const after = createStore();
+    createStorePersistence(after, { storage }).restore();
+
+    expect(after.getOrder(1001, 1)?.status).toBe(OrderStatus.DROPPED);
+  });
+
+  it('saves once per burst of changes', () => {
+    vi.useFakeTimers();
+    const storage = createMemoryStorage();
+    const setItem = vi.spyOn(storage, 'setItem');
+    const store = createStore();
+    const persistence = createStorePersistence(store, { storage, saveDelayMs: 100 });
+    persistence.start();
+
+    for (let i = 0; i < 10; i += 1) {
+      store.addOrder(makeOrder(1001, store.consumeOrderId(), OrderStatus.ACKED));
+    }
+    expect(setItem).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(100);
+    // The account's session, the account list and the active account
+    expect(setItem).toHaveBeenCalledTimes(3);
+
+    persistence.stop();
+  });
+
+  it('keeps a separate namespace per account', () => {
+    const storage = createMemoryStorage();
+    const store = createStore();
+    const persistence = createStorePersistence(store, { storage });
+
+    store.setUserId(2002);
+    store.addOrder(makeOrder(1001, store.consumeOrderId(), OrderStatus.ACKED));
+    store.addOrder(makeOrder(2002, store.consumeOrderId(), OrderStatus.ACKED));
+    store.addOrder(makeOrder(2002, store.consumeOrderId(), OrderStatus.ACKED));
+    persistence.save();
+
+    const saved = decodeSession(storage.getItem('matching-engine:session:2002') ?? '');
+    expect(typeof saved !== 'string' && saved.orders.length).toBe(2);
+
+    // A reload brings back every account, with the last active one selected
+    const reloaded = createStore();
+    createStorePersistence(reloaded, { storage }).restore();
+    expect(reloaded.getAccounts()).toEqual([1001, 2002]);
+    expect(reloaded.getUserId()).toBe(2002);
+    expect(reloaded.getOrders().size).toBe(3);
+    expect(reloaded.getNextOrderId()).toBe(4);
+  });
+
+  it('loads a saved account when it is added again', () => {
+    const storage = createMemoryStorage();
+    const before = createStore();
+    before.setUserId(3003);
+    before.addOrder(makeOrder(3003, before.consumeOrderId(), OrderStatus.ACKED));
+    createStorePersistence(before, { storage }).save();
+    storage.removeItem('matching-engine:accounts');
+    storage.removeItem('matching-engine:active-user');
+
+    const store = createStore();
+    const persistence = createStorePersistence(store, { storage });
+    persistence.start();
+    expect(store.getOrders().size).toBe(0);
+
+    store.addAccount(3003);
+    expect(store.getOrder(3003, 1)).not.toBeNull();
+    expect(store.getNextOrderId()).toBe(2);
+
+    persistence.stop();
+  });
+
+  it('clears the current session without reusing order IDs', () => {
+    const storage = createMemoryStorage();
+    const store = createStore();
+    const persistence = createStorePersistence(store, { storage });
+    store.addOrder(makeOrder(1001, store.consumeOrderId(), OrderStatus.ACKED));
+    persistence.save();
+
+    persistence.clear();
+
+    expect(storage.getItem('matching-engine:session:1001')).toBeNull();
+    expect(store.getOrders().size).toBe(0);
+    expect(store.getNextOrderId()).toBe(2);
+  });
+
+  it('discards sessions from another schema version', () => {
+    const storage = createMemoryStorage();
+    const saved = JSON.parse(encodeSession(createStore().getSessionSnapshot()));
+    storage.setItem('matching-engine:session:1001', JSON.stringify({ ...saved, version: 99 }));
+
+    const store = createStore();
+    const result = createStorePersistence(store, { storage }).restore();
+
+    expect(result.success).toBe(false);
+    expect(result.restored).toBe(false);
+    expect(result.error).toContain('schema version 99');
+    expect(store.getNextOrderId()).toBe(1);
+  });
+
+  it('drops malformed records and keeps the rest', () => {
+    const saved = JSON.parse(encodeSession(createStore().getSessionSnapshot()));
+    saved.session.orders = [makeOrder(1001, 1, OrderStatus.ACKED), { symbol: 'AAPL' }];
+
+    const decoded = decodeSession(JSON.stringify(saved));
+    expect(typeof decoded).not.toBe('string');
+    expect(typeof decoded !== 'string' && decoded.orders.length).toBe(1);
+    expect(decodeSession('{not json')).toContain('invalid JSON');
+  });
+
+  it('loads orders saved without a client order ID', () => {
+    const saved = JSON.parse(encodeSession(createStore().getSessionSnapshot()));
+    const { clientOrderId: _, ...older } = makeOrder(1001, 1, OrderStatus.ACKED);
+    const tagged = { ...makeOrder(1001, 2, OrderStatus.ACKED), clientOrderId: 'alpha' };
+    saved.session.orders = [older, tagged];
+
+    const decoded = decodeSession(JSON.stringify(saved));
+    const orders = typeof decoded !== 'string' ? decoded.orders : [];
+    expect(orders.map((order) => order.clientOrderId)).toEqual([null, 'alpha']);
+  });
+
+  it('reports storage failures', () => {
+    const storage = createMemoryStorage();
+    storage.setItem = () => {
+      throw new Error('QuotaExceededError');
+    };
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = createStorePersistence(createStore(), { storage }).save();
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('QuotaExceededError');
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Position math runs on integer price units, so averages and P&L stay
+ * exact however many fills accumulate.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+
+import { createStore, BookUpdateKind } from '../../src/store/index.js';
+import { Side, setPriceScale, clearPriceScales } from '../../src/protocol/index.js';
+
+afterEach(() => {
+  clearPriceScales();
+});
+
+describe('positions', () => {
+  it('does not drift over many fills', () => {
+    const store = createStore();
+
+    // Float accumulation of 0.1 drifts after a handful of additions
+    for (let i = 0; i < 1000; i += 1) {
+      store.updatePosition('AAPL', Side.BUY, 0.1, 1);
+      store.updatePosition('AAPL', Side.SELL, 0.2, 1);
+    }
+
+    const position = store.getPosition('AAPL');
+    expect(position?.buyNotional).toBe(10000);
+    expect(position?.sellNotional).toBe(20000);
+    expect(position?.avgBuyPrice).toBe(0.1);
+    expect(position?.avgSellPrice).toBe(0.2);
+    expect(position?.realizedPnl).toBe(199.9);
+  });
+
+  it('keeps the cost basis of a four-decimal symbol', () => {
+    setPriceScale('EURUSD', 4);
+    const store = createStore();
+
+    store.updatePosition('EURUSD', Side.BUY, 1.0845, 1000);
+    store.updatePosition('EURUSD', Side.BUY, 1.0847, 1000);
+    store.updatePosition('EURUSD', Side.SELL, 1.0851, 500);
+
+    const position = store.getPosition('EURUSD');
+    expect(position?.priceScale).toBe(4);
+    expect(position?.avgBuyPrice).toBe(1.0846);
+    // 500 * (1.0851 - 1.0846)
+    expect(position?.realizedPnl).toBe(0.25);
+  });
+
+  it('marks open positions to the mid', () => {
+    const store = createStore();
+    store.updatePosition('AAPL', Side.BUY, 150.25, 100);
+
+    store.applyBookUpdates('AAPL', [
+      { kind: BookUpdateKind.TOP, side: Side.BUY, price: 150.3, quantity: 10 },
+      { kind: BookUpdateKind.TOP, side: Side.SELL, price: 150.31, quantity: 10 },
+    ]);
+
+    const position = store.getPosition('AAPL');
+    expect(position?.lastPrice).toBe(150.305);
+    // 100 * (150.305 - 150.25)
+    expect(position?.unrealizedPnl).toBe(5.5);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Heartbeat: ping/pong frames, round-trip percentiles, and reconnecting
+ * a connection that has gone silent.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+import {
+  createLatencyWindow,
+  createWebSocketClient,
+  encodePing,
+  parsePong,
+  ConnectionState,
+} from '../../src/transport/index.js';
+import { FakeSocket } from './helpers.js';
+
+afterEach(() => {
+  FakeSocket.instances = [];
+  vi.useRealTimers();
+});
+
+describe('heartbeat frames', () => {
+  it('round-trips a ping token through the pong', () => {
+    expect(encodePing(42)).toBe('PING 42');
+    expect(parsePong('PONG 42')).toBe(42);
+  });
+
+  it('ignores anything that is not a well-formed pong', () => {
+    expect(parsePong('PING 42')).toBeNull();
+    expect(parsePong('PONG ')).toBeNull();
+    expect(parsePong('PONG -1')).toBeNull();
+    expect(parsePong('PONG 1'.padEnd(65, '0'))).toBeNull();
+  });
+});
+
+describe('latency window', () => {
+  it('reports nearest-rank percentiles', () => {
+    const window = createLatencyWindow();
+    expect(window.getStats()).toBeNull();
+
+    for (let ms = 1; ms <= 100; ms += 1) {
+      window.record(ms);
+    }
+
+    expect(window.getStats()).toEqual({
+      samples: 100,
+      p50Ms: 50,
+      p90Ms: 90,
+      p99Ms: 99,
+      maxMs: 100,
+    });
+  });
+
+  it('keeps only the newest round trips', () => {
+    const window = createLatencyWindow(4);
+    [100, 100, 1, 2, 3, 4].forEach((ms) => window.record(ms));
+
+    expect(window.getStats()?.maxMs).toBe(4);
+    expect(window.getStats()?.samples).toBe(4);
+
+    window.reset();
+    expect(window.getStats()).toBeNull();
+  });
+});
+
+describe('websocket client heartbeat', () => {
+  it('measures the round trip of each answered ping', () => {
+    const client = createWebSocketClient('ws://relay/orders', { webSocketImpl: FakeSocket });
+    const onLatency = vi.fn();
+    client.onLatency(onLatency);
+    client.connect();
+
+    const socket = FakeSocket.instances[0];
+    socket.open();
+    expect(socket.sent).toEqual(['PING 0']);
+
+    socket.receive('PONG 0');
+    // A repeated pong is not measured twice
+    socket.receive('PONG 0');
+
+    expect(onLatency).toHaveBeenCalledTimes(1);
+    expect(client.getStats().latency?.samples).toBe(1);
+    // Text frames are not protocol messages
+    expect(client.getStats().messagesReceived).toBe(0);
+
+    client.destroy();
+  });
+
+  it('reconnects a connection that has gone silent', () => {
+    vi.useFakeTimers();
+    const client = createWebSocketClient('ws://relay/orders', {
+      webSocketImpl: FakeSocket,
+      healthCheckIntervalMs: 1000,
+      staleTimeoutMs: 2500,
+    });
+    const onError = vi.fn();
+    client.onError(onError);
+    client.connect();
+    FakeSocket.instances[0].open();
+
+    vi.advanceTimersByTime(2000);
+    expect(client.getState()).toBe(ConnectionState.CONNECTED);
+    expect(FakeSocket.instances[0].sent).toEqual(['PING 0', 'PING 1', 'PING 2']);
+
+    vi.advanceTimersByTime(1000);
+    expect(client.getState()).toBe(ConnectionState.RECONNECTING);
+    expect(client.getStats().staleDisconnects).toBe(1);
+    expect(onError).toHaveBeenCalledWith(new Error('No data for 2500 ms, reconnecting'));
+
+    // Backoff elapses and a fresh socket is opened
+    vi.advanceTimersByTime(2000);
+    expect(FakeSocket.instances).toHaveLength(2);
+
+    client.destroy();
+  });
+});
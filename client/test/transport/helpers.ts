@@ -0,0 +1,41 @@
+/**
+ * Shared helpers for transport tests: a WebSocket stand-in the test opens,
+ * feeds and closes by hand.
+ */
+
+import { type WebSocketLike } from '../../src/transport/index.js';
+
+// Opens when told to; records what the client sends
+export class FakeSocket implements WebSocketLike {
+  static instances: FakeSocket[] = [];
+
+  readyState = 0;
+  binaryType = 'blob';
+  onopen: ((event: never) => void) | null = null;
+  onclose: ((event: never) => void) | null = null;
+  onerror: ((event: never) => void) | null = null;
+  onmessage: ((event: never) => void) | null = null;
+  readonly sent: (Uint8Array | string)[] = [];
+
+  constructor(readonly url: string) {
+    FakeSocket.instances.push(this);
+  }
+
+  open(): void {
+    this.readyState = 1;
+    this.onopen?.(undefined as never);
+  }
+
+  receive(data: string | ArrayBuffer): void {
+    this.onmessage?.({ data } as never);
+  }
+
+  send(data: Uint8Array | string): void {
+    this.sent.push(data);
+  }
+
+  close(): void {
+    this.readyState = 3;
+    this.onclose?.(undefined as never);
+  }
+}
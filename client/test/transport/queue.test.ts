@@ -0,0 +1,149 @@
+/**
+ * Outbound queue: what happens to orders sent while the orders connection
+ * is down, under each queue policy.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+import {
+  createConnectionManager,
+  QueuePolicy,
+  QueueEventType,
+  type ConnectionManager,
+  type ConnectionManagerConfig,
+} from '../../src/transport/index.js';
+import {
+  Codec,
+  MessageType,
+  Side,
+  type InputMessage,
+} from '../../src/protocol/index.js';
+import { FakeSocket } from './helpers.js';
+
+const NEW_ORDER: InputMessage = {
+  type: MessageType.NEW_ORDER,
+  symbol: 'AAPL',
+  userId: 1,
+  userOrderId: 1,
+  side: Side.BUY,
+  price: 150.25,
+  quantity: 100,
+};
+
+const CANCEL: InputMessage = {
+  type: MessageType.CANCEL,
+  symbol: 'AAPL',
+  userId: 1,
+  userOrderId: 1,
+};
+
+function createManager(overrides: Partial<ConnectionManagerConfig>): ConnectionManager {
+  const manager = createConnectionManager('relay', {
+    ordersUrl: 'ws://relay/orders',
+    marketDataUrl: null,
+    outboundCodec: Codec.BINARY,
+    webSocketImpl: FakeSocket,
+    ...overrides,
+  });
+  manager.connect();
+  return manager;
+}
+
+/** Types of the messages a queue handler heard about, in order. */
+function recordQueueEvents(manager: ConnectionManager): string[] {
+  const events: string[] = [];
+  manager.onQueueEvent((type, queued) => {
+    events.push(`${type} ${queued.message.type}`);
+  });
+  return events;
+}
+
+afterEach(() => {
+  FakeSocket.instances = [];
+  vi.useRealTimers();
+});
+
+describe('outbound queue', () => {
+  it('replays queued messages in order once connected', () => {
+    const manager = createManager({ queuePolicy: QueuePolicy.QUEUE });
+    const events = recordQueueEvents(manager);
+
+    expect(manager.sendOrder(NEW_ORDER)).toEqual({ success: true, queued: true, error: null });
+    manager.sendOrder(CANCEL);
+    expect(manager.getQueuedMessages()).toHaveLength(2);
+
+    const socket = FakeSocket.instances[0];
+    socket.open();
+
+    // The heartbeat ping is a text frame; protocol messages are binary
+    expect(socket.sent.filter((frame) => typeof frame !== 'string')).toHaveLength(2);
+    expect(events).toEqual(['SENT NEW_ORDER', 'SENT CANCEL']);
+    expect(manager.getQueuedMessages()).toEqual([]);
+
+    manager.destroy();
+  });
+
+  it('refuses everything under the reject policy', () => {
+    const manager = createManager({ queuePolicy: QueuePolicy.REJECT });
+
+    expect(manager.sendOrder(NEW_ORDER)).toEqual({
+      success: false,
+      queued: false,
+      error: 'Not connected',
+    });
+    expect(manager.sendOrder(CANCEL).success).toBe(false);
+
+    manager.destroy();
+  });
+
+  it('queues only cancels under the cancels-only policy', () => {
+    const manager = createManager({ queuePolicy: QueuePolicy.QUEUE });
+    manager.setQueuePolicy(QueuePolicy.QUEUE_CANCELS_ONLY);
+
+    expect(manager.sendOrder(NEW_ORDER).success).toBe(false);
+    expect(manager.sendOrder(CANCEL).queued).toBe(true);
+    expect(manager.getQueuePolicy()).toBe(QueuePolicy.QUEUE_CANCELS_ONLY);
+
+    manager.destroy();
+  });
+
+  it('drops messages past their expiry instead of replaying them', () => {
+    vi.useFakeTimers();
+    const manager = createManager({ queuePolicy: QueuePolicy.QUEUE, queueMaxAgeMs: 5000 });
+    const events = recordQueueEvents(manager);
+
+    manager.sendOrder(NEW_ORDER);
+    // This one asks for less than the max age
+    manager.sendOrder(CANCEL, Date.now() + 1000);
+
+    vi.advanceTimersByTime(2000);
+    expect(manager.expireQueue()).toBe(1);
+    expect(events).toEqual(['EXPIRED CANCEL']);
+
+    vi.advanceTimersByTime(4000);
+    FakeSocket.instances[0].open();
+
+    expect(events).toEqual(['EXPIRED CANCEL', 'EXPIRED NEW_ORDER']);
+    expect(FakeSocket.instances[0].sent.every((frame) => typeof frame === 'string')).toBe(true);
+
+    manager.destroy();
+  });
+
+  it('drops the whole queue on request', () => {
+    const manager = createManager({ queuePolicy: QueuePolicy.QUEUE });
+    const events = recordQueueEvents(manager);
+    manager.sendOrder(NEW_ORDER);
+    manager.sendOrder(CANCEL);
+
+    expect(manager.clearQueue()).toBe(2);
+    expect(events).toEqual([
+      `${QueueEventType.CLEARED} NEW_ORDER`,
+      `${QueueEventType.CLEARED} CANCEL`,
+    ]);
+
+    FakeSocket.instances[0].open();
+    expect(FakeSocket.instances[0].sent.every((frame) => typeof frame === 'string')).toBe(true);
+
+    manager.destroy();
+  });
+});
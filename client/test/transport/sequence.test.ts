@@ -0,0 +1,167 @@
+/**
+ * Market-data sequencing: header parsing, gap and duplicate detection,
+ * and snapshot recovery through the connection manager.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+import {
+  createConnectionManager,
+  createFeedSequencer,
+  parseSequencedPacket,
+  parseSnapshotEnd,
+  FeedState,
+  SequenceCheck,
+  type ConnectionManager,
+  type FeedHealth,
+} from '../../src/transport/index.js';
+import { Codec, type OutputMessage } from '../../src/protocol/index.js';
+import { FakeSocket } from './helpers.js';
+
+/** A multicast packet as the relay forwards it: sequence header, then CSV. */
+function packet(sequence: number, csv: string): ArrayBuffer {
+  const payload = new TextEncoder().encode(csv);
+  const bytes = new Uint8Array(8 + payload.length);
+  new DataView(bytes.buffer).setBigUint64(0, BigInt(sequence), false);
+  bytes.set(payload, 8);
+  return bytes.buffer;
+}
+
+afterEach(() => {
+  FakeSocket.instances = [];
+  vi.useRealTimers();
+});
+
+describe('sequenced packets', () => {
+  it('splits the big-endian header from the payload', () => {
+    const parsed = parseSequencedPacket(new Uint8Array(packet(258, 'B,AAPL,B,15025,100')));
+
+    expect(parsed?.sequence).toBe(258);
+    expect(new TextDecoder().decode(parsed?.payload)).toBe('B,AAPL,B,15025,100');
+  });
+
+  it('rejects packets without a full header', () => {
+    expect(parseSequencedPacket(new Uint8Array(7))).toBeNull();
+  });
+
+  it('parses the end of a snapshot', () => {
+    expect(parseSnapshotEnd('SNAPSHOT_END 17')).toBe(17);
+    expect(parseSnapshotEnd('SNAPSHOT_END')).toBeNull();
+    expect(parseSnapshotEnd('PONG 17')).toBeNull();
+  });
+});
+
+describe('feed sequencer', () => {
+  it('classifies gaps, duplicates and restarts', () => {
+    const sequencer = createFeedSequencer();
+
+    expect([5, 6, 9, 9, 7, 10, 1, 0].map((sequence) => sequencer.check(sequence))).toEqual([
+      SequenceCheck.FIRST,
+      SequenceCheck.IN_ORDER,
+      SequenceCheck.GAP,
+      SequenceCheck.DUPLICATE,
+      SequenceCheck.DUPLICATE,
+      SequenceCheck.IN_ORDER,
+      SequenceCheck.GAP,
+      SequenceCheck.SNAPSHOT,
+    ]);
+    expect(sequencer.getHealth()).toMatchObject({
+      state: FeedState.STALE,
+      lastSequence: 1,
+      gaps: 2,
+      missedMessages: 2,
+      duplicates: 2,
+    });
+  });
+
+  it('recovers at the sequence the snapshot ended at', () => {
+    const sequencer = createFeedSequencer();
+    sequencer.check(1);
+    sequencer.check(4);
+
+    sequencer.completeSnapshot(10);
+
+    expect(sequencer.getHealth().state).toBe(FeedState.OK);
+    expect(sequencer.check(10)).toBe(SequenceCheck.DUPLICATE);
+    expect(sequencer.check(11)).toBe(SequenceCheck.IN_ORDER);
+  });
+});
+
+describe('connection manager feed health', () => {
+  function connectMarketData(): {
+    manager: ConnectionManager;
+    socket: FakeSocket;
+    messages: OutputMessage[];
+    health: FeedHealth[];
+  } {
+    const manager = createConnectionManager('relay', {
+      ordersUrl: 'ws://relay/orders',
+      marketDataUrl: 'ws://relay/market-data',
+      outboundCodec: Codec.CSV,
+      webSocketImpl: FakeSocket,
+    });
+    const messages: OutputMessage[] = [];
+    const health: FeedHealth[] = [];
+    manager.onMessage((message) => messages.push(message));
+    manager.onFeedHealth((next) => health.push(next));
+    manager.connect();
+
+    const socket = FakeSocket.instances[1];
+    socket.open();
+    return { manager, socket, messages, health };
+  }
+
+  it('drops duplicates and asks for a snapshot after a gap', () => {
+    const { manager, socket, messages, health } = connectMarketData();
+
+    socket.receive(packet(1, 'B,AAPL,B,15025,100'));
+    socket.receive(packet(1, 'B,AAPL,B,15025,100'));
+    socket.receive(packet(4, 'B,AAPL,B,15030,200'));
+
+    expect(messages).toHaveLength(2);
+    expect(socket.sent).toContain('SNAPSHOT');
+    expect(health.map((h) => [h.state, h.duplicates, h.gaps])).toEqual([
+      [FeedState.OK, 1, 0],
+      // The gap, then the snapshot request it triggered
+      [FeedState.STALE, 1, 1],
+      [FeedState.STALE, 1, 1],
+    ]);
+
+    // Cached book, then live data resumes after the snapshot's sequence
+    socket.receive(packet(0, 'B,AAPL,S,15035,300'));
+    socket.receive('SNAPSHOT_END 6');
+    socket.receive(packet(7, 'B,AAPL,B,15030,100'));
+
+    expect(messages).toHaveLength(4);
+    expect(manager.getStats().marketDataFeed).toMatchObject({
+      state: FeedState.OK,
+      lastSequence: 7,
+      snapshotsRequested: 1,
+      snapshotsCompleted: 1,
+    });
+
+    manager.destroy();
+  });
+
+  it('stays stale across a reconnect until the relay sends its snapshot', () => {
+    vi.useFakeTimers();
+    const { manager, socket, health } = connectMarketData();
+    socket.receive(packet(1, 'B,AAPL,B,15025,100'));
+
+    socket.close();
+    expect(health[health.length - 1].state).toBe(FeedState.STALE);
+
+    // Backoff elapses and a fresh socket is opened
+    vi.advanceTimersByTime(2000);
+    const reconnected = FakeSocket.instances[2];
+    reconnected.open();
+    expect(manager.getStats().marketDataFeed?.state).toBe(FeedState.STALE);
+
+    // The relay's snapshot on connect; no request needed
+    reconnected.receive('SNAPSHOT_END 3');
+    expect(manager.getStats().marketDataFeed?.state).toBe(FeedState.OK);
+    expect(reconnected.sent).not.toContain('SNAPSHOT');
+
+    manager.destroy();
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Mock matching engine entry point.
+ *
+ * Stands in for the Zig engine during development: accepts orders on
+ * TCP, matches them, and publishes top-of-book over UDP multicast. The
+ * defaults line up with the relay's, so `npm run engine` followed by
+ * `npm run relay` works without any configuration.
+ *
+ * @module mock-engine
+ */
+
+import { createMatchingEngine } from './matching-engine.js';
+import { createTcpServer, type TcpServer } from './tcp-server.js';
+import { createMulticastPublisher, type MulticastPublisher } from './multicast-publisher.js';
+import { WireCodec } from './wire.js';
+
+// ============================================================================
+// Configuration from Environment
+// ============================================================================
+
+function getEnvInt(name: string, defaultValue: number): number {
+  const value = process.env[name];
+  if (value === undefined) {
+    return defaultValue;
+  }
+  const parsed = parseInt(value, 10);
+  if (!Number.isFinite(parsed)) {
+    return defaultValue;
+  }
+  return parsed;
+}
+
+function getEnvString(name: string, defaultValue: string): string {
+  const value = process.env[name];
+  if (value === undefined) {
+    return defaultValue;
+  }
+  return value;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main(): Promise<void> {
+  // Parse configuration from environment
+  const tcpPort = getEnvInt('ME_TCP_PORT', 1234);
+  const multicastGroup = getEnvString('ME_MCAST_GROUP', '239.255.0.1');
+  const multicastPort = getEnvInt('ME_MCAST_PORT', 1236);
+  const multicastCodec =
+    getEnvString('ME_MCAST_CODEC', 'binary').toLowerCase() === 'csv'
+      ? WireCodec.CSV
+      : WireCodec.BINARY;
+
+  const engine = createMatchingEngine();
+
+  const publisher: MulticastPublisher = createMulticastPublisher({
+    multicastGroup,
+    multicastPort,
+    codec: multicastCodec,
+  });
+
+  const tcpServer: TcpServer = createTcpServer(engine, publisher.publish, {
+    port: tcpPort,
+  });
+
+  // Graceful shutdown
+  let shuttingDown = false;
+
+  async function shutdown(): Promise<void> {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+
+    console.log('\nShutting down...');
+
+    await tcpServer.stop();
+    await publisher.stop();
+
+    process.exit(0);
+  }
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  try {
+    await publisher.start();
+    await tcpServer.start();
+
+    console.log('\nMock engine running. Press Ctrl+C to stop.\n');
+
+    // Print stats periodically
+    setInterval(() => {
+      const engineStats = engine.getStats();
+      const tcpStats = tcpServer.getStats();
+      const mcastStats = publisher.getStats();
+
+      console.log(
+        `[ENGINE] sessions=${tcpStats.sessionCount} ` +
+        `orders=${engineStats.ordersReceived} ` +
+        `resting=${engineStats.restingOrders} ` +
+        `trades=${engineStats.trades} ` +
+        `rejects=${engineStats.rejects}`
+      );
+      console.log(
+        `[MCAST] packets=${mcastStats.packetsSent} ` +
+        `seq=${mcastStats.lastSequence}`
+      );
+    }, 10000);
+  } catch (err) {
+    console.error('Failed to start mock engine:', err);
+    process.exit(1);
+  }
+}
+
+// Run
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
+
+// ============================================================================
+// Exports for programmatic use
+// ============================================================================
+
+export { createMatchingEngine, type MatchingEngine, type MatchingEngineStats } from './matching-engine.js';
+export { createTcpServer, type TcpServer, type TcpServerConfig, type TcpServerStats } from './tcp-server.js';
+export { createMulticastPublisher, type MulticastPublisher, type MulticastPublisherConfig } from './multicast-publisher.js';
@@ -0,0 +1,277 @@
+/**
+ * Matching engine core: validates requests, runs the per-symbol books
+ * and produces the responses each session should receive plus the
+ * top-of-book changes to publish.
+ *
+ * Response order per request follows the Zig engine: Ack (or Reject)
+ * first, then one Trade per fill. Trades go to both counterparties'
+ * sessions.
+ *
+ * @module mock-engine/matching-engine
+ */
+
+import { createOrderBook, type OrderBook, type RestingOrder, MAX_ORDERS_PER_BOOK } from './order-book.js';
+import {
+  type EngineInput,
+  type EngineOutput,
+  type NewOrderRequest,
+  type CancelRequest,
+  type TopOfBookMessage,
+  Side,
+  RejectReason,
+} from './wire.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MAX_SYMBOLS = 64;
+const MAX_SYMBOL_LENGTH = 8;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RoutedOutput {
+  readonly sessionId: number;
+  readonly message: EngineOutput;
+}
+
+export interface EngineResult {
+  readonly responses: RoutedOutput[];
+  readonly marketData: TopOfBookMessage[];
+}
+
+export interface MatchingEngineStats {
+  readonly symbols: number;
+  readonly restingOrders: number;
+  readonly ordersReceived: number;
+  readonly trades: number;
+  readonly rejects: number;
+}
+
+export interface MatchingEngine {
+  process(input: EngineInput, sessionId: number): EngineResult;
+  getStats(): MatchingEngineStats;
+}
+
+// ============================================================================
+// Matching Engine
+// ============================================================================
+
+export function createMatchingEngine(): MatchingEngine {
+  // --------------------------------------------------------------------------
+  // State
+  // --------------------------------------------------------------------------
+
+  const books = new Map<string, OrderBook>();
+  // Last published top per `${symbol}:${side}`, so only changes go out
+  const lastTops = new Map<string, string>();
+
+  let ordersReceived = 0;
+  let trades = 0;
+  let rejects = 0;
+
+  // --------------------------------------------------------------------------
+  // Helpers
+  // --------------------------------------------------------------------------
+
+  function reject(
+    sessionId: number,
+    symbol: string,
+    userId: number,
+    userOrderId: number,
+    reason: RejectReason
+  ): EngineResult {
+    rejects += 1;
+    return {
+      responses: [{
+        sessionId,
+        message: { type: 'REJECT', symbol, userId, userOrderId, reason },
+      }],
+      marketData: [],
+    };
+  }
+
+  function getOrCreateBook(symbol: string): OrderBook | null {
+    const existing = books.get(symbol);
+    if (existing !== undefined) {
+      return existing;
+    }
+    if (books.size >= MAX_SYMBOLS) {
+      return null;
+    }
+    const book = createOrderBook(symbol);
+    books.set(symbol, book);
+    return book;
+  }
+
+  function collectTopChanges(book: OrderBook): TopOfBookMessage[] {
+    const changes: TopOfBookMessage[] = [];
+
+    for (const side of [Side.BUY, Side.SELL]) {
+      const top = book.getTop(side);
+      const key = `${book.symbol}:${side}`;
+      const value = `${top.price}:${top.quantity}`;
+
+      if (lastTops.get(key) !== value) {
+        lastTops.set(key, value);
+        changes.push({
+          type: 'TOP_OF_BOOK',
+          symbol: book.symbol,
+          side,
+          price: top.price,
+          quantity: top.quantity,
+        });
+      }
+    }
+
+    return changes;
+  }
+
+  // --------------------------------------------------------------------------
+  // Request Handlers
+  // --------------------------------------------------------------------------
+
+  function handleNewOrder(msg: NewOrderRequest, sessionId: number): EngineResult {
+    ordersReceived += 1;
+
+    if (msg.symbol.length === 0 || msg.symbol.length > MAX_SYMBOL_LENGTH) {
+      return reject(sessionId, msg.symbol, msg.userId, msg.userOrderId, RejectReason.INVALID_SYMBOL);
+    }
+    if (msg.price <= 0) {
+      return reject(sessionId, msg.symbol, msg.userId, msg.userOrderId, RejectReason.INVALID_PRICE);
+    }
+    if (msg.quantity <= 0) {
+      return reject(sessionId, msg.symbol, msg.userId, msg.userOrderId, RejectReason.INVALID_QUANTITY);
+    }
+
+    const book = getOrCreateBook(msg.symbol);
+    if (book === null || book.getOrderCount() >= MAX_ORDERS_PER_BOOK) {
+      return reject(sessionId, msg.symbol, msg.userId, msg.userOrderId, RejectReason.SYSTEM_FULL);
+    }
+    if (book.has(msg.userId, msg.userOrderId)) {
+      return reject(sessionId, msg.symbol, msg.userId, msg.userOrderId, RejectReason.DUPLICATE_ORDER_ID);
+    }
+
+    const responses: RoutedOutput[] = [{
+      sessionId,
+      message: { type: 'ACK', symbol: msg.symbol, userId: msg.userId, userOrderId: msg.userOrderId },
+    }];
+
+    const incoming: RestingOrder = {
+      userId: msg.userId,
+      userOrderId: msg.userOrderId,
+      side: msg.side,
+      price: msg.price,
+      sessionId,
+      remaining: msg.quantity,
+    };
+
+    const fills = book.add(incoming);
+
+    for (const fill of fills) {
+      const buy = msg.side === Side.BUY ? incoming : fill.resting;
+      const sell = msg.side === Side.BUY ? fill.resting : incoming;
+      const trade: EngineOutput = {
+        type: 'TRADE',
+        symbol: msg.symbol,
+        buyUserId: buy.userId,
+        buyOrderId: buy.userOrderId,
+        sellUserId: sell.userId,
+        sellOrderId: sell.userOrderId,
+        price: fill.price,
+        quantity: fill.quantity,
+      };
+
+      trades += 1;
+      responses.push({ sessionId, message: trade });
+      if (fill.resting.sessionId !== sessionId) {
+        responses.push({ sessionId: fill.resting.sessionId, message: trade });
+      }
+    }
+
+    return { responses, marketData: collectTopChanges(book) };
+  }
+
+  function handleCancel(msg: CancelRequest, sessionId: number): EngineResult {
+    const book = books.get(msg.symbol);
+    const cancelled = book !== undefined ? book.cancel(msg.userId, msg.userOrderId) : null;
+
+    if (book === undefined || cancelled === null) {
+      return reject(sessionId, msg.symbol, msg.userId, msg.userOrderId, RejectReason.ORDER_NOT_FOUND);
+    }
+
+    return {
+      responses: [{
+        sessionId,
+        message: { type: 'CANCEL_ACK', symbol: msg.symbol, userId: msg.userId, userOrderId: msg.userOrderId },
+      }],
+      marketData: collectTopChanges(book),
+    };
+  }
+
+  /** FLUSH carries no user: it cancels everything the session placed. */
+  function handleFlush(sessionId: number): EngineResult {
+    const responses: RoutedOutput[] = [];
+    const marketData: TopOfBookMessage[] = [];
+
+    books.forEach((book: OrderBook) => {
+      const removed = book.removeSession(sessionId);
+      for (const order of removed) {
+        responses.push({
+          sessionId,
+          message: {
+            type: 'CANCEL_ACK',
+            symbol: book.symbol,
+            userId: order.userId,
+            userOrderId: order.userOrderId,
+          },
+        });
+      }
+      if (removed.length > 0) {
+        marketData.push(...collectTopChanges(book));
+      }
+    });
+
+    return { responses, marketData };
+  }
+
+  // --------------------------------------------------------------------------
+  // Public API
+  // --------------------------------------------------------------------------
+
+  function process(input: EngineInput, sessionId: number): EngineResult {
+    if (input.type === 'NEW_ORDER') {
+      return handleNewOrder(input, sessionId);
+    }
+    if (input.type === 'CANCEL') {
+      return handleCancel(input, sessionId);
+    }
+    return handleFlush(sessionId);
+  }
+
+  function getStats(): MatchingEngineStats {
+    let restingOrders = 0;
+    books.forEach((book: OrderBook) => {
+      restingOrders += book.getOrderCount();
+    });
+
+    return {
+      symbols: books.size,
+      restingOrders,
+      ordersReceived,
+      trades,
+      rejects,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Return interface
+  // --------------------------------------------------------------------------
+
+  return {
+    process,
+    getStats,
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * UDP multicast market data publisher for the mock engine.
+ *
+ * Each packet is an 8-byte big-endian sequence number followed by one
+ * encoded TopOfBook message, the layout the multicast relay's sequence
+ * check expects. Sequence numbers start at 1.
+ *
+ * One message per packet keeps things simple for consumers; the client's
+ * binary batch decoder does not split variable-size messages.
+ *
+ * @module mock-engine/multicast-publisher
+ */
+
+import { createSocket, Socket as UdpSocket } from 'dgram';
+import { type TopOfBookMessage, WireCodec, encodeOutput } from './wire.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SEQUENCE_SIZE = 8;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MulticastPublisherConfig {
+  readonly multicastGroup: string;
+  readonly multicastPort: number;
+  readonly multicastInterface: string;
+  readonly ttl: number;
+  readonly codec: WireCodec;
+}
+
+export interface MulticastPublisherStats {
+  readonly packetsSent: number;
+  readonly messagesPublished: number;
+  readonly lastSequence: bigint;
+}
+
+export interface MulticastPublisher {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  publish(updates: TopOfBookMessage[]): void;
+  getStats(): MulticastPublisherStats;
+}
+
+// ============================================================================
+// Default Configuration
+// ============================================================================
+
+function createDefaultConfig(): MulticastPublisherConfig {
+  return {
+    multicastGroup: '239.255.0.1',
+    multicastPort: 1236,
+    multicastInterface: '0.0.0.0',
+    ttl: 1,
+    codec: WireCodec.BINARY,
+  };
+}
+
+// ============================================================================
+// Multicast Publisher
+// ============================================================================
+
+export function createMulticastPublisher(
+  configOverrides?: Partial<MulticastPublisherConfig>
+): MulticastPublisher {
+  // --------------------------------------------------------------------------
+  // State
+  // --------------------------------------------------------------------------
+
+  const config: MulticastPublisherConfig = {
+    ...createDefaultConfig(),
+    ...configOverrides,
+  };
+
+  let udpSocket: UdpSocket | null = null;
+  let sequence: bigint = BigInt(0);
+
+  // Stats
+  let packetsSent = 0;
+  let messagesPublished = 0;
+
+  // --------------------------------------------------------------------------
+  // Packet Assembly
+  // --------------------------------------------------------------------------
+
+  function sendPacket(payload: Buffer): void {
+    if (udpSocket === null) {
+      return;
+    }
+
+    sequence += BigInt(1);
+    const header = Buffer.alloc(SEQUENCE_SIZE);
+    header.writeBigUInt64BE(sequence, 0);
+
+    udpSocket.send(
+      Buffer.concat([header, payload]),
+      config.multicastPort,
+      config.multicastGroup,
+      (err: Error | null) => {
+        if (err !== null) {
+          console.error('Multicast send failed:', err.message);
+        }
+      }
+    );
+    packetsSent += 1;
+  }
+
+  // --------------------------------------------------------------------------
+  // Public API
+  // --------------------------------------------------------------------------
+
+  async function start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      udpSocket = createSocket({ type: 'udp4', reuseAddr: true });
+
+      udpSocket.on('error', (err: Error) => {
+        reject(err);
+      });
+
+      // Any local port; packets are addressed to the group
+      udpSocket.bind(0, () => {
+        if (udpSocket === null) {
+          resolve();
+          return;
+        }
+
+        udpSocket.setMulticastTTL(config.ttl);
+        udpSocket.setMulticastLoopback(true);
+        if (config.multicastInterface !== '0.0.0.0') {
+          udpSocket.setMulticastInterface(config.multicastInterface);
+        }
+
+        console.log(
+          `Publishing market data to ${config.multicastGroup}:${config.multicastPort} ` +
+          `(${config.codec})`
+        );
+        resolve();
+      });
+    });
+  }
+
+  async function stop(): Promise<void> {
+    return new Promise((resolve) => {
+      if (udpSocket === null) {
+        resolve();
+        return;
+      }
+
+      udpSocket.close(() => {
+        udpSocket = null;
+        console.log('Multicast publisher stopped');
+        resolve();
+      });
+    });
+  }
+
+  function publish(updates: TopOfBookMessage[]): void {
+    for (const update of updates) {
+      sendPacket(encodeOutput(update, config.codec));
+      messagesPublished += 1;
+    }
+  }
+
+  function getStats(): MulticastPublisherStats {
+    return {
+      packetsSent,
+      messagesPublished,
+      lastSequence: sequence,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Return interface
+  // --------------------------------------------------------------------------
+
+  return {
+    start,
+    stop,
+    publish,
+    getStats,
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * Price-time priority limit order book for one symbol.
+ *
+ * Each side is an array kept sorted best price first, then by arrival.
+ * Incoming orders match against the opposite side at the resting order's
+ * price; any remainder rests. Good enough for a test engine, not fast.
+ *
+ * @module mock-engine/order-book
+ */
+
+import { Side } from './wire.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const MAX_ORDERS_PER_BOOK = 10000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RestingOrder {
+  readonly userId: number;
+  readonly userOrderId: number;
+  readonly side: Side;
+  readonly price: number; // cents
+  // Session that placed the order; fills and cancels are routed there
+  readonly sessionId: number;
+  remaining: number;
+}
+
+export interface Fill {
+  readonly resting: RestingOrder;
+  readonly price: number;
+  readonly quantity: number;
+}
+
+export interface BookTop {
+  readonly price: number;
+  readonly quantity: number;
+}
+
+export interface OrderBook {
+  readonly symbol: string;
+  /**
+   * Match an incoming order, then rest whatever is left.
+   * Fills are in the order they happened.
+   */
+  add(order: RestingOrder): Fill[];
+  cancel(userId: number, userOrderId: number): RestingOrder | null;
+  /** Remove every order a session placed. */
+  removeSession(sessionId: number): RestingOrder[];
+  has(userId: number, userOrderId: number): boolean;
+  /** Best price and total quantity at that price; zeros when empty. */
+  getTop(side: Side): BookTop;
+  getOrderCount(): number;
+}
+
+// ============================================================================
+// Order Book
+// ============================================================================
+
+export function createOrderBook(symbol: string): OrderBook {
+  // --------------------------------------------------------------------------
+  // State
+  // --------------------------------------------------------------------------
+
+  // Best first: bids descending, asks ascending, FIFO within a price
+  const bids: RestingOrder[] = [];
+  const asks: RestingOrder[] = [];
+
+  // --------------------------------------------------------------------------
+  // Helpers
+  // --------------------------------------------------------------------------
+
+  function sideOf(side: Side): RestingOrder[] {
+    return side === Side.BUY ? bids : asks;
+  }
+
+  function crosses(incoming: RestingOrder, resting: RestingOrder): boolean {
+    return incoming.side === Side.BUY
+      ? incoming.price >= resting.price
+      : incoming.price <= resting.price;
+  }
+
+  /** Insert behind every order at an equal or better price. */
+  function rest(order: RestingOrder): void {
+    const orders = sideOf(order.side);
+    let index = orders.length;
+
+    // Bounded loop: orders.length iterations max
+    for (let i = 0; i < orders.length; i += 1) {
+      const better = order.side === Side.BUY
+        ? order.price > orders[i].price
+        : order.price < orders[i].price;
+      if (better) {
+        index = i;
+        break;
+      }
+    }
+
+    orders.splice(index, 0, order);
+  }
+
+  function findIndex(orders: RestingOrder[], userId: number, userOrderId: number): number {
+    for (let i = 0; i < orders.length; i += 1) {
+      if (orders[i].userId === userId && orders[i].userOrderId === userOrderId) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  // --------------------------------------------------------------------------
+  // Public API
+  // --------------------------------------------------------------------------
+
+  function add(order: RestingOrder): Fill[] {
+    const opposite = order.side === Side.BUY ? asks : bids;
+    const fills: Fill[] = [];
+
+    // Bounded loop: each pass fills or removes the best opposite order
+    while (order.remaining > 0 && opposite.length > 0 && crosses(order, opposite[0])) {
+      const resting = opposite[0];
+      const quantity = Math.min(order.remaining, resting.remaining);
+
+      order.remaining -= quantity;
+      resting.remaining -= quantity;
+      fills.push({ resting, price: resting.price, quantity });
+
+      if (resting.remaining === 0) {
+        opposite.shift();
+      }
+    }
+
+    if (order.remaining > 0) {
+      rest(order);
+    }
+
+    return fills;
+  }
+
+  function cancel(userId: number, userOrderId: number): RestingOrder | null {
+    for (const orders of [bids, asks]) {
+      const index = findIndex(orders, userId, userOrderId);
+      if (index >= 0) {
+        return orders.splice(index, 1)[0];
+      }
+    }
+    return null;
+  }
+
+  function removeSession(sessionId: number): RestingOrder[] {
+    const removed: RestingOrder[] = [];
+
+    for (const orders of [bids, asks]) {
+      // Iterate backwards so splicing does not skip entries
+      for (let i = orders.length - 1; i >= 0; i -= 1) {
+        if (orders[i].sessionId === sessionId) {
+          removed.push(orders.splice(i, 1)[0]);
+        }
+      }
+    }
+
+    return removed;
+  }
+
+  function has(userId: number, userOrderId: number): boolean {
+    return findIndex(bids, userId, userOrderId) >= 0 || findIndex(asks, userId, userOrderId) >= 0;
+  }
+
+  function getTop(side: Side): BookTop {
+    const orders = sideOf(side);
+    if (orders.length === 0) {
+      return { price: 0, quantity: 0 };
+    }
+
+    const price = orders[0].price;
+    let quantity = 0;
+    for (let i = 0; i < orders.length && orders[i].price === price; i += 1) {
+      quantity += orders[i].remaining;
+    }
+
+    return { price, quantity };
+  }
+
+  function getOrderCount(): number {
+    return bids.length + asks.length;
+  }
+
+  // --------------------------------------------------------------------------
+  // Return interface
+  // --------------------------------------------------------------------------
+
+  return {
+    symbol,
+    add,
+    cancel,
+    removeSession,
+    has,
+    getTop,
+    getOrderCount,
+  };
+}
@@ -0,0 +1,320 @@
+/**
+ * TCP order entry server for the mock engine.
+ *
+ * Each accepted connection is a session. The relay opens one per
+ * WebSocket client, so responses are written back only to the session
+ * they belong to (both sides of a trade get a copy).
+ *
+ * FRAMING:
+ * - 4-byte big-endian length prefix on every message, both directions,
+ *   matching the relay's engine session
+ *
+ * CODEC:
+ * - Detected per message; responses to a session use the codec of the
+ *   last message that session sent
+ *
+ * @module mock-engine/tcp-server
+ */
+
+import { createServer, Server, Socket } from 'net';
+import { type MatchingEngine, type EngineResult } from './matching-engine.js';
+import { type TopOfBookMessage, WireCodec, decodeInput, encodeOutput } from './wire.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LENGTH_PREFIX_SIZE = 4;
+const MAX_MESSAGE_SIZE = 1024 * 1024; // 1MB sanity limit
+const MAX_SESSIONS = 256;
+const MAX_FRAMES_PER_READ = 100;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TcpServerConfig {
+  readonly port: number;
+  readonly host: string;
+}
+
+export interface TcpServerStats {
+  readonly sessionCount: number;
+  readonly messagesReceived: number;
+  readonly messagesSent: number;
+  readonly decodeErrors: number;
+}
+
+export interface TcpServer {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  getStats(): TcpServerStats;
+}
+
+interface SessionState {
+  readonly id: number;
+  readonly socket: Socket;
+  receiveBuffer: Buffer;
+  codec: WireCodec;
+}
+
+// ============================================================================
+// Default Configuration
+// ============================================================================
+
+function createDefaultConfig(): TcpServerConfig {
+  return {
+    port: 1234,
+    host: '0.0.0.0',
+  };
+}
+
+// ============================================================================
+// TCP Server
+// ============================================================================
+
+export function createTcpServer(
+  engine: MatchingEngine,
+  onMarketData: (updates: TopOfBookMessage[]) => void,
+  configOverrides?: Partial<TcpServerConfig>
+): TcpServer {
+  // --------------------------------------------------------------------------
+  // State
+  // --------------------------------------------------------------------------
+
+  const config: TcpServerConfig = {
+    ...createDefaultConfig(),
+    ...configOverrides,
+  };
+
+  let server: Server | null = null;
+
+  // Session management (fixed-size array)
+  const sessions: (SessionState | null)[] = new Array(MAX_SESSIONS).fill(null);
+  let sessionIdCounter = 1;
+
+  // Stats
+  let messagesReceived = 0;
+  let messagesSent = 0;
+  let decodeErrors = 0;
+
+  // --------------------------------------------------------------------------
+  // Session Management
+  // --------------------------------------------------------------------------
+
+  function addSession(socket: Socket): SessionState | null {
+    // Find empty slot (bounded loop)
+    for (let i = 0; i < MAX_SESSIONS; i += 1) {
+      if (sessions[i] === null) {
+        const session: SessionState = {
+          id: sessionIdCounter,
+          socket,
+          receiveBuffer: Buffer.alloc(0),
+          codec: WireCodec.BINARY,
+        };
+        sessionIdCounter += 1;
+        sessions[i] = session;
+        return session;
+      }
+    }
+    return null;
+  }
+
+  function removeSession(session: SessionState): void {
+    for (let i = 0; i < MAX_SESSIONS; i += 1) {
+      if (sessions[i] !== null && sessions[i]!.id === session.id) {
+        sessions[i] = null;
+        break;
+      }
+    }
+  }
+
+  function findSession(id: number): SessionState | null {
+    for (let i = 0; i < MAX_SESSIONS; i += 1) {
+      const session = sessions[i];
+      if (session !== null && session.id === id) {
+        return session;
+      }
+    }
+    return null;
+  }
+
+  function getSessionCount(): number {
+    let count = 0;
+    for (let i = 0; i < MAX_SESSIONS; i += 1) {
+      if (sessions[i] !== null) {
+        count += 1;
+      }
+    }
+    return count;
+  }
+
+  // --------------------------------------------------------------------------
+  // Framing
+  // --------------------------------------------------------------------------
+
+  function writeFrame(session: SessionState, data: Buffer): void {
+    const framed = Buffer.alloc(LENGTH_PREFIX_SIZE + data.length);
+    framed.writeUInt32BE(data.length, 0);
+    data.copy(framed, LENGTH_PREFIX_SIZE);
+
+    try {
+      session.socket.write(framed);
+      messagesSent += 1;
+    } catch (err) {
+      console.error(`Session ${session.id}: failed to write:`, err);
+    }
+  }
+
+  function dispatch(result: EngineResult): void {
+    for (const routed of result.responses) {
+      // The counterparty may have disconnected; its responses are dropped
+      const target = findSession(routed.sessionId);
+      if (target !== null) {
+        writeFrame(target, encodeOutput(routed.message, target.codec));
+      }
+    }
+
+    if (result.marketData.length > 0) {
+      onMarketData(result.marketData);
+    }
+  }
+
+  function handleMessage(session: SessionState, payload: Buffer): void {
+    messagesReceived += 1;
+
+    const decoded = decodeInput(payload);
+    session.codec = decoded.codec;
+
+    if (!decoded.success || decoded.message === null) {
+      decodeErrors += 1;
+      console.warn(`Session ${session.id}: ${decoded.error ?? 'decode failed'}`);
+      return;
+    }
+
+    dispatch(engine.process(decoded.message, session.id));
+  }
+
+  function processReceiveBuffer(session: SessionState): void {
+    // Bounded loop: process up to MAX_FRAMES_PER_READ messages per call
+    let iterations = 0;
+
+    while (iterations < MAX_FRAMES_PER_READ) {
+      iterations += 1;
+
+      if (session.receiveBuffer.length < LENGTH_PREFIX_SIZE) {
+        break;
+      }
+
+      const messageLength = session.receiveBuffer.readUInt32BE(0);
+
+      if (messageLength > MAX_MESSAGE_SIZE) {
+        console.error(`Session ${session.id}: invalid message length ${messageLength}`);
+        session.socket.destroy();
+        break;
+      }
+
+      const totalLength = LENGTH_PREFIX_SIZE + messageLength;
+      if (session.receiveBuffer.length < totalLength) {
+        break;
+      }
+
+      const payload = Buffer.from(session.receiveBuffer.subarray(LENGTH_PREFIX_SIZE, totalLength));
+      session.receiveBuffer = session.receiveBuffer.subarray(totalLength);
+
+      handleMessage(session, payload);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Connection Handling
+  // --------------------------------------------------------------------------
+
+  function handleConnection(socket: Socket): void {
+    const session = addSession(socket);
+
+    if (session === null) {
+      console.warn('Max sessions reached, rejecting connection');
+      socket.destroy();
+      return;
+    }
+
+    socket.setNoDelay(true);
+    console.log(`Session ${session.id} connected from ${socket.remoteAddress}`);
+
+    socket.on('data', (data: Buffer) => {
+      session.receiveBuffer = Buffer.concat([session.receiveBuffer, data]);
+      processReceiveBuffer(session);
+    });
+
+    socket.on('close', () => {
+      // Resting orders stay in the book, as on the real engine
+      console.log(`Session ${session.id} disconnected`);
+      removeSession(session);
+    });
+
+    socket.on('error', (err: Error) => {
+      console.error(`Session ${session.id} error:`, err.message);
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Public API
+  // --------------------------------------------------------------------------
+
+  async function start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      server = createServer(handleConnection);
+
+      server.on('error', (err: Error) => {
+        reject(err);
+      });
+
+      server.listen(config.port, config.host, () => {
+        console.log(`Mock engine listening on tcp://${config.host}:${config.port}`);
+        resolve();
+      });
+    });
+  }
+
+  async function stop(): Promise<void> {
+    return new Promise((resolve) => {
+      for (let i = 0; i < MAX_SESSIONS; i += 1) {
+        const session = sessions[i];
+        if (session !== null) {
+          session.socket.destroy();
+          sessions[i] = null;
+        }
+      }
+
+      if (server !== null) {
+        server.close(() => {
+          server = null;
+          console.log('TCP server stopped');
+          resolve();
+        });
+      } else {
+        resolve();
+      }
+    });
+  }
+
+  function getStats(): TcpServerStats {
+    return {
+      sessionCount: getSessionCount(),
+      messagesReceived,
+      messagesSent,
+      decodeErrors,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Return interface
+  // --------------------------------------------------------------------------
+
+  return {
+    start,
+    stop,
+    getStats,
+  };
+}
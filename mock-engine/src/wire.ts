@@ -0,0 +1,391 @@
+/**
+ * Engine side of the wire protocol: decodes client input (CSV or binary)
+ * and encodes engine output in the codec the client used.
+ *
+ * This is the mirror image of the client codecs in client/src/protocol.
+ * Prices are integer cents throughout, as in the Zig engine.
+ *
+ * Binary (big-endian, 'M' magic + type char):
+ *   New Order (27): M N user_id symbol[8] price qty side user_order_id
+ *   Cancel    (18): M C user_id symbol[8] user_order_id
+ *   Flush      (2): M F
+ *   Ack       (18): M A symbol[8] user_id user_order_id
+ *   Cancel Ack(18): M X symbol[8] user_id user_order_id
+ *   Trade     (34): M T symbol[8] buy_uid buy_oid sell_uid sell_oid price qty
+ *   TopOfBook (20): M B symbol[8] side price qty (1 pad byte)
+ *   Reject    (19): M R symbol[8] user_id user_order_id reason
+ *
+ * CSV (newline-terminated):
+ *   Input:  N,<symbol>,<user_id>,<user_order_id>,<B|S>,<price>,<qty>
+ *           C,<symbol>,<user_id>,<user_order_id>
+ *   Output: A,<symbol>,<user_id>,<user_order_id>
+ *           X,<symbol>,<user_id>,<user_order_id>
+ *           T,<symbol>,<buy_uid>,<buy_oid>,<sell_uid>,<sell_oid>,<price_cents>,<qty>
+ *           R,<symbol>,<user_id>,<user_order_id>,<reason>
+ *           B,<symbol>,<B|S>,<price_cents>,<qty>
+ *
+ * @module mock-engine/wire
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MAGIC = 0x4d; // 'M'
+const HEADER_SIZE = 2;
+const SYMBOL_SIZE = 8;
+
+const MSG_NEW_ORDER = 0x4e; // 'N'
+const MSG_CANCEL = 0x43; // 'C'
+const MSG_FLUSH = 0x46; // 'F'
+const MSG_ACK = 0x41; // 'A'
+const MSG_CANCEL_ACK = 0x58; // 'X'
+const MSG_TRADE = 0x54; // 'T'
+const MSG_TOP_OF_BOOK = 0x42; // 'B'
+const MSG_REJECT = 0x52; // 'R'
+
+const NEW_ORDER_WIRE_SIZE = 27;
+const CANCEL_WIRE_SIZE = 18;
+const ACK_WIRE_SIZE = 18;
+const CANCEL_ACK_WIRE_SIZE = 18;
+const TRADE_WIRE_SIZE = 34;
+const TOP_OF_BOOK_WIRE_SIZE = 20;
+const REJECT_WIRE_SIZE = 19;
+
+const SIDE_BUY = 0x42; // 'B'
+const SIDE_SELL = 0x53; // 'S'
+
+const MAX_CSV_LINE_LENGTH = 256;
+const MAX_CSV_FIELDS = 8;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const WireCodec = {
+  CSV: 'CSV',
+  BINARY: 'BINARY',
+} as const;
+
+export type WireCodec = (typeof WireCodec)[keyof typeof WireCodec];
+
+export const Side = {
+  BUY: 'BUY',
+  SELL: 'SELL',
+} as const;
+
+export type Side = (typeof Side)[keyof typeof Side];
+
+// Values match RejectReason in client/src/protocol/types.ts
+export const RejectReason = {
+  UNKNOWN: 0,
+  INVALID_SYMBOL: 1,
+  INVALID_PRICE: 2,
+  INVALID_QUANTITY: 3,
+  ORDER_NOT_FOUND: 4,
+  DUPLICATE_ORDER_ID: 5,
+  SYSTEM_FULL: 6,
+} as const;
+
+export type RejectReason = (typeof RejectReason)[keyof typeof RejectReason];
+
+export interface NewOrderRequest {
+  readonly type: 'NEW_ORDER';
+  readonly symbol: string;
+  readonly userId: number;
+  readonly userOrderId: number;
+  readonly side: Side;
+  readonly price: number; // cents
+  readonly quantity: number;
+}
+
+export interface CancelRequest {
+  readonly type: 'CANCEL';
+  readonly symbol: string;
+  readonly userId: number;
+  readonly userOrderId: number;
+}
+
+export interface FlushRequest {
+  readonly type: 'FLUSH';
+}
+
+export type EngineInput = NewOrderRequest | CancelRequest | FlushRequest;
+
+export interface AckMessage {
+  readonly type: 'ACK';
+  readonly symbol: string;
+  readonly userId: number;
+  readonly userOrderId: number;
+}
+
+export interface CancelAckMessage {
+  readonly type: 'CANCEL_ACK';
+  readonly symbol: string;
+  readonly userId: number;
+  readonly userOrderId: number;
+}
+
+export interface TradeMessage {
+  readonly type: 'TRADE';
+  readonly symbol: string;
+  readonly buyUserId: number;
+  readonly buyOrderId: number;
+  readonly sellUserId: number;
+  readonly sellOrderId: number;
+  readonly price: number; // cents
+  readonly quantity: number;
+}
+
+export interface RejectMessage {
+  readonly type: 'REJECT';
+  readonly symbol: string;
+  readonly userId: number;
+  readonly userOrderId: number;
+  readonly reason: RejectReason;
+}
+
+export interface TopOfBookMessage {
+  readonly type: 'TOP_OF_BOOK';
+  readonly symbol: string;
+  readonly side: Side;
+  // 0 price and quantity = side is empty
+  readonly price: number; // cents
+  readonly quantity: number;
+}
+
+export type EngineOutput =
+  | AckMessage
+  | CancelAckMessage
+  | TradeMessage
+  | RejectMessage
+  | TopOfBookMessage;
+
+export interface InputDecodeResult {
+  readonly success: boolean;
+  readonly message: EngineInput | null;
+  readonly codec: WireCodec;
+  readonly error: string | null;
+}
+
+// ============================================================================
+// Input Decoding
+// ============================================================================
+
+function readSymbol(data: Buffer, offset: number): string {
+  let result = '';
+  for (let i = 0; i < SYMBOL_SIZE; i += 1) {
+    const byte = data[offset + i];
+    if (byte === 0) break;
+    result += String.fromCharCode(byte);
+  }
+  return result;
+}
+
+function writeSymbol(data: Buffer, offset: number, symbol: string): void {
+  for (let i = 0; i < SYMBOL_SIZE; i += 1) {
+    data[offset + i] = i < symbol.length ? symbol.charCodeAt(i) : 0;
+  }
+}
+
+function binaryResult(message: EngineInput | null, error: string | null): InputDecodeResult {
+  return { success: message !== null, message, codec: WireCodec.BINARY, error };
+}
+
+function csvResult(message: EngineInput | null, error: string | null): InputDecodeResult {
+  return { success: message !== null, message, codec: WireCodec.CSV, error };
+}
+
+function decodeBinaryInput(data: Buffer): InputDecodeResult {
+  if (data.length < HEADER_SIZE) {
+    return binaryResult(null, 'Message too short');
+  }
+
+  const msgType = data[1];
+
+  if (msgType === MSG_NEW_ORDER) {
+    if (data.length < NEW_ORDER_WIRE_SIZE) {
+      return binaryResult(null, 'Incomplete NEW_ORDER');
+    }
+    const sideByte = data[22];
+    if (sideByte !== SIDE_BUY && sideByte !== SIDE_SELL) {
+      return binaryResult(null, 'Invalid side');
+    }
+    return binaryResult({
+      type: 'NEW_ORDER',
+      userId: data.readUInt32BE(2),
+      symbol: readSymbol(data, 6),
+      price: data.readUInt32BE(14),
+      quantity: data.readUInt32BE(18),
+      side: sideByte === SIDE_BUY ? Side.BUY : Side.SELL,
+      userOrderId: data.readUInt32BE(23),
+    }, null);
+  }
+
+  if (msgType === MSG_CANCEL) {
+    if (data.length < CANCEL_WIRE_SIZE) {
+      return binaryResult(null, 'Incomplete CANCEL');
+    }
+    return binaryResult({
+      type: 'CANCEL',
+      userId: data.readUInt32BE(2),
+      symbol: readSymbol(data, 6),
+      userOrderId: data.readUInt32BE(14),
+    }, null);
+  }
+
+  if (msgType === MSG_FLUSH) {
+    return binaryResult({ type: 'FLUSH' }, null);
+  }
+
+  return binaryResult(null, `Unknown message type: 0x${msgType.toString(16)}`);
+}
+
+function parseUint(value: string | undefined): number | null {
+  if (value === undefined || !/^\d+$/.test(value)) {
+    return null;
+  }
+  return parseInt(value, 10);
+}
+
+function decodeCsvInput(data: Buffer): InputDecodeResult {
+  if (data.length > MAX_CSV_LINE_LENGTH) {
+    return csvResult(null, 'Message too long');
+  }
+
+  const line = data.toString('utf-8').trim();
+  const fields = line.split(',').map((f) => f.trim());
+  if (fields.length > MAX_CSV_FIELDS) {
+    return csvResult(null, 'Too many fields');
+  }
+
+  const msgType = fields[0];
+
+  if (msgType === 'N') {
+    const userId = parseUint(fields[2]);
+    const userOrderId = parseUint(fields[3]);
+    const sideField = fields[4];
+    const priceDollars = fields[5] !== undefined ? parseFloat(fields[5]) : NaN;
+    const quantity = parseUint(fields[6]);
+
+    if (fields.length < 7 || userId === null || userOrderId === null || quantity === null) {
+      return csvResult(null, 'NEW_ORDER: invalid fields');
+    }
+    if (sideField !== 'B' && sideField !== 'S') {
+      return csvResult(null, 'NEW_ORDER: invalid side');
+    }
+    if (!Number.isFinite(priceDollars) || priceDollars < 0) {
+      return csvResult(null, 'NEW_ORDER: invalid price');
+    }
+
+    return csvResult({
+      type: 'NEW_ORDER',
+      symbol: fields[1],
+      userId,
+      userOrderId,
+      side: sideField === 'B' ? Side.BUY : Side.SELL,
+      // CSV input carries dollars, the book works in cents
+      price: Math.round(priceDollars * 100),
+      quantity,
+    }, null);
+  }
+
+  if (msgType === 'C') {
+    const userId = parseUint(fields[2]);
+    const userOrderId = parseUint(fields[3]);
+    if (fields.length < 4 || userId === null || userOrderId === null) {
+      return csvResult(null, 'CANCEL: invalid fields');
+    }
+    return csvResult({ type: 'CANCEL', symbol: fields[1], userId, userOrderId }, null);
+  }
+
+  return csvResult(null, `Unknown message type: ${msgType}`);
+}
+
+/**
+ * Decode one framed client payload. The codec is detected from the first
+ * byte, the same way the Zig engine does it.
+ */
+export function decodeInput(data: Buffer): InputDecodeResult {
+  if (data.length === 0) {
+    return csvResult(null, 'Empty message');
+  }
+  if (data[0] === MAGIC) {
+    return decodeBinaryInput(data);
+  }
+  return decodeCsvInput(data);
+}
+
+// ============================================================================
+// Output Encoding
+// ============================================================================
+
+function encodeBinaryOutput(msg: EngineOutput): Buffer {
+  if (msg.type === 'ACK' || msg.type === 'CANCEL_ACK') {
+    const data = Buffer.alloc(msg.type === 'ACK' ? ACK_WIRE_SIZE : CANCEL_ACK_WIRE_SIZE);
+    data[0] = MAGIC;
+    data[1] = msg.type === 'ACK' ? MSG_ACK : MSG_CANCEL_ACK;
+    writeSymbol(data, 2, msg.symbol);
+    data.writeUInt32BE(msg.userId, 10);
+    data.writeUInt32BE(msg.userOrderId, 14);
+    return data;
+  }
+
+  if (msg.type === 'TRADE') {
+    const data = Buffer.alloc(TRADE_WIRE_SIZE);
+    data[0] = MAGIC;
+    data[1] = MSG_TRADE;
+    writeSymbol(data, 2, msg.symbol);
+    data.writeUInt32BE(msg.buyUserId, 10);
+    data.writeUInt32BE(msg.buyOrderId, 14);
+    data.writeUInt32BE(msg.sellUserId, 18);
+    data.writeUInt32BE(msg.sellOrderId, 22);
+    data.writeUInt32BE(msg.price, 26);
+    data.writeUInt32BE(msg.quantity, 30);
+    return data;
+  }
+
+  if (msg.type === 'REJECT') {
+    const data = Buffer.alloc(REJECT_WIRE_SIZE);
+    data[0] = MAGIC;
+    data[1] = MSG_REJECT;
+    writeSymbol(data, 2, msg.symbol);
+    data.writeUInt32BE(msg.userId, 10);
+    data.writeUInt32BE(msg.userOrderId, 14);
+    data[18] = msg.reason;
+    return data;
+  }
+
+  const data = Buffer.alloc(TOP_OF_BOOK_WIRE_SIZE);
+  data[0] = MAGIC;
+  data[1] = MSG_TOP_OF_BOOK;
+  writeSymbol(data, 2, msg.symbol);
+  data[10] = msg.side === Side.BUY ? SIDE_BUY : SIDE_SELL;
+  data.writeUInt32BE(msg.price, 11);
+  data.writeUInt32BE(msg.quantity, 15);
+  return data;
+}
+
+function encodeCsvOutput(msg: EngineOutput): Buffer {
+  let line: string;
+
+  if (msg.type === 'ACK') {
+    line = `A,${msg.symbol},${msg.userId},${msg.userOrderId}`;
+  } else if (msg.type === 'CANCEL_ACK') {
+    line = `X,${msg.symbol},${msg.userId},${msg.userOrderId}`;
+  } else if (msg.type === 'TRADE') {
+    line =
+      `T,${msg.symbol},${msg.buyUserId},${msg.buyOrderId},` +
+      `${msg.sellUserId},${msg.sellOrderId},${msg.price},${msg.quantity}`;
+  } else if (msg.type === 'REJECT') {
+    line = `R,${msg.symbol},${msg.userId},${msg.userOrderId},${msg.reason}`;
+  } else {
+    line = `B,${msg.symbol},${msg.side === Side.BUY ? 'B' : 'S'},${msg.price},${msg.quantity}`;
+  }
+
+  return Buffer.from(`${line}\n`, 'utf-8');
+}
+
+export function encodeOutput(msg: EngineOutput, codec: WireCodec): Buffer {
+  return codec === WireCodec.BINARY ? encodeBinaryOutput(msg) : encodeCsvOutput(msg);
+}
@@ -0,0 +1,137 @@
+/**
+ * Latest top of book per symbol, replayed to late joiners.
+ *
+ * The multicast relay decodes every market-data packet with the client's
+ * codecs and keeps the best bid and ask last published for each symbol.
+ * A WebSocket client that connects, or asks for a snapshot after a
+ * sequence gap, is sent the cache before any live packet.
+ *
+ * SNAPSHOT PACKETS:
+ * One packet per symbol, sequence header 0, followed by a two-sided CSV
+ * TopOfBook: `B,<symbol>,<bid>,<ask>,<bid qty>,<ask qty>`, prices in
+ * price units. Two-sided CSV is used whatever codec the engine publishes
+ * in, since it is the only TopOfBook form that carries both sides.
+ *
+ * @module relay/book-cache
+ */
+
+import {
+  decodeBatch,
+  getPriceScale,
+  toPriceUnits,
+  OutputMessageType,
+  Side,
+  type TopOfBookOutput,
+} from 'matching-engine-client/sdk';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MAX_SYMBOLS = 256;
+const SEQUENCE_SIZE = 8;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface CachedBook {
+  readonly bidPrice: number;
+  readonly askPrice: number;
+  readonly bidQuantity: number;
+  readonly askQuantity: number;
+}
+
+export interface BookCache {
+  /** Apply a packet's payload (after the sequence header); returns updates applied. */
+  apply(payload: Uint8Array): number;
+  /** One snapshot packet per cached symbol. */
+  getSnapshotPackets(): Buffer[];
+  getSymbolCount(): number;
+  clear(): void;
+}
+
+// ============================================================================
+// Book Cache
+// ============================================================================
+
+function encodeSnapshotPacket(symbol: string, book: CachedBook): Buffer {
+  const scale = getPriceScale(symbol);
+  const line = [
+    'B',
+    symbol,
+    toPriceUnits(book.bidPrice, scale),
+    toPriceUnits(book.askPrice, scale),
+    book.bidQuantity,
+    book.askQuantity,
+  ].join(',');
+
+  // Sequence 0: not part of the live stream
+  return Buffer.concat([Buffer.alloc(SEQUENCE_SIZE), Buffer.from(line + '\n', 'ascii')]);
+}
+
+export function createBookCache(): BookCache {
+  const books: Map<string, CachedBook> = new Map();
+
+  function applyTopOfBook(tob: TopOfBookOutput): boolean {
+    const existing = books.get(tob.symbol);
+    if (existing === undefined && books.size >= MAX_SYMBOLS) {
+      return false;
+    }
+
+    const book: CachedBook = existing ?? {
+      bidPrice: 0,
+      askPrice: 0,
+      bidQuantity: 0,
+      askQuantity: 0,
+    };
+
+    // Side-specific updates only touch their own half of the book
+    const hasBid = tob.side === null || tob.side === Side.BUY;
+    const hasAsk = tob.side === null || tob.side === Side.SELL;
+
+    books.set(tob.symbol, {
+      bidPrice: hasBid ? tob.bidPrice : book.bidPrice,
+      bidQuantity: hasBid ? tob.bidQuantity : book.bidQuantity,
+      askPrice: hasAsk ? tob.askPrice : book.askPrice,
+      askQuantity: hasAsk ? tob.askQuantity : book.askQuantity,
+    });
+    return true;
+  }
+
+  function apply(payload: Uint8Array): number {
+    if (payload.length === 0) {
+      return 0;
+    }
+
+    const result = decodeBatch(payload);
+    let applied = 0;
+
+    // Bounded by the codec's batch limit
+    for (let i = 0; i < result.messages.length; i += 1) {
+      const message = result.messages[i];
+      if (message.type === OutputMessageType.TOP_OF_BOOK && applyTopOfBook(message)) {
+        applied += 1;
+      }
+    }
+    return applied;
+  }
+
+  function getSnapshotPackets(): Buffer[] {
+    const packets: Buffer[] = [];
+    books.forEach((book, symbol) => {
+      packets.push(encodeSnapshotPacket(symbol, book));
+    });
+    return packets;
+  }
+
+  function getSymbolCount(): number {
+    return books.size;
+  }
+
+  function clear(): void {
+    books.clear();
+  }
+
+  return { apply, getSnapshotPackets, getSymbolCount, clear };
+}
@@ -0,0 +1,72 @@
+/**
+ * Control frames between browser clients and the relays.
+ *
+ * Protocol messages always travel as binary WebSocket frames. Text frames
+ * carry relay-level control traffic that is answered by the relay itself
+ * and never reaches the engine:
+ *
+ *   PING <token>  ->  PONG <token>   (client heartbeat, see client
+ *                                     transport/heartbeat)
+ *   SNAPSHOT      ->  cached book, then SNAPSHOT_END <sequence>
+ *                                    (market data only, see book-cache)
+ *
+ * @module relay/control-frames
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Matches the client's limit; anything longer is not a control frame
+export const MAX_CONTROL_FRAME_LENGTH = 64;
+
+export const ControlFrameType = {
+  PING: 'PING',
+  SNAPSHOT: 'SNAPSHOT',
+} as const;
+
+export type ControlFrameType = (typeof ControlFrameType)[keyof typeof ControlFrameType];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ControlFrame {
+  readonly type: ControlFrameType;
+  readonly argument: string;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const TOKEN_PATTERN = /^\d+$/;
+
+/** Parse a text frame, or null if it is not a known control frame. */
+export function parseControlFrame(data: Buffer): ControlFrame | null {
+  if (data.length > MAX_CONTROL_FRAME_LENGTH) {
+    return null;
+  }
+
+  const text = data.toString('utf8');
+  const space = text.indexOf(' ');
+  const command = space === -1 ? text : text.slice(0, space);
+  const argument = space === -1 ? '' : text.slice(space + 1);
+
+  if (command === ControlFrameType.PING && TOKEN_PATTERN.test(argument)) {
+    return { type: ControlFrameType.PING, argument };
+  }
+  if (command === ControlFrameType.SNAPSHOT && space === -1) {
+    return { type: ControlFrameType.SNAPSHOT, argument };
+  }
+  return null;
+}
+
+export function encodePong(token: string): string {
+  return 'PONG ' + token;
+}
+
+/** Ends a snapshot; live packets continue after `sequence`. */
+export function encodeSnapshotEnd(sequence: bigint): string {
+  return 'SNAPSHOT_END ' + sequence.toString();
+}
@@ -0,0 +1,315 @@
+/**
+ * Engine Session - one dedicated TCP connection to the matching engine.
+ *
+ * The TCP relay opens one session per WebSocket client so that engine
+ * responses (acks, trades, rejects) arrive only on the connection that
+ * sent the order, and are routed back only to that client.
+ *
+ * FRAMING:
+ * - Outbound: 4-byte big-endian length prefix added to each payload
+ * - Inbound: length prefix stripped, raw payload delivered to the owner
+ *
+ * @module relay/engine-session
+ */
+
+import { createConnection, Socket } from 'net';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LENGTH_PREFIX_SIZE = 4;
+const MAX_MESSAGE_SIZE = 1024 * 1024; // 1MB sanity limit
+const MAX_PENDING_FRAMES = 64;
+const MAX_FRAMES_PER_READ = 100;
+const TCP_CONNECT_TIMEOUT_MS = 5000;
+const TCP_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_ATTEMPTS = 10;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EngineSessionConfig {
+  readonly id: number;
+  readonly tcpHost: string;
+  readonly tcpPort: number;
+}
+
+export interface EngineSessionHandlers {
+  /** Called with each complete payload received from the engine. */
+  readonly onMessage: (data: Buffer) => void;
+  /** Called once the session has given up reconnecting. */
+  readonly onFailed: () => void;
+}
+
+export interface EngineSessionStats {
+  readonly connected: boolean;
+  readonly messagesToEngine: number;
+  readonly messagesFromEngine: number;
+}
+
+export interface EngineSession {
+  connect(): void;
+  send(data: Buffer): boolean;
+  close(): void;
+  isConnected(): boolean;
+  getStats(): EngineSessionStats;
+}
+
+// ============================================================================
+// Engine Session
+// ============================================================================
+
+export function createEngineSession(
+  config: EngineSessionConfig,
+  handlers: EngineSessionHandlers
+): EngineSession {
+  // --------------------------------------------------------------------------
+  // State
+  // --------------------------------------------------------------------------
+
+  let socket: Socket | null = null;
+  let connected = false;
+  let closed = false;
+  let reconnectAttempts = 0;
+  let reconnectTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  // Frames sent by the client before the engine connection is up
+  const pendingFrames: Buffer[] = [];
+
+  // Receive buffer for length-prefixed framing
+  let receiveBuffer: Buffer = Buffer.alloc(0);
+
+  // Stats
+  let messagesToEngine = 0;
+  let messagesFromEngine = 0;
+
+  // --------------------------------------------------------------------------
+  // Framing
+  // --------------------------------------------------------------------------
+
+  function frame(data: Buffer): Buffer {
+    // Big-endian length prefix, matching the Zig server
+    const framed = Buffer.alloc(LENGTH_PREFIX_SIZE + data.length);
+    framed.writeUInt32BE(data.length, 0);
+    data.copy(framed, LENGTH_PREFIX_SIZE);
+    return framed;
+  }
+
+  function writeFrame(data: Buffer): boolean {
+    if (socket === null || !connected) {
+      return false;
+    }
+
+    try {
+      socket.write(frame(data));
+      messagesToEngine += 1;
+      return true;
+    } catch (err) {
+      console.error(`Session ${config.id}: failed to write to TCP:`, err);
+      return false;
+    }
+  }
+
+  function flushPendingFrames(): void {
+    // Bounded loop
+    let flushed = 0;
+    while (pendingFrames.length > 0 && flushed < MAX_PENDING_FRAMES) {
+      const data = pendingFrames.shift();
+      if (data === undefined) {
+        break;
+      }
+      if (!writeFrame(data)) {
+        pendingFrames.unshift(data);
+        break;
+      }
+      flushed += 1;
+    }
+  }
+
+  function processReceiveBuffer(): void {
+    // Bounded loop: process up to MAX_FRAMES_PER_READ messages per call
+    let iterations = 0;
+
+    while (iterations < MAX_FRAMES_PER_READ) {
+      iterations += 1;
+
+      // Need at least length prefix
+      if (receiveBuffer.length < LENGTH_PREFIX_SIZE) {
+        break;
+      }
+
+      const messageLength = receiveBuffer.readUInt32BE(0);
+
+      // Sanity check
+      if (messageLength > MAX_MESSAGE_SIZE) {
+        console.error(`Session ${config.id}: invalid message length ${messageLength}`);
+        receiveBuffer = Buffer.alloc(0);
+        break;
+      }
+
+      const totalLength = LENGTH_PREFIX_SIZE + messageLength;
+
+      // Wait for complete message
+      if (receiveBuffer.length < totalLength) {
+        break;
+      }
+
+      // Extract message payload (without length prefix)
+      const messageData = Buffer.from(
+        receiveBuffer.subarray(LENGTH_PREFIX_SIZE, totalLength)
+      );
+
+      receiveBuffer = receiveBuffer.subarray(totalLength);
+
+      messagesFromEngine += 1;
+      handlers.onMessage(messageData);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // TCP Connection
+  // --------------------------------------------------------------------------
+
+  function connectInternal(): void {
+    if (socket !== null || closed) {
+      return;
+    }
+
+    const tcpSocket = createConnection({
+      host: config.tcpHost,
+      port: config.tcpPort,
+    });
+    socket = tcpSocket;
+
+    // Connection timeout
+    const timeoutId = setTimeout(() => {
+      if (!connected) {
+        console.error(`Session ${config.id}: TCP connection timeout`);
+        tcpSocket.destroy();
+      }
+    }, TCP_CONNECT_TIMEOUT_MS);
+
+    tcpSocket.on('connect', () => {
+      clearTimeout(timeoutId);
+      connected = true;
+      reconnectAttempts = 0;
+      receiveBuffer = Buffer.alloc(0);
+      console.log(
+        `Session ${config.id}: TCP connected to ${config.tcpHost}:${config.tcpPort}`
+      );
+      flushPendingFrames();
+    });
+
+    tcpSocket.on('data', (data: Buffer) => {
+      receiveBuffer = Buffer.concat([receiveBuffer, data]);
+      processReceiveBuffer();
+    });
+
+    tcpSocket.on('close', () => {
+      clearTimeout(timeoutId);
+      connected = false;
+      if (socket === tcpSocket) {
+        socket = null;
+      }
+      if (!closed) {
+        console.log(`Session ${config.id}: TCP connection closed`);
+        scheduleReconnect();
+      }
+    });
+
+    tcpSocket.on('error', (err: Error) => {
+      console.error(`Session ${config.id}: TCP error:`, err.message);
+    });
+  }
+
+  function scheduleReconnect(): void {
+    if (reconnectTimeoutId !== null || closed) {
+      return;
+    }
+
+    if (reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      console.error(`Session ${config.id}: max TCP reconnect attempts reached`);
+      handlers.onFailed();
+      return;
+    }
+
+    reconnectAttempts += 1;
+    const delay = TCP_RECONNECT_DELAY_MS * reconnectAttempts;
+
+    console.log(
+      `Session ${config.id}: scheduling TCP reconnect in ${delay}ms ` +
+      `(attempt ${reconnectAttempts})`
+    );
+
+    reconnectTimeoutId = setTimeout(() => {
+      reconnectTimeoutId = null;
+      connectInternal();
+    }, delay);
+  }
+
+  // --------------------------------------------------------------------------
+  // Public API
+  // --------------------------------------------------------------------------
+
+  function connect(): void {
+    connectInternal();
+  }
+
+  function send(data: Buffer): boolean {
+    if (connected) {
+      return writeFrame(data);
+    }
+
+    if (closed || pendingFrames.length >= MAX_PENDING_FRAMES) {
+      console.warn(`Session ${config.id}: TCP not connected, dropping message`);
+      return false;
+    }
+
+    pendingFrames.push(data);
+    return true;
+  }
+
+  function close(): void {
+    closed = true;
+
+    if (reconnectTimeoutId !== null) {
+      clearTimeout(reconnectTimeoutId);
+      reconnectTimeoutId = null;
+    }
+
+    if (socket !== null) {
+      socket.destroy();
+      socket = null;
+    }
+
+    connected = false;
+    pendingFrames.length = 0;
+    receiveBuffer = Buffer.alloc(0);
+  }
+
+  function isConnected(): boolean {
+    return connected;
+  }
+
+  function getStats(): EngineSessionStats {
+    return {
+      connected,
+      messagesToEngine,
+      messagesFromEngine,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Return interface
+  // --------------------------------------------------------------------------
+
+  return {
+    connect,
+    send,
+    close,
+    isConnected,
+    getStats,
+  };
+}
@@ -43,6 +43,7 @@ async function main(): Promise<void> {
   const tcpRelayWsPort = getEnvInt('RELAY_WS_PORT', 9080);
   const tcpHost = getEnvString('ME_TCP_HOST', 'localhost');
   const tcpPort = getEnvInt('ME_TCP_PORT', 1234);
+  const instrumentsFile = getEnvString('RELAY_INSTRUMENTS_FILE', '');
 
   const multicastRelayWsPort = getEnvInt('RELAY_MCAST_WS_PORT', 9082);
   const multicastGroup = getEnvString('ME_MCAST_GROUP', '239.255.0.1');
@@ -53,6 +54,7 @@ async function main(): Promise<void> {
     wsPort: tcpRelayWsPort,
     tcpHost,
     tcpPort,
+    instrumentsFile: instrumentsFile !== '' ? instrumentsFile : null,
   });
 
   const multicastRelay: MulticastRelay = createMulticastRelay({
@@ -95,7 +97,7 @@ async function main(): Promise<void> {
 
       console.log(
         `[TCP] clients=${tcpStats.clientCount} ` +
-        `connected=${tcpStats.tcpConnected} ` +
+        `sessions=${tcpStats.sessionsConnected} ` +
         `relayed=${tcpStats.messagesRelayed}`
       );
       console.log(
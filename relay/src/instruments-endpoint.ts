@@ -0,0 +1,68 @@
+/**
+ * Instrument reference data over HTTP.
+ *
+ * Serves a JSON or CSV instrument file at GET /instruments on the TCP
+ * relay's HTTP server, so browsers load the same reference data the
+ * relay operator configured. The file is read on every request; edits
+ * take effect without a restart.
+ *
+ * @module relay/instruments-endpoint
+ */
+
+import { readFile, stat } from 'fs/promises';
+import { extname } from 'path';
+import { IncomingMessage, ServerResponse } from 'http';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const INSTRUMENTS_PATH = '/instruments';
+
+const MAX_FILE_SIZE = 1024 * 1024;
+
+// ============================================================================
+// Endpoint
+// ============================================================================
+
+export type HttpHandler = (req: IncomingMessage, res: ServerResponse) => void;
+
+function contentTypeFor(filePath: string): string {
+  return extname(filePath).toLowerCase() === '.csv'
+    ? 'text/csv; charset=utf-8'
+    : 'application/json; charset=utf-8';
+}
+
+function send(res: ServerResponse, status: number, contentType: string, body: string | Buffer): void {
+  res.writeHead(status, {
+    'Content-Type': contentType,
+    // The UI is served from a different origin (Vite dev server)
+    'Access-Control-Allow-Origin': '*',
+    'Cache-Control': 'no-cache',
+  });
+  res.end(body);
+}
+
+export function createInstrumentsEndpoint(filePath: string): HttpHandler {
+  async function serve(res: ServerResponse): Promise<void> {
+    try {
+      const info = await stat(filePath);
+      if (info.size > MAX_FILE_SIZE) {
+        send(res, 500, 'text/plain', 'Instrument file too large');
+        return;
+      }
+      send(res, 200, contentTypeFor(filePath), await readFile(filePath));
+    } catch (err) {
+      console.error(`Failed to read instrument file ${filePath}:`, err);
+      send(res, 404, 'text/plain', 'Instrument file not available');
+    }
+  }
+
+  return (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      send(res, 405, 'text/plain', 'Method not allowed');
+      return;
+    }
+    void serve(res);
+  };
+}
@@ -6,6 +6,12 @@
  *
  * WebSocket clients connect to ws://host:port/market-data
  * Relay subscribes to multicast group and forwards all data.
+ * Heartbeat pings from clients are answered here (see control-frames).
+ *
+ * The latest top of book per symbol is cached (see book-cache). Every new
+ * client, and every client that sends SNAPSHOT, gets the cache followed
+ * by SNAPSHOT_END <last sequence forwarded> before the live stream, so it
+ * has prices immediately and knows where the live sequence resumes.
  *
  * @module relay/multicast-relay
  */
@@ -13,6 +19,13 @@
 import { WebSocketServer, WebSocket } from 'ws';
 import { createSocket, Socket as UdpSocket } from 'dgram';
 import { createServer, Server } from 'http';
+import {
+  parseControlFrame,
+  encodePong,
+  encodeSnapshotEnd,
+  ControlFrameType,
+} from './control-frames.js';
+import { createBookCache } from './book-cache.js';
 
 // ============================================================================
 // Constants
@@ -42,6 +55,8 @@ export interface MulticastRelayStats {
   readonly bytesReceived: number;
   readonly lastSequence: bigint;
   readonly sequenceGaps: number;
+  readonly cachedSymbols: number;
+  readonly snapshotsSent: number;
 }
 
 interface ClientState {
@@ -100,6 +115,10 @@ export function createMulticastRelay(
   let bytesReceived = 0;
   let lastSequence: bigint = BigInt(0);
   let sequenceGaps = 0;
+  let snapshotsSent = 0;
+
+  // Latest top of book per symbol, for late joiners
+  const bookCache = createBookCache();
 
   // --------------------------------------------------------------------------
   // Client Management
@@ -179,6 +198,11 @@ export function createMulticastRelay(
 
     const sequence = data.readBigUInt64BE(0);
 
+    // The engine restarted with empty books; so does the cache
+    if (sequence === BigInt(1) && lastSequence > BigInt(1)) {
+      bookCache.clear();
+    }
+
     if (lastSequence !== BigInt(0)) {
       const expected = lastSequence + BigInt(1);
       if (sequence !== expected) {
@@ -193,6 +217,28 @@ export function createMulticastRelay(
     lastSequence = sequence;
   }
 
+  // --------------------------------------------------------------------------
+  // Snapshots
+  // --------------------------------------------------------------------------
+
+  function sendSnapshot(client: ClientState): void {
+    if (client.ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    // Sent in one go, so no live packet can land in between
+    const packets = bookCache.getSnapshotPackets();
+    try {
+      for (let i = 0; i < packets.length; i += 1) {
+        client.ws.send(packets[i]);
+      }
+      client.ws.send(encodeSnapshotEnd(lastSequence));
+      snapshotsSent += 1;
+    } catch (err) {
+      console.error(`Failed to send snapshot to client ${client.id}:`, err);
+    }
+  }
+
   // --------------------------------------------------------------------------
   // UDP Multicast
   // --------------------------------------------------------------------------
@@ -229,6 +275,10 @@ export function createMulticastRelay(
       // Track sequence numbers
       checkSequence(msg);
 
+      if (msg.length > SEQUENCE_SIZE) {
+        bookCache.apply(msg.subarray(SEQUENCE_SIZE));
+      }
+
       // Broadcast to all WebSocket clients (raw data including sequence)
       broadcastToClients(msg);
     });
@@ -279,10 +329,24 @@ export function createMulticastRelay(
 
     console.log(`Market data client ${client.id} connected`);
 
-    // Market data is one-way (server -> client)
-    // Ignore any messages from client
-    ws.on('message', () => {
-      // No-op: market data is read-only
+    // Late joiners start from the cached book, not an empty panel
+    sendSnapshot(client);
+
+    // Market data is one-way (server -> client); clients only send
+    // heartbeat pings and snapshot requests
+    ws.on('message', (data: Buffer, isBinary: boolean) => {
+      if (isBinary) {
+        return;
+      }
+      const frame = parseControlFrame(data);
+      if (frame === null) {
+        return;
+      }
+      if (frame.type === ControlFrameType.PING) {
+        ws.send(encodePong(frame.argument));
+      } else if (frame.type === ControlFrameType.SNAPSHOT) {
+        sendSnapshot(client);
+      }
     });
 
     ws.on('close', () => {
@@ -379,6 +443,8 @@ export function createMulticastRelay(
       bytesReceived,
       lastSequence,
       sequenceGaps,
+      cachedSymbols: bookCache.getSymbolCount(),
+      snapshotsSent,
     };
   }
 
@@ -2,32 +2,39 @@
  * TCP Relay - WebSocket to TCP bridge.
  *
  * Bridges browser WebSocket connections to the Zig matching engine's
- * TCP server. 
- * 
+ * TCP server.
+ *
+ * SESSIONS:
+ * Each WebSocket client gets its own engine session (a dedicated TCP
+ * connection). Engine responses are routed back only to the client whose
+ * session received them, so traders never see each other's acks, trades
+ * or rejects.
+ *
  * FRAMING:
  * - WebSocket: No length prefix needed (WS has built-in message framing)
- * - TCP: Uses 4-byte little-endian length prefix
+ * - TCP: Uses 4-byte big-endian length prefix (see engine-session)
+ * - Text frames are heartbeats answered here, never forwarded (see
+ *   control-frames)
  *
  * WebSocket clients connect to ws://host:port/orders
  * Relay forwards to TCP engine at configured host:port
+ * With an instrument file configured, GET http://host:port/instruments
+ * serves the reference data (see instruments-endpoint)
  *
  * @module relay/tcp-relay
  */
 
 import { WebSocketServer, WebSocket } from 'ws';
-import { createConnection, Socket } from 'net';
-import { createServer, IncomingMessage, Server } from 'http';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { createEngineSession, type EngineSession } from './engine-session.js';
+import { createInstrumentsEndpoint, INSTRUMENTS_PATH } from './instruments-endpoint.js';
+import { parseControlFrame, encodePong, ControlFrameType } from './control-frames.js';
 
 // ============================================================================
 // Constants
 // ============================================================================
 
-const LENGTH_PREFIX_SIZE = 4;
-const MAX_MESSAGE_SIZE = 1024 * 1024; // 1MB sanity limit
 const MAX_CLIENTS = 256;
-const TCP_CONNECT_TIMEOUT_MS = 5000;
-const TCP_RECONNECT_DELAY_MS = 1000;
-const MAX_RECONNECT_ATTEMPTS = 10;
 
 // ============================================================================
 // Types
@@ -38,11 +45,14 @@ export interface TcpRelayConfig {
   readonly wsPath: string;
   readonly tcpHost: string;
   readonly tcpPort: number;
+  // JSON or CSV instrument file served at /instruments (null: not served)
+  readonly instrumentsFile: string | null;
 }
 
 export interface TcpRelayStats {
   readonly clientCount: number;
   readonly tcpConnected: boolean;
+  readonly sessionsConnected: number;
   readonly messagesRelayed: number;
   readonly bytesFromClients: number;
   readonly bytesToClients: number;
@@ -51,6 +61,7 @@ export interface TcpRelayStats {
 interface ClientState {
   readonly id: number;
   readonly ws: WebSocket;
+  readonly session: EngineSession;
 }
 
 // ============================================================================
@@ -63,6 +74,7 @@ function createDefaultConfig(): TcpRelayConfig {
     wsPath: '/orders',
     tcpHost: 'localhost',
     tcpPort: 8080,
+    instrumentsFile: null,
   };
 }
 
@@ -90,10 +102,6 @@ export function createTcpRelay(
 
   let httpServer: Server | null = null;
   let wss: WebSocketServer | null = null;
-  let tcpSocket: Socket | null = null;
-  let tcpConnected = false;
-  let tcpReconnectAttempts = 0;
-  let tcpReconnectTimeoutId: ReturnType<typeof setTimeout> | null = null;
 
   // Client management (fixed-size array)
   const clients: (ClientState | null)[] = new Array(MAX_CLIENTS).fill(null);
@@ -104,9 +112,6 @@ export function createTcpRelay(
   let bytesFromClients = 0;
   let bytesToClients = 0;
 
-  // TCP receive buffer for length-prefixed framing
-  let tcpReceiveBuffer: Buffer = Buffer.alloc(0);
-
   // --------------------------------------------------------------------------
   // Client Management
   // --------------------------------------------------------------------------
@@ -115,9 +120,17 @@ export function createTcpRelay(
     // Find empty slot (bounded loop)
     for (let i = 0; i < MAX_CLIENTS; i += 1) {
       if (clients[i] === null) {
+        const id = clientIdCounter;
         const client: ClientState = {
-          id: clientIdCounter,
+          id,
           ws,
+          session: createEngineSession(
+            { id, tcpHost: config.tcpHost, tcpPort: config.tcpPort },
+            {
+              onMessage: (data: Buffer) => sendToClient(client, data),
+              onFailed: () => ws.close(1011, 'Engine unavailable'),
+            }
+          ),
         };
         clientIdCounter += 1;
         clients[i] = client;
@@ -135,6 +148,7 @@ export function createTcpRelay(
         break;
       }
     }
+    client.session.close();
   }
 
   function getClientCount(): number {
@@ -147,180 +161,44 @@ export function createTcpRelay(
     return count;
   }
 
-  // --------------------------------------------------------------------------
-  // WebSocket -> TCP (add length prefix for TCP)
-  // --------------------------------------------------------------------------
-
-  function forwardToTcp(data: Buffer): void {
-    if (tcpSocket === null || !tcpConnected) {
-      console.warn('TCP not connected, dropping message');
-      return;
-    }
-
-    // Add length prefix for TCP framing (big-endian, matching Zig server)
-    const framed = Buffer.alloc(LENGTH_PREFIX_SIZE + data.length);
-    framed.writeUInt32BE(data.length, 0);
-    data.copy(framed, LENGTH_PREFIX_SIZE);
-
-    try {
-      tcpSocket.write(framed);
-      messagesRelayed += 1;
-    } catch (err) {
-      console.error('Failed to write to TCP:', err);
-    }
-  }
-
-  // --------------------------------------------------------------------------
-  // TCP -> WebSocket (strip length prefix, send raw to WS)
-  // --------------------------------------------------------------------------
-
-  function broadcastToClients(data: Buffer): void {
-    // Bounded loop
+  function getSessionsConnected(): number {
+    let count = 0;
     for (let i = 0; i < MAX_CLIENTS; i += 1) {
       const client = clients[i];
-      if (client === null) {
-        continue;
-      }
-
-      if (client.ws.readyState !== WebSocket.OPEN) {
-        continue;
-      }
-
-      try {
-        // Send raw message - WebSocket has its own framing
-        client.ws.send(data);
-        bytesToClients += data.length;
-      } catch (err) {
-        console.error(`Failed to send to client ${client.id}:`, err);
+      if (client !== null && client.session.isConnected()) {
+        count += 1;
       }
     }
+    return count;
   }
 
-  function processTcpBuffer(): void {
-    // Bounded loop: process up to 100 messages per call
-    let iterations = 0;
-    const maxIterations = 100;
-
-    while (iterations < maxIterations) {
-      iterations += 1;
-
-      // Need at least length prefix
-      if (tcpReceiveBuffer.length < LENGTH_PREFIX_SIZE) {
-        break;
-      }
-
-      const messageLength = tcpReceiveBuffer.readUInt32BE(0);
-
-      // Sanity check
-      if (messageLength > MAX_MESSAGE_SIZE) {
-        console.error(`TCP: invalid message length ${messageLength}`);
-        tcpReceiveBuffer = Buffer.alloc(0);
-        break;
-      }
-
-      const totalLength = LENGTH_PREFIX_SIZE + messageLength;
-
-      // Wait for complete message
-      if (tcpReceiveBuffer.length < totalLength) {
-        break;
-      }
-
-      // Extract message payload (without length prefix)
-      const messageData = Buffer.from(
-        tcpReceiveBuffer.subarray(LENGTH_PREFIX_SIZE, totalLength)
-      );
-
-      // Update buffer
-      tcpReceiveBuffer = tcpReceiveBuffer.subarray(totalLength);
+  // --------------------------------------------------------------------------
+  // WebSocket -> TCP (session adds length prefix)
+  // --------------------------------------------------------------------------
 
-      // Broadcast raw payload to all WebSocket clients
-      broadcastToClients(messageData);
+  function forwardToEngine(client: ClientState, data: Buffer): void {
+    if (client.session.send(data)) {
       messagesRelayed += 1;
     }
   }
 
   // --------------------------------------------------------------------------
-  // TCP Connection
+  // TCP -> WebSocket (session strips length prefix, send raw to owner)
   // --------------------------------------------------------------------------
 
-  function connectTcp(): void {
-    if (tcpSocket !== null) {
-      return;
-    }
-
-    console.log(`Connecting to TCP ${config.tcpHost}:${config.tcpPort}...`);
-
-    tcpSocket = createConnection({
-      host: config.tcpHost,
-      port: config.tcpPort,
-    });
-
-    // Connection timeout
-    const timeoutId = setTimeout(() => {
-      if (!tcpConnected && tcpSocket !== null) {
-        console.error('TCP connection timeout');
-        tcpSocket.destroy();
-      }
-    }, TCP_CONNECT_TIMEOUT_MS);
-
-    tcpSocket.on('connect', () => {
-      clearTimeout(timeoutId);
-      tcpConnected = true;
-      tcpReconnectAttempts = 0;
-      tcpReceiveBuffer = Buffer.alloc(0);
-      console.log(`TCP connected to ${config.tcpHost}:${config.tcpPort}`);
-    });
-
-    tcpSocket.on('data', (data: Buffer) => {
-      // Append to receive buffer
-      tcpReceiveBuffer = Buffer.concat([tcpReceiveBuffer, data]);
-      processTcpBuffer();
-    });
-
-    tcpSocket.on('close', () => {
-      clearTimeout(timeoutId);
-      tcpConnected = false;
-      tcpSocket = null;
-      console.log('TCP connection closed');
-      scheduleTcpReconnect();
-    });
-
-    tcpSocket.on('error', (err: Error) => {
-      console.error('TCP error:', err.message);
-    });
-  }
-
-  function scheduleTcpReconnect(): void {
-    if (tcpReconnectTimeoutId !== null) {
-      return;
-    }
+  function sendToClient(client: ClientState, data: Buffer): void {
+    messagesRelayed += 1;
 
-    if (tcpReconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
-      console.error('Max TCP reconnect attempts reached');
+    if (client.ws.readyState !== WebSocket.OPEN) {
       return;
     }
 
-    tcpReconnectAttempts += 1;
-    const delay = TCP_RECONNECT_DELAY_MS * tcpReconnectAttempts;
-
-    console.log(`Scheduling TCP reconnect in ${delay}ms (attempt ${tcpReconnectAttempts})`);
-
-    tcpReconnectTimeoutId = setTimeout(() => {
-      tcpReconnectTimeoutId = null;
-      connectTcp();
-    }, delay);
-  }
-
-  function disconnectTcp(): void {
-    if (tcpReconnectTimeoutId !== null) {
-      clearTimeout(tcpReconnectTimeoutId);
-      tcpReconnectTimeoutId = null;
-    }
-
-    if (tcpSocket !== null) {
-      tcpSocket.destroy();
-      tcpSocket = null;
-      tcpConnected = false;
+    try {
+      // Send raw message - WebSocket has its own framing
+      client.ws.send(data);
+      bytesToClients += data.length;
+    } catch (err) {
+      console.error(`Failed to send to client ${client.id}:`, err);
     }
   }
 
@@ -339,12 +217,23 @@ export function createTcpRelay(
 
     console.log(`Client ${client.id} connected from ${req.socket.remoteAddress}`);
 
-    ws.on('message', (data: Buffer) => {
+    // Open this client's dedicated engine session
+    client.session.connect();
+
+    ws.on('message', (data: Buffer, isBinary: boolean) => {
+      if (!isBinary) {
+        const frame = parseControlFrame(data);
+        if (frame !== null && frame.type === ControlFrameType.PING) {
+          ws.send(encodePong(frame.argument));
+        }
+        return;
+      }
+
       bytesFromClients += data.length;
-      
+
       // WebSocket messages are already complete - forward directly to TCP
-      // The forwardToTcp function adds the length prefix for the Zig server
-      forwardToTcp(data);
+      // The engine session adds the length prefix for the Zig server
+      forwardToEngine(client, data);
     });
 
     ws.on('close', () => {
@@ -357,14 +246,34 @@ export function createTcpRelay(
     });
   }
 
+  // --------------------------------------------------------------------------
+  // HTTP
+  // --------------------------------------------------------------------------
+
+  const instrumentsEndpoint = config.instrumentsFile !== null
+    ? createInstrumentsEndpoint(config.instrumentsFile)
+    : null;
+
+  function handleHttpRequest(req: IncomingMessage, res: ServerResponse): void {
+    const path = (req.url ?? '').split('?')[0];
+
+    if (path === INSTRUMENTS_PATH && instrumentsEndpoint !== null) {
+      instrumentsEndpoint(req, res);
+      return;
+    }
+
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('Not found');
+  }
+
   // --------------------------------------------------------------------------
   // Public API
   // --------------------------------------------------------------------------
 
   async function start(): Promise<void> {
     return new Promise((resolve, reject) => {
-      // Create HTTP server
-      httpServer = createServer();
+      // Create HTTP server; plain requests can only fetch instruments
+      httpServer = createServer(handleHttpRequest);
 
       // Create WebSocket server
       wss = new WebSocketServer({
@@ -384,11 +293,13 @@ export function createTcpRelay(
           `TCP Relay listening on ws://localhost:${config.wsPort}${config.wsPath}`
         );
         console.log(
-          `Forwarding to TCP ${config.tcpHost}:${config.tcpPort}`
+          `Forwarding to TCP ${config.tcpHost}:${config.tcpPort} (one session per client)`
         );
-
-        // Connect to TCP server
-        connectTcp();
+        if (config.instrumentsFile !== null) {
+          console.log(
+            `Serving ${config.instrumentsFile} at http://localhost:${config.wsPort}${INSTRUMENTS_PATH}`
+          );
+        }
 
         resolve();
       });
@@ -401,13 +312,11 @@ export function createTcpRelay(
 
   async function stop(): Promise<void> {
     return new Promise((resolve) => {
-      // Disconnect TCP
-      disconnectTcp();
-
-      // Close all WebSocket clients
+      // Close all WebSocket clients and their engine sessions
       for (let i = 0; i < MAX_CLIENTS; i += 1) {
         const client = clients[i];
         if (client !== null) {
+          client.session.close();
           client.ws.close(1001, 'Server shutting down');
           clients[i] = null;
         }
@@ -433,9 +342,11 @@ export function createTcpRelay(
   }
 
   function getStats(): TcpRelayStats {
+    const sessionsConnected = getSessionsConnected();
     return {
       clientCount: getClientCount(),
-      tcpConnected,
+      tcpConnected: sessionsConnected > 0,
+      sessionsConnected,
       messagesRelayed,
       bytesFromClients,
       bytesToClients,
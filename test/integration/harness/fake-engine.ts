@@ -0,0 +1,215 @@
+/**
+ * Scripted fake matching engine for integration tests.
+ *
+ * Speaks the real wire protocol (length-prefixed TCP, sequenced UDP
+ * multicast) using the mock engine's codec, but instead of matching it
+ * lets each test decide what to answer. Every decoded input is recorded
+ * so tests can assert what actually reached the engine.
+ */
+
+import { createServer, type Server, type Socket } from 'node:net';
+import { createSocket, type Socket as UdpSocket } from 'node:dgram';
+
+import {
+  type EngineInput,
+  type EngineOutput,
+  type TopOfBookMessage,
+  WireCodec,
+  decodeInput,
+  encodeOutput,
+} from '../../../mock-engine/src/wire.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Decide the engine's answer to one input. */
+export type EngineScript = (input: EngineInput, sessionId: number) => EngineOutput[];
+
+export interface ReceivedInput {
+  readonly sessionId: number;
+  readonly input: EngineInput;
+}
+
+export interface FakeEngineConfig {
+  readonly tcpPort: number;
+  readonly multicastGroup: string;
+  readonly multicastPort: number;
+}
+
+export interface FakeEngine {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  setScript(script: EngineScript): void;
+  /** Send unsolicited output to a session (e.g. a later fill). */
+  send(sessionId: number, messages: EngineOutput[]): void;
+  /** Publish market data with the next sequence number. */
+  publish(message: TopOfBookMessage, codec?: WireCodec): void;
+  /** Use up sequence numbers without publishing, as if packets were lost. */
+  skipSequence(count: number): void;
+  /** Drop every TCP connection but keep listening. */
+  dropConnections(): void;
+  getReceived(): readonly ReceivedInput[];
+  getSessionCount(): number;
+}
+
+interface Session {
+  readonly id: number;
+  readonly socket: Socket;
+  buffer: Buffer;
+  codec: WireCodec;
+}
+
+// ============================================================================
+// Scripts
+// ============================================================================
+
+/** Ack every new order, cancel-ack every cancel, ignore flushes. */
+export const acceptAll: EngineScript = (input) => {
+  if (input.type === 'NEW_ORDER') {
+    return [{ type: 'ACK', symbol: input.symbol, userId: input.userId, userOrderId: input.userOrderId }];
+  }
+  if (input.type === 'CANCEL') {
+    return [{ type: 'CANCEL_ACK', symbol: input.symbol, userId: input.userId, userOrderId: input.userOrderId }];
+  }
+  return [];
+};
+
+// ============================================================================
+// Fake Engine
+// ============================================================================
+
+export function createFakeEngine(config: FakeEngineConfig): FakeEngine {
+  let server: Server | null = null;
+  let udpSocket: UdpSocket | null = null;
+  let script: EngineScript = acceptAll;
+  let sessionIdCounter = 1;
+  let sequence = BigInt(0);
+
+  const sessions = new Map<number, Session>();
+  const received: ReceivedInput[] = [];
+
+  function write(session: Session, message: EngineOutput): void {
+    const payload = encodeOutput(message, session.codec);
+    const framed = Buffer.alloc(4 + payload.length);
+    framed.writeUInt32BE(payload.length, 0);
+    payload.copy(framed, 4);
+    session.socket.write(framed);
+  }
+
+  function handleData(session: Session, data: Buffer): void {
+    session.buffer = Buffer.concat([session.buffer, data]);
+
+    while (session.buffer.length >= 4) {
+      const length = session.buffer.readUInt32BE(0);
+      if (session.buffer.length < 4 + length) {
+        break;
+      }
+
+      const decoded = decodeInput(Buffer.from(session.buffer.subarray(4, 4 + length)));
+      session.buffer = session.buffer.subarray(4 + length);
+      session.codec = decoded.codec;
+
+      if (decoded.message !== null) {
+        received.push({ sessionId: session.id, input: decoded.message });
+        for (const output of script(decoded.message, session.id)) {
+          write(session, output);
+        }
+      }
+    }
+  }
+
+  function handleConnection(socket: Socket): void {
+    const session: Session = {
+      id: sessionIdCounter,
+      socket,
+      buffer: Buffer.alloc(0),
+      codec: WireCodec.BINARY,
+    };
+    sessionIdCounter += 1;
+    sessions.set(session.id, session);
+
+    socket.on('data', (data: Buffer) => handleData(session, data));
+    socket.on('close', () => sessions.delete(session.id));
+    socket.on('error', () => {
+      // Connections are torn down deliberately by the tests
+    });
+  }
+
+  function start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      udpSocket = createSocket({ type: 'udp4', reuseAddr: true });
+      udpSocket.bind(0, '0.0.0.0', () => {
+        udpSocket?.setMulticastLoopback(true);
+
+        server = createServer(handleConnection);
+        server.on('error', reject);
+        server.listen(config.tcpPort, '127.0.0.1', () => resolve());
+      });
+    });
+  }
+
+  function dropConnections(): void {
+    sessions.forEach((session: Session) => session.socket.destroy());
+    sessions.clear();
+  }
+
+  function stop(): Promise<void> {
+    dropConnections();
+    udpSocket?.close();
+    udpSocket = null;
+
+    return new Promise((resolve) => {
+      if (server === null) {
+        resolve();
+        return;
+      }
+      server.close(() => resolve());
+      server = null;
+    });
+  }
+
+  function send(sessionId: number, messages: EngineOutput[]): void {
+    const session = sessions.get(sessionId);
+    if (session === undefined) {
+      throw new Error(`No session ${sessionId}`);
+    }
+    for (const message of messages) {
+      write(session, message);
+    }
+  }
+
+  function publish(message: TopOfBookMessage, codec: WireCodec = WireCodec.BINARY): void {
+    if (udpSocket === null) {
+      throw new Error('Fake engine not started');
+    }
+
+    sequence += BigInt(1);
+    const header = Buffer.alloc(8);
+    header.writeBigUInt64BE(sequence, 0);
+
+    udpSocket.send(
+      Buffer.concat([header, encodeOutput(message, codec)]),
+      config.multicastPort,
+      config.multicastGroup
+    );
+  }
+
+  function skipSequence(count: number): void {
+    sequence += BigInt(count);
+  }
+
+  return {
+    start,
+    stop,
+    setScript: (next: EngineScript) => {
+      script = next;
+    },
+    send,
+    publish,
+    skipSequence,
+    dropConnections,
+    getReceived: () => received,
+    getSessionCount: () => sessions.size,
+  };
+}
@@ -0,0 +1,207 @@
+/**
+ * Full pipeline on loopback: fake engine -> TCP and multicast relays ->
+ * headless order manager -> store.
+ *
+ * Every piece except the engine is the production code. Ports are picked
+ * fresh per pipeline so test files can run one after another without
+ * waiting for sockets to be released.
+ */
+
+import { createServer } from 'node:net';
+
+import { createTcpRelay, type TcpRelay, type TcpRelayStats } from '../../../relay/src/tcp-relay.js';
+import {
+  createMulticastRelay,
+  type MulticastRelay,
+  type MulticastRelayStats,
+} from '../../../relay/src/multicast-relay.js';
+import { createOrderManager } from '../../../client/src/node.js';
+import { type OrderManager } from '../../../client/src/client/index.js';
+import { createStore, type Store } from '../../../client/src/store/index.js';
+import { type Codec, ConnectionState } from '../../../client/src/sdk.js';
+import { createFakeEngine, type FakeEngine } from './fake-engine.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MULTICAST_GROUP = '239.255.0.99';
+const DEFAULT_WAIT_MS = 5000;
+const POLL_MS = 20;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function getFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.on('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const address = probe.address();
+      const port = typeof address === 'object' && address !== null ? address.port : 0;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+/** Poll until `condition` holds; fails with `description` on timeout. */
+export function waitFor(
+  condition: () => boolean,
+  description: string,
+  timeoutMs: number = DEFAULT_WAIT_MS
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const startedAt = Date.now();
+    const intervalId = setInterval(() => {
+      if (condition()) {
+        clearInterval(intervalId);
+        resolve();
+      } else if (Date.now() - startedAt > timeoutMs) {
+        clearInterval(intervalId);
+        reject(new Error(`Timed out waiting for ${description}`));
+      }
+    }, POLL_MS);
+  });
+}
+
+// ============================================================================
+// Pipeline
+// ============================================================================
+
+export interface PipelineOptions {
+  readonly codec: Codec;
+  readonly userId?: number;
+  readonly ackTimeoutMs?: number;
+  readonly heartbeatIntervalMs?: number;
+}
+
+export interface Pipeline {
+  readonly engine: FakeEngine;
+  readonly store: Store;
+  readonly orderManager: OrderManager;
+  stopRelay(): Promise<void>;
+  startRelay(): Promise<void>;
+  getRelayStats(): TcpRelayStats | null;
+  getMarketDataRelayStats(): MulticastRelayStats;
+  /** Connect a second client that joins the market data feed late. */
+  joinMarketData(): Promise<Store>;
+  /** Resolves once the orders and market data connections are up. */
+  waitForConnected(): Promise<void>;
+  stop(): Promise<void>;
+}
+
+export async function startPipeline(options: PipelineOptions): Promise<Pipeline> {
+  const enginePort = await getFreePort();
+  const multicastPort = await getFreePort();
+  const ordersWsPort = await getFreePort();
+  const marketDataWsPort = await getFreePort();
+
+  const engine = createFakeEngine({
+    tcpPort: enginePort,
+    multicastGroup: MULTICAST_GROUP,
+    multicastPort,
+  });
+  await engine.start();
+
+  function createRelay(): TcpRelay {
+    return createTcpRelay({ wsPort: ordersWsPort, tcpHost: '127.0.0.1', tcpPort: enginePort });
+  }
+
+  let tcpRelay: TcpRelay | null = createRelay();
+  await tcpRelay.start();
+
+  const multicastRelay: MulticastRelay = createMulticastRelay({
+    wsPort: marketDataWsPort,
+    multicastGroup: MULTICAST_GROUP,
+    multicastPort,
+  });
+  await multicastRelay.start();
+
+  const store = createStore();
+  store.setUserId(options.userId ?? 1);
+
+  const orderManager = createOrderManager(store, {
+    host: '127.0.0.1',
+    ordersPort: ordersWsPort,
+    marketDataPort: marketDataWsPort,
+    codec: options.codec,
+    ackTimeoutMs: options.ackTimeoutMs,
+    heartbeatIntervalMs: options.heartbeatIntervalMs,
+  });
+
+  function waitForConnected(): Promise<void> {
+    return waitFor(() => {
+      const connection = store.getConnection();
+      return (
+        connection.ordersState === ConnectionState.CONNECTED &&
+        connection.marketDataState === ConnectionState.CONNECTED &&
+        engine.getSessionCount() > 0
+      );
+    }, 'client, relay and engine to connect');
+  }
+
+  orderManager.connect();
+  await waitForConnected();
+
+  async function stopRelay(): Promise<void> {
+    if (tcpRelay !== null) {
+      await tcpRelay.stop();
+      tcpRelay = null;
+    }
+  }
+
+  async function startRelay(): Promise<void> {
+    tcpRelay = createRelay();
+    await tcpRelay.start();
+  }
+
+  function getRelayStats(): TcpRelayStats | null {
+    return tcpRelay !== null ? tcpRelay.getStats() : null;
+  }
+
+  function getMarketDataRelayStats(): MulticastRelayStats {
+    return multicastRelay.getStats();
+  }
+
+  const lateJoiners: OrderManager[] = [];
+
+  async function joinMarketData(): Promise<Store> {
+    const lateStore = createStore();
+    const lateManager = createOrderManager(lateStore, {
+      host: '127.0.0.1',
+      ordersPort: ordersWsPort,
+      marketDataPort: marketDataWsPort,
+      codec: options.codec,
+    });
+    lateJoiners.push(lateManager);
+
+    lateManager.connect();
+    await waitFor(
+      () => lateStore.getConnection().marketDataState === ConnectionState.CONNECTED,
+      'late joiner to connect'
+    );
+    return lateStore;
+  }
+
+  async function stop(): Promise<void> {
+    lateJoiners.forEach((manager) => manager.destroy());
+    orderManager.destroy();
+    await stopRelay();
+    await multicastRelay.stop();
+    await engine.stop();
+  }
+
+  return {
+    engine,
+    store,
+    orderManager,
+    stopRelay,
+    startRelay,
+    getRelayStats,
+    getMarketDataRelayStats,
+    joinMarketData,
+    waitForConnected,
+    stop,
+  };
+}
@@ -0,0 +1,448 @@
+/**
+ * End-to-end scenarios: headless order manager -> relays -> fake engine
+ * and back, asserting on the client's store.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  Codec,
+  Side,
+  ConnectionState,
+  OrderStatus,
+} from '../../client/src/sdk.js';
+import { AckOutcome, CancelOutcome, LatencyMetric } from '../../client/src/client/index.js';
+import { type EngineInput } from '../../mock-engine/src/wire.js';
+import { acceptAll } from './harness/fake-engine.js';
+import { startPipeline, waitFor, type Pipeline } from './harness/pipeline.js';
+
+const USER_ID = 1;
+const COUNTERPARTY_ID = 99;
+
+function newOrders(pipeline: Pipeline): EngineInput[] {
+  return pipeline.engine
+    .getReceived()
+    .map((r) => r.input)
+    .filter((input) => input.type === 'NEW_ORDER');
+}
+
+// ============================================================================
+// Order Flow (both codecs)
+// ============================================================================
+
+describe.each([Codec.BINARY, Codec.CSV])('order flow over %s', (codec) => {
+  let pipeline: Pipeline;
+
+  beforeEach(async () => {
+    pipeline = await startPipeline({ codec, userId: USER_ID });
+  });
+
+  afterEach(async () => {
+    await pipeline.stop();
+  });
+
+  it('acks an order and delivers it to the engine intact', async () => {
+    const handle = pipeline.orderManager.placeOrder('AAPL', Side.BUY, 150.25, 100);
+    const result = await handle.acknowledged;
+
+    expect(result.outcome).toBe(AckOutcome.ACKED);
+    expect(pipeline.store.getOrder(USER_ID, handle.userOrderId)?.status).toBe(OrderStatus.ACKED);
+    expect(newOrders(pipeline)).toEqual([{
+      type: 'NEW_ORDER',
+      symbol: 'AAPL',
+      userId: USER_ID,
+      userOrderId: handle.userOrderId,
+      side: 'BUY',
+      price: 15025,
+      quantity: 100,
+    }]);
+  });
+
+  it('applies partial fills to the order, trades and position', async () => {
+    let sessionId = 0;
+    pipeline.engine.setScript((input, session) => {
+      if (input.type !== 'NEW_ORDER') {
+        return acceptAll(input, session);
+      }
+      sessionId = session;
+      return [
+        { type: 'ACK', symbol: input.symbol, userId: input.userId, userOrderId: input.userOrderId },
+        {
+          type: 'TRADE',
+          symbol: input.symbol,
+          buyUserId: input.userId,
+          buyOrderId: input.userOrderId,
+          sellUserId: COUNTERPARTY_ID,
+          sellOrderId: 1,
+          price: 15025,
+          quantity: 40,
+        },
+      ];
+    });
+
+    const handle = pipeline.orderManager.placeOrder('AAPL', Side.BUY, 150.25, 100);
+    const id = handle.userOrderId;
+
+    await waitFor(
+      () => pipeline.store.getOrder(USER_ID, id)?.status === OrderStatus.PARTIAL,
+      'partial fill'
+    );
+    expect(pipeline.store.getOrder(USER_ID, id)?.filledQuantity).toBe(40);
+
+    // The rest fills later at a better price
+    pipeline.engine.send(sessionId, [{
+      type: 'TRADE',
+      symbol: 'AAPL',
+      buyUserId: USER_ID,
+      buyOrderId: id,
+      sellUserId: COUNTERPARTY_ID,
+      sellOrderId: 2,
+      price: 15000,
+      quantity: 60,
+    }]);
+
+    await waitFor(
+      () => pipeline.store.getOrder(USER_ID, id)?.status === OrderStatus.FILLED,
+      'complete fill'
+    );
+
+    const trades = pipeline.store.getTrades();
+    expect(trades.map((t) => [t.price, t.quantity])).toEqual(
+      expect.arrayContaining([[150.25, 40], [150, 60]])
+    );
+    expect(trades.every((t) => t.side === Side.BUY && t.userOrderId === id)).toBe(true);
+
+    const position = pipeline.store.getPosition('AAPL');
+    expect(position?.netQuantity).toBe(100);
+    expect(position?.avgBuyPrice).toBeCloseTo((150.25 * 40 + 150 * 60) / 100, 6);
+  });
+
+  it('surfaces engine rejects without touching positions', async () => {
+    pipeline.engine.setScript((input, session) => {
+      if (input.type !== 'NEW_ORDER') {
+        return acceptAll(input, session);
+      }
+      return [{
+        type: 'REJECT',
+        symbol: input.symbol,
+        userId: input.userId,
+        userOrderId: input.userOrderId,
+        reason: 2, // INVALID_PRICE
+      }];
+    });
+
+    const handle = pipeline.orderManager.placeOrder('AAPL', Side.SELL, 150.25, 10);
+    const result = await handle.acknowledged;
+
+    expect(result.outcome).toBe(AckOutcome.REJECTED);
+    expect(pipeline.store.getOrder(USER_ID, handle.userOrderId)?.status).toBe(OrderStatus.REJECTED);
+    expect(pipeline.store.getPosition('AAPL')).toBeNull();
+  });
+
+  it('routes acks and fills to each account', async () => {
+    const SECOND_ID = 2;
+    let restingBuyId = 0;
+    pipeline.engine.setScript((input, session) => {
+      if (input.type !== 'NEW_ORDER' || input.side === 'BUY') {
+        if (input.type === 'NEW_ORDER') {
+          restingBuyId = input.userOrderId;
+        }
+        return acceptAll(input, session);
+      }
+      return [
+        { type: 'ACK', symbol: input.symbol, userId: input.userId, userOrderId: input.userOrderId },
+        {
+          type: 'TRADE',
+          symbol: input.symbol,
+          buyUserId: USER_ID,
+          buyOrderId: restingBuyId,
+          sellUserId: input.userId,
+          sellOrderId: input.userOrderId,
+          price: 15025,
+          quantity: 10,
+        },
+      ];
+    });
+    pipeline.store.addAccount(SECOND_ID);
+
+    const buy = pipeline.orderManager.placeOrder('AAPL', Side.BUY, 150.25, 10);
+    await buy.acknowledged;
+    const sell = pipeline.orderManager.placeOrder('AAPL', Side.SELL, 150.25, 10, SECOND_ID);
+    expect((await sell.acknowledged).outcome).toBe(AckOutcome.ACKED);
+
+    await waitFor(
+      () => pipeline.store.getOrder(SECOND_ID, sell.userOrderId)?.status === OrderStatus.FILLED,
+      'second account fill'
+    );
+
+    expect(pipeline.store.getOrder(USER_ID, buy.userOrderId)?.status).toBe(OrderStatus.FILLED);
+    expect(pipeline.store.getPosition('AAPL', USER_ID)?.netQuantity).toBe(10);
+    expect(pipeline.store.getPosition('AAPL', SECOND_ID)?.netQuantity).toBe(-10);
+    expect(pipeline.store.getAggregatePositions().get('AAPL')?.netQuantity).toBe(0);
+    // Different accounts crossing is not a self-trade
+    expect(pipeline.store.getTrades().every((t) => !t.selfTrade)).toBe(true);
+  });
+
+  it('tracks client order IDs through an amend', async () => {
+    const handle = pipeline.orderManager.placeOrder(
+      'AAPL', Side.BUY, 150.25, 100, USER_ID, 'strat-1'
+    );
+    // Known before the ack arrives
+    expect(pipeline.orderManager.getOrderIdByClientOrderId('strat-1')).toBe(handle.userOrderId);
+    await handle.acknowledged;
+
+    const duplicate = pipeline.orderManager.submitOrder(
+      'AAPL', Side.BUY, 150, 10, USER_ID, 'strat-1'
+    );
+    expect(duplicate.success).toBe(false);
+    expect(duplicate.error).toContain('Duplicate client order ID');
+
+    const amend = await pipeline.orderManager.amendOrder(handle.userOrderId, 150.5, 100);
+    const replacementId = amend.replacement?.userOrderId;
+    await amend.replacement?.acknowledged;
+
+    expect(pipeline.store.getOrderByClientOrderId('strat-1')?.userOrderId).toBe(replacementId);
+    expect(pipeline.store.getOrderByClientOrderId('strat-1')?.price).toBe(150.5);
+    // The engine only ever sees numeric order IDs
+    expect(newOrders(pipeline).map((o) => o.type === 'NEW_ORDER' && o.userOrderId))
+      .toEqual([handle.userOrderId, replacementId]);
+  });
+
+  it('cancels a working order', async () => {
+    const handle = pipeline.orderManager.placeOrder('MSFT', Side.SELL, 300.5, 5);
+    await handle.acknowledged;
+
+    const result = await handle.cancel();
+
+    expect(result.outcome).toBe(CancelOutcome.CANCELLED);
+    expect(pipeline.store.getOrder(USER_ID, handle.userOrderId)?.status).toBe(OrderStatus.CANCELLED);
+
+    // Engine response times are filed under the codec the order went out in
+    const byCodec = pipeline.orderManager.getLatencyStats().byCodec;
+    expect(byCodec.map((series) => [series.metric, series.key, series.stats.count])).toEqual([
+      [LatencyMetric.ACK, codec, 1],
+      [LatencyMetric.CANCEL_ACK, codec, 1],
+    ]);
+  });
+});
+
+// ============================================================================
+// Connectivity
+// ============================================================================
+
+describe('connectivity', () => {
+  let pipeline: Pipeline;
+
+  afterEach(async () => {
+    await pipeline.stop();
+  });
+
+  it('keeps trading after the engine drops its connections', async () => {
+    pipeline = await startPipeline({ codec: Codec.BINARY, userId: USER_ID });
+
+    pipeline.engine.dropConnections();
+    await waitFor(
+      () => pipeline.getRelayStats()?.sessionsConnected === 0,
+      'relay to notice the engine went away'
+    );
+
+    // The relay queues the order until its engine session reconnects
+    const handle = pipeline.orderManager.placeOrder('AAPL', Side.BUY, 10, 1);
+    const result = await handle.acknowledged;
+
+    expect(result.outcome).toBe(AckOutcome.ACKED);
+    expect(pipeline.store.getConnection().ordersState).toBe(ConnectionState.CONNECTED);
+  });
+
+  it('reconnects through a relay restart and reconciles timed-out orders', async () => {
+    pipeline = await startPipeline({ codec: Codec.BINARY, userId: USER_ID, ackTimeoutMs: 300 });
+
+    // The engine swallows the order, so its ack times out
+    pipeline.engine.setScript((input, session) => (
+      input.type === 'NEW_ORDER' ? [] : acceptAll(input, session)
+    ));
+
+    const handle = pipeline.orderManager.placeOrder('AAPL', Side.BUY, 10, 1);
+    expect((await handle.acknowledged).outcome).toBe(AckOutcome.TIMED_OUT);
+
+    await pipeline.stopRelay();
+    await waitFor(
+      () => pipeline.store.getConnection().ordersState !== ConnectionState.CONNECTED,
+      'client to notice the relay went away'
+    );
+
+    await pipeline.startRelay();
+    await pipeline.waitForConnected();
+
+    // On reconnect the client cancels whatever it never heard back about
+    await waitFor(
+      () => pipeline.store.getOrder(USER_ID, handle.userOrderId)?.status === OrderStatus.CANCELLED,
+      'timed-out order to be reconciled'
+    );
+    expect(pipeline.engine.getReceived().map((r) => r.input)).toContainEqual({
+      type: 'CANCEL',
+      symbol: 'AAPL',
+      userId: USER_ID,
+      userOrderId: handle.userOrderId,
+    });
+  });
+
+  it('holds orders placed while disconnected and sends them on reconnect', async () => {
+    pipeline = await startPipeline({ codec: Codec.BINARY, userId: USER_ID });
+    await pipeline.stopRelay();
+    await waitFor(
+      () => pipeline.store.getConnection().ordersState !== ConnectionState.CONNECTED,
+      'client to notice the relay went away'
+    );
+
+    const handle = pipeline.orderManager.placeOrder('AAPL', Side.BUY, 10, 1);
+    expect(pipeline.store.getOrder(USER_ID, handle.userOrderId)?.status).toBe(OrderStatus.QUEUED);
+    expect(pipeline.store.getConnection().queuedMessages).toBe(1);
+
+    await pipeline.startRelay();
+
+    expect((await handle.acknowledged).outcome).toBe(AckOutcome.ACKED);
+    expect(pipeline.store.getOrder(USER_ID, handle.userOrderId)?.status).toBe(OrderStatus.ACKED);
+    expect(pipeline.store.getConnection().queuedMessages).toBe(0);
+  });
+
+  it('drops the queue on request so nothing replays', async () => {
+    pipeline = await startPipeline({ codec: Codec.BINARY, userId: USER_ID });
+    await pipeline.stopRelay();
+    await waitFor(
+      () => pipeline.store.getConnection().ordersState !== ConnectionState.CONNECTED,
+      'client to notice the relay went away'
+    );
+
+    const handle = pipeline.orderManager.placeOrder('AAPL', Side.BUY, 10, 1);
+    expect(pipeline.orderManager.dropQueue()).toBe(1);
+
+    expect((await handle.acknowledged).outcome).toBe(AckOutcome.DROPPED);
+    expect(pipeline.store.getOrder(USER_ID, handle.userOrderId)?.status).toBe(OrderStatus.DROPPED);
+
+    await pipeline.startRelay();
+    await pipeline.waitForConnected();
+    expect(newOrders(pipeline)).toEqual([]);
+  });
+
+  it('measures heartbeat latency on both connections without reaching the engine', async () => {
+    pipeline = await startPipeline({ codec: Codec.BINARY, userId: USER_ID, heartbeatIntervalMs: 50 });
+
+    await waitFor(() => {
+      const connection = pipeline.store.getConnection();
+      return (connection.ordersLatency?.samples ?? 0) >= 3 &&
+        (connection.marketDataLatency?.samples ?? 0) >= 3;
+    }, 'heartbeat round trips');
+
+    const latency = pipeline.store.getConnection().ordersLatency;
+    expect(latency?.p50Ms).toBeGreaterThanOrEqual(0);
+    expect(latency?.p99Ms).toBeGreaterThanOrEqual(latency?.p50Ms ?? 0);
+    // The relay answers pings itself
+    expect(pipeline.engine.getReceived()).toEqual([]);
+    expect(pipeline.getRelayStats()?.bytesFromClients).toBe(0);
+  });
+});
+
+// ============================================================================
+// Market Data
+// ============================================================================
+
+describe('market data', () => {
+  let pipeline: Pipeline;
+
+  beforeEach(async () => {
+    pipeline = await startPipeline({ codec: Codec.BINARY, userId: USER_ID });
+  });
+
+  afterEach(async () => {
+    await pipeline.stop();
+  });
+
+  it('applies top of book from the multicast feed', async () => {
+    pipeline.engine.publish({
+      type: 'TOP_OF_BOOK',
+      symbol: 'AAPL',
+      side: 'BUY',
+      price: 15025,
+      quantity: 300,
+    });
+
+    await waitFor(
+      () => pipeline.store.getTopOfBook('AAPL')?.bidPrice === 150.25,
+      'top of book',
+      1000
+    );
+    expect(pipeline.store.getTopOfBook('AAPL')?.bidQuantity).toBe(300);
+    expect(pipeline.store.getTopOfBook('AAPL')?.stale).toBe(false);
+  });
+
+  it('marks market data stale after a sequence gap until a snapshot recovers it', async () => {
+    const publish = (price: number): void => {
+      pipeline.engine.publish({
+        type: 'TOP_OF_BOOK',
+        symbol: 'AAPL',
+        side: 'BUY',
+        price,
+        quantity: 300,
+      });
+    };
+
+    publish(15025);
+    await waitFor(() => pipeline.store.getTopOfBook('AAPL') !== null, 'first update');
+
+    pipeline.engine.skipSequence(2);
+    publish(15030);
+
+    // The relay answers the client's request straight away
+    await waitFor(
+      () => pipeline.store.getConnection().marketDataFeed?.snapshotsRequested === 1,
+      'snapshot request'
+    );
+    await waitFor(
+      () => pipeline.store.getConnection().marketDataFeed?.state === 'OK',
+      'feed to recover'
+    );
+    expect(pipeline.store.getConnection().marketDataFeed).toMatchObject({
+      gaps: 1,
+      missedMessages: 2,
+    });
+    expect(pipeline.store.getTopOfBook('AAPL')).toMatchObject({
+      bidPrice: 150.3,
+      stale: false,
+    });
+  });
+
+  it('sends late joiners the cached book before the live stream', async () => {
+    pipeline.engine.publish({
+      type: 'TOP_OF_BOOK',
+      symbol: 'AAPL',
+      side: 'BUY',
+      price: 15025,
+      quantity: 300,
+    });
+    pipeline.engine.publish({
+      type: 'TOP_OF_BOOK',
+      symbol: 'AAPL',
+      side: 'SELL',
+      price: 15030,
+      quantity: 200,
+    });
+    await waitFor(
+      () => pipeline.getMarketDataRelayStats().lastSequence === BigInt(2),
+      'relay to see both updates'
+    );
+
+    const lateStore = await pipeline.joinMarketData();
+
+    // Nothing new is published; the relay's snapshot fills the book
+    await waitFor(() => lateStore.getTopOfBook('AAPL') !== null, 'snapshot');
+    expect(lateStore.getTopOfBook('AAPL')).toMatchObject({
+      bidPrice: 150.25,
+      bidQuantity: 300,
+      askPrice: 150.3,
+      askQuantity: 200,
+      stale: false,
+    });
+    expect(lateStore.getConnection().marketDataFeed?.lastSequence).toBe(2);
+  });
+});
@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+// Integration tests only; unit tests run from each workspace.
+export default defineConfig({
+  test: {
+    include: ['test/integration/**/*.test.ts'],
+    environment: 'node',
+    testTimeout: 20000,
+    hookTimeout: 20000,
+    // Each test brings up real sockets; keep them from overlapping
+    fileParallelism: false,
+  },
+});